@@ -21,6 +21,9 @@ import ResetPasswordEnhanced from "./pages/ResetPasswordEnhanced";
 import UpdatePassword from "./pages/UpdatePassword";
 import AuthDebugPage from "./pages/AuthDebugPage";
 import PatientPortal from "./pages/PatientPortal";
+import GuardianPortal from "./pages/GuardianPortal";
+import Reminders from "./pages/Reminders";
+import Messages from "./pages/Messages";
 
 
 // Create a query client with improved error handling and retry logic
@@ -81,6 +84,13 @@ function App() {
                       </AuthProtectedRoute>
                     } />
                     
+                    {/* Parents/guardians of minor clients co-sign their forms here */}
+                    <Route path="/guardian" element={
+                      <AuthProtectedRoute allowedRoles={["guardian"]}>
+                        <GuardianPortal />
+                      </AuthProtectedRoute>
+                    } />
+                    
                     {/* Legacy route redirects - redirect old routes to the new portal */}
                     <Route path="/patient-dashboard" element={
                       <AuthProtectedRoute allowedRoles={["client"]} blockNewClients={true}>
@@ -107,6 +117,16 @@ function App() {
                         <PatientPortal />
                       </AuthProtectedRoute>
                     } />
+                    <Route path="/messages" element={
+                      <AuthProtectedRoute allowedRoles={["client"]} blockNewClients={true}>
+                        <Messages />
+                      </AuthProtectedRoute>
+                    } />
+                    <Route path="/reminders" element={
+                      <AuthProtectedRoute allowedRoles={["client"]} blockNewClients={true}>
+                        <Reminders />
+                      </AuthProtectedRoute>
+                    } />
                     
                     {/* Debug routes */}
                     <Route path="/debug/auth-public" element={<AuthDebugPage />} />
@@ -183,13 +183,25 @@ const AuthProtectedRoute: React.FC<AuthProtectedRouteProps> = ({
     return <Navigate to={redirectPath} state={{ from: location }} replace />;
   }
 
-  // User is authenticated, check role - we only accept client role in this application
-  if (userRole !== 'client') {
+  // User is authenticated, check role - patients, plus the parents/guardians of minor patients
+  if (!userRole || !allowedRoles.includes(userRole)) {
+    if (userRole === 'guardian') {
+      return <Navigate to="/guardian" replace />;
+    }
+    if (userRole === 'client') {
+      return <Navigate to="/patient-portal" replace />;
+    }
     toast.warning("This application is for patients only");
     console.log("[AuthProtectedRoute] User is not a client, redirecting to login");
     return <Navigate to="/login" replace />;
   }
 
+  // The profile checks below only apply to clients
+  if (userRole !== 'client') {
+    sessionStorage.setItem('redirectCount', '0');
+    return <>{children}</>;
+  }
+
   // Enhanced client status check with explicit profile completion validation
   const isProfileComplete = clientProfile?.client_is_profile_complete === true;
   const hasCompletedStatus = clientStatus === 'Profile Complete' || clientStatus === 'Therapist Selected' || clientStatus === 'Active';
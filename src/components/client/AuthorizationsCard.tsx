@@ -0,0 +1,398 @@
+import React, { useState } from "react";
+import { ClipboardCheck, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { saveInsuranceAuthorization, updateAuthorizationRenewalRequest } from "@/integrations/supabase/client";
+import { useInsuranceAuthorizations } from "@/hooks/useInsuranceAuthorizations";
+import {
+  AuthorizationProgram,
+  AuthorizationRenewalRequest,
+  InsuranceAuthorization,
+  InsuranceAuthorizationInput,
+  RenewalRequestStatus,
+  TRICARE_REGIONS,
+  TricareRegion
+} from "@/types/authorizations";
+import {
+  AUTHORIZATION_PROGRAM_LABELS,
+  AUTHORIZATION_STATUS_LABELS,
+  RENEWAL_REQUEST_STATUS_LABELS,
+  formatAuthorizationDate,
+  getAuthorizationStatus,
+  getRemainingVisits
+} from "@/utils/authorizations";
+
+interface AuthorizationsCardProps {
+  clientId: string;
+  program: AuthorizationProgram;
+  // The client's timezone, so statuses follow the client's calendar day rather than the viewer's
+  timezone: string | null | undefined;
+  // Prefills the number of a new authorization, e.g. the referral number given at signup
+  defaultAuthorizationNumber?: string | null;
+  defaultRegion?: string | null;
+}
+
+interface AuthorizationDraft {
+  authorization_number: string;
+  region: string;
+  seoc_number: string;
+  authorized_visits: string;
+  visits_used: string;
+  start_date: string;
+  end_date: string;
+  notes: string;
+}
+
+const PROGRAM_TITLES: Record<AuthorizationProgram, string> = {
+  tricare: "TRICARE Referrals",
+  va_ccn: "VA Community Care Authorizations"
+};
+
+const NUMBER_LABELS: Record<AuthorizationProgram, string> = {
+  tricare: "Referral number",
+  va_ccn: "Authorization number"
+};
+
+// Where staff can move a client's renewal request next
+const NEXT_RENEWAL_STATUSES: Record<RenewalRequestStatus, RenewalRequestStatus[]> = {
+  requested: ["submitted", "denied"],
+  submitted: ["approved", "denied"],
+  approved: [],
+  denied: []
+};
+
+const RENEWAL_ACTION_LABELS: Record<RenewalRequestStatus, string> = {
+  requested: "Reopen",
+  submitted: "Mark sent to VA",
+  approved: "Mark approved",
+  denied: "Mark denied"
+};
+
+const toDraft = (authorization: InsuranceAuthorization): AuthorizationDraft => ({
+  authorization_number: authorization.authorization_number,
+  region: authorization.region || "",
+  seoc_number: authorization.seoc_number || "",
+  authorized_visits: String(authorization.authorized_visits),
+  visits_used: String(authorization.visits_used),
+  start_date: authorization.start_date,
+  end_date: authorization.end_date,
+  notes: authorization.notes || ""
+});
+
+const isTricareRegion = (value: string): value is TricareRegion =>
+  (TRICARE_REGIONS as readonly string[]).includes(value);
+
+/**
+ * Staff view of a client's referrals or authorizations for one program, where new ones are
+ * recorded and counts corrected. Visits are counted automatically as sessions are documented.
+ */
+const AuthorizationsCard: React.FC<AuthorizationsCardProps> = ({
+  clientId,
+  program,
+  timezone,
+  defaultAuthorizationNumber,
+  defaultRegion
+}) => {
+  const { authorizations, renewalRequests, loading, refresh } = useInsuranceAuthorizations(clientId);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [draft, setDraft] = useState<AuthorizationDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [updatingRequestId, setUpdatingRequestId] = useState<string | null>(null);
+
+  const programAuthorizations = authorizations.filter(authorization => authorization.program === program);
+  const label = AUTHORIZATION_PROGRAM_LABELS[program];
+  const numberLabel = NUMBER_LABELS[program];
+
+  const startNew = () => {
+    setEditingId("new");
+    setDraft({
+      authorization_number: programAuthorizations.length === 0 ? defaultAuthorizationNumber || "" : "",
+      region: defaultRegion && isTricareRegion(defaultRegion) ? defaultRegion : "",
+      seoc_number: "",
+      authorized_visits: "",
+      visits_used: "0",
+      start_date: "",
+      end_date: "",
+      notes: ""
+    });
+  };
+
+  const startEdit = (authorization: InsuranceAuthorization) => {
+    setEditingId(authorization.id);
+    setDraft(toDraft(authorization));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const updateDraft = (field: keyof AuthorizationDraft, value: string) => {
+    setDraft(current => (current ? { ...current, [field]: value } : current));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const authorizedVisits = parseInt(draft.authorized_visits, 10);
+    const visitsUsed = parseInt(draft.visits_used || "0", 10);
+
+    if (!draft.authorization_number.trim()) {
+      toast.error(`Please enter the ${numberLabel.toLowerCase()}`);
+      return;
+    }
+    if (program === "va_ccn" && !draft.seoc_number.trim()) {
+      toast.error("Please enter the SEOC number");
+      return;
+    }
+    if (!Number.isInteger(authorizedVisits) || authorizedVisits < 1) {
+      toast.error("Authorized visits must be at least 1");
+      return;
+    }
+    if (!Number.isInteger(visitsUsed) || visitsUsed < 0) {
+      toast.error("Visits used cannot be negative");
+      return;
+    }
+    if (!draft.start_date || !draft.end_date || draft.end_date < draft.start_date) {
+      toast.error("Please enter a start date and an end date on or after it");
+      return;
+    }
+
+    const input: InsuranceAuthorizationInput = {
+      program,
+      authorization_number: draft.authorization_number.trim(),
+      region: program === "tricare" && isTricareRegion(draft.region) ? draft.region : null,
+      seoc_number: program === "va_ccn" ? draft.seoc_number.trim() : null,
+      authorized_visits: authorizedVisits,
+      visits_used: visitsUsed,
+      start_date: draft.start_date,
+      end_date: draft.end_date,
+      notes: draft.notes.trim() || null
+    };
+
+    setIsSaving(true);
+    const result = await saveInsuranceAuthorization(clientId, input, editingId === "new" ? undefined : editingId || undefined);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(`Failed to save the ${label}`);
+      return;
+    }
+
+    toast.success(program === "tricare" ? "Referral saved" : "Authorization saved");
+    cancelEdit();
+    refresh();
+  };
+
+  const handleRenewalStatus = async (request: AuthorizationRenewalRequest, status: RenewalRequestStatus) => {
+    setUpdatingRequestId(request.id);
+    const result = await updateAuthorizationRenewalRequest(request.id, status, request.staff_notes);
+    setUpdatingRequestId(null);
+
+    if (!result.success) {
+      toast.error("Failed to update the renewal request");
+      return;
+    }
+
+    toast.success(RENEWAL_REQUEST_STATUS_LABELS[status]);
+    refresh();
+  };
+
+  const renderRenewalRequests = (authorization: InsuranceAuthorization) => {
+    const requests = renewalRequests.filter(request => request.authorization_id === authorization.id);
+    if (requests.length === 0) return null;
+
+    return (
+      <div className="space-y-2 border-t pt-2 mt-2">
+        {requests.map(request => (
+          <div key={request.id} className="flex items-start justify-between gap-2">
+            <div className="space-y-0.5">
+              <p>
+                {RENEWAL_REQUEST_STATUS_LABELS[request.status]}
+                <span className="text-muted-foreground"> · requested {formatAuthorizationDate(request.created_at.slice(0, 10))}</span>
+              </p>
+              {request.reason && <p className="text-muted-foreground">"{request.reason}"</p>}
+            </div>
+            <div className="flex gap-1">
+              {NEXT_RENEWAL_STATUSES[request.status].map(status => (
+                <Button
+                  key={status}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRenewalStatus(request, status)}
+                  disabled={updatingRequestId === request.id}
+                >
+                  {RENEWAL_ACTION_LABELS[status]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderForm = () => draft && (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="authorization-number">{numberLabel}</Label>
+          <Input
+            id="authorization-number"
+            value={draft.authorization_number}
+            onChange={(e) => updateDraft("authorization_number", e.target.value)}
+          />
+        </div>
+        {program === "tricare" && (
+          <div className="space-y-1">
+            <Label>Region</Label>
+            <Select value={draft.region} onValueChange={(value) => updateDraft("region", value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select region" />
+              </SelectTrigger>
+              <SelectContent>
+                {TRICARE_REGIONS.map(region => (
+                  <SelectItem key={region} value={region}>{region}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {program === "va_ccn" && (
+          <div className="space-y-1">
+            <Label htmlFor="authorization-seoc">SEOC number</Label>
+            <Input
+              id="authorization-seoc"
+              value={draft.seoc_number}
+              onChange={(e) => updateDraft("seoc_number", e.target.value)}
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="authorized-visits">Authorized visits</Label>
+          <Input
+            id="authorized-visits"
+            type="number"
+            min={1}
+            value={draft.authorized_visits}
+            onChange={(e) => updateDraft("authorized_visits", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="visits-used">Visits used</Label>
+          <Input
+            id="visits-used"
+            type="number"
+            min={0}
+            value={draft.visits_used}
+            onChange={(e) => updateDraft("visits_used", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="authorization-start">Start date</Label>
+          <Input
+            id="authorization-start"
+            type="date"
+            value={draft.start_date}
+            onChange={(e) => updateDraft("start_date", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="authorization-end">End date</Label>
+          <Input
+            id="authorization-end"
+            type="date"
+            value={draft.end_date}
+            onChange={(e) => updateDraft("end_date", e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="authorization-notes">Notes</Label>
+        <Textarea
+          id="authorization-notes"
+          value={draft.notes}
+          onChange={(e) => updateDraft("notes", e.target.value)}
+          rows={2}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={cancelEdit} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            {PROGRAM_TITLES[program]}
+          </CardTitle>
+          <CardDescription>A visit is counted each time one of the client's sessions is documented</CardDescription>
+        </div>
+        {editingId === null && (
+          <Button type="button" variant="outline" size="sm" onClick={startNew}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {editingId === "new" && renderForm()}
+
+        {loading && programAuthorizations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : programAuthorizations.length === 0 && editingId === null ? (
+          <p className="text-sm text-muted-foreground">No {label}s on file</p>
+        ) : (
+          programAuthorizations.map(authorization => (
+            editingId === authorization.id ? (
+              <React.Fragment key={authorization.id}>{renderForm()}</React.Fragment>
+            ) : (
+              <div key={authorization.id} className="rounded-md border p-3 flex items-start justify-between gap-3">
+                <div className="space-y-1 text-sm flex-1">
+                  <p className="font-medium">#{authorization.authorization_number}</p>
+                  <p className="text-muted-foreground">
+                    {formatAuthorizationDate(authorization.start_date)} – {formatAuthorizationDate(authorization.end_date)}
+                    {authorization.region && ` · ${authorization.region}`}
+                    {authorization.seoc_number && ` · SEOC ${authorization.seoc_number}`}
+                  </p>
+                  <p>
+                    {authorization.visits_used} of {authorization.authorized_visits} visits used, {getRemainingVisits(authorization)} left
+                  </p>
+                  {authorization.notes && <p className="text-muted-foreground">{authorization.notes}</p>}
+                  {renderRenewalRequests(authorization)}
+                </div>
+                <div className="flex flex-col items-end gap-2">
+                  <Badge variant="outline">{AUTHORIZATION_STATUS_LABELS[getAuthorizationStatus(authorization, timezone)]}</Badge>
+                  {editingId === null && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(authorization)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuthorizationsCard;
@@ -6,7 +6,8 @@ import { BarChart2, ClipboardCheck, FileText, ClipboardList, Download, Calendar,
 import TreatmentPlanTemplate from "@/components/templates/TreatmentPlanTemplate";
 import SessionNoteTemplate from "@/components/templates/SessionNoteTemplate";
 import PHQ9Template from "@/components/templates/PHQ9Template";
-import PCL5Template from "@/components/templates/PCL5Template";
+import InstrumentTemplate from "@/components/templates/InstrumentTemplate";
+import SafetyEventsCard from "@/components/client/SafetyEventsCard";
 import { useClinicianData } from "@/hooks/useClinicianData";
 import { ClientDetails } from "@/types/client";
 import { fetchClinicalDocuments, getDocumentDownloadURL, CLINICAL_DOCUMENTS_BUCKET } from "@/integrations/supabase/client";
@@ -141,6 +142,10 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
       'session_note': 'Session Note',
       'phq9': 'PHQ-9 Assessment',
       'gad7': 'GAD-7 Assessment',
+      'pcl5': 'PCL-5 Assessment',
+      'audit_c': 'AUDIT-C Assessment',
+      'cssrs_screener': 'C-SSRS Screener',
+      'phq_a': 'PHQ-A Assessment',
     };
     
     return typeMap[type] || type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
@@ -152,6 +157,8 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
         
       </Card>
 
+      {clientData?.id && <SafetyEventsCard clientId={clientData.id} />}
+
       {showTreatmentPlanTemplate && <div className="animate-fade-in">
           <TreatmentPlanTemplate onClose={handleCloseTreatmentPlan} clinicianName={clinicianData?.clinician_professional_name || ''} clientData={clientData} />
         </div>}
@@ -165,7 +172,7 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
         </div>}
       
       {showPCL5Template && <div className="animate-fade-in">
-          <PCL5Template onClose={handleClosePCL5} clinicianName={clinicianData?.clinician_professional_name || ''} clientData={clientData} />
+          <InstrumentTemplate instrument="pcl5" onClose={handleClosePCL5} clinicianName={clinicianData?.clinician_professional_name || ''} clientData={clientData} clinicianId={clinicianData?.id} />
         </div>}
 
       <Card>
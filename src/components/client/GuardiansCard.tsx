@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Mail, UserX, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { fetchClientGuardians, inviteGuardian, revokeClientGuardian } from "@/integrations/supabase/client";
+import { ClientGuardian, GuardianLinkStatus } from "@/types/guardians";
+
+interface GuardiansCardProps {
+  clientId: string;
+}
+
+const STATUS_LABELS: Record<GuardianLinkStatus, string> = {
+  pending_approval: "Needs approval",
+  invited: "Invited",
+  active: "Active",
+  revoked: "Revoked"
+};
+
+/**
+ * Staff view of a minor's parents and guardians. Requests the minor made are approved here,
+ * which emails the invitation; links can be revoked at any time.
+ */
+const GuardiansCard: React.FC<GuardiansCardProps> = ({ clientId }) => {
+  const [guardians, setGuardians] = useState<ClientGuardian[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadGuardians = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchClientGuardians(clientId);
+    if (result.success) {
+      setGuardians(result.data || []);
+    } else {
+      toast.error("Failed to load guardians");
+    }
+    setIsLoading(false);
+  }, [clientId]);
+
+  useEffect(() => {
+    loadGuardians();
+  }, [loadGuardians]);
+
+  const handleApprove = async (guardian: ClientGuardian) => {
+    setUpdatingId(guardian.id);
+    const { success, error } = await inviteGuardian({
+      clientId,
+      guardianEmail: guardian.guardian_email,
+      guardianName: guardian.guardian_name,
+      relationship: guardian.relationship
+    });
+    setUpdatingId(null);
+
+    if (!success) {
+      toast.error(error || "The invitation could not be sent");
+      return;
+    }
+
+    toast.success(`Invitation sent to ${guardian.guardian_email}`);
+    loadGuardians();
+  };
+
+  const handleRevoke = async (guardian: ClientGuardian) => {
+    setUpdatingId(guardian.id);
+    const { success } = await revokeClientGuardian(guardian.id);
+    setUpdatingId(null);
+
+    if (!success) {
+      toast.error("Failed to revoke the guardian");
+      return;
+    }
+
+    toast.success(`${guardian.guardian_name} can no longer sign for this client`);
+    loadGuardians();
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Parents and Guardians
+        </CardTitle>
+        <CardDescription>
+          Guardians co-sign this client's forms. Invitations the client requests are only sent once approved here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && guardians.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading guardians...</p>
+        ) : guardians.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No parents or guardians have been requested</p>
+        ) : (
+          guardians.map(guardian => (
+            <div key={guardian.id} className="rounded-md border p-3 flex items-start justify-between gap-3">
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">
+                  {guardian.guardian_name} <span className="text-muted-foreground font-normal">· {guardian.relationship}</span>
+                </p>
+                <p className="text-muted-foreground">{guardian.guardian_email}</p>
+                <p className="text-muted-foreground">
+                  {guardian.accepted_at
+                    ? `Accepted ${format(new Date(guardian.accepted_at), "MMM d, yyyy")}`
+                    : `Requested ${format(new Date(guardian.invited_at), "MMM d, yyyy")}`}
+                </p>
+              </div>
+              <div className="flex flex-col items-end gap-2">
+                <Badge variant={guardian.status === "pending_approval" ? "destructive" : "outline"}>
+                  {STATUS_LABELS[guardian.status]}
+                </Badge>
+                <div className="flex gap-1">
+                  {guardian.status === "pending_approval" && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleApprove(guardian)}
+                      disabled={updatingId === guardian.id}
+                    >
+                      <Mail className="h-4 w-4 mr-1" />
+                      Approve and invite
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(guardian)}
+                    disabled={updatingId === guardian.id}
+                  >
+                    <UserX className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GuardiansCard;
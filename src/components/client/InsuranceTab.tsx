@@ -22,8 +22,15 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { TabProps, insuranceTypeOptions, relationshipOptions } from "@/types/client";
+import InsuranceCardPhotos from "@/components/patient/InsuranceCardPhotos";
+import { useInsuranceCards } from "@/hooks/useInsuranceCards";
+import { INSURANCE_LEVELS } from "@/types/eligibility";
+import AuthorizationsCard from "@/components/client/AuthorizationsCard";
 
 const InsuranceTab: React.FC<TabProps> = ({ isEditing, form, clientData }) => {
+  const cards = useInsuranceCards(clientData?.id);
+  const insuredLevels = INSURANCE_LEVELS.filter(level => clientData?.[`client_insurance_company_${level}`]);
+
   return (
     <>
       <Card>
@@ -188,6 +195,30 @@ const InsuranceTab: React.FC<TabProps> = ({ isEditing, form, clientData }) => {
         </CardContent>
       </Card>
 
+      {insuredLevels.length > 0 && (
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle>Insurance Card Photos</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {insuredLevels.map(level => (
+              <div key={level}>
+                <h3 className="font-medium capitalize">
+                  {level}: {clientData?.[`client_insurance_company_${level}`]}
+                </h3>
+                <InsuranceCardPhotos
+                  level={level}
+                  company={clientData?.[`client_insurance_company_${level}`]}
+                  policyNumber={clientData?.[`client_policy_number_${level}`]}
+                  cards={cards}
+                  readOnly
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {clientData?.client_vacoverage && (
         <Card className="mt-4">
           <CardHeader>
@@ -503,6 +534,20 @@ const InsuranceTab: React.FC<TabProps> = ({ isEditing, form, clientData }) => {
           </CardContent>
         </Card>
       )}
+
+      {clientData?.id && clientData.client_vacoverage === "TRICARE" && (
+        <AuthorizationsCard
+          clientId={clientData.id}
+          program="tricare"
+          timezone={clientData.client_time_zone}
+          defaultAuthorizationNumber={clientData.client_tricare_referral_number}
+          defaultRegion={clientData.client_tricare_region}
+        />
+      )}
+
+      {clientData?.id && clientData.client_vacoverage === "VA Community Care" && (
+        <AuthorizationsCard clientId={clientData.id} program="va_ccn" timezone={clientData.client_time_zone} />
+      )}
     </>
   );
 };
@@ -24,6 +24,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { cn } from "@/lib/utils";
 import { TabProps } from '@/types/client';
 import { timezoneOptions } from '@/utils/timezoneOptions';
+import GuardiansCard from '@/components/client/GuardiansCard';
 
 const PersonalInfoTab: React.FC<TabProps> = ({ 
   isEditing, 
@@ -380,6 +381,8 @@ const PersonalInfoTab: React.FC<TabProps> = ({
           </div>
         </CardContent>
       </Card>
+
+      {clientData?.id && clientData.client_minor === 'Yes' && <GuardiansCard clientId={clientData.id} />}
     </>
   );
 };
@@ -0,0 +1,160 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { fetchClientSafetyEvents, resolveClientSafetyEvent } from "@/integrations/supabase/client";
+import { ClientSafetyEvent } from "@/types/safetyEvents";
+
+interface SafetyEventsCardProps {
+  clientId: string;
+  onResolved?: () => void;
+}
+
+const SafetyEventsCard: React.FC<SafetyEventsCardProps> = ({ clientId, onResolved }) => {
+  const [events, setEvents] = useState<ClientSafetyEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchClientSafetyEvents(clientId);
+    if (result.success) {
+      setEvents(result.data || []);
+    } else {
+      toast.error("Failed to load safety events");
+    }
+    setIsLoading(false);
+  }, [clientId]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const handleResolve = async (eventId: string) => {
+    if (!resolutionNotes.trim()) {
+      toast.error("Please describe the follow-up before resolving");
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await resolveClientSafetyEvent(eventId, resolutionNotes.trim());
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error("Failed to resolve safety event");
+      return;
+    }
+
+    toast.success("Safety event resolved");
+    setResolvingId(null);
+    setResolutionNotes("");
+    loadEvents();
+    onResolved?.();
+  };
+
+  const openEvents = events.filter(event => event.status === 'open');
+
+  // Nothing to show for clients who have never had a safety event
+  if (!isLoading && events.length === 0) return null;
+
+  return (
+    <Card className={openEvents.length > 0 ? "border-destructive/50" : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-destructive" />
+          Safety Events
+        </CardTitle>
+        <CardDescription>
+          {openEvents.length > 0
+            ? `${openEvents.length} open ${openEvents.length === 1 ? 'event needs' : 'events need'} follow-up. The client stays At Risk until all are resolved.`
+            : 'All safety events have been resolved'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading safety events...</p>
+        ) : (
+          events.map(event => (
+            <div key={event.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {event.summary || `Answered PHQ-9 item 9 with a score of ${event.item_score}`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(event.created_at), 'MMM d, yyyy h:mm a')}
+                  </p>
+                </div>
+                <Badge variant={event.status === 'open' ? 'destructive' : 'secondary'}>
+                  {event.status === 'open' ? 'Open' : 'Resolved'}
+                </Badge>
+              </div>
+
+              {event.status === 'resolved' && event.resolved_at && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">
+                    Resolved {format(new Date(event.resolved_at), 'MMM d, yyyy h:mm a')}:
+                  </span>{' '}
+                  {event.resolution_notes}
+                </p>
+              )}
+
+              {event.status === 'open' && (
+                resolvingId === event.id ? (
+                  <div className="space-y-2">
+                    <Label htmlFor={`resolution-${event.id}`}>Follow-up notes</Label>
+                    <Textarea
+                      id={`resolution-${event.id}`}
+                      value={resolutionNotes}
+                      onChange={(e) => setResolutionNotes(e.target.value)}
+                      placeholder="Risk assessment completed, safety plan reviewed..."
+                      rows={3}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setResolvingId(null);
+                          setResolutionNotes("");
+                        }}
+                        disabled={isSaving}
+                      >
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleResolve(event.id)} disabled={isSaving}>
+                        {isSaving ? "Resolving..." : "Resolve"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setResolvingId(event.id);
+                        setResolutionNotes("");
+                      }}
+                    >
+                      Record follow-up
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SafetyEventsCard;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { recordDocumentSignature } from '@/integrations/supabase/client';
+import { SignatureInput } from '@/types/documentSignatures';
+import { GuardianAssignment } from '@/types/guardians';
+import { hashDocumentText } from '@/utils/documentSignatures';
+import { getGuardianSigningDocument } from '@/utils/guardianSignatures';
+import SignatureCapture from '@/components/templates/SignatureCapture';
+
+interface GuardianSignDialogProps {
+  assignment: GuardianAssignment | null;
+  guardianName?: string;
+  onClose: () => void;
+  onSigned: () => void;
+}
+
+/**
+ * Lets a guardian read and co-sign one of their minor's assigned documents. The signature is
+ * recorded against the assignment so the minor can then complete it.
+ */
+const GuardianSignDialog: React.FC<GuardianSignDialogProps> = ({
+  assignment,
+  guardianName = '',
+  onClose,
+  onSigned
+}) => {
+  const [signature, setSignature] = useState<SignatureInput | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const clientName = assignment
+    ? [assignment.client_first_name, assignment.client_last_name].filter(Boolean).join(' ')
+    : '';
+  const signingDocument = assignment ? getGuardianSigningDocument(assignment.document_name, clientName) : null;
+
+  const handleSign = async () => {
+    if (!assignment || !signingDocument) return;
+    if (!signature) {
+      toast.error('Your signature is required');
+      return;
+    }
+
+    setIsSigning(true);
+    const { success, error } = await recordDocumentSignature({
+      clientId: assignment.client_id,
+      documentType: signingDocument.documentType,
+      documentTitle: signingDocument.documentTitle,
+      documentVersion: signingDocument.documentVersion,
+      documentHash: await hashDocumentText(signingDocument.text),
+      signature,
+      signerRole: 'guardian',
+      assignmentId: assignment.assignment_id
+    });
+    setIsSigning(false);
+
+    if (!success) {
+      console.error('[GuardianSignDialog] Error recording guardian signature:', error);
+      toast.error('Your signature could not be recorded. Please try again.');
+      return;
+    }
+
+    toast.success(`You signed ${assignment.document_name} for ${clientName || 'your child'}`);
+    onSigned();
+  };
+
+  return (
+    <Dialog open={!!assignment} onOpenChange={(open) => !open && !isSigning && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{signingDocument?.documentTitle}</DialogTitle>
+          <DialogDescription>
+            Signing as parent/guardian of {clientName || 'this client'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {signingDocument && (
+          <div className="space-y-4 text-sm text-zinc-700">
+            {signingDocument.text.split('\n\n').map((block, index) => {
+              const [first, ...rest] = block.split('\n');
+              return rest.length > 0 ? (
+                <section key={index}>
+                  <h4 className="font-medium text-zinc-900 mb-1">{first}</h4>
+                  {rest.map((line, lineIndex) => <p key={lineIndex} className="mt-1">{line}</p>)}
+                </section>
+              ) : (
+                <p key={index}>{first}</p>
+              );
+            })}
+          </div>
+        )}
+
+        {assignment && (
+          <SignatureCapture
+            key={assignment.assignment_id}
+            onChange={setSignature}
+            defaultSignerName={guardianName}
+            label="Parent/Guardian Signature"
+            disabled={isSigning}
+          />
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSigning}>
+            Cancel
+          </Button>
+          <Button onClick={handleSign} disabled={isSigning || !signature}>
+            {isSigning ? 'Signing...' : 'Sign as Parent/Guardian'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GuardianSignDialog;
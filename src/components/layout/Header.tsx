@@ -5,6 +5,7 @@ import { SidebarTrigger } from '@/components/ui/sidebar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { User, Settings, LogOut, HelpCircle } from 'lucide-react';
 import { toast } from 'sonner';
+import NotificationBell from './NotificationBell';
 
 const Header = () => {
   const navigate = useNavigate();
@@ -28,6 +29,7 @@ const Header = () => {
             <h1 className="text-xl font-semibold ml-2 text-valorwell-700">Valorwell</h1>
           </div>
         </div>
+        <NotificationBell />
       </div>
     </header>
   );
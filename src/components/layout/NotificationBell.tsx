@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, Calendar, CalendarClock, FileText, MessageSquare, Info, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/context/NewAuthContext';
+import { useNotifications } from '@/hooks/useNotifications';
+import { AppNotification } from '@/types/notifications';
+
+const NOTIFICATION_GROUPS = [
+  { entityType: 'safety_event', label: 'Safety alerts', icon: ShieldAlert },
+  { entityType: 'appointment', label: 'Appointments', icon: Calendar },
+  { entityType: 'waitlist_offer', label: 'Waitlist', icon: CalendarClock },
+  { entityType: 'document_assignment', label: 'Documents', icon: FileText },
+  { entityType: 'message_thread', label: 'Messages', icon: MessageSquare },
+];
+
+const OTHER_GROUP = { entityType: 'other', label: 'Other', icon: Info };
+
+// Where a notification takes the user in the patient portal
+const getNotificationLink = (notification: AppNotification) => {
+  const entityId = notification.entity_id ? encodeURIComponent(notification.entity_id) : null;
+
+  switch (notification.entity_type) {
+    case 'appointment':
+      return entityId ? `/patient-portal?tab=dashboard&appointment=${entityId}` : '/patient-portal?tab=dashboard';
+    case 'waitlist_offer':
+      return entityId ? `/patient-portal?tab=dashboard&offer=${entityId}` : '/patient-portal?tab=dashboard';
+    case 'document_assignment':
+      return entityId ? `/patient-portal?tab=documents&assignment=${entityId}` : '/patient-portal?tab=documents';
+    case 'message_thread':
+      return entityId ? `/patient-portal?tab=messages&thread=${entityId}` : '/patient-portal?tab=messages';
+    default:
+      return null;
+  }
+};
+
+const groupNotifications = (notifications: AppNotification[]) => {
+  const knownTypes = NOTIFICATION_GROUPS.map(group => group.entityType);
+
+  return [...NOTIFICATION_GROUPS, OTHER_GROUP]
+    .map(group => ({
+      ...group,
+      items: notifications.filter(notification =>
+        group === OTHER_GROUP
+          ? !knownTypes.includes(notification.entity_type || '')
+          : notification.entity_type === group.entityType
+      )
+    }))
+    .filter(group => group.items.length > 0);
+};
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, loading, markAsRead } = useNotifications(user?.id);
+
+  if (!user) return null;
+
+  const handleSelect = (notification: AppNotification) => {
+    markAsRead([notification.id]);
+    const link = getNotificationLink(notification);
+    if (link) {
+      setOpen(false);
+      navigate(link);
+    }
+  };
+
+  const groups = groupNotifications(notifications);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="text-sm font-semibold">Notifications</h3>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => markAsRead()}
+            disabled={unreadCount === 0}
+          >
+            Mark all as read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {loading && notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading notifications...</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">You're all caught up.</p>
+          ) : (
+            groups.map(group => {
+              const Icon = group.icon;
+              return (
+                <div key={group.entityType} className="py-2">
+                  <div className="flex items-center gap-2 px-4 py-1 text-xs font-medium uppercase text-muted-foreground">
+                    <Icon className="h-3 w-3" />
+                    {group.label}
+                  </div>
+                  {group.items.map(notification => (
+                    <button
+                      key={notification.id}
+                      type="button"
+                      onClick={() => handleSelect(notification)}
+                      className={cn(
+                        'flex w-full items-start gap-2 px-4 py-2 text-left hover:bg-muted transition-colors',
+                        notification.priority === 'high' && !notification.is_read && 'bg-destructive/10'
+                      )}
+                    >
+                      <span
+                        className={cn(
+                          'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                          notification.is_read
+                            ? 'bg-transparent'
+                            : notification.priority === 'high' ? 'bg-destructive' : 'bg-primary'
+                        )}
+                      />
+                      <span className="flex-1 space-y-0.5">
+                        <span
+                          className={cn(
+                            'block text-sm',
+                            !notification.is_read && 'font-medium',
+                            notification.priority === 'high' && 'text-destructive'
+                          )}
+                        >
+                          {notification.message}
+                        </span>
+                        <span className="block text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </span>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
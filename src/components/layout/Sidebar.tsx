@@ -4,7 +4,7 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { User, FileText, Settings, Home, LogOut, UserCheck, Shield } from 'lucide-react';
+import { User, FileText, Settings, Home, LogOut, UserCheck, Shield, Bell, MessageSquare } from 'lucide-react';
 import { useAuth } from '@/context/NewAuthContext';
 
 // Function to determine if a route is active
@@ -27,6 +27,14 @@ const Sidebar = () => {
     name: 'Patient Portal',
     path: '/patient-portal',
     icon: Home
+  }, {
+    name: 'Messages',
+    path: '/messages',
+    icon: MessageSquare
+  }, {
+    name: 'Reminders',
+    path: '/reminders',
+    icon: Bell
   }];
 
   // Handle logout
@@ -0,0 +1,201 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CalendarPlus, CalendarClock, Clock } from 'lucide-react';
+import { differenceInMinutes, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { formatInClientTimezone, getSafeTimezone, DATE_FORMATS } from '@/utils/dateFormatting';
+import { TimeZoneService } from '@/utils/timeZoneService';
+import { groupSlotsByDay, OpenSlot } from '@/utils/availabilitySlots';
+import { useClinicianAvailability } from '@/hooks/useClinicianAvailability';
+import { formatAuthorizationDate, getSessionDateKey } from '@/utils/authorizations';
+import { cn } from '@/lib/utils';
+
+interface AppointmentBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clinicianId: string;
+  clinicianName: string;
+  clientTimezone?: string;
+  onBooked?: (appointmentId: string) => void;
+  // When provided, the dialog moves this appointment instead of booking a new one
+  rescheduleAppointment?: {
+    id: string;
+    start_at: string;
+    end_at: string;
+  } | null;
+  // Last date (yyyy-MM-dd) the client's authorization lets them book online
+  bookableUntil?: string | null;
+  // Replaces the open times when the client can't book online at all
+  blockedReason?: string | null;
+}
+
+const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
+  open,
+  onOpenChange,
+  clinicianId,
+  clinicianName,
+  clientTimezone,
+  onBooked,
+  rescheduleAppointment = null,
+  bookableUntil = null,
+  blockedReason = null
+}) => {
+  const safeTimezone = getSafeTimezone(clientTimezone);
+  const isReschedule = !!rescheduleAppointment;
+  const rescheduleDuration = rescheduleAppointment
+    ? differenceInMinutes(parseISO(rescheduleAppointment.end_at), parseISO(rescheduleAppointment.start_at))
+    : null;
+  const { slots, template, loading, error, refresh, bookSlot, rescheduleSlot } = useClinicianAvailability({
+    clinicianId,
+    enabled: open,
+    excludeAppointmentId: rescheduleAppointment?.id,
+    durationMinutes: rescheduleDuration
+  });
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<OpenSlot | null>(null);
+  const [isBooking, setIsBooking] = useState(false);
+
+  const bookableSlots = useMemo(
+    () => (bookableUntil ? slots.filter(slot => getSessionDateKey(slot.start_at, safeTimezone) <= bookableUntil) : slots),
+    [slots, bookableUntil, safeTimezone]
+  );
+  const slotsByDay = useMemo(() => groupSlotsByDay(bookableSlots, safeTimezone), [bookableSlots, safeTimezone]);
+  const days = useMemo(() => Object.keys(slotsByDay).sort(), [slotsByDay]);
+
+  // Default to the first day with openings whenever the slot list changes
+  useEffect(() => {
+    if (days.length > 0 && (!selectedDay || !slotsByDay[selectedDay])) {
+      setSelectedDay(days[0]);
+    }
+    setSelectedSlot(null);
+  }, [days, slotsByDay, selectedDay]);
+
+  const handleConfirm = async () => {
+    if (!selectedSlot) return;
+
+    setIsBooking(true);
+    try {
+      const result = isReschedule
+        ? await rescheduleSlot(rescheduleAppointment.id, selectedSlot)
+        : await bookSlot(selectedSlot);
+      if (result.success && result.appointmentId) {
+        toast.success(isReschedule ? 'Appointment rescheduled successfully' : 'Appointment booked successfully');
+        onBooked?.(result.appointmentId);
+        onOpenChange(false);
+      } else {
+        toast.error(result.error || (isReschedule ? 'Failed to reschedule appointment' : 'Failed to book appointment'));
+        refresh();
+      }
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  const timeZoneDisplay = TimeZoneService.getTimeZoneDisplayName(safeTimezone);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isReschedule ? <CalendarClock className="h-5 w-5" /> : <CalendarPlus className="h-5 w-5" />}
+            {isReschedule ? 'Reschedule Appointment' : 'Book an Appointment'}
+          </DialogTitle>
+          <DialogDescription>
+            {isReschedule
+              ? `Currently scheduled for ${formatInClientTimezone(rescheduleAppointment.start_at, safeTimezone, DATE_FORMATS.FULL_DATETIME)}. Choose a new time with ${clinicianName}.`
+              : `Choose an open time with ${clinicianName}. Sessions are ${template.duration} minutes.`}
+            {' '}Times are shown in {timeZoneDisplay}.
+            {bookableUntil && !blockedReason && ` Your authorization covers sessions through ${formatAuthorizationDate(bookableUntil)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {blockedReason ? (
+          <p className="text-sm text-destructive text-center py-8">{blockedReason}</p>
+        ) : loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+            <p className="mt-2 text-sm text-muted-foreground">Loading available times...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 space-y-3">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button variant="outline" size="sm" onClick={refresh}>Try again</Button>
+          </div>
+        ) : days.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            There are no open times available right now. Please check back later or contact your clinician.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-[180px_1fr] gap-4">
+            <ScrollArea className="h-64 sm:h-80 border rounded-md">
+              <div className="p-2 space-y-1">
+                {days.map(day => (
+                  <Button
+                    key={day}
+                    variant={day === selectedDay ? 'default' : 'ghost'}
+                    className="w-full justify-start"
+                    onClick={() => setSelectedDay(day)}
+                  >
+                    {formatInClientTimezone(slotsByDay[day][0].start_at, safeTimezone, 'EEE, MMM d')}
+                  </Button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div>
+              {selectedDay && (
+                <>
+                  <p className="text-sm font-medium mb-3">
+                    {formatInClientTimezone(slotsByDay[selectedDay][0].start_at, safeTimezone, DATE_FORMATS.LONG_DATE)}
+                  </p>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {slotsByDay[selectedDay].map(slot => (
+                      <Button
+                        key={slot.start_at}
+                        variant="outline"
+                        size="sm"
+                        className={cn(
+                          'flex items-center gap-1',
+                          selectedSlot?.start_at === slot.start_at && 'border-primary bg-primary/10'
+                        )}
+                        onClick={() => setSelectedSlot(slot)}
+                      >
+                        <Clock className="h-3 w-3" />
+                        {formatInClientTimezone(slot.start_at, safeTimezone, DATE_FORMATS.TIME_ONLY)}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isBooking}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!selectedSlot || isBooking || !!blockedReason}>
+            {isBooking
+              ? (isReschedule ? 'Rescheduling...' : 'Booking...')
+              : selectedSlot
+                ? `${isReschedule ? 'Move to' : 'Book'} ${formatInClientTimezone(selectedSlot.start_at, safeTimezone, DATE_FORMATS.SHORT_DATETIME)}`
+                : 'Select a time'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AppointmentBookingDialog;
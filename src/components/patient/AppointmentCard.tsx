@@ -2,8 +2,10 @@ import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, Video, X } from 'lucide-react';
+import { Calendar, CalendarArrowDown, CalendarClock, Clock, Repeat, Video, X } from 'lucide-react';
 import { formatInClientTimezone, getSafeTimezone } from '@/utils/dateFormatting';
+import { appointmentToCalendarEvent, buildIcsCalendar, downloadIcsFile } from '@/utils/icsCalendar';
+import { cn } from '@/lib/utils';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,6 +26,8 @@ interface AppointmentCardProps {
     type: string;
     status: string;
     video_room_url?: string;
+    clinician_id?: string;
+    recurring_group_id?: string | null;
   };
   clientTimezone?: string;
   isToday?: boolean;
@@ -32,6 +36,17 @@ interface AppointmentCardProps {
   showCancelButton?: boolean;
   onCancelAppointment?: (appointmentId: string) => void;
   isCancelLoading?: boolean;
+  // Shown in the cancel confirmation when cancelling now would incur a late-cancellation fee
+  cancellationWarning?: string;
+  showRescheduleButton?: boolean;
+  onRescheduleAppointment?: (appointmentId: string) => void;
+  // Recurring series summary, e.g. "Every Tuesday at 3:00 PM · 8 remaining · ends Dec 15, 2026"
+  seriesSummary?: string;
+  onCancelSeries?: (appointmentId: string) => void;
+  showAddToCalendar?: boolean;
+  clinicianName?: string;
+  // Set when the card is the target of a notification deep link
+  highlighted?: boolean;
 }
 
 const AppointmentCard: React.FC<AppointmentCardProps> = ({
@@ -42,7 +57,15 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
   isSessionLoading = false,
   showCancelButton = false,
   onCancelAppointment,
-  isCancelLoading = false
+  isCancelLoading = false,
+  cancellationWarning,
+  showRescheduleButton = false,
+  onRescheduleAppointment,
+  seriesSummary,
+  onCancelSeries,
+  showAddToCalendar = false,
+  clinicianName,
+  highlighted = false
 }) => {
   const safeTimezone = getSafeTimezone(clientTimezone);
   
@@ -67,12 +90,23 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
     }
   };
 
+  const isRecurring = !!appointment.recurring_group_id;
+
+  const handleAddToCalendar = () => {
+    const event = appointmentToCalendarEvent(appointment, clinicianName);
+    const contents = buildIcsCalendar([event], safeTimezone);
+    downloadIcsFile(`appointment-${formatInClientTimezone(appointment.start_at, safeTimezone, 'yyyy-MM-dd')}`, contents);
+  };
+
   const getTypeDisplay = (type: string) => {
     return type?.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()) || 'Appointment';
   };
 
   return (
-    <Card className="hover:shadow-md transition-shadow">
+    <Card
+      id={`appointment-${appointment.id}`}
+      className={cn('hover:shadow-md transition-shadow', highlighted && 'ring-2 ring-primary')}
+    >
       <CardContent className="p-4">
         <div className="flex items-center justify-between">
           <div className="flex-1">
@@ -96,6 +130,13 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
             <div className="text-sm text-muted-foreground">
               {getTypeDisplay(appointment.type)}
             </div>
+
+            {isRecurring && seriesSummary && (
+              <div className="flex items-center gap-2 mt-2">
+                <Repeat className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground">{seriesSummary}</span>
+              </div>
+            )}
           </div>
 
           <div className="ml-4 flex items-center gap-2">
@@ -110,6 +151,32 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
               </Button>
             )}
             
+            {showAddToCalendar && appointment.status?.toLowerCase() === 'scheduled' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleAddToCalendar}
+                className="flex items-center gap-2"
+                title="Add to calendar"
+              >
+                <CalendarArrowDown className="h-4 w-4" />
+                <span className="hidden sm:inline">Add to calendar</span>
+              </Button>
+            )}
+
+            {showRescheduleButton && appointment.status?.toLowerCase() === 'scheduled' && onRescheduleAppointment && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRescheduleAppointment(appointment.id)}
+                disabled={isCancelLoading}
+                className="flex items-center gap-2"
+              >
+                <CalendarClock className="h-4 w-4" />
+                Reschedule
+              </Button>
+            )}
+
             {showCancelButton && appointment.status?.toLowerCase() === 'scheduled' && onCancelAppointment && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
@@ -127,16 +194,29 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
                   <AlertDialogHeader>
                     <AlertDialogTitle>Cancel Appointment</AlertDialogTitle>
                     <AlertDialogDescription>
-                      Are you sure you want to cancel this appointment? This action cannot be undone.
+                      {isRecurring && onCancelSeries
+                        ? 'This appointment is part of a recurring series. You can cancel just this session or this session and every one after it. This action cannot be undone.'
+                        : 'Are you sure you want to cancel this appointment? This action cannot be undone.'}
                     </AlertDialogDescription>
+                    {cancellationWarning && (
+                      <p className="text-sm font-medium text-destructive">{cancellationWarning}</p>
+                    )}
                   </AlertDialogHeader>
                   <AlertDialogFooter>
                     <AlertDialogCancel>No, keep appointment</AlertDialogCancel>
+                    {isRecurring && onCancelSeries && (
+                      <AlertDialogAction
+                        onClick={() => onCancelSeries(appointment.id)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Cancel this and following
+                      </AlertDialogAction>
+                    )}
                     <AlertDialogAction
                       onClick={() => onCancelAppointment(appointment.id)}
                       className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                     >
-                      Yes, cancel appointment
+                      {isRecurring && onCancelSeries ? 'Cancel this session only' : 'Yes, cancel appointment'}
                     </AlertDialogAction>
                   </AlertDialogFooter>
                 </AlertDialogContent>
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, AlertTriangle, ClipboardCheck, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { requestAuthorizationRenewal } from '@/integrations/supabase/client';
+import {
+  AuthorizationProgram,
+  AuthorizationRenewalRequest,
+  AuthorizationStatus,
+  InsuranceAuthorization
+} from '@/types/authorizations';
+import {
+  AUTHORIZATION_PROGRAM_LABELS,
+  AUTHORIZATION_STATUS_LABELS,
+  RENEWAL_REQUEST_STATUS_LABELS,
+  canRequestRenewal,
+  formatAuthorizationDate,
+  getOpenRenewalRequest,
+  getAuthorizationStatus,
+  getAuthorizationWarning,
+  getCurrentAuthorization,
+  getRemainingVisits
+} from '@/utils/authorizations';
+
+interface AuthorizationStatusCardProps {
+  clientId: string;
+  program: AuthorizationProgram;
+  // The client's timezone, which decides what day it is for their authorization dates
+  timezone: string | null | undefined;
+  authorizations: InsuranceAuthorization[];
+  renewalRequests: AuthorizationRenewalRequest[];
+  loading: boolean;
+  onRenewalRequested?: () => void;
+}
+
+const PROGRAM_DESCRIPTIONS: Record<AuthorizationProgram, string> = {
+  tricare: 'Visits covered by your referral, updated after each session is documented',
+  va_ccn: 'Visits the VA approved for your care, updated after each session is documented'
+};
+
+const STATUS_BADGE_CLASSES: Record<AuthorizationStatus, string> = {
+  upcoming: 'border-slate-200 text-slate-700',
+  active: 'border-green-200 text-green-700',
+  running_low: 'border-amber-200 text-amber-700',
+  expiring: 'border-amber-200 text-amber-700',
+  exhausted: 'border-red-200 text-red-700',
+  expired: 'border-red-200 text-red-700'
+};
+
+/**
+ * The client's current referral or authorization: how many covered visits are left and until when.
+ */
+const AuthorizationStatusCard: React.FC<AuthorizationStatusCardProps> = ({
+  clientId,
+  program,
+  timezone,
+  authorizations,
+  renewalRequests,
+  loading,
+  onRenewalRequested
+}) => {
+  const [showRenewalForm, setShowRenewalForm] = useState(false);
+  const [renewalReason, setRenewalReason] = useState('');
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const authorization = getCurrentAuthorization(authorizations, program, timezone);
+  const status = authorization ? getAuthorizationStatus(authorization, timezone) : null;
+  const warning = getAuthorizationWarning(authorization, program, timezone);
+  const label = AUTHORIZATION_PROGRAM_LABELS[program];
+  const openRenewal = authorization ? getOpenRenewalRequest(renewalRequests, authorization.id) : undefined;
+  // TRICARE referrals are renewed through the primary care manager, not the practice
+  const renewalAvailable = program === 'va_ccn' && !!authorization && !openRenewal && canRequestRenewal(authorization, timezone);
+
+  const handleRequestRenewal = async () => {
+    if (!authorization) return;
+
+    setIsRequesting(true);
+    const result = await requestAuthorizationRenewal(clientId, authorization.id, renewalReason.trim() || null);
+    setIsRequesting(false);
+
+    if (!result.success) {
+      toast.error('Your renewal request could not be sent. Please try again.');
+      return;
+    }
+
+    toast.success('Renewal requested. Your care team will follow up with the VA.');
+    setShowRenewalForm(false);
+    setRenewalReason('');
+    onRenewalRequested?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <ClipboardCheck className="h-5 w-5" />
+          {label}
+        </CardTitle>
+        <CardDescription>{PROGRAM_DESCRIPTIONS[program]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {authorization && status && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {program === 'va_ccn' ? 'Authorization' : 'Referral'} #{authorization.authorization_number}
+                    </p>
+                    {authorization.seoc_number && (
+                      <p className="text-sm text-muted-foreground">SEOC {authorization.seoc_number}</p>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      {formatAuthorizationDate(authorization.start_date)} – {formatAuthorizationDate(authorization.end_date)}
+                      {authorization.region && ` · ${authorization.region}`}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className={STATUS_BADGE_CLASSES[status]}>
+                    {AUTHORIZATION_STATUS_LABELS[status]}
+                  </Badge>
+                </div>
+                <div className="space-y-1">
+                  <Progress value={Math.min(100, (authorization.visits_used / authorization.authorized_visits) * 100)} />
+                  <p className="text-sm text-muted-foreground">
+                    {getRemainingVisits(authorization)} of {authorization.authorized_visits} visits left
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {warning && (
+              <Alert variant={warning.severity === 'error' ? 'destructive' : 'default'}>
+                {warning.severity === 'error' ? <AlertCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                <AlertDescription>{warning.message}</AlertDescription>
+              </Alert>
+            )}
+
+            {openRenewal && (
+              <p className="text-sm text-muted-foreground">
+                {RENEWAL_REQUEST_STATUS_LABELS[openRenewal.status]} on {format(new Date(openRenewal.created_at), 'MMM d, yyyy')}.
+                {' '}Your care team will let you know when the VA responds.
+              </p>
+            )}
+
+            {renewalAvailable && (
+              showRenewalForm ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={renewalReason}
+                    onChange={(e) => setRenewalReason(e.target.value)}
+                    placeholder="Anything your care team should include in the request (optional)"
+                    rows={3}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setShowRenewalForm(false)} disabled={isRequesting}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleRequestRenewal} disabled={isRequesting}>
+                      {isRequesting ? 'Sending...' : 'Send request'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setShowRenewalForm(true)}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Request renewal
+                </Button>
+              )
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuthorizationStatusCard;
@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarSync, Copy, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { getClientCalendarFeedUrl } from '@/integrations/supabase/client';
+
+interface CalendarSubscriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CalendarSubscriptionDialog: React.FC<CalendarSubscriptionDialogProps> = ({ open, onOpenChange }) => {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadFeedUrl = useCallback(async (regenerate: boolean = false) => {
+    setLoading(true);
+    try {
+      const { success, url } = await getClientCalendarFeedUrl(regenerate);
+      if (success && url) {
+        setFeedUrl(url);
+        if (regenerate) {
+          toast.success('New calendar link created. Previous subscriptions will stop updating.');
+        }
+      } else {
+        toast.error('Failed to load your calendar link');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open && !feedUrl) {
+      loadFeedUrl();
+    }
+  }, [open, feedUrl, loadFeedUrl]);
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Calendar link copied');
+    } catch (error) {
+      console.error('Error copying calendar link:', error);
+      toast.error('Could not copy the link. Please copy it manually.');
+    }
+  };
+
+  // webcal:// opens the subscribe flow directly in Apple Calendar and most phone calendars
+  const webcalUrl = feedUrl?.replace(/^https?:\/\//, 'webcal://');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarSync className="h-5 w-5" />
+            Subscribe to Your Appointments
+          </DialogTitle>
+          <DialogDescription>
+            Add this link to your phone or computer calendar to see all upcoming sessions.
+            Rescheduled and cancelled appointments update automatically. Keep this link private.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input readOnly value={loading && !feedUrl ? 'Loading...' : feedUrl || ''} onFocus={e => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy} disabled={!feedUrl} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Google Calendar: Settings → Add calendar → From URL, then paste the link.
+          </p>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="ghost" onClick={() => loadFeedUrl(true)} disabled={loading} className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Reset link
+          </Button>
+          <Button asChild disabled={!webcalUrl}>
+            <a href={webcalUrl || undefined}>Open in calendar app</a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarSubscriptionDialog;
@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle2, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { fetchEligibilityResults, verifyInsuranceEligibility } from '@/integrations/supabase/client';
+import { EligibilityResult, INSURANCE_LEVELS, InsuranceLevel } from '@/types/eligibility';
+
+interface CoverageVerificationProps {
+  clientId: string;
+  // Insurance company on file per level; levels without one are not shown
+  insuranceCompanies: Record<InsuranceLevel, string | null | undefined>;
+  // Policies still missing details or card photos; they can't be checked until complete
+  incompleteLevels?: InsuranceLevel[];
+}
+
+const LEVEL_LABELS: Record<InsuranceLevel, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  tertiary: 'Tertiary'
+};
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: amount % 1 === 0 ? 0 : 2 });
+
+const StatusBadge: React.FC<{ result: EligibilityResult }> = ({ result }) => {
+  if (result.status === 'active') {
+    return (
+      <Badge variant="outline" className="gap-1 border-green-200 text-green-700">
+        <CheckCircle2 className="h-3 w-3" />
+        Coverage active
+      </Badge>
+    );
+  }
+  if (result.status === 'inactive') {
+    return (
+      <Badge variant="outline" className="gap-1 border-red-200 text-red-700">
+        <XCircle className="h-3 w-3" />
+        Coverage inactive
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="gap-1 border-amber-200 text-amber-700">
+      <AlertCircle className="h-3 w-3" />
+      Could not confirm
+    </Badge>
+  );
+};
+
+// Estimated costs are what the insurance company reported; the practice confirms them at billing
+const CoverageDetails: React.FC<{ result: EligibilityResult }> = ({ result }) => {
+  const deductibleMet = result.deductible !== null && result.deductibleRemaining !== null
+    ? Math.max(0, result.deductible - result.deductibleRemaining)
+    : null;
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-3 text-sm">
+      <div>
+        <p className="text-muted-foreground">Estimated copay per session</p>
+        <p className="text-lg font-medium">{result.copay !== null ? formatCurrency(result.copay) : 'Not reported'}</p>
+      </div>
+      <div>
+        <p className="text-muted-foreground">Coinsurance</p>
+        <p className="text-lg font-medium">
+          {result.coinsurancePercent !== null ? `${result.coinsurancePercent}%` : 'Not reported'}
+        </p>
+      </div>
+      <div>
+        <p className="text-muted-foreground">Deductible</p>
+        {result.deductible !== null ? (
+          <>
+            <p className="text-lg font-medium">
+              {result.deductibleRemaining === 0
+                ? 'Met'
+                : result.deductibleRemaining !== null
+                  ? `${formatCurrency(result.deductibleRemaining)} left of ${formatCurrency(result.deductible)}`
+                  : formatCurrency(result.deductible)}
+            </p>
+            {deductibleMet !== null && result.deductible > 0 && (
+              <Progress value={(deductibleMet / result.deductible) * 100} className="h-2 mt-1" />
+            )}
+          </>
+        ) : (
+          <p className="text-lg font-medium">Not reported</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lets clients check their coverage with each insurance company on file and shows the
+ * estimated copay and deductible status from the most recent check.
+ */
+const CoverageVerification: React.FC<CoverageVerificationProps> = ({ clientId, insuranceCompanies, incompleteLevels = [] }) => {
+  const [results, setResults] = useState<Partial<Record<InsuranceLevel, EligibilityResult>>>({});
+  const [checking, setChecking] = useState<InsuranceLevel | null>(null);
+
+  const levels = INSURANCE_LEVELS.filter(level => insuranceCompanies[level]);
+
+  const loadResults = useCallback(async () => {
+    const { success, data } = await fetchEligibilityResults(clientId);
+    if (success && data) {
+      setResults(Object.fromEntries(data.map(result => [result.insuranceLevel, result])));
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    loadResults();
+  }, [loadResults]);
+
+  const handleVerify = async (level: InsuranceLevel) => {
+    setChecking(level);
+    const { success, data, error } = await verifyInsuranceEligibility(clientId, level);
+    setChecking(null);
+
+    if (!success || !data) {
+      toast.error(error || 'Your coverage could not be checked');
+      return;
+    }
+
+    setResults(prev => ({ ...prev, [level]: data }));
+    if (data.status === 'active') {
+      toast.success(`Your ${level} coverage is active`);
+    } else {
+      toast.warning(data.errorMessage || `Your ${level} coverage could not be confirmed`);
+    }
+  };
+
+  if (levels.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-valorwell-600" />
+          Coverage
+        </CardTitle>
+        <CardDescription>
+          Check your benefits with your insurance company. Amounts are estimates; your final cost is
+          confirmed when your sessions are billed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {levels.map(level => {
+          const result = results[level];
+          const incomplete = incompleteLevels.includes(level);
+          return (
+            <div key={level} className="border rounded-md p-4 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <h4 className="font-medium">{LEVEL_LABELS[level]}: {insuranceCompanies[level]}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {result
+                      ? `${result.planName ? `${result.planName} · ` : ''}Last checked ${format(new Date(result.checkedAt), "MMM d, yyyy 'at' h:mm a")}`
+                      : 'Not checked yet'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {result && <StatusBadge result={result} />}
+                  <Button size="sm" variant="outline" onClick={() => handleVerify(level)} disabled={checking !== null || incomplete}>
+                    {checking === level && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    {checking === level ? 'Checking...' : 'Verify my coverage'}
+                  </Button>
+                </div>
+              </div>
+
+              {incomplete && (
+                <p className="text-sm text-muted-foreground">
+                  Add your policy number and photos of the front and back of your card above to check this coverage.
+                </p>
+              )}
+              {result?.status === 'active' && <CoverageDetails result={result} />}
+              {result && result.status !== 'active' && result.errorMessage && (
+                <div className="text-sm text-muted-foreground">
+                  <p>{result.errorMessage}</p>
+                  <p>Please check your policy details above or contact the practice.</p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CoverageVerification;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LifeBuoy, MessageSquare, Phone } from 'lucide-react';
+import { CRISIS_RESOURCES } from '@/utils/crisisResources';
+
+interface CrisisResourcesCardProps {
+  title?: string;
+  description?: string;
+}
+
+const CrisisResourcesCard: React.FC<CrisisResourcesCardProps> = ({
+  title = 'You are not alone',
+  description = 'If you are having thoughts of harming yourself, please reach out now. Help is available any time, day or night.'
+}) => {
+  return (
+    <Card className="border-destructive/40 bg-destructive/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LifeBuoy className="h-5 w-5 text-destructive" />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {CRISIS_RESOURCES.map(resource => (
+          <div
+            key={resource.name}
+            className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-md border bg-background p-3"
+          >
+            <div>
+              <p className="font-medium">{resource.name}</p>
+              <p className="text-sm text-muted-foreground">{resource.description}</p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button asChild size="sm" variant="destructive">
+                <a href={resource.callHref}>
+                  <Phone className="h-4 w-4 mr-1" />
+                  {resource.callLabel}
+                </a>
+              </Button>
+              {resource.textHref && (
+                <Button asChild size="sm" variant="outline">
+                  <a href={resource.textHref}>
+                    <MessageSquare className="h-4 w-4 mr-1" />
+                    {resource.textLabel}
+                  </a>
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CrisisResourcesCard;
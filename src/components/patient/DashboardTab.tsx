@@ -1,17 +1,40 @@
 import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from '@/context/NewAuthContext';
-import { supabase, checkPHQ9AssessmentExists, getOrCreateVideoRoom } from "@/integrations/supabase/client";
+import { fetchHasOpenSafetyEvent, supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import TherapistInfoCard from '@/components/therapist/TherapistInfoCard';
 import AppointmentCard from './AppointmentCard';
-import PHQ9Template from '@/components/templates/PHQ9Template';
+import AppointmentBookingDialog from './AppointmentBookingDialog';
+import PolicyHistoryCard from './PolicyHistoryCard';
+import CalendarSubscriptionDialog from './CalendarSubscriptionDialog';
+import WaitlistCard from './WaitlistCard';
+import CrisisResourcesCard from './CrisisResourcesCard';
+import { Button } from "@/components/ui/button";
+import SessionCheckInDialog from './SessionCheckInDialog';
 
 import { getSafeTimezone } from '@/utils/dateFormatting';
-import { startOfDay, endOfDay, addDays, parseISO } from 'date-fns';
+import { startOfDay, endOfDay, addDays } from 'date-fns';
 import { formatInTimeZone } from 'date-fns-tz';
 import { useTherapistAvailabilityCheck } from '@/hooks/useTherapistAvailabilityCheck';
-import { UserCheck } from 'lucide-react';
+import { useAppointmentPolicy } from '@/hooks/useAppointmentPolicy';
+import { useClientPolicyViolations } from '@/hooks/useClientPolicyViolations';
+import { useRecurringSeries } from '@/hooks/useRecurringSeries';
+import { useSessionCheckIn } from '@/hooks/useSessionCheckIn';
+import { useInsuranceAuthorizations } from '@/hooks/useInsuranceAuthorizations';
+import { describeSeries } from '@/utils/recurringSeries';
+import { countActiveStrikes, formatFee, isOutsideLateChangeWindow } from '@/utils/appointmentPolicy';
+import {
+  AUTHORIZATION_PROGRAM_LABELS,
+  countScheduledVisits,
+  getAuthorizationProgram,
+  getAuthorizationWarning,
+  getCurrentAuthorization,
+  getSelfSchedulingLimit
+} from '@/utils/authorizations';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { UserCheck, CalendarPlus, CalendarSync, Bell, AlertTriangle } from 'lucide-react';
 const DashboardTab = () => {
   const {
     user
@@ -22,10 +45,34 @@ const DashboardTab = () => {
   const [todayAppointments, setTodayAppointments] = useState<any[]>([]);
   const [futureAppointments, setFutureAppointments] = useState<any[]>([]);
   const [appointmentsLoading, setAppointmentsLoading] = useState(false);
-  const [sessionLoading, setSessionLoading] = useState<string | null>(null);
   const [cancelLoading, setCancelLoading] = useState<string | null>(null);
-  const [phq9Open, setPHQ9Open] = useState(false);
-  const [currentAppointmentId, setCurrentAppointmentId] = useState<string>('');
+  const [bookingOpen, setBookingOpen] = useState(false);
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
+  const [hasOpenSafetyEvent, setHasOpenSafetyEvent] = useState(false);
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [rescheduleTarget, setRescheduleTarget] = useState<{ id: string; start_at: string; end_at: string; clinician_id: string } | null>(null);
+  const { policy, lateChangeWindowHours } = useAppointmentPolicy();
+  const { violations, loading: violationsLoading, refresh: refreshViolations } = useClientPolicyViolations(clientData?.id);
+  const {
+    refresh: refreshSeries,
+    cancelRemainingOccurrences,
+    getSeriesForAppointment
+  } = useRecurringSeries(clientData?.id, clientData?.client_time_zone);
+  const {
+    appointmentId: checkInAppointmentId,
+    currentStep: checkInStep,
+    stepNumber: checkInStepNumber,
+    totalSteps: checkInTotalSteps,
+    startingAppointmentId,
+    savingStep: checkInSaving,
+    startCheckIn,
+    completeCurrentStep,
+    skipCurrentStep,
+    cancelCheckIn
+  } = useSessionCheckIn(clientData?.id);
+  const authorizationProgram = getAuthorizationProgram(clientData?.client_vacoverage);
+  const { authorizations, loading: authorizationsLoading } = useInsuranceAuthorizations(authorizationProgram ? clientData?.id : null);
 
   // Check for available therapists
   const { hasAvailableTherapists, loading: therapistCheckLoading } = useTherapistAvailabilityCheck({
@@ -54,7 +101,7 @@ const DashboardTab = () => {
       // Fetch today's appointments
       const { data: todayData, error: todayError } = await supabase
         .from('appointments')
-        .select('id, start_at, end_at, type, status, video_room_url')
+        .select('id, start_at, end_at, type, status, video_room_url, clinician_id, recurring_group_id')
         .eq('client_id', clientId)
         .gte('start_at', todayStartUTC)
         .lt('start_at', todayEndUTC)
@@ -69,7 +116,7 @@ const DashboardTab = () => {
       // Fetch future appointments (from tomorrow onwards)
       const { data: futureData, error: futureError } = await supabase
         .from('appointments')
-        .select('id, start_at, end_at, type, status, video_room_url')
+        .select('id, start_at, end_at, type, status, video_room_url, clinician_id, recurring_group_id')
         .eq('client_id', clientId)
         .gte('start_at', tomorrowStartUTC)
         .order('start_at', { ascending: true })
@@ -88,65 +135,34 @@ const DashboardTab = () => {
   };
 
   // Smart session start logic
-  const handleStartSession = async (appointmentId: string) => {
-    setSessionLoading(appointmentId);
-    
-    try {
-      // Check if PHQ9 already exists for this appointment
-      const { exists } = await checkPHQ9AssessmentExists(appointmentId);
-      
-      if (exists) {
-        // Skip PHQ9, go straight to video
-        const { success, url } = await getOrCreateVideoRoom(appointmentId);
-        if (success && url) {
-          window.open(url, '_blank');
-          toast.success('Video session opened in new tab');
-        } else {
-          toast.error('Failed to start video session');
-        }
-      } else {
-        // Open PHQ9 first
-        setCurrentAppointmentId(appointmentId);
-        setPHQ9Open(true);
-      }
-    } catch (error) {
-      console.error('Error starting session:', error);
-      toast.error('Failed to start session');
-    } finally {
-      setSessionLoading(null);
-    }
+  // Pre-session check-in runs before the video room opens
+  const handleStartSession = (appointmentId: string) => {
+    startCheckIn(appointmentId);
   };
 
-  // Handle PHQ9 completion and start video session
-  const handlePHQ9Complete = async () => {
-    if (currentAppointmentId) {
-      try {
-        const { success, url } = await getOrCreateVideoRoom(currentAppointmentId);
-        if (success && url) {
-          window.open(url, '_blank');
-          toast.success('PHQ9 completed and video session opened in new tab');
-        } else {
-          toast.error('PHQ9 saved but failed to start video session');
-        }
-      } catch (error) {
-        console.error('Error starting video after PHQ9:', error);
-        toast.error('PHQ9 saved but failed to start video session');
-      }
+  // Clients can only change appointments outside the practice's late-change window
+  const canChangeAppointment = (appointmentStart: string): boolean => {
+    return isOutsideLateChangeWindow(appointmentStart, lateChangeWindowHours);
+  };
+
+  // Late cancellations are still allowed, but the client is told about the fee and strike first
+  const getCancellationWarning = (appointmentStart: string): string | undefined => {
+    if (canChangeAppointment(appointmentStart)) {
+      return undefined;
     }
-    setPHQ9Open(false);
-    setCurrentAppointmentId('');
+
+    const fee = policy.lateCancellationFee > 0 ? ` and a ${formatFee(policy.lateCancellationFee)} fee will apply` : '';
+    const strikes = countActiveStrikes(violations) + 1;
+    const strikeNote = policy.atRiskStrikeThreshold > 0
+      ? ` This will be strike ${strikes} of ${policy.atRiskStrikeThreshold}.`
+      : '';
+    return `This appointment is within ${lateChangeWindowHours} hours, so it will count as a late cancellation${fee}.${strikeNote}`;
   };
 
-  // Check if appointment is more than 24 hours away
-  const isMoreThan24HoursAway = (appointmentStart: string): boolean => {
-    try {
-      const appointmentDate = parseISO(appointmentStart);
-      const now = new Date();
-      const hoursUntilAppointment = (appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-      return hoursUntilAppointment > 24;
-    } catch (error) {
-      console.error('Error calculating appointment time difference:', error);
-      return false;
+  const handleRescheduleAppointment = (appointmentId: string) => {
+    const appointment = futureAppointments.find(a => a.id === appointmentId);
+    if (appointment) {
+      setRescheduleTarget(appointment);
     }
   };
 
@@ -169,6 +185,8 @@ const DashboardTab = () => {
         if (clientData) {
           fetchAppointments(clientData.id, clientData.client_time_zone);
         }
+        refreshViolations();
+        refreshSeries();
       }
     } catch (error) {
       console.error('Exception cancelling appointment:', error);
@@ -177,6 +195,63 @@ const DashboardTab = () => {
       setCancelLoading(null);
     }
   };
+  // Cancel an occurrence and everything after it in the same recurring series
+  const handleCancelSeries = async (appointmentId: string) => {
+    setCancelLoading(appointmentId);
+
+    try {
+      const result = await cancelRemainingOccurrences(appointmentId);
+
+      if (!result.success) {
+        toast.error(result.error || 'Failed to cancel the remaining appointments');
+      } else {
+        toast.success(`Cancelled ${result.cancelledCount} appointment${result.cancelledCount === 1 ? '' : 's'} in the series`);
+        if (clientData) {
+          fetchAppointments(clientData.id, clientData.client_time_zone);
+        }
+        refreshViolations();
+      }
+    } finally {
+      setCancelLoading(null);
+    }
+  };
+
+  // A recurring series is shown once, by its next occurrence, with a summary of the rest
+  const getSeriesSummary = (appointment: { recurring_group_id?: string | null }) => {
+    const series = getSeriesForAppointment(appointment);
+    return series ? describeSeries(series, getSafeTimezone(clientData?.client_time_zone)) : undefined;
+  };
+
+  // The card for a series is its next scheduled occurrence, so cancelling one session doesn't
+  // hide the rest; a series with nothing left scheduled falls back to its first occurrence
+  const seriesRepresentatives = new Map<string, { id: string; status: string }>();
+  futureAppointments.forEach(appointment => {
+    const groupId = appointment.recurring_group_id;
+    if (!groupId) return;
+    const current = seriesRepresentatives.get(groupId);
+    if (!current || (current.status !== 'scheduled' && appointment.status === 'scheduled')) {
+      seriesRepresentatives.set(groupId, appointment);
+    }
+  });
+  const upcomingAppointments = futureAppointments.filter(appointment =>
+    !appointment.recurring_group_id || seriesRepresentatives.get(appointment.recurring_group_id)?.id === appointment.id
+  );
+
+  // Notification deep links (?appointment=<id>) point at a specific occurrence; later
+  // occurrences of a series are collapsed, so highlight the card that represents them
+  const linkedAppointmentId = searchParams.get('appointment');
+  const linkedAppointment = linkedAppointmentId
+    ? [...todayAppointments, ...futureAppointments].find(appointment => appointment.id === linkedAppointmentId)
+    : undefined;
+  const highlightedAppointmentId = linkedAppointment && !todayAppointments.includes(linkedAppointment) && linkedAppointment.recurring_group_id
+    ? upcomingAppointments.find(appointment => appointment.recurring_group_id === linkedAppointment.recurring_group_id)?.id
+    : linkedAppointment?.id;
+
+  useEffect(() => {
+    if (!highlightedAppointmentId || appointmentsLoading) return;
+    document.getElementById(`appointment-${highlightedAppointmentId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedAppointmentId, appointmentsLoading]);
+
   useEffect(() => {
     const fetchClientData = async () => {
       setIsLoading(true);
@@ -214,6 +289,9 @@ const DashboardTab = () => {
           if (client) {
             fetchAppointments(client.id, client.client_time_zone);
           }
+
+          const safetyResult = await fetchHasOpenSafetyEvent();
+          setHasOpenSafetyEvent(!!safetyResult.data);
         }
       } finally {
         setIsLoading(false);
@@ -238,6 +316,20 @@ const DashboardTab = () => {
       </div>;
   }
 
+  // TRICARE and VA Community Care clients are warned before their covered sessions run out
+  const currentAuthorization = authorizationProgram ? getCurrentAuthorization(authorizations, authorizationProgram, clientData?.client_time_zone) : undefined;
+  const authorizationWarning = authorizationProgram && !authorizationsLoading
+    ? getAuthorizationWarning(
+        currentAuthorization,
+        authorizationProgram,
+        clientData?.client_time_zone,
+        currentAuthorization ? countScheduledVisits(currentAuthorization, [...todayAppointments, ...futureAppointments], clientData?.client_time_zone) : 0
+      )
+    : null;
+  const selfSchedulingLimit = authorizationProgram === 'va_ccn' ? getSelfSchedulingLimit(authorizations, clientData?.client_time_zone) : null;
+
+  const therapistName = therapistData?.clinician_professional_name || `${therapistData?.clinician_first_name || ''} ${therapistData?.clinician_last_name || ''}`.trim();
+
   // Check if we should show therapist selection prompt
   const shouldShowTherapistSelection = 
     !clientData?.client_assigned_therapist && 
@@ -250,6 +342,17 @@ const DashboardTab = () => {
         </h2>
       </div>
 
+      {/* Stays up while a clinician follows up on a safety concern */}
+      {hasOpenSafetyEvent && <CrisisResourcesCard />}
+
+      {authorizationProgram && authorizationWarning && (
+        <Alert variant={authorizationWarning.severity === 'error' ? 'destructive' : 'default'}>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{AUTHORIZATION_PROGRAM_LABELS[authorizationProgram]}</AlertTitle>
+          <AlertDescription>{authorizationWarning.message}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Welcome Message */}
       <Card>
         <CardHeader>
@@ -302,7 +405,10 @@ const DashboardTab = () => {
                       clientTimezone={clientData?.client_time_zone}
                       isToday={true}
                       onStartSession={handleStartSession}
-                      isSessionLoading={sessionLoading === appointment.id}
+                      isSessionLoading={startingAppointmentId === appointment.id}
+                      showAddToCalendar={true}
+                      clinicianName={therapistName || undefined}
+                      highlighted={appointment.id === highlightedAppointmentId}
                     />
                   ))}
                 </div>
@@ -316,9 +422,27 @@ const DashboardTab = () => {
 
           {/* Future Appointments Section */}
           <Card>
-            <CardHeader>
-              <CardTitle>Upcoming Appointments</CardTitle>
-              <CardDescription>Your future scheduled appointments</CardDescription>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Upcoming Appointments</CardTitle>
+                <CardDescription>Your future scheduled appointments</CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="ghost" onClick={() => navigate('/reminders')} className="flex items-center gap-2">
+                  <Bell className="h-4 w-4" />
+                  Reminders
+                </Button>
+                <Button variant="outline" onClick={() => setSubscribeOpen(true)} className="flex items-center gap-2">
+                  <CalendarSync className="h-4 w-4" />
+                  Subscribe
+                </Button>
+                {therapistData && (
+                  <Button onClick={() => setBookingOpen(true)} className="flex items-center gap-2">
+                    <CalendarPlus className="h-4 w-4" />
+                    Book Appointment
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
               {appointmentsLoading ? (
@@ -326,9 +450,9 @@ const DashboardTab = () => {
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
                   <p className="mt-2 text-sm text-muted-foreground">Loading appointments...</p>
                 </div>
-              ) : futureAppointments.length > 0 ? (
+              ) : upcomingAppointments.length > 0 ? (
                 <div className="space-y-3 sm:space-y-4">
-                  {futureAppointments.map((appointment) => (
+                  {upcomingAppointments.map((appointment) => (
                     <AppointmentCard
                       key={appointment.id}
                       appointment={appointment}
@@ -336,9 +460,17 @@ const DashboardTab = () => {
                       isToday={false}
                       onStartSession={handleStartSession}
                       isSessionLoading={false}
-                      showCancelButton={isMoreThan24HoursAway(appointment.start_at)}
+                      showCancelButton={true}
                       onCancelAppointment={handleCancelAppointment}
                       isCancelLoading={cancelLoading === appointment.id}
+                      cancellationWarning={getCancellationWarning(appointment.start_at)}
+                      showRescheduleButton={canChangeAppointment(appointment.start_at)}
+                      onRescheduleAppointment={handleRescheduleAppointment}
+                      seriesSummary={getSeriesSummary(appointment)}
+                      onCancelSeries={handleCancelSeries}
+                      showAddToCalendar={true}
+                      clinicianName={therapistName || undefined}
+                      highlighted={appointment.id === highlightedAppointmentId}
                     />
                   ))}
                 </div>
@@ -352,27 +484,93 @@ const DashboardTab = () => {
         </>
       )}
 
+      {/* Waitlist Section */}
+      {therapistData && clientData && (
+        <WaitlistCard
+          clientId={clientData.id}
+          clientTimezone={clientData.client_time_zone}
+          clinicianName={therapistName || 'your clinician'}
+          nextAppointmentStart={futureAppointments.find(appointment => appointment.status === 'scheduled')?.start_at}
+          onClaimed={() => {
+            fetchAppointments(clientData.id, clientData.client_time_zone);
+            refreshSeries();
+          }}
+        />
+      )}
+
+      {/* Attendance Policy Section */}
+      {clientData?.client_assigned_therapist && (
+        <PolicyHistoryCard
+          policy={policy}
+          violations={violations}
+          clientTimezone={clientData?.client_time_zone}
+          loading={violationsLoading}
+        />
+      )}
+
       {/* Assigned Therapist Section */}
-      {therapistData && <TherapistInfoCard name={therapistData.clinician_professional_name || `${therapistData.clinician_first_name || ''} ${therapistData.clinician_last_name || ''}`.trim()} bio={therapistData.clinician_bio} imageUrl={therapistData.clinician_image_url} email={therapistData.clinician_email || 'Contact clinic for email'} />}
-
-      {/* PHQ9 Dialog */}
-      {phq9Open && (
-        <PHQ9Template
-          onClose={() => {
-            setPHQ9Open(false);
-            setCurrentAppointmentId('');
+      {therapistData && <TherapistInfoCard name={therapistName} bio={therapistData.clinician_bio} imageUrl={therapistData.clinician_image_url} email={therapistData.clinician_email || 'Contact clinic for email'} />}
+
+      {/* Self-scheduling Dialog */}
+      {therapistData && (
+        <AppointmentBookingDialog
+          open={bookingOpen}
+          onOpenChange={setBookingOpen}
+          clinicianId={therapistData.id}
+          clinicianName={therapistName}
+          clientTimezone={clientData?.client_time_zone}
+          bookableUntil={selfSchedulingLimit?.bookableUntil}
+          blockedReason={selfSchedulingLimit?.blockedReason}
+          onBooked={() => {
+            if (clientData) {
+              fetchAppointments(clientData.id, clientData.client_time_zone);
+            }
           }}
-          clinicianName={therapistData?.clinician_professional_name || `${therapistData?.clinician_first_name || ''} ${therapistData?.clinician_last_name || ''}`.trim() || 'Your Clinician'}
-          clientData={clientData}
-          appointmentId={currentAppointmentId}
-          onComplete={handlePHQ9Complete}
-          onCancel={() => {
-            setPHQ9Open(false);
-            setCurrentAppointmentId('');
+        />
+      )}
+
+      {/* Reschedule Dialog */}
+      {rescheduleTarget && (
+        <AppointmentBookingDialog
+          open={!!rescheduleTarget}
+          onOpenChange={(open) => {
+            if (!open) setRescheduleTarget(null);
+          }}
+          clinicianId={rescheduleTarget.clinician_id}
+          clinicianName={therapistName || 'your clinician'}
+          clientTimezone={clientData?.client_time_zone}
+          rescheduleAppointment={rescheduleTarget}
+          bookableUntil={selfSchedulingLimit?.bookableUntil}
+          blockedReason={selfSchedulingLimit?.blockedReason}
+          onBooked={() => {
+            if (clientData) {
+              fetchAppointments(clientData.id, clientData.client_time_zone);
+            }
+            refreshSeries();
           }}
         />
       )}
 
+      {/* Calendar Subscription Dialog */}
+      <CalendarSubscriptionDialog open={subscribeOpen} onOpenChange={setSubscribeOpen} />
+
+      {/* Pre-session Check-in */}
+      {checkInAppointmentId && checkInStep && (
+        <SessionCheckInDialog
+          appointmentId={checkInAppointmentId}
+          step={checkInStep}
+          stepNumber={checkInStepNumber}
+          totalSteps={checkInTotalSteps}
+          saving={checkInSaving}
+          clientData={clientData}
+          clinicianName={therapistName || 'Your Clinician'}
+          clinicianId={therapistData?.id}
+          onComplete={completeCurrentStep}
+          onSkip={skipCurrentStep}
+          onCancel={cancelCheckIn}
+        />
+      )}
+
     </div>;
 };
 export default DashboardTab;
\ No newline at end of file
@@ -145,7 +145,10 @@ const DocumentAssignmentsList: React.FC<DocumentAssignmentsListProps> = ({
                   {getStatusIcon(assignment.status)}
                   <div>
                     <h4 className="font-medium">{assignment.document_name}</h4>
-                    <p className="text-sm text-gray-500">{getStatusText(assignment.status)}</p>
+                    <p className="text-sm text-gray-500">
+                      {getStatusText(assignment.status)}
+                      {assignment.requires_guardian_signature && assignment.status !== 'completed' && ' · Needs a parent/guardian signature'}
+                    </p>
                   </div>
                 </div>
                 <div>
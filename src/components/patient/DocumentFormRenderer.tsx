@@ -1,14 +1,29 @@
 
 import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CloudOff, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { toast } from 'sonner';
-import { DocumentAssignment, updateDocumentStatus, saveClientHistoryOptimized } from '@/integrations/supabase/client';
+import { DocumentAssignment, updateDocumentStatus, saveClientHistoryOptimized, recordDocumentSignature } from '@/integrations/supabase/client';
 import ClientHistoryTemplate from '@/components/templates/ClientHistoryTemplate';
 import InformedConsentTemplate from '@/components/templates/InformedConsentTemplate';
 import { handleFormSubmission, CLINICAL_DOCUMENTS_BUCKET } from '@/utils/formSubmissionUtils';
+import { generateAndSaveStructuredPDF } from '@/utils/pdfUtils';
+import { buildClientHistoryPdf, buildTelehealthConsentPdf } from '@/utils/pdfDocuments';
 import { useAuth } from '@/context/NewAuthContext';
 import { ClientDetails } from '@/types/client';
+import { useFormAutosave } from '@/hooks/useFormAutosave';
+import { useGuardianCosign } from '@/hooks/useGuardianCosign';
+import { hashDocumentText } from '@/utils/documentSignatures';
+import { getAssignmentDocumentType } from '@/utils/guardianSignatures';
+import GuardianCosignPanel from '@/components/patient/GuardianCosignPanel';
+
+// Forms long enough that answers are autosaved and restored when the client continues later
+const AUTOSAVED_DOCUMENTS = ['Client History Form'];
+
+const GUARDIAN_SIGNATURE_PENDING = 'Waiting for your parent or guardian to sign before this form can be submitted';
 
 interface DocumentFormRendererProps {
   assignment: DocumentAssignment;
@@ -27,6 +42,9 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
 }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { clientProfile } = useAuth();
+  const autosave = useFormAutosave(assignment.id, AUTOSAVED_DOCUMENTS.includes(assignment.document_name));
+  const cosign = useGuardianCosign(assignment);
+  const submitBlockedReason = cosign.readyForClient ? null : GUARDIAN_SIGNATURE_PENDING;
   
   const handleSave = async (formData: any, isDraft = true) => {
     setIsSubmitting(true);
@@ -37,7 +55,8 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
       console.log('[DocumentFormRenderer] Assignment:', assignment);
       
       if (isDraft) {
-        // For draft saves, only update the assignment status
+        // Autosaved forms flush their answers; the assignment is marked as started either way
+        await autosave.saveNow();
         const { success: statusUpdateSuccess, error: statusUpdateError } = await updateDocumentStatus(assignment.id, 'in_progress');
         
         if (!statusUpdateSuccess) {
@@ -47,10 +66,19 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
         toast.success("Progress saved successfully");
         onSave();
       } else {
+        // Minors' forms are only completed once a parent or guardian has signed as well
+        if (!cosign.readyForClient) {
+          throw new Error(GUARDIAN_SIGNATURE_PENDING);
+        }
+        
         // Handle Client History forms with optimized data storage
         if (assignment.document_name === 'Client History Form') {
           console.log('[DocumentFormRenderer] Processing Client History with optimized storage');
           
+          if (cosign.required && !formData.signature) {
+            throw new Error('Please type your name in the signature field');
+          }
+          
           const result = await saveClientHistoryOptimized(formData);
           
           if (!result.success) {
@@ -62,18 +90,46 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
             throw new Error(`Failed to save client history: ${errorMessage}`);
           }
           
+          if (cosign.required) {
+            // The typed signature counts as the client's half of the co-signed form
+            const { success: signed } = await recordDocumentSignature({
+              clientId,
+              documentType: getAssignmentDocumentType(assignment.document_name),
+              documentTitle: assignment.document_name,
+              documentHash: await hashDocumentText(JSON.stringify(formData)),
+              signature: { signerName: formData.signature, method: 'typed', data: formData.signature },
+              assignmentId: assignment.id
+            });
+            if (!signed) {
+              throw new Error('Your answers were saved, but your signature could not be recorded. Please submit again.');
+            }
+          }
+          
+          // The answers are also filed as a readable PDF with the client's other documents
+          const historyPdfPath = await generateAndSaveStructuredPDF(buildClientHistoryPdf(formData), {
+            clientId,
+            documentType: 'client_history',
+            documentDate: new Date(),
+            documentTitle: assignment.document_name,
+            createdBy: clientId
+          });
+          if (!historyPdfPath) {
+            console.warn('[DocumentFormRenderer] Client History PDF could not be generated, but the answers were saved');
+          }
+          
           // Update assignment status to completed
           const { success: statusSuccess } = await updateDocumentStatus(assignment.id, 'completed');
           if (!statusSuccess) {
             console.warn('Failed to update assignment status, but form was saved successfully');
           }
           
+          await autosave.clearDraft();
           console.log('[DocumentFormRenderer] Client History saved successfully');
           toast.success("Client History form submitted successfully!");
           onComplete();
         } else {
           // For other document types, use the existing PDF generation process
-          const documentType = getDocumentType(assignment.document_name);
+          const documentType = getAssignmentDocumentType(assignment.document_name);
           
           const documentInfo = {
             clientId: clientId,
@@ -83,7 +139,34 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
             createdBy: clientId
           };
           
-          if (formData.formElementId) {
+          if (formData.signature) {
+            // Signed forms get the recorded signature and its audit trail stamped into the PDF
+            toast.loading("Generating signed document...", { id: 'pdf-generation' });
+            
+            const filePath = await generateAndSaveStructuredPDF(
+              buildTelehealthConsentPdf(formData.signature.signer_name),
+              documentInfo,
+              {
+                signature: formData.signature,
+                coSignatures: cosign.guardianSignature ? [cosign.guardianSignature] : []
+              }
+            );
+            
+            toast.dismiss('pdf-generation');
+            
+            if (!filePath) {
+              throw new Error('Your signature was recorded, but the signed document could not be saved');
+            }
+            
+            const { success: statusSuccess } = await updateDocumentStatus(assignment.id, 'completed');
+            if (!statusSuccess) {
+              console.warn('Failed to update assignment status, but signed document was saved successfully');
+            }
+            
+            console.log(`[DocumentFormRenderer] Signed document saved at path: ${filePath}`);
+            toast.success("Document successfully signed!");
+            onComplete();
+          } else if (formData.formElementId) {
             toast.loading("Generating document...", { id: 'pdf-generation' });
             
             const result = await handleFormSubmission(
@@ -128,16 +211,6 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
     }
   };
   
-  const getDocumentType = (documentName: string): string => {
-    // Map document names to types
-    const typeMap: Record<string, string> = {
-      'Client History Form': 'client_history',
-      'Informed Consent': 'informed_consent',
-    };
-    
-    return typeMap[documentName] || documentName.toLowerCase().replace(/\s+/g, '_');
-  };
-  
   // Convert ClientProfile to ClientDetails format correctly with all required fields
   const clientData: ClientDetails | null = clientProfile ? {
     id: clientProfile.id,
@@ -249,6 +322,10 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
       case 'Client History Form':
         return (
           <ClientHistoryTemplate 
+            key={autosave.restoreKey}
+            draft={autosave.initialDraft}
+            onDraftChange={autosave.updateDraft}
+            submitBlockedReason={submitBlockedReason}
             onClose={onCancel}
             onSubmit={async (data) => {
               try {
@@ -264,6 +341,9 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
       case 'Informed Consent':
         return (
           <InformedConsentTemplate 
+            clientData={clientData}
+            assignmentId={assignment.id}
+            submitBlockedReason={submitBlockedReason}
             onClose={onCancel}
             onSubmit={(data) => handleSave(data, false)}
           />
@@ -277,6 +357,21 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
     }
   };
   
+  const renderAutosaveStatus = () => {
+    switch (autosave.status) {
+      case 'saving':
+        return <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Saving progress...</span>;
+      case 'saved':
+        return autosave.lastSavedAt ? <span>Progress saved at {format(autosave.lastSavedAt, 'h:mm a')}</span> : null;
+      case 'offline':
+        return <span className="flex items-center gap-1 text-amber-700"><CloudOff className="h-3 w-3" /> Saved on this device, will sync when connected</span>;
+      case 'error':
+        return <span className="text-red-600">Progress could not be saved</span>;
+      default:
+        return null;
+    }
+  };
+
   return (
     <Card className="border-2 border-blue-100">
       <CardHeader className="bg-blue-50/50">
@@ -284,7 +379,54 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
       </CardHeader>
       
       <CardContent className="p-0">
-        {renderForm()}
+        {autosave.conflict && (
+          <Alert variant="destructive" className="m-4 w-auto">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This form was changed somewhere else</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                {autosave.conflict.version === null
+                  ? 'The saved progress for this form was cleared in another window, possibly because the form was submitted there.'
+                  : 'Newer answers were saved from another tab or device. Autosave is paused until you choose which version to keep.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => autosave.resolveConflict('load_theirs')}>
+                  Load the other version
+                </Button>
+                <Button size="sm" onClick={() => autosave.resolveConflict('keep_mine')}>
+                  Keep my answers
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!autosave.conflict && autosave.openElsewhere && (
+          <Alert className="m-4 w-auto">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Open in another tab</AlertTitle>
+            <AlertDescription>
+              This form is also open in another tab. Continue in one tab only so your answers are not overwritten.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {cosign.required && (
+          <GuardianCosignPanel
+            clientId={clientId}
+            loading={cosign.loading}
+            guardians={cosign.guardians}
+            guardianSignature={cosign.guardianSignature}
+            onRefresh={cosign.refresh}
+          />
+        )}
+
+        {autosave.loading ? (
+          <div className="flex items-center justify-center gap-2 p-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading your saved progress...
+          </div>
+        ) : renderForm()}
       </CardContent>
       
       <CardFooter className="flex justify-between bg-blue-50/50 p-4">
@@ -295,10 +437,14 @@ const DocumentFormRenderer: React.FC<DocumentFormRendererProps> = ({
         >
           Cancel
         </Button>
-        {isSubmitting && (
+        {isSubmitting ? (
           <div className="text-sm text-muted-foreground">
             Processing document...
           </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            {renderAutosaveStatus()}
+          </div>
         )}
       </CardFooter>
     </Card>
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { FileText, ClipboardCheck, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
@@ -15,6 +16,8 @@ const DocumentsTab: React.FC = () => {
   const [isFormMode, setIsFormMode] = useState(false);
   const [activeTab, setActiveTab] = useState('assignments');
   const { userId } = useAuth();
+  const [searchParams] = useSearchParams();
+  const openedAssignmentRef = useRef<string | null>(null);
   
   const {
     assignments,
@@ -32,6 +35,23 @@ const DocumentsTab: React.FC = () => {
     }
   }, [userId]);
 
+  // Notification deep links (?assignment=<id>) open the assignment once it has loaded
+  const linkedAssignmentId = searchParams.get('assignment');
+  useEffect(() => {
+    if (!linkedAssignmentId || openedAssignmentRef.current === linkedAssignmentId) return;
+
+    const assignment = assignments.find(item => item.id === linkedAssignmentId);
+    if (!assignment) return;
+
+    openedAssignmentRef.current = linkedAssignmentId;
+    if (assignment.status === 'completed') {
+      setActiveTab('documents');
+    } else {
+      setSelectedAssignment(assignment);
+      setIsFormMode(true);
+    }
+  }, [linkedAssignmentId, assignments]);
+
   const handleStartForm = (assignment: DocumentAssignment) => {
     console.log('Starting form:', assignment);
     setSelectedAssignment(assignment);
@@ -125,7 +145,7 @@ const DocumentsTab: React.FC = () => {
           onComplete={handleCompleteForm}
         />
       ) : (
-        <Tabs defaultValue={activeTab} onValueChange={setActiveTab}>
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="mb-4 sm:mb-6 grid w-full grid-cols-2 h-auto">
             <TabsTrigger value="assignments" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-3 text-xs sm:text-sm">
               <ClipboardCheck className="h-4 w-4" />
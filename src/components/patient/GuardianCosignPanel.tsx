@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle2, Clock, Loader2, Mail, RefreshCw, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { inviteGuardian } from '@/integrations/supabase/client';
+import { DocumentSignature } from '@/types/documentSignatures';
+import { ClientGuardian, GuardianLinkStatus } from '@/types/guardians';
+
+interface GuardianCosignPanelProps {
+  clientId: string;
+  loading: boolean;
+  guardians: ClientGuardian[];
+  guardianSignature: DocumentSignature | null;
+  onRefresh: () => void;
+}
+
+const GUARDIAN_STATUS_LABELS: Record<GuardianLinkStatus, string> = {
+  pending_approval: 'Waiting for practice approval',
+  invited: 'Invitation sent',
+  active: 'Has not signed yet',
+  revoked: 'Removed'
+};
+
+/**
+ * Shown above a minor's form: whether a parent or guardian has signed yet, who has been
+ * invited, and a way to invite one by email.
+ */
+const GuardianCosignPanel: React.FC<GuardianCosignPanelProps> = ({
+  clientId,
+  loading,
+  guardians,
+  guardianSignature,
+  onRefresh
+}) => {
+  const [showInvite, setShowInvite] = useState(false);
+  const [guardianName, setGuardianName] = useState('');
+  const [guardianEmail, setGuardianEmail] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!guardianName.trim() || !guardianEmail.trim()) {
+      toast.error("Please enter your parent or guardian's name and email");
+      return;
+    }
+
+    setIsInviting(true);
+    const { success, data, error } = await inviteGuardian({
+      clientId,
+      guardianName: guardianName.trim(),
+      guardianEmail: guardianEmail.trim()
+    });
+    setIsInviting(false);
+
+    if (!success) {
+      toast.error(error || 'The invitation could not be sent');
+      return;
+    }
+
+    toast.success(
+      data?.status === 'pending_approval'
+        ? 'Your practice will review the request and then email the invitation'
+        : `Invitation sent to ${guardianEmail.trim()}`
+    );
+    setGuardianName('');
+    setGuardianEmail('');
+    setShowInvite(false);
+    onRefresh();
+  };
+
+  if (guardianSignature) {
+    return (
+      <Alert className="m-4 w-auto border-green-200 bg-green-50">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        <AlertTitle>Parent/guardian signature received</AlertTitle>
+        <AlertDescription>
+          Signed by {guardianSignature.signer_name} on {format(new Date(guardianSignature.signed_at), "MMMM d, yyyy 'at' h:mm a")}.
+          You can now complete and sign this form.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert className="m-4 w-auto border-amber-200 bg-amber-50">
+      <Users className="h-4 w-4 text-amber-600" />
+      <AlertTitle>A parent or guardian must also sign this form</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          Because you are under 18, this form can only be submitted after your parent or guardian
+          signs it from their own portal account. The practice approves each invitation before it is sent. You can fill it out in the meantime; your progress is kept.
+        </p>
+
+        {guardians.length > 0 && (
+          <ul className="space-y-1">
+            {guardians.map(guardian => (
+              <li key={guardian.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{guardian.guardian_name}</span>
+                <span className="text-muted-foreground">{guardian.guardian_email}</span>
+                <Badge variant="outline" className="gap-1">
+                  <Clock className="h-3 w-3" />
+                  {GUARDIAN_STATUS_LABELS[guardian.status]}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {showInvite ? (
+          <form onSubmit={handleInvite} className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="guardian-name">Parent/guardian name</Label>
+              <Input
+                id="guardian-name"
+                value={guardianName}
+                onChange={(e) => setGuardianName(e.target.value)}
+                disabled={isInviting}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian-email">Parent/guardian email</Label>
+              <Input
+                id="guardian-email"
+                type="email"
+                value={guardianEmail}
+                onChange={(e) => setGuardianEmail(e.target.value)}
+                disabled={isInviting}
+              />
+            </div>
+            <Button type="submit" disabled={isInviting}>
+              {isInviting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Mail className="h-4 w-4 mr-1" />}
+              Request invitation
+            </Button>
+          </form>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => setShowInvite(true)}>
+              <Mail className="h-4 w-4 mr-1" />
+              {guardians.length > 0 ? 'Invite another parent/guardian' : 'Invite a parent/guardian'}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onRefresh} disabled={loading}>
+              <RefreshCw className={loading ? 'h-4 w-4 mr-1 animate-spin' : 'h-4 w-4 mr-1'} />
+              Check again
+            </Button>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default GuardianCosignPanel;
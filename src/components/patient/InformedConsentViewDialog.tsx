@@ -1,13 +1,24 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { format } from 'date-fns';
-import { Loader2, Video, Shield, AlertTriangle, Calendar, FileText, Check } from 'lucide-react';
+import { Loader2, Calendar, FileText, Check, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { fetchDocumentSignatures } from '@/integrations/supabase/client';
+import { DocumentSignature } from '@/types/documentSignatures';
+import { SignatureVerification, getSignatureAuditLines, verifyDocumentSignature } from '@/utils/documentSignatures';
+import {
+  TELEHEALTH_CONSENT_DOCUMENT_TYPE,
+  TELEHEALTH_CONSENT_SECTIONS,
+  TELEHEALTH_CONSENT_TITLE,
+  getTelehealthConsentText
+} from '@/components/templates/telehealthConsentContent';
 
 interface InformedConsentData {
   document_date: string;
   client_name?: string;
+  client_id?: string;
 }
 
 interface InformedConsentViewDialogProps {
@@ -23,6 +34,37 @@ const InformedConsentViewDialog: React.FC<InformedConsentViewDialogProps> = ({
   data,
   isLoading
 }) => {
+  const [signatures, setSignatures] = useState<DocumentSignature[]>([]);
+  const [signaturesLoading, setSignaturesLoading] = useState(false);
+  const [verification, setVerification] = useState<Record<string, SignatureVerification>>({});
+
+  // Each signature is checked against the consent text shown in this dialog
+  useEffect(() => {
+    if (!isOpen || !data?.client_id) {
+      setSignatures([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSignatures = async () => {
+      setSignaturesLoading(true);
+      const result = await fetchDocumentSignatures(data.client_id as string, TELEHEALTH_CONSENT_DOCUMENT_TYPE);
+      const records = result.success && result.data ? result.data : [];
+      const documentText = getTelehealthConsentText();
+      const checks = await Promise.all(records.map(async record => [record.id, await verifyDocumentSignature(record, documentText)] as const));
+      if (cancelled) return;
+
+      setSignatures(records);
+      setVerification(Object.fromEntries(checks));
+      setSignaturesLoading(false);
+    };
+
+    loadSignatures();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, data?.client_id]);
+
   if (!isOpen) return null;
   
   if (isLoading) {
@@ -61,7 +103,7 @@ const InformedConsentViewDialog: React.FC<InformedConsentViewDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="text-2xl flex items-center gap-2">
             <FileText className="h-6 w-6 text-valorwell-600" />
-            Informed Consent for Telehealth Services
+            {TELEHEALTH_CONSENT_TITLE}
           </DialogTitle>
         </DialogHeader>
         
@@ -89,143 +131,71 @@ const InformedConsentViewDialog: React.FC<InformedConsentViewDialogProps> = ({
             </p>
           </div>
           
-          {/* What Is Telehealth Section */}
-          <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-4">
-                <Video className="h-5 w-5 text-valorwell-600" /> 
-                What Is Telehealth?
-              </h3>
-              <p className="text-muted-foreground">
-                Telehealth involves the use of electronic communications to provide behavioral health services remotely. 
-                This may include real-time video conferencing, phone calls, or other secure communication tools. 
-                Telehealth allows for the delivery of therapy services without an in-person visit.
-              </p>
-            </CardContent>
-          </Card>
-          
-          {/* Technology and Privacy Section */}
-          <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-4">
-                <Shield className="h-5 w-5 text-valorwell-600" /> 
-                Technology and Privacy
-              </h3>
-              <div className="space-y-3 text-muted-foreground">
-                <p>
-                  Our telehealth sessions will be conducted through our own proprietary health record system, 
-                  which is HIPAA-compliant and encrypted to protect your privacy. Clinical notes from telehealth 
-                  sessions will be maintained in a secure, HIPAA-compliant electronic health record. Clients may 
-                  request access to their records in accordance with applicable law.
-                </p>
-                <p>
-                  While we use best practices to maintain privacy and data security, telehealth carries inherent 
-                  risks, including the potential for technical failure, unauthorized access, and loss of confidentiality. 
-                  You acknowledge and accept these risks.
-                </p>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Benefits and Limitations Section */}
-          <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium mb-4">Benefits and Limitations</h3>
-              <p className="text-muted-foreground">
-                Telehealth offers increased accessibility and convenience. However, it may not be appropriate 
-                in all situations. Your provider will assess whether telehealth is a suitable form of care for 
-                your specific needs. If at any time telehealth is deemed clinically inappropriate, alternative 
-                arrangements may be recommended.
-              </p>
-            </CardContent>
-          </Card>
-
-          {/* Client Responsibilities Section */}
-          <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium mb-4">Client Responsibilities</h3>
-              <div className="space-y-3 text-muted-foreground">
-                <p>
-                  To maintain the effectiveness and confidentiality of telehealth sessions, clients agree to conduct 
-                  sessions in a private, distraction-free environment. Clients will not attend sessions while operating 
-                  a vehicle.
-                </p>
-                <p>
-                  You are responsible for ensuring a stable internet connection and appropriate technology for video 
-                  or phone sessions. You agree to take steps to secure your own devices and communication channels 
-                  (e.g., using a private internet connection and updated security software).
-                </p>
-              </div>
-            </CardContent>
-          </Card>
+          {TELEHEALTH_CONSENT_SECTIONS.map(({ title, icon: Icon, paragraphs }) => (
+            <Card key={title}>
+              <CardContent className="pt-6">
+                <h3 className="text-lg font-medium flex items-center gap-2 mb-4">
+                  {Icon && <Icon className="h-5 w-5 text-valorwell-600" />}
+                  {title}
+                </h3>
+                <div className="space-y-3 text-muted-foreground">
+                  {paragraphs.map((paragraph, index) => (
+                    <p key={index}>{paragraph}</p>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
 
-          {/* Emergency and Crisis Section */}
+          {/* Signature records */}
           <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-4">
-                <AlertTriangle className="h-5 w-5 text-valorwell-600" /> 
-                Emergencies and Crisis Situations
+            <CardContent className="pt-6 space-y-4">
+              <h3 className="text-lg font-medium flex items-center gap-2">
+                <Calendar className="h-5 w-5 text-valorwell-600" />
+                Electronic Signature
               </h3>
-              <div className="space-y-3 text-muted-foreground">
-                <p>
-                  In the event of a crisis or emergency, you agree to contact emergency services (911) or go to the 
-                  nearest emergency room. You also agree to inform your provider of your physical location at the 
-                  beginning of each session in case emergency services need to be contacted.
-                </p>
-                <p>
-                  Please note that telehealth is not appropriate for all emergency situations, and your provider may 
-                  not be able to provide immediate crisis support remotely.
-                </p>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Confidentiality Section */}
-          <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium mb-4">Confidentiality</h3>
-              <p className="text-muted-foreground">
-                Information shared in telehealth sessions is confidential and subject to the same limitations and 
-                protections as in-person therapy. These include exceptions required by law, such as the duty to report 
-                imminent risk of harm to self or others, suspected abuse, or court-ordered disclosures.
-              </p>
-            </CardContent>
-          </Card>
-
-          {/* Voluntary Participation Section */}
-          <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium mb-4">Voluntary Participation and Withdrawal</h3>
-              <p className="text-muted-foreground">
-                Participation in telehealth is voluntary. You have the right to withdraw your consent to telehealth 
-                services at any time without affecting your right to future care or treatment.
-              </p>
-            </CardContent>
-          </Card>
 
-          {/* Acknowledgment Section */}
-          <Card>
-            <CardContent className="pt-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-4">
-                <Check className="h-5 w-5 text-valorwell-600" /> 
-                Acknowledgment and Consent
-              </h3>
-              <p className="text-muted-foreground mb-4">
-                By signing below, you acknowledge that you have read and understood the information 
-                provided above. You consent to engage in telehealth services under the terms described.
-              </p>
-              
-              {/* Signature Status */}
-              <div className="bg-gray-50 rounded-lg p-4 border">
-                <div className="flex items-center gap-2 mb-2">
-                  <Calendar className="h-4 w-4 text-muted-foreground" />
-                  <span className="font-medium">Electronically Signed</span>
+              {signaturesLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Loading signature record...
                 </div>
-                <p className="text-sm text-muted-foreground">
-                  This consent form was completed and electronically signed on{' '}
-                  {format(new Date(data.document_date), 'MMMM d, yyyy')}
-                </p>
-              </div>
+              ) : signatures.length === 0 ? (
+                <div className="bg-gray-50 rounded-lg p-4 border">
+                  <p className="text-sm text-muted-foreground">
+                    This consent form was completed and electronically signed on{' '}
+                    {format(new Date(data.document_date), 'MMMM d, yyyy')}. It was signed before signature
+                    records were kept, so no signature details are available.
+                  </p>
+                </div>
+              ) : (
+                signatures.map(signature => (
+                  <div key={signature.id} className="bg-gray-50 rounded-lg p-4 border space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      {signature.signature_method === 'drawn' ? (
+                        <img src={signature.signature_data} alt={`Signature of ${signature.signer_name}`} className="h-16 bg-white border rounded" />
+                      ) : (
+                        <span className="font-serif text-2xl italic">{signature.signature_data}</span>
+                      )}
+                      {verification[signature.id] === 'verified' && (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100 flex items-center gap-1">
+                          <ShieldCheck className="h-3 w-3" /> Verified
+                        </Badge>
+                      )}
+                      {verification[signature.id] === 'document_changed' && (
+                        <Badge variant="destructive" className="flex items-center gap-1">
+                          <ShieldAlert className="h-3 w-3" /> Document text differs from what was signed
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="space-y-1 text-xs text-muted-foreground break-all">
+                      {getSignatureAuditLines(signature).map(line => (
+                        <p key={line}>{line}</p>
+                      ))}
+                      {signature.document_version && <p>Consent version: {signature.document_version}</p>}
+                    </div>
+                  </div>
+                ))
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Camera, CheckCircle2, History, ImageIcon, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useInsuranceCards } from '@/hooks/useInsuranceCards';
+import { InsuranceLevel } from '@/types/eligibility';
+import { INSURANCE_CARD_SIDES, InsuranceCardImage, InsuranceCardSide } from '@/types/insuranceCards';
+import { getCurrentCardImage, getMissingCardSides, getReplacedCardImages, isPolicyComplete } from '@/utils/insuranceCards';
+
+interface InsuranceCardPhotosProps {
+  level: InsuranceLevel;
+  company?: string | null;
+  policyNumber?: string | null;
+  cards: ReturnType<typeof useInsuranceCards>;
+  // Clinicians view the photos without being able to replace them
+  readOnly?: boolean;
+}
+
+const SIDE_LABELS: Record<InsuranceCardSide, string> = {
+  front: 'Front',
+  back: 'Back'
+};
+
+const CardThumbnail: React.FC<{ image: InsuranceCardImage; urls: Record<string, string>; className?: string }> = ({
+  image,
+  urls,
+  className = 'h-28 w-44'
+}) => {
+  const thumbnailUrl = urls[image.thumbnail_path || image.file_path];
+  return (
+    <a
+      href={urls[image.file_path]}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`${className} block overflow-hidden rounded-md border bg-muted`}
+      title="Open full-size photo"
+    >
+      {thumbnailUrl ? (
+        <img src={thumbnailUrl} alt={`${SIDE_LABELS[image.side]} of insurance card`} className="h-full w-full object-cover" />
+      ) : (
+        <ImageIcon className="m-auto h-full w-6 text-muted-foreground" />
+      )}
+    </a>
+  );
+};
+
+/**
+ * Front and back photos of one insurance card, with upload or camera capture, the policy's
+ * completeness and the photos that were replaced.
+ */
+const InsuranceCardPhotos: React.FC<InsuranceCardPhotosProps> = ({ level, company, policyNumber, cards, readOnly = false }) => {
+  const [uploading, setUploading] = useState<InsuranceCardSide | null>(null);
+  const fileInputs = useRef<Partial<Record<string, HTMLInputElement | null>>>({});
+
+  const missingSides = getMissingCardSides(cards.images, level);
+  const complete = isPolicyComplete({ company, policyNumber }, cards.images, level);
+  const replaced = getReplacedCardImages(cards.images, level);
+
+  const handleFileSelected = async (side: InsuranceCardSide, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(side);
+    try {
+      await cards.upload(level, side, file);
+      toast.success(`${SIDE_LABELS[side]} of your card saved`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The photo could not be uploaded');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-medium">Card photos</h4>
+        {complete ? (
+          <Badge variant="outline" className="gap-1 border-green-200 text-green-700">
+            <CheckCircle2 className="h-3 w-3" />
+            Policy complete
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="gap-1 border-amber-200 text-amber-700">
+            <AlertCircle className="h-3 w-3" />
+            {missingSides.length > 0
+              ? `${missingSides.map(side => SIDE_LABELS[side].toLowerCase()).join(' and ')} photo needed`
+              : 'Policy details needed'}
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {INSURANCE_CARD_SIDES.map(side => {
+          const current = getCurrentCardImage(cards.images, level, side);
+          const inputKey = (capture: boolean) => `${side}-${capture ? 'camera' : 'file'}`;
+          return (
+            <div key={side} className="space-y-2">
+              <p className="text-sm text-muted-foreground">{SIDE_LABELS[side]}</p>
+              {current ? (
+                <CardThumbnail image={current} urls={cards.urls} />
+              ) : (
+                <div className="flex h-28 w-44 items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground">
+                  {cards.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'No photo yet'}
+                </div>
+              )}
+              {current && (
+                <p className="text-xs text-muted-foreground">
+                  Added {format(new Date(current.uploaded_at), 'MMM d, yyyy')}
+                </p>
+              )}
+
+              {!readOnly && (
+                <div className="flex flex-wrap gap-2">
+                  {[false, true].map(capture => (
+                    <React.Fragment key={inputKey(capture)}>
+                      <input
+                        ref={element => { fileInputs.current[inputKey(capture)] = element; }}
+                        type="file"
+                        accept="image/*"
+                        capture={capture ? 'environment' : undefined}
+                        className="hidden"
+                        onChange={event => handleFileSelected(side, event)}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={uploading !== null}
+                        onClick={() => fileInputs.current[inputKey(capture)]?.click()}
+                      >
+                        {uploading === side && !capture ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : capture ? (
+                          <Camera className="h-4 w-4 mr-1" />
+                        ) : (
+                          <Upload className="h-4 w-4 mr-1" />
+                        )}
+                        {capture ? 'Take photo' : current ? 'Replace' : 'Upload'}
+                      </Button>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {replaced.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" size="sm" className="px-0">
+              <History className="h-4 w-4 mr-1" />
+              Previous photos ({replaced.length})
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ul className="grid gap-3 sm:grid-cols-2 pt-2">
+              {replaced.map(image => (
+                <li key={image.id} className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <CardThumbnail image={image} urls={cards.urls} className="h-14 w-20" />
+                  <div>
+                    <p className="font-medium text-foreground">{SIDE_LABELS[image.side]}</p>
+                    <p>Added {format(new Date(image.uploaded_at), 'MMM d, yyyy')}</p>
+                    {image.replaced_at && <p>Replaced {format(new Date(image.replaced_at), 'MMM d, yyyy')}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
+
+export default InsuranceCardPhotos;
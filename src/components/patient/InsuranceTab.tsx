@@ -5,7 +5,15 @@ import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import MyInsurance from '@/components/patient/MyInsurance';
+import CoverageVerification from '@/components/patient/CoverageVerification';
+import AuthorizationStatusCard from '@/components/patient/AuthorizationStatusCard';
+import { useInsuranceAuthorizations } from '@/hooks/useInsuranceAuthorizations';
+import { useInsuranceCards } from '@/hooks/useInsuranceCards';
+import { INSURANCE_LEVELS } from '@/types/eligibility';
+import { isPolicyComplete } from '@/utils/insuranceCards';
+import { getAuthorizationProgram } from '@/utils/authorizations';
 import { ClientDetails } from '@/types/client';
+import { hasBlockingIssues, validateCoordinationOfBenefits } from '@/utils/coordinationOfBenefits';
 
 const insuranceTypes = ["PPO", "HMO", "EPO", "POS", "Medicare", "Medicaid", "CHIP", "TRICARE", "Other"];
 const relationshipTypes = ["Self", "Spouse", "Child", "Other"];
@@ -14,6 +22,23 @@ const InsuranceTab = () => {
   const { clientProfile, isLoading, userId } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const authorizationProgram = getAuthorizationProgram(clientProfile?.client_vacoverage);
+  const {
+    authorizations,
+    renewalRequests,
+    loading: authorizationsLoading,
+    refresh: refreshAuthorizations
+  } = useInsuranceAuthorizations(authorizationProgram ? userId : null);
+  const cards = useInsuranceCards(userId);
+  // Coverage can only be checked for complete policies: details saved and both card photos on file
+  const incompleteLevels = INSURANCE_LEVELS.filter(level => !isPolicyComplete(
+    {
+      company: clientProfile?.[`client_insurance_company_${level}`],
+      policyNumber: clientProfile?.[`client_policy_number_${level}`]
+    },
+    cards.images,
+    level
+  ));
   
   // Debug: Log client profile data
   useEffect(() => {
@@ -44,6 +69,11 @@ const InsuranceTab = () => {
   
   // Handle saving profile data
   const handleSaveProfile = async () => {
+    if (hasBlockingIssues(validateCoordinationOfBenefits(form.getValues()))) {
+      toast.error("Please correct the insurance details shown before saving");
+      return;
+    }
+
     try {
       setIsSaving(true);
       
@@ -122,18 +152,45 @@ const InsuranceTab = () => {
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
         </div>
       ) : (
-        <MyInsurance 
-          clientData={clientProfile}
-          loading={isLoading}
-          isEditing={isEditing}
-          setIsEditing={setIsEditing}
-          form={form}
-          isSaving={isSaving}
-          handleSaveProfile={handleSaveProfile}
-          handleCancelEdit={handleCancelEdit}
-          insuranceTypes={insuranceTypes}
-          relationshipTypes={relationshipTypes}
-        />
+        <>
+          <MyInsurance 
+            clientData={clientProfile}
+            loading={isLoading}
+            isEditing={isEditing}
+            setIsEditing={setIsEditing}
+            form={form}
+            isSaving={isSaving}
+            handleSaveProfile={handleSaveProfile}
+            handleCancelEdit={handleCancelEdit}
+            insuranceTypes={insuranceTypes}
+            relationshipTypes={relationshipTypes}
+            clientId={userId}
+            cards={cards}
+          />
+          {/* Checks run against the saved policy, so they are hidden while it is being edited */}
+          {userId && !isEditing && (
+            <CoverageVerification
+              clientId={userId}
+              insuranceCompanies={{
+                primary: clientProfile?.client_insurance_company_primary,
+                secondary: clientProfile?.client_insurance_company_secondary,
+                tertiary: clientProfile?.client_insurance_company_tertiary
+              }}
+              incompleteLevels={cards.loading ? [] : incompleteLevels}
+            />
+          )}
+          {authorizationProgram && userId && (
+            <AuthorizationStatusCard
+              clientId={userId}
+              program={authorizationProgram}
+              timezone={clientProfile?.client_time_zone}
+              authorizations={authorizations}
+              renewalRequests={renewalRequests}
+              loading={authorizationsLoading}
+              onRenewalRequested={refreshAuthorizations}
+            />
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,162 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Paperclip, Send, X, FileText, CheckCheck, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { getDocumentDownloadURL } from '@/integrations/supabase/client';
+import { useThreadMessages } from '@/hooks/useThreadMessages';
+import { formatInClientTimezone, getSafeTimezone, DATE_FORMATS } from '@/utils/dateFormatting';
+import { MessageAttachment, MessageThread } from '@/types/messaging';
+
+interface MessageThreadViewProps {
+  thread: MessageThread;
+  userId: string;
+  clinicianName: string;
+  clientTimezone?: string | null;
+}
+
+const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const MessageThreadView: React.FC<MessageThreadViewProps> = ({ thread, userId, clinicianName, clientTimezone }) => {
+  const safeTimezone = getSafeTimezone(clientTimezone);
+  const { messages, loading, sending, sendMessage } = useThreadMessages(thread.id, thread.client_id, userId);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    const result = await sendMessage(body, files);
+    if (result.success) {
+      setBody('');
+      setFiles([]);
+    } else {
+      toast.error(result.error || 'Failed to send message');
+    }
+  };
+
+  // Attachments are opened through short-lived signed URLs rather than public links
+  const openAttachment = async (attachment: MessageAttachment) => {
+    const url = await getDocumentDownloadURL(attachment.file_path);
+    if (url) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } else {
+      toast.error('Could not open attachment');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b pb-3 mb-3">
+        <h3 className="font-semibold">{thread.subject}</h3>
+        <p className="text-sm text-muted-foreground">Conversation with {clinicianName}</p>
+      </div>
+
+      <ScrollArea className="flex-1 h-96 pr-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading messages...</p>
+        ) : (
+          <div className="space-y-3">
+            {messages.map(message => {
+              const isOwn = message.sender_id === userId;
+              return (
+                <div key={message.id} className={cn('flex', isOwn ? 'justify-end' : 'justify-start')}>
+                  <div
+                    className={cn(
+                      'max-w-[80%] rounded-lg px-3 py-2 text-sm',
+                      isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                    )}
+                  >
+                    {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+                    {message.message_attachments?.map(attachment => (
+                      <button
+                        key={attachment.id}
+                        type="button"
+                        onClick={() => openAttachment(attachment)}
+                        className="flex items-center gap-1 mt-1 underline underline-offset-2"
+                      >
+                        <FileText className="h-3 w-3" />
+                        {attachment.file_name}
+                        <span className="opacity-70">{formatFileSize(attachment.size_bytes)}</span>
+                      </button>
+                    ))}
+                    <div className={cn('flex items-center gap-1 mt-1 text-xs', isOwn ? 'justify-end opacity-80' : 'text-muted-foreground')}>
+                      {formatInClientTimezone(message.created_at, safeTimezone, DATE_FORMATS.SHORT_DATETIME)}
+                      {isOwn && (message.read_at
+                        ? <span className="flex items-center gap-0.5" title={`Read ${formatInClientTimezone(message.read_at, safeTimezone, DATE_FORMATS.SHORT_DATETIME)}`}><CheckCheck className="h-3 w-3" />Read</span>
+                        : <span className="flex items-center gap-0.5"><Check className="h-3 w-3" />Sent</span>)}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            <div ref={bottomRef} />
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="border-t pt-3 mt-3 space-y-2">
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {files.map((file, index) => (
+              <span key={`${file.name}-${index}`} className="flex items-center gap-1 text-xs bg-muted rounded px-2 py-1">
+                <FileText className="h-3 w-3" />
+                {file.name}
+                <button type="button" onClick={() => setFiles(current => current.filter((_, i) => i !== index))}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <Textarea
+          value={body}
+          onChange={e => setBody(e.target.value)}
+          placeholder="Write a message..."
+          rows={3}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+        />
+        <div className="flex items-center justify-between">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={e => {
+              setFiles(current => [...current, ...Array.from(e.target.files || [])]);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+            <Paperclip className="h-4 w-4" />
+            Attach
+          </Button>
+          <Button onClick={handleSend} disabled={sending || (!body.trim() && files.length === 0)} className="flex items-center gap-2">
+            <Send className="h-4 w-4" />
+            {sending ? 'Sending...' : 'Send'}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Messages are not monitored around the clock. If you are in crisis, call or text 988 or dial 911.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MessageThreadView;
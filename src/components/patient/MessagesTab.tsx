@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { MessageSquare, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/context/NewAuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useMessageThreads } from '@/hooks/useMessageThreads';
+import { formatInClientTimezone, getSafeTimezone, DATE_FORMATS } from '@/utils/dateFormatting';
+import { MessageThread } from '@/types/messaging';
+import MessageThreadView from './MessageThreadView';
+
+interface TherapistSummary {
+  id: string;
+  name: string;
+}
+
+const getClinicianName = (thread: MessageThread, fallback: string) => {
+  const clinician = thread.clinicians;
+  return clinician?.clinician_professional_name
+    || `${clinician?.clinician_first_name || ''} ${clinician?.clinician_last_name || ''}`.trim()
+    || fallback;
+};
+
+const MessagesTab: React.FC = () => {
+  const { user } = useAuth();
+  const [therapist, setTherapist] = useState<TherapistSummary | null>(null);
+  const [clientTimezone, setClientTimezone] = useState<string | null>(null);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [newThreadOpen, setNewThreadOpen] = useState(false);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [creating, setCreating] = useState(false);
+  const { threads, loading, createThread } = useMessageThreads(user?.id);
+  const [searchParams] = useSearchParams();
+  const linkedThreadId = searchParams.get('thread');
+  const openedThreadRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const fetchTherapist = async () => {
+      if (!user) return;
+
+      const { data: client, error } = await supabase
+        .from('clients')
+        .select('client_assigned_therapist, client_time_zone')
+        .eq('id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching client for messaging:', error);
+        return;
+      }
+
+      setClientTimezone(client?.client_time_zone || null);
+
+      if (client?.client_assigned_therapist) {
+        const { data: clinician, error: clinicianError } = await supabase
+          .from('clinicians')
+          .select('id, clinician_professional_name, clinician_first_name, clinician_last_name')
+          .eq('id', client.client_assigned_therapist)
+          .single();
+
+        if (clinicianError) {
+          console.error('Error fetching therapist for messaging:', clinicianError);
+          return;
+        }
+
+        setTherapist({
+          id: clinician.id,
+          name: clinician.clinician_professional_name
+            || `${clinician.clinician_first_name || ''} ${clinician.clinician_last_name || ''}`.trim()
+            || 'Your therapist'
+        });
+      }
+    };
+
+    fetchTherapist();
+  }, [user]);
+
+  // Open the conversation a notification links to (?thread=<id>), otherwise the most recent one
+  useEffect(() => {
+    if (linkedThreadId && openedThreadRef.current !== linkedThreadId && threads.some(thread => thread.id === linkedThreadId)) {
+      openedThreadRef.current = linkedThreadId;
+      setSelectedThreadId(linkedThreadId);
+      return;
+    }
+    if (!selectedThreadId && threads.length > 0) {
+      setSelectedThreadId(threads[0].id);
+    }
+  }, [threads, selectedThreadId, linkedThreadId]);
+
+  const handleCreateThread = async () => {
+    if (!therapist) return;
+
+    setCreating(true);
+    try {
+      const result = await createThread(therapist.id, subject, body);
+      if (result.success && result.threadId) {
+        toast.success('Message sent');
+        setSelectedThreadId(result.threadId);
+        setNewThreadOpen(false);
+        setSubject('');
+        setBody('');
+      } else {
+        toast.error(result.error || 'Failed to send message');
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const safeTimezone = getSafeTimezone(clientTimezone);
+  const selectedThread = threads.find(thread => thread.id === selectedThreadId) || null;
+
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Secure Messages
+          </CardTitle>
+          <CardDescription>
+            {therapist ? `Private messages with ${therapist.name}` : 'Messaging is available once you have an assigned therapist'}
+          </CardDescription>
+        </div>
+        {therapist && (
+          <Button onClick={() => setNewThreadOpen(true)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New Message
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading && threads.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading conversations...</p>
+        ) : threads.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No conversations yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-4">
+            <div className="space-y-1 md:border-r md:pr-3">
+              {threads.map(thread => (
+                <button
+                  key={thread.id}
+                  type="button"
+                  onClick={() => setSelectedThreadId(thread.id)}
+                  className={cn(
+                    'w-full text-left rounded-md px-3 py-2 hover:bg-muted transition-colors',
+                    thread.id === selectedThreadId && 'bg-muted'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={cn('text-sm truncate', thread.unread_count ? 'font-semibold' : 'font-medium')}>
+                      {thread.subject}
+                    </span>
+                    {!!thread.unread_count && <Badge variant="destructive">{thread.unread_count}</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {formatInClientTimezone(thread.last_message_at, safeTimezone, DATE_FORMATS.SHORT_DATETIME)}
+                  </span>
+                </button>
+              ))}
+            </div>
+            {selectedThread && (
+              <MessageThreadView
+                key={selectedThread.id}
+                thread={selectedThread}
+                userId={user.id}
+                clinicianName={getClinicianName(selectedThread, therapist?.name || 'your therapist')}
+                clientTimezone={clientTimezone}
+              />
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={newThreadOpen} onOpenChange={setNewThreadOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Message</DialogTitle>
+            <DialogDescription>
+              Send a secure message to {therapist?.name}. For emergencies, call 911 or the 988 Suicide & Crisis Lifeline.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="message-subject">Subject</Label>
+              <Input id="message-subject" value={subject} onChange={e => setSubject(e.target.value)} maxLength={120} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="message-body">Message</Label>
+              <Textarea id="message-body" value={body} onChange={e => setBody(e.target.value)} rows={5} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewThreadOpen(false)} disabled={creating}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateThread} disabled={creating || !subject.trim() || !body.trim()}>
+              {creating ? 'Sending...' : 'Send'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default MessagesTab;
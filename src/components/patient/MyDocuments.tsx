@@ -217,7 +217,8 @@ const MyDocuments: React.FC<MyDocumentsProps> = ({
       // since the content is static
       const consentData = {
         document_date: document.document_date,
-        client_name: document.client_name
+        client_name: document.client_name,
+        client_id: document.client_id || userId
       };
       
       console.log('Preparing informed consent data:', consentData);
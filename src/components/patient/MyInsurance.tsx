@@ -8,6 +8,11 @@ import InsuranceSection from '@/components/ui/InsuranceSection';
 import { FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import InsuranceCardPhotos from '@/components/patient/InsuranceCardPhotos';
+import { useInsuranceCards } from '@/hooks/useInsuranceCards';
+import CoordinationOfBenefitsIssues from '@/components/ui/CoordinationOfBenefitsIssues';
+import { InsuranceLevel } from '@/types/eligibility';
+import { getIssuesForLevel, validateCoordinationOfBenefits } from '@/utils/coordinationOfBenefits';
 
 interface MyInsuranceProps {
   clientData: any | null;
@@ -20,6 +25,10 @@ interface MyInsuranceProps {
   handleCancelEdit: () => void;
   insuranceTypes: string[];
   relationshipTypes: string[];
+  // Enables card photo uploads for the client's policies
+  clientId?: string | null;
+  // Card photos loaded by the parent, when it also needs them (e.g. for coverage checks)
+  cards?: ReturnType<typeof useInsuranceCards>;
 }
 
 const MyInsurance: React.FC<MyInsuranceProps> = ({
@@ -32,8 +41,34 @@ const MyInsurance: React.FC<MyInsuranceProps> = ({
   handleSaveProfile,
   handleCancelEdit,
   insuranceTypes,
-  relationshipTypes
+  relationshipTypes,
+  clientId,
+  cards: sharedCards
 }) => {
+  const ownCards = useInsuranceCards(sharedCards ? null : clientId);
+  const cards = sharedCards || ownCards;
+
+  // Photos are added to policies that have been saved with an insurance company
+  const renderCardPhotos = (level: InsuranceLevel) =>
+    clientId && clientData?.[`client_insurance_company_${level}`] ? (
+      <InsuranceCardPhotos
+        level={level}
+        company={clientData[`client_insurance_company_${level}`]}
+        policyNumber={clientData[`client_policy_number_${level}`]}
+        cards={cards}
+      />
+    ) : null;
+
+  // Checked as the client types so problems are explained next to the policy before saving
+  const coordinationIssues = validateCoordinationOfBenefits(form.watch());
+
+  const renderPolicyDetails = (level: InsuranceLevel) => (
+    <>
+      <CoordinationOfBenefitsIssues issues={getIssuesForLevel(coordinationIssues, level)} className="mt-4" />
+      {renderCardPhotos(level)}
+    </>
+  );
+
   // Add debugging to check if client_champva exists in clientData
   console.log("Client data in MyInsurance:", clientData);
   console.log("Form values in MyInsurance:", form.getValues());
@@ -97,7 +132,9 @@ const MyInsurance: React.FC<MyInsuranceProps> = ({
               isEditing={isEditing}
               insuranceTypes={insuranceTypes}
               relationshipTypes={relationshipTypes}
-            />
+            >
+              {renderPolicyDetails('primary')}
+            </InsuranceSection>
 
             <InsuranceSection
               title="Secondary Insurance"
@@ -106,7 +143,9 @@ const MyInsurance: React.FC<MyInsuranceProps> = ({
               isEditing={isEditing}
               insuranceTypes={insuranceTypes}
               relationshipTypes={relationshipTypes}
-            />
+            >
+              {renderPolicyDetails('secondary')}
+            </InsuranceSection>
 
             <InsuranceSection
               title="Tertiary Insurance"
@@ -115,7 +154,11 @@ const MyInsurance: React.FC<MyInsuranceProps> = ({
               isEditing={isEditing}
               insuranceTypes={insuranceTypes}
               relationshipTypes={relationshipTypes}
-            />
+            >
+              {renderPolicyDetails('tertiary')}
+            </InsuranceSection>
+
+            <CoordinationOfBenefitsIssues issues={getIssuesForLevel(coordinationIssues, null)} className="mb-6" />
 
             {clientData?.client_vacoverage && (
               <div className="mb-6 border rounded-lg p-4">
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { formatInClientTimezone, getSafeTimezone, DATE_FORMATS } from '@/utils/dateFormatting';
+import {
+  AppointmentPolicy,
+  PolicyViolation,
+  countActiveStrikes,
+  formatFee,
+  getOutstandingFees,
+  getViolationLabel
+} from '@/utils/appointmentPolicy';
+
+interface PolicyHistoryCardProps {
+  policy: AppointmentPolicy;
+  violations: PolicyViolation[];
+  clientTimezone?: string;
+  loading?: boolean;
+}
+
+const getStatusBadgeVariant = (status: PolicyViolation['status']) => {
+  switch (status) {
+    case 'paid':
+      return 'secondary';
+    case 'waived':
+      return 'outline';
+    default:
+      return 'destructive';
+  }
+};
+
+const PolicyHistoryCard: React.FC<PolicyHistoryCardProps> = ({
+  policy,
+  violations,
+  clientTimezone,
+  loading = false
+}) => {
+  const safeTimezone = getSafeTimezone(clientTimezone);
+  const strikes = countActiveStrikes(violations);
+  const outstanding = getOutstandingFees(violations);
+  const nearThreshold = policy.atRiskStrikeThreshold > 0 && strikes >= policy.atRiskStrikeThreshold - 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attendance & Fees</CardTitle>
+        <CardDescription>
+          Cancellations made within {policy.lateChangeWindowHours} hours of a session
+          {policy.lateCancellationFee > 0 ? ` incur a ${formatFee(policy.lateCancellationFee)} fee` : ' count as late cancellations'}
+          {policy.noShowFee > 0 ? `, and missed sessions incur a ${formatFee(policy.noShowFee)} fee.` : '.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : violations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You have no late cancellations or missed sessions on record.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <div>
+                <span className="text-muted-foreground">Strikes: </span>
+                <span className="font-medium">
+                  {strikes}{policy.atRiskStrikeThreshold > 0 ? ` of ${policy.atRiskStrikeThreshold}` : ''}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Outstanding fees: </span>
+                <span className="font-medium">{formatFee(outstanding)}</span>
+              </div>
+            </div>
+
+            {nearThreshold && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {strikes >= policy.atRiskStrikeThreshold
+                    ? 'You have reached the late cancellation/no-show limit. Your care team will reach out to discuss your attendance.'
+                    : 'One more late cancellation or missed session will reach the attendance limit.'}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Appointment</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {violations.map(violation => (
+                  <TableRow key={violation.id}>
+                    <TableCell>
+                      {violation.appointments?.start_at
+                        ? formatInClientTimezone(violation.appointments.start_at, safeTimezone, DATE_FORMATS.FULL_DATETIME)
+                        : formatInClientTimezone(violation.created_at, safeTimezone, DATE_FORMATS.DATE_ONLY)}
+                    </TableCell>
+                    <TableCell>{getViolationLabel(violation.violation_type)}</TableCell>
+                    <TableCell className="text-right">{formatFee(Number(violation.fee_amount))}</TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusBadgeVariant(violation.status)} className="capitalize">
+                        {violation.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PolicyHistoryCard;
@@ -0,0 +1,182 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CartesianGrid, Dot, Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { TrendingDown, TrendingUp, LineChart as LineChartIcon } from 'lucide-react';
+import { useAuth } from '@/context/NewAuthContext';
+import { useAssessmentHistory } from '@/hooks/useAssessmentHistory';
+import {
+  ASSESSMENT_INSTRUMENTS,
+  AssessmentInstrument,
+  AssessmentScore,
+  ProgressPoint,
+  buildProgressSeries
+} from '@/utils/assessmentProgress';
+
+const chartConfig = {
+  total_score: {
+    label: 'Total score',
+    color: 'hsl(var(--primary))'
+  }
+} satisfies ChartConfig;
+
+const formatAssessmentDate = (date: string, pattern = 'MMM d, yyyy') => format(parseISO(date), pattern);
+
+interface ProgressDotProps {
+  cx?: number;
+  cy?: number;
+  payload?: ProgressPoint;
+}
+
+// Administrations that differ reliably from the previous one are drawn larger, green for
+// improvement and red for worsening
+const ProgressDot = ({ cx, cy, payload }: ProgressDotProps) => {
+  if (cx === undefined || cy === undefined || !payload) return null;
+
+  if (payload.reliableChange) {
+    const fill = payload.reliableChange === 'improved' ? 'hsl(142 71% 40%)' : 'hsl(0 72% 50%)';
+    return <Dot cx={cx} cy={cy} r={6} fill={fill} stroke="white" strokeWidth={2} />;
+  }
+
+  return <Dot cx={cx} cy={cy} r={4} fill="var(--color-total_score)" stroke="white" strokeWidth={1} />;
+};
+
+const InstrumentProgressCard: React.FC<{ instrument: AssessmentInstrument; scores: AssessmentScore[] }> = ({
+  instrument,
+  scores
+}) => {
+  const definition = ASSESSMENT_INSTRUMENTS[instrument];
+  const points = buildProgressSeries(instrument, scores).map(point => ({
+    ...point,
+    label: formatAssessmentDate(point.assessment_date, 'MMM d')
+  }));
+  const latest = points[points.length - 1];
+  const reliableChanges = points.filter(point => point.reliableChange);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{definition.label}</CardTitle>
+          <CardDescription>
+            {definition.description} · {points.length} {points.length === 1 ? 'assessment' : 'assessments'} · lower is better
+          </CardDescription>
+        </div>
+        {latest && (
+          <div className="text-left sm:text-right">
+            <p className="text-2xl font-semibold">
+              {latest.total_score}
+              <span className="text-sm font-normal text-muted-foreground"> / {definition.maxScore}</span>
+            </p>
+            {latest.severity && <Badge variant="outline">{latest.severity.label}</Badge>}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+          <LineChart data={points} margin={{ top: 8, right: 12, left: -12, bottom: 0 }}>
+            {definition.bands.map((band, index) => (
+              <ReferenceArea
+                key={band.label}
+                y1={band.min}
+                y2={definition.bands[index + 1]?.min ?? definition.maxScore}
+                fill={band.color}
+                fillOpacity={0.12}
+                stroke="none"
+                ifOverflow="hidden"
+              />
+            ))}
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis domain={[0, definition.maxScore]} tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              dataKey="total_score"
+              type="monotone"
+              stroke="var(--color-total_score)"
+              strokeWidth={2}
+              dot={<ProgressDot />}
+              activeDot={{ r: 6 }}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {definition.bands.map(band => (
+            <span key={band.label} className="flex items-center gap-1">
+              <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: band.color }} />
+              {band.label} ({band.min}–{band.max})
+            </span>
+          ))}
+        </div>
+
+        {points.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            Complete another {definition.label} to start seeing how your scores change over time.
+          </p>
+        ) : reliableChanges.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No change of {definition.reliableChange} or more points between assessments yet. Smaller changes can
+            be normal week-to-week variation.
+          </p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {reliableChanges.map(point => {
+              const previous = points[points.indexOf(point) - 1];
+              const improved = point.reliableChange === 'improved';
+              const Icon = improved ? TrendingDown : TrendingUp;
+              return (
+                <li key={point.id} className="flex items-center gap-2">
+                  <Icon className={improved ? 'h-4 w-4 text-green-600' : 'h-4 w-4 text-red-600'} />
+                  <span>
+                    {formatAssessmentDate(previous.assessment_date)} → {formatAssessmentDate(point.assessment_date)}:{' '}
+                    {Math.abs(point.change || 0)} points {improved ? 'lower (reliable improvement)' : 'higher (reliable worsening)'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const ProgressTab: React.FC = () => {
+  const { user } = useAuth();
+  const { history, loading } = useAssessmentHistory(user?.id);
+
+  const instruments = (Object.keys(ASSESSMENT_INSTRUMENTS) as AssessmentInstrument[])
+    .filter(instrument => history[instrument].length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold">My Progress</h2>
+        <div className="flex items-center gap-2">
+          <LineChartIcon className="h-5 w-5 text-primary" />
+          <span className="text-sm text-muted-foreground">Your questionnaire scores over time</span>
+        </div>
+      </div>
+
+      {loading && instruments.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">Loading your progress...</p>
+      ) : instruments.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            Your scores will appear here after you complete questionnaires such as the PHQ-9 before your sessions.
+          </CardContent>
+        </Card>
+      ) : (
+        instruments.map(instrument => (
+          <InstrumentProgressCard key={instrument} instrument={instrument} scores={history[instrument]} />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ProgressTab;
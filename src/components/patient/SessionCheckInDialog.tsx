@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import PHQ9Template from '@/components/templates/PHQ9Template';
+import InstrumentTemplate from '@/components/templates/InstrumentTemplate';
+import { ClientDetails } from '@/types/client';
+import { CHECK_IN_STEP_LABELS, CheckInStep, CheckInStepId } from '@/utils/sessionCheckIn';
+import { INSTRUMENTS, InstrumentId, isMinorClient } from '@/utils/instruments';
+
+interface SessionCheckInDialogProps {
+  appointmentId: string;
+  step: CheckInStep;
+  stepNumber: number;
+  totalSteps: number;
+  saving?: boolean;
+  clientData: ClientDetails | null;
+  clinicianName: string;
+  clinicianId?: string | null;
+  onComplete: (details?: Record<string, unknown>) => void;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+const InsuranceConfirmationStep: React.FC<{
+  clientData: ClientDetails | null;
+  saving: boolean;
+  onConfirm: (details: Record<string, unknown>) => void;
+  onUpdate: () => void;
+}> = ({ clientData, saving, onConfirm, onUpdate }) => {
+  const company = clientData?.client_insurance_company_primary;
+
+  return (
+    <>
+      {company ? (
+        <dl className="grid grid-cols-2 gap-2 text-sm">
+          <dt className="text-muted-foreground">Insurance company</dt>
+          <dd>{company}</dd>
+          <dt className="text-muted-foreground">Policy number</dt>
+          <dd>{clientData?.client_policy_number_primary || '—'}</dd>
+          <dt className="text-muted-foreground">Group number</dt>
+          <dd>{clientData?.client_group_number_primary || '—'}</dd>
+          <dt className="text-muted-foreground">Subscriber</dt>
+          <dd>{clientData?.client_subscriber_name_primary || '—'}</dd>
+        </dl>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          We don't have insurance on file for you. If you pay for sessions yourself, you can continue.
+        </p>
+      )}
+      <DialogFooter>
+        <Button variant="outline" onClick={onUpdate} disabled={saving}>
+          Update Insurance
+        </Button>
+        <Button
+          onClick={() => onConfirm({
+            insurance_company: company || null,
+            policy_number: clientData?.client_policy_number_primary || null
+          })}
+          disabled={saving}
+        >
+          {company ? 'This Is Correct' : 'Continue'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+const ConsentReacknowledgementStep: React.FC<{
+  saving: boolean;
+  onConfirm: (details: Record<string, unknown>) => void;
+}> = ({ saving, onConfirm }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  return (
+    <>
+      <div className="space-y-3 text-sm">
+        <p>
+          Before your session, please confirm that you still agree to the informed consent for treatment
+          you signed when you joined, including receiving care by telehealth, the limits of confidentiality,
+          and the practice's cancellation policy.
+        </p>
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="consent-reacknowledgement"
+            checked={acknowledged}
+            onCheckedChange={checked => setAcknowledged(checked === true)}
+          />
+          <Label htmlFor="consent-reacknowledgement" className="leading-snug">
+            I have reviewed and continue to agree to the informed consent for treatment.
+          </Label>
+        </div>
+      </div>
+      <DialogFooter>
+        <Button
+          onClick={() => onConfirm({ acknowledged_at: new Date().toISOString() })}
+          disabled={saving || !acknowledged}
+        >
+          Continue
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+// Questionnaire steps rendered by the generic instrument form. Minors answer the PHQ-A
+// wherever the PHQ-9 is configured.
+const getStepInstrument = (step: CheckInStepId, clientData: ClientDetails | null): InstrumentId | null => {
+  if (step === 'phq9') {
+    return isMinorClient(clientData) ? 'phq_a' : null;
+  }
+  return step in INSTRUMENTS ? step as InstrumentId : null;
+};
+
+/**
+ * Renders the current pre-session check-in step. Questionnaires use the generic instrument
+ * form, except the adult PHQ-9 whose template brings its own dialog.
+ */
+const SessionCheckInDialog: React.FC<SessionCheckInDialogProps> = ({
+  appointmentId,
+  step,
+  stepNumber,
+  totalSteps,
+  saving = false,
+  clientData,
+  clinicianName,
+  clinicianId,
+  onComplete,
+  onSkip,
+  onCancel
+}) => {
+  const navigate = useNavigate();
+
+  const instrument = getStepInstrument(step.step, clientData);
+
+  if (step.step === 'phq9' && !instrument) {
+    return (
+      <PHQ9Template
+        key={appointmentId}
+        onClose={onCancel}
+        clinicianName={clinicianName}
+        clientData={clientData}
+        appointmentId={appointmentId}
+        onComplete={() => onComplete()}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  return (
+    <Dialog open onOpenChange={open => !open && onCancel()}>
+      <DialogContent className={instrument ? 'max-w-4xl max-h-[90vh] overflow-y-auto' : undefined}>
+        <DialogHeader>
+          <DialogTitle>{CHECK_IN_STEP_LABELS[instrument || step.step]}</DialogTitle>
+          <DialogDescription>
+            Session check-in · step {stepNumber} of {totalSteps}
+            {!step.required && ' · optional'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {instrument && (
+          <InstrumentTemplate
+            key={`${appointmentId}-${instrument}`}
+            instrument={instrument}
+            onClose={onCancel}
+            clinicianName={clinicianName}
+            clientData={clientData}
+            clinicianId={clinicianId}
+            appointmentId={appointmentId}
+            onComplete={({ totalScore, responses }) => onComplete({ total_score: totalScore, responses })}
+          />
+        )}
+
+        {step.step === 'insurance_confirmation' && (
+          <InsuranceConfirmationStep
+            clientData={clientData}
+            saving={saving}
+            onConfirm={onComplete}
+            onUpdate={() => {
+              onCancel();
+              navigate('/patient-portal?tab=insurance');
+            }}
+          />
+        )}
+
+        {step.step === 'consent_reacknowledgement' && (
+          <ConsentReacknowledgementStep saving={saving} onConfirm={onComplete} />
+        )}
+
+        {!step.required && (
+          <Button variant="ghost" size="sm" className="self-start" onClick={onSkip} disabled={saving}>
+            Skip this step
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionCheckInDialog;
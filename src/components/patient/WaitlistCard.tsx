@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { addDays, format, parse, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarClock, ListPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatInClientTimezone, getSafeTimezone, DATE_FORMATS } from '@/utils/dateFormatting';
+import { useWaitlist, WaitlistEntry } from '@/hooks/useWaitlist';
+
+interface WaitlistCardProps {
+  clientId: string;
+  clientTimezone?: string | null;
+  clinicianName: string;
+  // Start of the client's next scheduled appointment; the default range ends the day before
+  nextAppointmentStart?: string | null;
+  onClaimed?: () => void;
+}
+
+// Preferred hours are offered on the hour from 7 AM to 9 PM
+const HOUR_OPTIONS = Array.from({ length: 15 }, (_, index) => {
+  const hour = index + 7;
+  const value = `${String(hour).padStart(2, '0')}:00`;
+  return { value, label: format(parse(value, 'HH:mm', new Date()), 'h:mm a') };
+});
+
+const formatWallClockTime = (time: string) => format(parse(time.slice(0, 5), 'HH:mm', new Date()), 'h:mm a');
+
+const describeEntry = (entry: WaitlistEntry) => {
+  const earliest = format(parseISO(entry.earliest_date), 'MMM d');
+  const latest = format(parseISO(entry.latest_date), 'MMM d, yyyy');
+  return `${earliest} – ${latest}, ${formatWallClockTime(entry.preferred_start_time)} – ${formatWallClockTime(entry.preferred_end_time)}`;
+};
+
+const WaitlistCard: React.FC<WaitlistCardProps> = ({
+  clientId,
+  clientTimezone,
+  clinicianName,
+  nextAppointmentStart,
+  onClaimed
+}) => {
+  const safeTimezone = getSafeTimezone(clientTimezone);
+  const [searchParams] = useSearchParams();
+  const linkedOfferId = searchParams.get('offer');
+  const { entry, offers, loading, saving, joinWaitlist, leaveWaitlist, claimOffer, declineOffer } = useWaitlist(clientId);
+
+  const [joinOpen, setJoinOpen] = useState(false);
+  const [earliestDate, setEarliestDate] = useState('');
+  const [latestDate, setLatestDate] = useState('');
+  const [preferredStartTime, setPreferredStartTime] = useState('09:00');
+  const [preferredEndTime, setPreferredEndTime] = useState('17:00');
+
+  const openJoinDialog = () => {
+    const tomorrow = addDays(new Date(), 1);
+    const nextAppointmentDay = nextAppointmentStart
+      ? formatInTimeZone(addDays(parseISO(nextAppointmentStart), -1), safeTimezone, 'yyyy-MM-dd')
+      : null;
+    const earliest = formatInTimeZone(tomorrow, safeTimezone, 'yyyy-MM-dd');
+    const fallbackLatest = formatInTimeZone(addDays(tomorrow, 14), safeTimezone, 'yyyy-MM-dd');
+
+    setEarliestDate(earliest);
+    setLatestDate(nextAppointmentDay && nextAppointmentDay >= earliest ? nextAppointmentDay : fallbackLatest);
+    setJoinOpen(true);
+  };
+
+  const handleJoin = async () => {
+    const result = await joinWaitlist({ earliestDate, latestDate, preferredStartTime, preferredEndTime });
+    if (result.success) {
+      toast.success("You're on the waitlist. We'll notify you if an earlier time opens up.");
+      setJoinOpen(false);
+    } else {
+      toast.error(result.error || 'Failed to join the waitlist');
+    }
+  };
+
+  const handleLeave = async () => {
+    const result = await leaveWaitlist();
+    if (result.success) {
+      toast.success('You have left the waitlist');
+    } else {
+      toast.error(result.error || 'Failed to leave the waitlist');
+    }
+  };
+
+  const handleClaim = async (offerId: string) => {
+    const result = await claimOffer(offerId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to claim this time');
+    } else if (!result.appointmentId) {
+      toast.error('Sorry, that time is no longer available. You are still on the waitlist.');
+    } else {
+      toast.success('Appointment booked. Remember to cancel your later appointment if you no longer need it.');
+      onClaimed?.();
+    }
+  };
+
+  const handleDecline = async (offerId: string) => {
+    const result = await declineOffer(offerId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to decline this time');
+    }
+  };
+
+  const isValidRequest = !!earliestDate && !!latestDate && latestDate >= earliestDate && preferredEndTime > preferredStartTime;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Earlier Appointment Waitlist
+          </CardTitle>
+          <CardDescription>
+            {entry
+              ? `Waiting for an opening with ${clinicianName}: ${describeEntry(entry)}`
+              : `Get offered earlier times with ${clinicianName} when another client cancels.`}
+          </CardDescription>
+        </div>
+        {entry ? (
+          <Button variant="outline" onClick={handleLeave} disabled={saving}>
+            Leave Waitlist
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={openJoinDialog} disabled={loading} className="flex items-center gap-2">
+            <ListPlus className="h-4 w-4" />
+            Join Waitlist
+          </Button>
+        )}
+      </CardHeader>
+      {offers.length > 0 && (
+        <CardContent className="space-y-3">
+          {offers.map(offer => (
+            <div
+              key={offer.id}
+              className={cn(
+                'flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-md border p-3',
+                offer.id === linkedOfferId && 'ring-2 ring-primary'
+              )}
+            >
+              <div>
+                <p className="font-medium">
+                  {formatInClientTimezone(offer.start_at, safeTimezone, DATE_FORMATS.LONG_DATE)} at{' '}
+                  {formatInClientTimezone(offer.start_at, safeTimezone, DATE_FORMATS.TIME_ONLY)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Claim by {formatInClientTimezone(offer.expires_at, safeTimezone, DATE_FORMATS.SHORT_DATETIME)} before it is offered to someone else
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => handleDecline(offer.id)} disabled={saving}>
+                  Decline
+                </Button>
+                <Button onClick={() => handleClaim(offer.id)} disabled={saving}>
+                  Claim
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <Dialog open={joinOpen} onOpenChange={setJoinOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Join the Waitlist</DialogTitle>
+            <DialogDescription>
+              Tell us when you could come in earlier. Times are in your time zone ({safeTimezone}).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="waitlist-earliest">From</Label>
+              <Input id="waitlist-earliest" type="date" value={earliestDate} onChange={e => setEarliestDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="waitlist-latest">To</Label>
+              <Input id="waitlist-latest" type="date" value={latestDate} min={earliestDate} onChange={e => setLatestDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Earliest start</Label>
+              <Select value={preferredStartTime} onValueChange={setPreferredStartTime}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOUR_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Latest end</Label>
+              <Select value={preferredEndTime} onValueChange={setPreferredEndTime}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOUR_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setJoinOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleJoin} disabled={saving || !isValidRequest}>
+              {saving ? 'Joining...' : 'Join Waitlist'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default WaitlistCard;
@@ -5,6 +5,8 @@ import FormFieldWrapper from '@/components/ui/FormFieldWrapper';
 import { Separator } from '@/components/ui/separator';
 import { DateField } from '@/components/ui/DateField';
 import { Card, CardContent } from '@/components/ui/card';
+import CoordinationOfBenefitsIssues from '@/components/ui/CoordinationOfBenefitsIssues';
+import { getIssuesForLevel, validateCoordinationOfBenefits } from '@/utils/coordinationOfBenefits';
 
 interface AdditionalInsuranceProps {
   form: UseFormReturn<any>;
@@ -14,6 +16,7 @@ interface AdditionalInsuranceProps {
 const AdditionalInsurance: React.FC<AdditionalInsuranceProps> = ({ form, onOtherInsuranceChange }) => {
   // Watch for changes to the hasMoreInsurance field
   const hasMoreInsurance = form.watch('hasMoreInsurance');
+  const issues = getIssuesForLevel(validateCoordinationOfBenefits(form.watch()), 'primary');
   
   // Call the callback when the value changes
   useEffect(() => {
@@ -94,6 +97,8 @@ const AdditionalInsurance: React.FC<AdditionalInsuranceProps> = ({ form, onOther
           </div>
         </CardContent>
       </Card>
+
+      <CoordinationOfBenefitsIssues issues={issues} />
       
       <div className="space-y-6">
         <Separator className="my-4" />
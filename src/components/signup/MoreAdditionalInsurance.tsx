@@ -5,12 +5,16 @@ import FormFieldWrapper from '@/components/ui/FormFieldWrapper';
 import { Separator } from '@/components/ui/separator';
 import { DateField } from '@/components/ui/DateField';
 import { Card, CardContent } from '@/components/ui/card';
+import CoordinationOfBenefitsIssues from '@/components/ui/CoordinationOfBenefitsIssues';
+import { getIssuesForLevel, validateCoordinationOfBenefits } from '@/utils/coordinationOfBenefits';
 
 interface MoreAdditionalInsuranceProps {
   form: UseFormReturn<any>;
 }
 
 const MoreAdditionalInsurance: React.FC<MoreAdditionalInsuranceProps> = ({ form }) => {
+  const issues = getIssuesForLevel(validateCoordinationOfBenefits(form.watch()), 'secondary');
+
   return (
     <div className="space-y-6">
       <h3 className="text-lg font-medium">More Additional Insurance Information</h3>
@@ -83,6 +87,8 @@ const MoreAdditionalInsurance: React.FC<MoreAdditionalInsuranceProps> = ({ form
           </div>
         </CardContent>
       </Card>
+
+      <CoordinationOfBenefitsIssues issues={issues} />
       
       <div className="space-y-6">
         <Separator className="my-4" />
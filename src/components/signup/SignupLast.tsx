@@ -5,18 +5,25 @@ import FormFieldWrapper from '@/components/ui/FormFieldWrapper';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
 import { FormField, FormItem, FormControl, FormLabel } from '@/components/ui/form';
+import CoordinationOfBenefitsIssues from '@/components/ui/CoordinationOfBenefitsIssues';
+import { validateCoordinationOfBenefits } from '@/utils/coordinationOfBenefits';
 
 interface SignupLastProps {
   form: UseFormReturn<any>;
 }
 
 const SignupLast: React.FC<SignupLastProps> = ({ form }) => {
+  // Anything still wrong with the insurance entered in the earlier steps, reviewed before completing
+  const insuranceIssues = validateCoordinationOfBenefits(form.watch());
+
   return (
     <div className="space-y-6">
       <h3 className="text-lg font-medium">Final Steps</h3>
       <p className="text-gray-600 mb-4">
         Please tell us a bit more about what brings you here.
       </p>
+
+      <CoordinationOfBenefitsIssues issues={insuranceIssues} showLevel />
       
       <div className="grid grid-cols-1 gap-6">
         <FormField
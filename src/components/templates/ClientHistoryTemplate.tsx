@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,6 +12,9 @@ import { useForm } from 'react-hook-form';
 import { FileText, X, ChevronLeft, Save, Plus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ClientDetails } from '@/types/client';
+import { FormDraftData } from '@/types/formDrafts';
+import { ClientHistorySubmission } from '@/types/clientHistory';
+import { captureFormFields, restoreFormFields } from '@/utils/formDraftFields';
 
 // Add payload size monitoring helpers
 const getPayloadSize = (data: any): number => {
@@ -31,6 +34,11 @@ interface ClientHistoryTemplateProps {
   onClose: () => void;
   onSubmit: (data: any) => Promise<{ success: boolean; error?: any }>;
   clientData?: ClientDetails | null;
+  // Autosaved answers to restore, and a callback receiving the answers after every change
+  draft?: FormDraftData | null;
+  onDraftChange?: (draft: FormDraftData) => void;
+  // When set, submitting is disabled and this explains why (e.g. a guardian has to sign first)
+  submitBlockedReason?: string | null;
 }
 
 // Define all the missing options and data structures
@@ -120,36 +128,92 @@ interface SymptomCategories {
   lifeStressors: string[];
 }
 
-const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose, onSubmit, clientData }) => {
+// Reads one piece of saved UI state, falling back when the draft predates it
+function fromDraft<T>(draft: FormDraftData | null | undefined, key: string, fallback: T): T {
+  const value = draft?.state?.[key];
+  return value === undefined || value === null ? fallback : value as T;
+}
+
+const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose, onSubmit, clientData, draft, onDraftChange, submitBlockedReason }) => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [family, setFamily] = useState<FamilyMember[]>([
+  const formRef = useRef<HTMLFormElement>(null);
+  const [family, setFamily] = useState<FamilyMember[]>(() => fromDraft(draft, 'family', [
     { id: '1', relationshipType: '', name: '', personality: '', relationshipGrowing: '', relationshipNow: '' }
-  ]);
-  const [currentHousehold, setCurrentHousehold] = useState<FamilyMember[]>([
+  ]));
+  const [currentHousehold, setCurrentHousehold] = useState<FamilyMember[]>(() => fromDraft(draft, 'currentHousehold', [
     { id: '1', relationshipType: '', name: '', personality: '', relationshipNow: '' }
-  ]);
-  const [treatments, setTreatments] = useState<PastTreatment[]>([
+  ]));
+  const [treatments, setTreatments] = useState<PastTreatment[]>(() => fromDraft(draft, 'treatments', [
     { id: '1', year: '', reason: '', length: '', provider: '' }
-  ]);
-  const [medications, setMedications] = useState<Medication[]>([
+  ]));
+  const [medications, setMedications] = useState<Medication[]>(() => fromDraft(draft, 'medications', [
     { id: '1', name: '', purpose: '', duration: '' }
-  ]);
-  const [pastSpouses, setPastSpouses] = useState<PastSpouse[]>([
+  ]));
+  const [pastSpouses, setPastSpouses] = useState<PastSpouse[]>(() => fromDraft(draft, 'pastSpouses', [
     { id: '1', name: '', personality: '', relationship: '' }
-  ]);
+  ]));
   
-  const [showPastSpouses, setShowPastSpouses] = useState(false);
-  const [showTreatments, setShowTreatments] = useState(false);
-  const [showMedications, setShowMedications] = useState(false);
-  const [sameHousehold, setSameHousehold] = useState(false);
-  const [isMarried, setIsMarried] = useState(false);
-  const [selectedSymptoms, setSelectedSymptoms] = useState<string[]>([]);
-  const [selectedChildhoodExperiences, setSelectedChildhoodExperiences] = useState<string[]>([]);
-  const [selectedMedicalConditions, setSelectedMedicalConditions] = useState<string[]>([]);
+  const [showPastSpouses, setShowPastSpouses] = useState(() => fromDraft(draft, 'showPastSpouses', false));
+  const [showTreatments, setShowTreatments] = useState(() => fromDraft(draft, 'showTreatments', false));
+  const [showMedications, setShowMedications] = useState(() => fromDraft(draft, 'showMedications', false));
+  const [sameHousehold, setSameHousehold] = useState(() => fromDraft(draft, 'sameHousehold', false));
+  const [isMarried, setIsMarried] = useState(() => fromDraft(draft, 'isMarried', false));
+  const [selectedSymptoms, setSelectedSymptoms] = useState<string[]>(() => fromDraft(draft, 'selectedSymptoms', []));
+  const [selectedChildhoodExperiences, setSelectedChildhoodExperiences] = useState<string[]>(() => fromDraft(draft, 'selectedChildhoodExperiences', []));
+  const [selectedMedicalConditions, setSelectedMedicalConditions] = useState<string[]>(() => fromDraft(draft, 'selectedMedicalConditions', []));
+  // Dropdowns and yes/no questions that have no dedicated state, keyed by element id
+  const [choices, setChoices] = useState<Record<string, string>>(() => fromDraft(draft, 'choices', {}));
+  const hasRenderedRef = useRef(false);
 
   const form = useForm();
 
+  const bindChoice = (id: string, fallback = '') => ({
+    value: choices[id] ?? fallback,
+    onValueChange: (value: string) => setChoices(prev => ({ ...prev, [id]: value }))
+  });
+
+  // Everything the form tracks in state; a new object means something changed
+  const draftState = useMemo(() => ({
+    family, currentHousehold, treatments, medications, pastSpouses,
+    showPastSpouses, showTreatments, showMedications, sameHousehold, isMarried,
+    selectedSymptoms, selectedChildhoodExperiences, selectedMedicalConditions, choices
+  }), [
+    family, currentHousehold, treatments, medications, pastSpouses,
+    showPastSpouses, showTreatments, showMedications, sameHousehold, isMarried,
+    selectedSymptoms, selectedChildhoodExperiences, selectedMedicalConditions, choices
+  ]);
+
+  const emitDraft = () => {
+    onDraftChange?.({
+      fields: captureFormFields(formRef.current),
+      state: draftState
+    });
+  };
+
+  // The latest emitDraft, so the effect below fires on state changes and not whenever the
+  // parent passes a new onDraftChange
+  const emitDraftRef = useRef(emitDraft);
+  emitDraftRef.current = emitDraft;
+
+  // The draft the form was mounted with. Text answers are uncontrolled, so they are put back
+  // once the saved rows have rendered; a different draft is restored by remounting the form.
+  const initialDraftRef = useRef(draft);
+
+  useEffect(() => {
+    if (initialDraftRef.current) {
+      restoreFormFields(formRef.current, initialDraftRef.current.fields);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasRenderedRef.current) {
+      hasRenderedRef.current = true;
+      return;
+    }
+    emitDraftRef.current();
+  }, [draftState]);
+
   // Add the missing handler functions
   const handleSymptomChange = (symptom: string, isChecked: boolean) => {
     if (isChecked) {
@@ -209,10 +273,9 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
   const handleSubmit = async (formData: any) => {
     try {
       // Clean and optimize the data structure
-      const optimizedData = {
+      const optimizedData: ClientHistorySubmission = {
         // Core client info (keep minimal)
         client_id: clientData?.id,
-        formElementId: 'client-history-form-content',
         fullName: fullName,
         dateOfBirth: formattedDOB,
         age: clientData?.client_age?.toString() || '',
@@ -361,6 +424,8 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
 
       <form 
         id="client-history-form-content"
+        ref={formRef}
+        onInput={emitDraft}
         onSubmit={(e) => { 
           e.preventDefault(); 
           handleSubmit({
@@ -466,6 +531,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                     <div key={symptom} className="flex items-center space-x-2">
                       <Checkbox 
                         id={`mood-${symptom}`} 
+                        checked={selectedSymptoms.includes(symptom)}
                         onCheckedChange={(checked) => 
                           handleSymptomChange(symptom, checked === true)
                         }
@@ -483,6 +549,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                     <div key={symptom} className="flex items-center space-x-2">
                       <Checkbox 
                         id={`physical-${symptom}`} 
+                        checked={selectedSymptoms.includes(symptom)}
                         onCheckedChange={(checked) => 
                           handleSymptomChange(symptom, checked === true)
                         }
@@ -500,6 +567,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                     <div key={symptom} className="flex items-center space-x-2">
                       <Checkbox 
                         id={`behavioral-${symptom}`} 
+                        checked={selectedSymptoms.includes(symptom)}
                         onCheckedChange={(checked) => 
                           handleSymptomChange(symptom, checked === true)
                         }
@@ -517,6 +585,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                     <div key={symptom} className="flex items-center space-x-2">
                       <Checkbox 
                         id={`cognitive-${symptom}`} 
+                        checked={selectedSymptoms.includes(symptom)}
                         onCheckedChange={(checked) => 
                           handleSymptomChange(symptom, checked === true)
                         }
@@ -534,6 +603,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                     <div key={symptom} className="flex items-center space-x-2">
                       <Checkbox 
                         id={`stressor-${symptom}`} 
+                        checked={selectedSymptoms.includes(symptom)}
                         onCheckedChange={(checked) => 
                           handleSymptomChange(symptom, checked === true)
                         }
@@ -547,7 +617,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             
             <div>
               <Label className="mb-2 block">Have you ever been hospitalized for a psychiatric issue?</Label>
-              <RadioGroup defaultValue="no" className="flex space-x-4">
+              <RadioGroup {...bindChoice('hospitalized', 'no')} className="flex space-x-4">
                 <div className="flex items-center space-x-2">
                   <RadioGroupItem value="yes" id="hospitalized-yes" />
                   <Label htmlFor="hospitalized-yes">Yes</Label>
@@ -561,7 +631,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             
             <div>
               <Label className="mb-2 block">Have you ever attempted suicide?</Label>
-              <RadioGroup defaultValue="no" className="flex space-x-4">
+              <RadioGroup {...bindChoice('suicide', 'no')} className="flex space-x-4">
                 <div className="flex items-center space-x-2">
                   <RadioGroupItem value="yes" id="suicide-yes" />
                   <Label htmlFor="suicide-yes">Yes</Label>
@@ -575,7 +645,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             
             <div>
               <Label className="mb-2 block">Have you ever been placed on a psych hold?</Label>
-              <RadioGroup defaultValue="no" className="flex space-x-4">
+              <RadioGroup {...bindChoice('psychhold', 'no')} className="flex space-x-4">
                 <div className="flex items-center space-x-2">
                   <RadioGroupItem value="yes" id="psychhold-yes" />
                   <Label htmlFor="psychhold-yes">Yes</Label>
@@ -617,7 +687,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                     <div>
                       <Label htmlFor={`familyType-${index}`}>Relationship Type</Label>
-                      <Select>
+                      <Select {...bindChoice(`familyType-${index}`)}>
                         <SelectTrigger id={`familyType-${index}`}>
                           <SelectValue placeholder="Select relationship type" />
                         </SelectTrigger>
@@ -674,6 +744,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                   <div key={experience} className="flex items-center space-x-2">
                     <Checkbox 
                       id={`childhood-${experience}`} 
+                      checked={selectedChildhoodExperiences.includes(experience)}
                       onCheckedChange={(checked) => 
                         handleChildhoodExperienceChange(experience, checked === true)
                       }
@@ -706,7 +777,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             <div>
               <Label className="mb-2 block">Is your Family listed above the same as your Current Household?</Label>
               <RadioGroup 
-                defaultValue="no" 
+                value={sameHousehold ? "yes" : "no"} 
                 className="flex space-x-4" 
                 onValueChange={(value) => setSameHousehold(value === "yes")}
               >
@@ -729,7 +800,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                       <div>
                         <Label htmlFor={`householdType-${index}`}>Relationship Type</Label>
-                        <Select>
+                        <Select {...bindChoice(`householdType-${index}`)}>
                           <SelectTrigger id={`householdType-${index}`}>
                             <SelectValue placeholder="Select relationship type" />
                           </SelectTrigger>
@@ -783,7 +854,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             
             <div>
               <Label htmlFor="education">Highest Level of Education Completed</Label>
-              <Select>
+              <Select {...bindChoice('education')}>
                 <SelectTrigger id="education">
                   <SelectValue placeholder="Select education level" />
                 </SelectTrigger>
@@ -806,7 +877,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             <div>
               <Label className="mb-2 block">Are you Married?</Label>
               <RadioGroup 
-                defaultValue="no" 
+                value={isMarried ? "yes" : "no"} 
                 className="flex space-x-4"
                 onValueChange={(value) => setIsMarried(value === "yes")}
               >
@@ -844,7 +915,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             <div>
               <Label className="mb-2 block">Have you ever been Married Before?</Label>
               <RadioGroup 
-                defaultValue="no" 
+                value={showPastSpouses ? "yes" : "no"} 
                 className="flex space-x-4"
                 onValueChange={(value) => setShowPastSpouses(value === "yes")}
               >
@@ -917,7 +988,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             <div>
               <Label className="mb-2 block">Have you ever received Mental Health Treatment before?</Label>
               <RadioGroup 
-                defaultValue="no" 
+                value={showTreatments ? "yes" : "no"} 
                 className="flex space-x-4"
                 onValueChange={(value) => setShowTreatments(value === "yes")}
               >
@@ -985,6 +1056,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
                   <div key={condition} className="flex items-center space-x-2">
                     <Checkbox 
                       id={`medical-${condition}`} 
+                      checked={selectedMedicalConditions.includes(condition)}
                       onCheckedChange={(checked) => 
                         handleMedicalConditionChange(condition, checked === true)
                       }
@@ -1023,7 +1095,7 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
             <div>
               <Label className="mb-2 block">Do you take any prescription medications?</Label>
               <RadioGroup 
-                defaultValue="no" 
+                value={showMedications ? "yes" : "no"} 
                 className="flex space-x-4"
                 onValueChange={(value) => setShowMedications(value === "yes")}
               >
@@ -1102,11 +1174,14 @@ const ClientHistoryTemplate: React.FC<ClientHistoryTemplateProps> = ({ onClose,
           </CardContent>
         </Card>
 
+        {submitBlockedReason && (
+          <p className="text-sm text-amber-700 text-right">{submitBlockedReason}</p>
+        )}
         <div className="flex justify-end gap-4">
           <Button type="button" variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button type="submit">
+          <Button type="submit" disabled={!!submitBlockedReason}>
             <Save className="h-4 w-4 mr-1" />
             Submit Form
           </Button>
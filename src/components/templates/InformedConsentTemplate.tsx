@@ -1,105 +1,118 @@
-
-import React, { useState, useRef } from 'react';
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
-import { Video, Shield, AlertTriangle, Calendar, FileText, Check } from 'lucide-react';
+import { Calendar, FileText } from 'lucide-react';
 import { format } from 'date-fns';
 import { useAuth } from '@/context/NewAuthContext';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
-import { handleFormSubmission } from '@/utils/formSubmissionUtils';
-import { supabase } from '@/integrations/supabase/client';
-
-// Form validation schema
-const formSchema = z.object({
-  signature: z.string().min(1, { message: "Your signature is required" }),
-  date: z.string(),
-});
-
-type FormData = z.infer<typeof formSchema>;
+import { generateAndSaveStructuredPDF } from '@/utils/pdfUtils';
+import { buildTelehealthConsentPdf } from '@/utils/pdfDocuments';
+import { hashDocumentText } from '@/utils/documentSignatures';
+import { recordDocumentSignature, updateDocumentStatus } from '@/integrations/supabase/client';
+import { DocumentSignature, SignatureInput } from '@/types/documentSignatures';
+import SignatureCapture from '@/components/templates/SignatureCapture';
+import {
+  TELEHEALTH_CONSENT_DOCUMENT_TYPE,
+  TELEHEALTH_CONSENT_SECTIONS,
+  TELEHEALTH_CONSENT_TITLE,
+  TELEHEALTH_CONSENT_VERSION,
+  getTelehealthConsentText
+} from '@/components/templates/telehealthConsentContent';
 
 interface InformedConsentTemplateProps {
   clientData?: any;
+  assignmentId?: string;
   onClose?: () => void;
-  onSubmit?: (data: any) => void;
+  // Receives the recorded signature; the parent is then responsible for saving the signed PDF
+  onSubmit?: (data: { signature: DocumentSignature }) => void | Promise<void>;
+  // When set, signing is disabled and this explains why (e.g. a guardian has to sign first)
+  submitBlockedReason?: string | null;
 }
 
 const InformedConsentTemplate: React.FC<InformedConsentTemplateProps> = ({ 
   clientData,
+  assignmentId,
   onClose,
-  onSubmit 
+  onSubmit,
+  submitBlockedReason
 }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [signature, setSignature] = useState<SignatureInput | null>(null);
+  const [signatureError, setSignatureError] = useState<string | null>(null);
   const { userId } = useAuth();
   const navigate = useNavigate();
-  const formRef = useRef<HTMLDivElement>(null);
 
-  const form = useForm<FormData>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      signature: "",
-      date: format(new Date(), 'yyyy-MM-dd')
-    }
-  });
+  const defaultSignerName = [clientData?.client_first_name, clientData?.client_last_name].filter(Boolean).join(' ');
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
 
-  const handleSubmit = async (data: FormData) => {
     if (!userId) {
       toast.error("User ID not found. Please ensure you are logged in.");
       return;
     }
 
+    if (submitBlockedReason) {
+      toast.error(submitBlockedReason);
+      return;
+    }
+
+    if (!signature) {
+      setSignatureError("Your signature is required");
+      return;
+    }
+    setSignatureError(null);
+
     setIsSubmitting(true);
     
     try {
+      const clientId = clientData?.id || userId;
+
+      // The signature is tied to exactly the text shown above through its hash
+      const documentHash = await hashDocumentText(getTelehealthConsentText());
+      const { success, data: signatureRecord, error } = await recordDocumentSignature({
+        clientId,
+        documentType: TELEHEALTH_CONSENT_DOCUMENT_TYPE,
+        documentTitle: TELEHEALTH_CONSENT_TITLE,
+        documentVersion: TELEHEALTH_CONSENT_VERSION,
+        documentHash,
+        signature,
+        assignmentId
+      });
+
+      if (!success || !signatureRecord) {
+        console.error("[InformedConsentTemplate] Error recording signature:", error);
+        toast.error("Your signature could not be recorded. Please try again.");
+        return;
+      }
+
       // If the parent component provided an onSubmit handler, use it
       if (onSubmit) {
         console.log("[InformedConsentTemplate] Using provided onSubmit handler");
-        await onSubmit({
-          ...data,
-          formElementId: 'informed-consent-form' // Pass the form element ID for PDF generation
-        });
-        setIsSubmitting(false);
+        await onSubmit({ signature: signatureRecord });
         return;
       }
 
       // Otherwise handle submission internally
       console.log("[InformedConsentTemplate] Using internal submission logic");
-      
-      // Prepare document data for PDF generation
-      const documentData = {
-        ...data,
-        clientName: clientData?.client_first_name && clientData?.client_last_name 
-          ? `${clientData.client_first_name} ${clientData.client_last_name}` 
-          : "Client",
-        signatureDate: format(new Date(), 'MMMM d, yyyy')
-      };
-
-      // Create document info for PDF generation
-      const documentInfo = {
-        clientId: userId,
-        documentType: 'informed_consent',
-        documentDate: new Date(),
-        documentTitle: 'Informed Consent for Telehealth Services',
-        createdBy: userId
-      };
 
-      console.log("[InformedConsentTemplate] Submitting form with data:", documentData);
-      console.log("[InformedConsentTemplate] Document info:", documentInfo);
-
-      // Use the shared form submission utility to handle PDF generation and document assignment updates
-      const result = await handleFormSubmission(
-        'informed-consent-form',
-        documentInfo,
-        'Informed Consent',
-        documentData
+      const filePath = await generateAndSaveStructuredPDF(
+        buildTelehealthConsentPdf(defaultSignerName || signatureRecord.signer_name),
+        {
+          clientId,
+          documentType: TELEHEALTH_CONSENT_DOCUMENT_TYPE,
+          documentDate: new Date(),
+          documentTitle: TELEHEALTH_CONSENT_TITLE,
+          createdBy: userId
+        },
+        { signature: signatureRecord }
       );
 
-      if (result.success) {
+      if (filePath) {
+        if (assignmentId) {
+          await updateDocumentStatus(assignmentId, 'completed');
+        }
         toast.success("Your informed consent has been submitted successfully.");
 
         if (onClose) {
@@ -108,7 +121,7 @@ const InformedConsentTemplate: React.FC<InformedConsentTemplateProps> = ({
           navigate('/patient-dashboard');
         }
       } else {
-        toast.error(result.message || "There was a problem submitting your informed consent.");
+        toast.error("Your signature was recorded, but the signed document could not be saved.");
       }
     } catch (error) {
       console.error("[InformedConsentTemplate] Error submitting informed consent:", error);
@@ -119,14 +132,14 @@ const InformedConsentTemplate: React.FC<InformedConsentTemplateProps> = ({
   };
 
   return (
-    <div className="w-full max-w-5xl mx-auto pb-12" ref={formRef} id="informed-consent-form">
+    <div className="w-full max-w-5xl mx-auto pb-12">
       <Card className="overflow-hidden">
         <CardHeader className="bg-zinc-50 border-b border-zinc-200">
           <div className="flex items-center justify-between">
             <div>
               <CardTitle className="text-2xl flex items-center gap-2">
                 <FileText className="h-6 w-6 text-valorwell-600" />
-                Informed Consent for Telehealth Services
+                {TELEHEALTH_CONSENT_TITLE}
               </CardTitle>
               <CardDescription>
                 Please review and sign the telehealth consent form below
@@ -144,159 +157,56 @@ const InformedConsentTemplate: React.FC<InformedConsentTemplateProps> = ({
               </p>
             </div>
             
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                <Video className="h-5 w-5 text-valorwell-600" /> 
-                What Is Telehealth?
-              </h3>
-              <p className="text-zinc-700">
-                Telehealth involves the use of electronic communications to provide behavioral health services remotely. 
-                This may include real-time video conferencing, phone calls, or other secure communication tools. 
-                Telehealth allows for the delivery of therapy services without an in-person visit.
-              </p>
-            </section>
-            
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                <Shield className="h-5 w-5 text-valorwell-600" /> 
-                Technology and Privacy
-              </h3>
-              <p className="text-zinc-700">
-                Our telehealth sessions will be conducted through our own proprietary health record system, 
-                which is HIPAA-compliant and encrypted to protect your privacy. Clinical notes from telehealth 
-                sessions will be maintained in a secure, HIPAA-compliant electronic health record. Clients may 
-                request access to their records in accordance with applicable law.
-              </p>
-              <p className="text-zinc-700 mt-2">
-                While we use best practices to maintain privacy and data security, telehealth carries inherent 
-                risks, including the potential for technical failure, unauthorized access, and loss of confidentiality. 
-                You acknowledge and accept these risks.
-              </p>
-            </section>
-
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                Benefits and Limitations
-              </h3>
-              <p className="text-zinc-700">
-                Telehealth offers increased accessibility and convenience. However, it may not be appropriate 
-                in all situations. Your provider will assess whether telehealth is a suitable form of care for 
-                your specific needs. If at any time telehealth is deemed clinically inappropriate, alternative 
-                arrangements may be recommended.
-              </p>
-            </section>
-
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                Client Responsibilities
-              </h3>
-              <p className="text-zinc-700">
-                To maintain the effectiveness and confidentiality of telehealth sessions, clients agree to conduct 
-                sessions in a private, distraction-free environment. Clients will not attend sessions while operating 
-                a vehicle.
-              </p>
-              <p className="text-zinc-700 mt-2">
-                You are responsible for ensuring a stable internet connection and appropriate technology for video 
-                or phone sessions. You agree to take steps to secure your own devices and communication channels 
-                (e.g., using a private internet connection and updated security software).
-              </p>
-            </section>
-
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                <AlertTriangle className="h-5 w-5 text-valorwell-600" /> 
-                Emergencies and Crisis Situations
-              </h3>
-              <p className="text-zinc-700">
-                In the event of a crisis or emergency, you agree to contact emergency services (911) or go to the 
-                nearest emergency room. You also agree to inform your provider of your physical location at the 
-                beginning of each session in case emergency services need to be contacted.
-              </p>
-              <p className="text-zinc-700 mt-2">
-                Please note that telehealth is not appropriate for all emergency situations, and your provider may 
-                not be able to provide immediate crisis support remotely.
-              </p>
-            </section>
-
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                Confidentiality
-              </h3>
-              <p className="text-zinc-700">
-                Information shared in telehealth sessions is confidential and subject to the same limitations and 
-                protections as in-person therapy. These include exceptions required by law, such as the duty to report 
-                imminent risk of harm to self or others, suspected abuse, or court-ordered disclosures.
-              </p>
-            </section>
-
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                Voluntary Participation and Withdrawal
-              </h3>
-              <p className="text-zinc-700">
-                Participation in telehealth is voluntary. You have the right to withdraw your consent to telehealth 
-                services at any time without affecting your right to future care or treatment.
-              </p>
-            </section>
-
-            <section className="mb-6">
-              <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
-                <Check className="h-5 w-5 text-valorwell-600" /> 
-                Acknowledgment and Consent
-              </h3>
-              <p className="text-zinc-700">
-                By signing below, you acknowledge that you have read and understood the information 
-                provided above. You consent to engage in telehealth services under the terms described.
-              </p>
-            </section>
-
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-                <FormField
-                  control={form.control}
-                  name="signature"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="font-medium">Electronic Signature</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Type your full legal name as your signature" 
-                          {...field}
-                          className="h-20 resize-none"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="date"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="font-medium">Date</FormLabel>
-                      <FormControl>
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4 text-zinc-500" />
-                          <span className="text-zinc-800">{format(new Date(), 'MMMM d, yyyy')}</span>
-                        </div>
-                      </FormControl>
-                    </FormItem>
-                  )}
+            {TELEHEALTH_CONSENT_SECTIONS.map(({ title, icon: Icon, paragraphs }) => (
+              <section key={title} className="mb-6">
+                <h3 className="text-lg font-medium flex items-center gap-2 mb-2">
+                  {Icon && <Icon className="h-5 w-5 text-valorwell-600" />}
+                  {title}
+                </h3>
+                {paragraphs.map((paragraph, index) => (
+                  <p key={index} className={index === 0 ? "text-zinc-700" : "text-zinc-700 mt-2"}>
+                    {paragraph}
+                  </p>
+                ))}
+              </section>
+            ))}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <SignatureCapture
+                  onChange={(value) => {
+                    setSignature(value);
+                    if (value) setSignatureError(null);
+                  }}
+                  defaultSignerName={defaultSignerName}
+                  disabled={isSubmitting}
                 />
-
-                <div className="flex justify-end">
-                  <Button 
-                    type="submit" 
-                    className="w-full md:w-auto"
-                    disabled={isSubmitting}
-                  >
-                    {isSubmitting ? "Submitting..." : "I Consent and Agree"}
-                  </Button>
+                {signatureError && (
+                  <p className="text-sm font-medium text-destructive mt-2">{signatureError}</p>
+                )}
+              </div>
+
+              <div>
+                <p className="font-medium text-sm">Date</p>
+                <div className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4 text-zinc-500" />
+                  <span className="text-zinc-800">{format(new Date(), 'MMMM d, yyyy')}</span>
                 </div>
-              </form>
-            </Form>
+              </div>
+
+              <div className="flex flex-col items-end gap-2">
+                {submitBlockedReason && (
+                  <p className="text-sm text-amber-700">{submitBlockedReason}</p>
+                )}
+                <Button 
+                  type="submit" 
+                  className="w-full md:w-auto"
+                  disabled={isSubmitting || !!submitBlockedReason}
+                >
+                  {isSubmitting ? "Submitting..." : "I Consent and Agree"}
+                </Button>
+              </div>
+            </form>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,367 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClientDetails } from "@/types/client";
+import { useToast } from "@/hooks/use-toast";
+import { attachAssessmentPdf, saveInstrumentAssessment } from "@/integrations/supabase/client";
+import { generateAndSaveStructuredPDF } from "@/utils/pdfUtils";
+import {
+  InstrumentId,
+  InstrumentItem,
+  InstrumentResponses,
+  ScoredInstrument,
+  getInstrument,
+  getItemOptions,
+  getUnansweredItems,
+  getVisibleItems,
+  scoreInstrument
+} from "@/utils/instruments";
+import { buildAssessmentRecord } from "@/utils/instruments/records";
+import { buildInstrumentPdf } from "@/utils/instruments/pdf";
+import CrisisResourcesCard from "@/components/patient/CrisisResourcesCard";
+
+interface InstrumentTemplateProps {
+  instrument: InstrumentId;
+  onClose: () => void;
+  clinicianName: string;
+  clientData?: ClientDetails | null;
+  clinicianId?: string | null;
+  appointmentId?: string | null;
+  onComplete?: (result: ScoredInstrument) => void; // Used by the pre-session check-in
+}
+
+// Consecutive items that share the instrument's answer choices are shown as one table;
+// items with their own choices are listed individually
+const groupItems = (items: InstrumentItem[]) =>
+  items.reduce<{ shared: boolean; items: InstrumentItem[] }[]>((sections, item) => {
+    const shared = !item.options;
+    const last = sections[sections.length - 1];
+    if (last && last.shared === shared) {
+      last.items.push(item);
+    } else {
+      sections.push({ shared, items: [item] });
+    }
+    return sections;
+  }, []);
+
+/**
+ * Renders, scores and saves any questionnaire described by an instrument definition
+ */
+const InstrumentTemplate: React.FC<InstrumentTemplateProps> = ({
+  instrument,
+  onClose,
+  clinicianName,
+  clientData,
+  clinicianId,
+  appointmentId,
+  onComplete
+}) => {
+  const { toast } = useToast();
+  const definition = getInstrument(instrument);
+  const [assessmentDate, setAssessmentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [responses, setResponses] = useState<InstrumentResponses>({});
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [additionalNotes, setAdditionalNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [showCrisisResources, setShowCrisisResources] = useState(false);
+  const [assessmentSaved, setAssessmentSaved] = useState(false);
+
+  const visibleItems = getVisibleItems(definition, responses);
+  const scored = scoreInstrument(definition, responses);
+  const patientName = clientData ? `${clientData.client_first_name || ''} ${clientData.client_last_name || ''}`.trim() : "";
+
+  const handleResponseChange = (itemId: string, value: number) => {
+    setResponses(prev => ({ ...prev, [itemId]: value }));
+  };
+
+  const finishAssessment = () => {
+    // A failed save does not hold up the session check-in
+    if (onComplete) {
+      onComplete(scored);
+    } else {
+      onClose();
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (getUnansweredItems(definition, responses).length > 0) {
+      toast({
+        title: "Incomplete",
+        description: "Please answer every question before saving.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (clientData && clientData.id) {
+        const record = buildAssessmentRecord(definition, scored, {
+          clientId: clientData.id,
+          clinicianId,
+          appointmentId,
+          assessmentDate,
+          fields,
+          notes: additionalNotes
+        });
+        const result = await saveInstrumentAssessment(record);
+
+        if (result.success && result.data) {
+          setAssessmentSaved(true);
+          const pdfDocument = buildInstrumentPdf(definition, scored, {
+            patientName: patientName || "Not specified",
+            clinicianName: clinicianName || "Not specified",
+            assessmentDate,
+            fields,
+            notes: additionalNotes
+          });
+          const pdfPath = await generateAndSaveStructuredPDF(pdfDocument, {
+            clientId: clientData.id,
+            documentType: definition.id,
+            documentDate: assessmentDate,
+            documentTitle: `${definition.name} - ${patientName || 'Unknown Client'} - ${assessmentDate}`,
+            createdBy: clinicianName || undefined
+          });
+
+          if (pdfPath) {
+            await attachAssessmentPdf(record.table, result.data.id, pdfPath);
+          } else {
+            console.error(`Failed to generate ${definition.name} PDF`);
+          }
+
+          toast({
+            title: "Assessment Saved",
+            description: `${definition.name} assessment has been saved.`,
+          });
+        } else {
+          console.error(`Failed to save ${definition.name} assessment:`, result.error);
+          toast({
+            title: "Warning",
+            description: "The assessment was completed but there was an issue saving the data.",
+            variant: "destructive"
+          });
+        }
+      } else {
+        console.warn(`Cannot save ${definition.name} assessment: Missing client data or ID`);
+      }
+    } catch (error) {
+      console.error(`Error in ${definition.name} submission:`, error);
+      toast({
+        title: "Error",
+        description: "There was an issue saving the assessment.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+
+    // Critical answers are escalated to the clinician by the database; the person answering
+    // sees crisis resources before the form closes
+    if (scored.criticalItems.length > 0) {
+      setShowCrisisResources(true);
+    } else {
+      finishAssessment();
+    }
+  };
+
+  const renderSharedItems = (items: InstrumentItem[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-1/2">Question</TableHead>
+          {definition.responseOptions.map(option => (
+            <TableHead key={option.value} className="text-center">
+              {option.label}<br />
+              <span className="text-sm font-normal">({option.value})</span>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(item => (
+          <TableRow key={item.id}>
+            <TableCell>{visibleItems.indexOf(item) + 1}. {item.text}</TableCell>
+            {definition.responseOptions.map(option => (
+              <TableCell key={`${item.id}-${option.value}`} className="text-center">
+                <input
+                  type="radio"
+                  name={`${definition.id}-${item.id}`}
+                  value={option.value}
+                  checked={responses[item.id] === option.value}
+                  onChange={() => handleResponseChange(item.id, option.value)}
+                  className="h-4 w-4"
+                />
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  const renderIndividualItems = (items: InstrumentItem[]) => (
+    <div className="space-y-5">
+      {items.map(item => (
+        <div key={item.id} className="space-y-2">
+          <p>{visibleItems.indexOf(item) + 1}. {item.text}</p>
+          <RadioGroup
+            value={responses[item.id] !== undefined ? String(responses[item.id]) : ""}
+            onValueChange={value => handleResponseChange(item.id, Number(value))}
+            className="flex flex-wrap gap-x-6 gap-y-2"
+          >
+            {getItemOptions(definition, item).map(option => (
+              <div key={option.label} className="flex items-center gap-2">
+                <RadioGroupItem value={String(option.value)} id={`${definition.id}-${item.id}-${option.label}`} />
+                <Label htmlFor={`${definition.id}-${item.id}-${option.label}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      ))}
+    </div>
+  );
+
+  if (showCrisisResources) {
+    return (
+      <div className="space-y-4">
+        <CrisisResourcesCard
+          title="Thank you for telling us"
+          description={assessmentSaved
+            ? "Your answers have been shared with your care team so they can follow up with you. If you need support right now, please reach out to one of these services."
+            : "Please let your clinician know how you are feeling. If you need support right now, please reach out to one of these services."}
+        />
+        <div className="flex justify-end">
+          <Button onClick={finishAssessment}>Continue</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="w-full mb-6">
+      <CardHeader className="bg-valorwell-600 text-white">
+        <CardTitle className="flex justify-between items-center">
+          <span>{definition.title}</span>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="text-white border-white hover:bg-valorwell-700"
+          >
+            Close
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="space-y-2">
+            <Label htmlFor={`${definition.id}-date`}>Date</Label>
+            <Input
+              id={`${definition.id}-date`}
+              type="date"
+              value={assessmentDate}
+              onChange={(e) => setAssessmentDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Clinician</Label>
+            <Input value={clinicianName || "Not specified"} readOnly />
+          </div>
+          <div className="space-y-2">
+            <Label>Patient</Label>
+            <Input value={patientName || "Not specified"} readOnly />
+          </div>
+          {definition.fields?.map(field => (
+            <div key={field.id} className="space-y-2">
+              <Label htmlFor={`${definition.id}-${field.id}`}>{field.label}</Label>
+              <Input
+                id={`${definition.id}-${field.id}`}
+                value={fields[field.id] || ""}
+                onChange={(e) => setFields(prev => ({ ...prev, [field.id]: e.target.value }))}
+                placeholder={field.placeholder}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-6 space-y-6">
+          <h3 className="font-medium text-lg">{definition.instructions}</h3>
+          {groupItems(visibleItems).map(section => (
+            <div key={section.items[0].id}>
+              {section.shared ? renderSharedItems(section.items) : renderIndividualItems(section.items)}
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-6">
+          <div className="bg-gray-100 p-4 rounded-md">
+            <h3 className="font-medium mb-2">Score Interpretation</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                {definition.scoring.method === 'sum' && (
+                  <p><strong>Total Score:</strong> {scored.totalScore} out of {definition.scoring.maxScore}</p>
+                )}
+                <p><strong>Interpretation:</strong> {scored.severity}</p>
+                {definition.scoring.subscales && (
+                  <ul className="text-sm mt-2">
+                    {definition.scoring.subscales.map(subscale => (
+                      <li key={subscale.id}>
+                        <strong>{subscale.label}:</strong> {scored.subscaleScores[subscale.id]}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <p><strong>{definition.name} Score Ranges:</strong></p>
+                <ul className="text-sm">
+                  {definition.scoring.severityBands.map(band => (
+                    <li key={band.label}>
+                      {band.min === band.max ? band.min : `${band.min}-${band.max}`}: {band.label}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+            {definition.interpretationNotes && (
+              <ul className="text-sm list-disc pl-5 mt-3">
+                {definition.interpretationNotes.map(note => (
+                  <li key={note}>{note}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <Label htmlFor={`${definition.id}-notes`}>{definition.notesLabel || "Additional Notes"}</Label>
+          <Textarea
+            id={`${definition.id}-notes`}
+            value={additionalNotes}
+            onChange={(e) => setAdditionalNotes(e.target.value)}
+            className="mt-1"
+            rows={4}
+          />
+        </div>
+
+        <div className="flex justify-end gap-4">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Assessment"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InstrumentTemplate;
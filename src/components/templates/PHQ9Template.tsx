@@ -19,6 +19,7 @@ import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { X } from "lucide-react";
+import CrisisResourcesCard from "@/components/patient/CrisisResourcesCard";
 import { savePHQ9AssessmentSync, generatePHQ9NarrativeAsync } from "@/integrations/supabase/client";
 
 interface PHQ9TemplateProps {
@@ -63,6 +64,8 @@ const PHQ9Template: React.FC<PHQ9TemplateProps> = ({
   const [additionalNotes, setAdditionalNotes] = useState("");
   const [isOpen, setIsOpen] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [showCrisisResources, setShowCrisisResources] = useState(false);
+  const [assessmentSaved, setAssessmentSaved] = useState(false);
   
   const form = useForm({
     defaultValues: {
@@ -90,6 +93,22 @@ const PHQ9Template: React.FC<PHQ9TemplateProps> = ({
     setScores(newScores);
   };
 
+  // Any answer above zero to item 9 is escalated to the clinician by the database; here we
+  // make sure the person answering sees crisis resources before the form closes
+  const hasSafetyConcern = scores[8] > 0;
+
+  const finishAssessment = () => {
+    setIsOpen(false);
+
+    // Call onComplete if provided, otherwise just close. onClose is reserved for
+    // dismissing the form, which the session check-in treats as cancelling.
+    if (onComplete) {
+      onComplete();
+    } else {
+      onClose();
+    }
+  };
+
   const handleSubmit = async () => {
     try {
       setIsSaving(true);
@@ -135,6 +154,7 @@ const PHQ9Template: React.FC<PHQ9TemplateProps> = ({
           // Still continue with the flow even if saving fails
         } else {
           console.log('PHQ-9 assessment saved successfully:', result.data);
+          setAssessmentSaved(true);
           toast({
             title: "Assessment Saved",
             description: "PHQ-9 assessment has been saved. AI analysis is being generated in the background.",
@@ -157,11 +177,11 @@ const PHQ9Template: React.FC<PHQ9TemplateProps> = ({
       });
     } finally {
       setIsSaving(false);
-      handleClose();
-      
-      // Call onComplete if provided, otherwise just close
-      if (onComplete) {
-        onComplete();
+
+      if (hasSafetyConcern) {
+        setShowCrisisResources(true);
+      } else {
+        finishAssessment();
       }
     }
   };
@@ -297,18 +317,35 @@ const PHQ9Template: React.FC<PHQ9TemplateProps> = ({
     </Form>
   );
 
+  const renderCrisisResources = () => (
+    <div className="space-y-4">
+      <CrisisResourcesCard
+        title="Thank you for telling us"
+        description={assessmentSaved
+          ? "Your answers have been shared with your care team so they can follow up with you. If you need support right now, please reach out to one of these services."
+          : "Please let your clinician know how you are feeling. If you need support right now, please reach out to one of these services."}
+      />
+      <div className="flex justify-end">
+        <Button onClick={finishAssessment}>Continue</Button>
+      </div>
+    </div>
+  );
+
+  // Once the assessment is saved, dismissing the crisis resources counts as finishing it
+  const handleDismiss = showCrisisResources ? finishAssessment : handleClose;
+
   return (
-    <Dialog open={isOpen} onOpenChange={handleClose}>
+    <Dialog open={isOpen} onOpenChange={handleDismiss}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex justify-between items-center">
             <span>PHQ-9 Depression Screener</span>
-            <Button variant="ghost" size="icon" onClick={handleClose} className="h-6 w-6 rounded-full">
+            <Button variant="ghost" size="icon" onClick={handleDismiss} className="h-6 w-6 rounded-full">
               <X className="h-4 w-4" />
             </Button>
           </DialogTitle>
         </DialogHeader>
-        {renderFormContent()}
+        {showCrisisResources ? renderCrisisResources() : renderFormContent()}
       </DialogContent>
     </Dialog>
   );
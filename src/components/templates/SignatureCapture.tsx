@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, PenLine, Type } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SignatureInput, SignatureMethod } from '@/types/documentSignatures';
+
+interface SignatureCaptureProps {
+  onChange: (signature: SignatureInput | null) => void;
+  defaultSignerName?: string;
+  label?: string;
+  disabled?: boolean;
+}
+
+const CANVAS_HEIGHT = 160;
+
+/**
+ * Electronic signature field: the signer types their full legal name and either adopts it as
+ * a typed signature or draws one. Reports null until the signature is complete.
+ */
+const SignatureCapture: React.FC<SignatureCaptureProps> = ({
+  onChange,
+  defaultSignerName = '',
+  label = 'Electronic Signature',
+  disabled = false
+}) => {
+  const [method, setMethod] = useState<SignatureMethod>('typed');
+  const [signerName, setSignerName] = useState(defaultSignerName);
+  const [drawing, setDrawing] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+
+  // Parents often pass an inline onChange, so only the signature itself re-reports it
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const name = signerName.trim();
+    if (!name) {
+      onChangeRef.current(null);
+    } else if (method === 'typed') {
+      onChangeRef.current({ signerName: name, method, data: name });
+    } else {
+      onChangeRef.current(drawing ? { signerName: name, method, data: drawing } : null);
+    }
+  }, [signerName, method, drawing]);
+
+  // Size the drawing surface to its container at the device pixel ratio so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (method !== 'drawn' || !canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = CANVAS_HEIGHT * ratio;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#111827';
+    }
+    setDrawing(null);
+  }, [method]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDrawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    setDrawing(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (canvas && context) {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+    }
+    setDrawing(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="font-medium">{label}</Label>
+
+      <div>
+        <Label htmlFor="signer-name" className="text-sm text-muted-foreground">Full legal name</Label>
+        <Input
+          id="signer-name"
+          value={signerName}
+          onChange={(event) => setSignerName(event.target.value)}
+          placeholder="Type your full legal name"
+          disabled={disabled}
+        />
+      </div>
+
+      <Tabs value={method} onValueChange={(value) => setMethod(value as SignatureMethod)}>
+        <TabsList>
+          <TabsTrigger value="typed" disabled={disabled} className="flex items-center gap-1">
+            <Type className="h-4 w-4" /> Type
+          </TabsTrigger>
+          <TabsTrigger value="drawn" disabled={disabled} className="flex items-center gap-1">
+            <PenLine className="h-4 w-4" /> Draw
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="typed">
+          <div className="flex h-20 items-center rounded-md border bg-white px-4">
+            <span className="font-serif text-3xl italic text-zinc-900">
+              {signerName.trim() || <span className="text-base not-italic text-muted-foreground">Your typed signature appears here</span>}
+            </span>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="drawn">
+          <div className="space-y-2">
+            <canvas
+              ref={canvasRef}
+              className="w-full touch-none rounded-md border bg-white"
+              style={{ height: CANVAS_HEIGHT }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              aria-label="Draw your signature"
+            />
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>Sign above using your mouse, finger or stylus</span>
+              <Button type="button" variant="ghost" size="sm" onClick={clearDrawing} disabled={disabled || !drawing}>
+                <Eraser className="h-4 w-4 mr-1" /> Clear
+              </Button>
+            </div>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <p className="text-xs text-muted-foreground">
+        By signing you agree that your electronic signature is the legal equivalent of your handwritten signature.
+        The signing time, your IP address and device, and a fingerprint of this document are recorded with it.
+      </p>
+    </div>
+  );
+};
+
+export default SignatureCapture;
@@ -40,7 +40,14 @@ export const PHQ9AssessmentSection: React.FC<PHQ9AssessmentSectionProps> = ({
       
       {phq9Data.phq9_narrative && (
         <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">PHQ-9 Narrative</label>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            PHQ-9 Narrative
+            {phq9Data.phq9_narrative_source && (
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                ({phq9Data.phq9_narrative_source === 'ai' ? 'AI-generated' : 'Template'})
+              </span>
+            )}
+          </label>
           <Textarea 
             className="min-h-[100px] bg-gray-100 resize-y" 
             value={phq9Data.phq9_narrative || ''} 
@@ -0,0 +1,83 @@
+import { Video, Shield, AlertTriangle, Check, LucideIcon } from 'lucide-react';
+
+/**
+ * Text of the telehealth informed consent. The signing form and the view dialog both render
+ * from these sections, and signatures are hashed over getTelehealthConsentText(), so any edit
+ * here must come with a new TELEHEALTH_CONSENT_VERSION.
+ */
+
+export const TELEHEALTH_CONSENT_TITLE = 'Informed Consent for Telehealth Services';
+export const TELEHEALTH_CONSENT_DOCUMENT_TYPE = 'informed_consent';
+export const TELEHEALTH_CONSENT_VERSION = '2024-01';
+
+export interface ConsentSection {
+  title: string;
+  icon?: LucideIcon;
+  paragraphs: string[];
+}
+
+export const TELEHEALTH_CONSENT_SECTIONS: ConsentSection[] = [
+  {
+    title: 'What Is Telehealth?',
+    icon: Video,
+    paragraphs: [
+      'Telehealth involves the use of electronic communications to provide behavioral health services remotely. This may include real-time video conferencing, phone calls, or other secure communication tools. Telehealth allows for the delivery of therapy services without an in-person visit.'
+    ]
+  },
+  {
+    title: 'Technology and Privacy',
+    icon: Shield,
+    paragraphs: [
+      'Our telehealth sessions will be conducted through our own proprietary health record system, which is HIPAA-compliant and encrypted to protect your privacy. Clinical notes from telehealth sessions will be maintained in a secure, HIPAA-compliant electronic health record. Clients may request access to their records in accordance with applicable law.',
+      'While we use best practices to maintain privacy and data security, telehealth carries inherent risks, including the potential for technical failure, unauthorized access, and loss of confidentiality. You acknowledge and accept these risks.'
+    ]
+  },
+  {
+    title: 'Benefits and Limitations',
+    paragraphs: [
+      'Telehealth offers increased accessibility and convenience. However, it may not be appropriate in all situations. Your provider will assess whether telehealth is a suitable form of care for your specific needs. If at any time telehealth is deemed clinically inappropriate, alternative arrangements may be recommended.'
+    ]
+  },
+  {
+    title: 'Client Responsibilities',
+    paragraphs: [
+      'To maintain the effectiveness and confidentiality of telehealth sessions, clients agree to conduct sessions in a private, distraction-free environment. Clients will not attend sessions while operating a vehicle.',
+      'You are responsible for ensuring a stable internet connection and appropriate technology for video or phone sessions. You agree to take steps to secure your own devices and communication channels (e.g., using a private internet connection and updated security software).'
+    ]
+  },
+  {
+    title: 'Emergencies and Crisis Situations',
+    icon: AlertTriangle,
+    paragraphs: [
+      'In the event of a crisis or emergency, you agree to contact emergency services (911) or go to the nearest emergency room. You also agree to inform your provider of your physical location at the beginning of each session in case emergency services need to be contacted.',
+      'Please note that telehealth is not appropriate for all emergency situations, and your provider may not be able to provide immediate crisis support remotely.'
+    ]
+  },
+  {
+    title: 'Confidentiality',
+    paragraphs: [
+      'Information shared in telehealth sessions is confidential and subject to the same limitations and protections as in-person therapy. These include exceptions required by law, such as the duty to report imminent risk of harm to self or others, suspected abuse, or court-ordered disclosures.'
+    ]
+  },
+  {
+    title: 'Voluntary Participation and Withdrawal',
+    paragraphs: [
+      'Participation in telehealth is voluntary. You have the right to withdraw your consent to telehealth services at any time without affecting your right to future care or treatment.'
+    ]
+  },
+  {
+    title: 'Acknowledgment and Consent',
+    icon: Check,
+    paragraphs: [
+      'By signing below, you acknowledge that you have read and understood the information provided above. You consent to engage in telehealth services under the terms described.'
+    ]
+  }
+];
+
+// Canonical text of the document as shown to the signer
+export const getTelehealthConsentText = (): string =>
+  [
+    TELEHEALTH_CONSENT_TITLE,
+    `Version ${TELEHEALTH_CONSENT_VERSION}`,
+    ...TELEHEALTH_CONSENT_SECTIONS.map(section => [section.title, ...section.paragraphs].join('\n'))
+  ].join('\n\n');
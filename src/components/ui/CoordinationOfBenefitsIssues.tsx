@@ -0,0 +1,64 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { InsuranceLevel } from '@/types/eligibility';
+import { CoordinationIssue } from '@/utils/coordinationOfBenefits';
+
+interface CoordinationOfBenefitsIssuesProps {
+  issues: CoordinationIssue[];
+  // Names the policy in front of each message when issues for several policies are listed together
+  showLevel?: boolean;
+  className?: string;
+}
+
+const LEVEL_TITLES: Record<InsuranceLevel, string> = {
+  primary: 'Primary insurance',
+  secondary: 'Secondary insurance',
+  tertiary: 'Tertiary insurance'
+};
+
+/**
+ * Coordination of benefits problems shown next to the policy they concern, errors first.
+ */
+const CoordinationOfBenefitsIssues: React.FC<CoordinationOfBenefitsIssuesProps> = ({ issues, showLevel = false, className }) => {
+  if (issues.length === 0) return null;
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  const renderIssue = (issue: CoordinationIssue, index: number) => (
+    <li key={`${issue.level}-${index}`}>
+      {showLevel && issue.level && <span className="font-medium">{LEVEL_TITLES[issue.level]}: </span>}
+      {issue.message}
+    </li>
+  );
+
+  return (
+    <div className={`space-y-2 ${className || ''}`}>
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Insurance details to correct</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map(renderIssue)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert className="border-amber-200 bg-amber-50 text-amber-900">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Insurance details to double-check</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {warnings.map(renderIssue)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
+
+export default CoordinationOfBenefitsIssues;
@@ -18,6 +18,7 @@ interface InsuranceSectionProps {
   isEditing: boolean;
   insuranceTypes: string[];
   relationshipTypes: string[];
+  children?: React.ReactNode;
 }
 
 const InsuranceSection: React.FC<InsuranceSectionProps> = ({
@@ -26,7 +27,8 @@ const InsuranceSection: React.FC<InsuranceSectionProps> = ({
   form,
   isEditing,
   insuranceTypes,
-  relationshipTypes
+  relationshipTypes,
+  children
 }) => {
   // Determine the suffix based on title
   const getSuffix = () => {
@@ -222,6 +224,7 @@ const InsuranceSection: React.FC<InsuranceSectionProps> = ({
           )}
         />
       </div>
+      {children}
     </div>
   );
 };
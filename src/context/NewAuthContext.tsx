@@ -105,7 +105,15 @@ export const AuthProvider: React.FC<{
       }
       
       if (newState === AuthState.AUTHENTICATED && AuthService.userId) {
-        await loadClientData(AuthService.userId);
+        if (AuthService.userRole === 'guardian') {
+          // Guardians have no clients row of their own
+          setClientProfile(null);
+          setClientStatus(null);
+          setIsLoading(false);
+          clearLoadingTimeout();
+        } else {
+          await loadClientData(AuthService.userId);
+        }
       } else if (newState === AuthState.UNAUTHENTICATED) {
         // Clear client data when logged out
         setClientProfile(null);
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AppointmentPolicy, DEFAULT_APPOINTMENT_POLICY } from '@/utils/appointmentPolicy';
+
+/**
+ * Loads the practice's client appointment policy from system_settings,
+ * falling back to the defaults when the settings are missing or unreadable
+ */
+export const useAppointmentPolicy = () => {
+  const [policy, setPolicy] = useState<AppointmentPolicy>(DEFAULT_APPOINTMENT_POLICY);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_client_appointment_policy');
+
+        if (error) {
+          console.error('Error loading appointment policy:', error);
+          return;
+        }
+
+        const row = Array.isArray(data) ? data[0] : data;
+        if (row) {
+          setPolicy({
+            lateChangeWindowHours: row.late_change_window_hours ?? DEFAULT_APPOINTMENT_POLICY.lateChangeWindowHours,
+            lateCancellationFee: Number(row.late_cancellation_fee ?? DEFAULT_APPOINTMENT_POLICY.lateCancellationFee),
+            noShowFee: Number(row.no_show_fee ?? DEFAULT_APPOINTMENT_POLICY.noShowFee),
+            atRiskStrikeThreshold: row.at_risk_strike_threshold ?? DEFAULT_APPOINTMENT_POLICY.atRiskStrikeThreshold
+          });
+        }
+      } catch (error) {
+        console.error('Exception loading appointment policy:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPolicy();
+  }, []);
+
+  return { policy, lateChangeWindowHours: policy.lateChangeWindowHours, loading };
+};
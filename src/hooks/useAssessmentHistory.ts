@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AssessmentInstrument, AssessmentScore } from '@/utils/assessmentProgress';
+
+const INSTRUMENT_TABLES: Record<AssessmentInstrument, string> = {
+  phq9: 'phq9_assessments',
+  gad7: 'gad7_assessments',
+  pcl5: 'pcl5_assessments'
+};
+
+const EMPTY_HISTORY: Record<AssessmentInstrument, AssessmentScore[]> = { phq9: [], gad7: [], pcl5: [] };
+
+/**
+ * Total scores for every PHQ-9, GAD-7 and PCL-5 the client has completed
+ */
+export const useAssessmentHistory = (clientId?: string | null) => {
+  const [history, setHistory] = useState<Record<AssessmentInstrument, AssessmentScore[]>>(EMPTY_HISTORY);
+  const [loading, setLoading] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    if (!clientId) {
+      setHistory(EMPTY_HISTORY);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const instruments = Object.keys(INSTRUMENT_TABLES) as AssessmentInstrument[];
+      const results = await Promise.all(instruments.map(instrument =>
+        supabase
+          .from(INSTRUMENT_TABLES[instrument])
+          .select('id, assessment_date, total_score, created_at')
+          .eq('client_id', clientId)
+          .order('assessment_date', { ascending: true })
+      ));
+
+      const next = { ...EMPTY_HISTORY };
+      results.forEach(({ data, error }, index) => {
+        const instrument = instruments[index];
+        if (error) {
+          console.error(`Error fetching ${instrument} history:`, error);
+          return;
+        }
+        next[instrument] = (data || []) as AssessmentScore[];
+      });
+
+      setHistory(next);
+    } catch (error) {
+      console.error('Exception fetching assessment history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return { history, loading, refresh: fetchHistory };
+};
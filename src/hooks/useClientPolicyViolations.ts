@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { PolicyViolation } from '@/utils/appointmentPolicy';
+
+/**
+ * Loads the client's late-cancellation and no-show history, newest first
+ */
+export const useClientPolicyViolations = (clientId?: string | null) => {
+  const [violations, setViolations] = useState<PolicyViolation[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchViolations = useCallback(async () => {
+    if (!clientId) {
+      setViolations([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('client_policy_violations')
+        .select('id, client_id, appointment_id, violation_type, fee_amount, hours_before_start, status, notes, created_at, appointments(start_at, type)')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching policy violations:', error);
+        return;
+      }
+
+      setViolations((data || []) as unknown as PolicyViolation[]);
+    } catch (error) {
+      console.error('Exception fetching policy violations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchViolations();
+  }, [fetchViolations]);
+
+  return { violations, loading, refresh: fetchViolations };
+};
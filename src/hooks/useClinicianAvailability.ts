@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback } from 'react';
+import { addDays, format, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  generateOpenSlots,
+  getSlotStepMinutes,
+  AvailabilityBlock,
+  AvailabilityException,
+  BusyInterval,
+  OpenSlot
+} from '@/utils/availabilitySlots';
+
+export interface AppointmentTemplateDefaults {
+  id: string | null;
+  duration: number;
+  default_type: string;
+  default_status: string;
+}
+
+// Used when the clinician has not configured an appointment template yet
+export const FALLBACK_APPOINTMENT_TEMPLATE: AppointmentTemplateDefaults = {
+  id: null,
+  duration: 60,
+  default_type: 'therapy_session',
+  default_status: 'scheduled'
+};
+
+// Raised by the database when the requested time is outside the clinician's bookable slots
+const SLOT_NOT_OFFERED_MESSAGE = 'That time is no longer open for booking. Please choose another slot.';
+
+// Raised by the database when a VA Community Care client books outside their authorization
+const AUTHORIZATION_EXPIRED_MESSAGE =
+  'Your VA Community Care authorization does not cover that date. Please request a renewal from the Insurance tab or contact your clinician.';
+
+interface UseClinicianAvailabilityProps {
+  clinicianId?: string | null;
+  enabled?: boolean;
+  // When rescheduling, the appointment being moved is not treated as busy time
+  excludeAppointmentId?: string | null;
+  // Overrides the template duration, e.g. to keep a rescheduled appointment's length
+  durationMinutes?: number | null;
+}
+
+/**
+ * Loads the clinician's default appointment template, availability blocks, exceptions and
+ * busy time, and computes open slots inside the clinician's notice/advance booking window.
+ */
+export const useClinicianAvailability = ({
+  clinicianId,
+  enabled = true,
+  excludeAppointmentId = null,
+  durationMinutes = null
+}: UseClinicianAvailabilityProps) => {
+  const [slots, setSlots] = useState<OpenSlot[]>([]);
+  const [template, setTemplate] = useState<AppointmentTemplateDefaults>(FALLBACK_APPOINTMENT_TEMPLATE);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSlots = useCallback(async () => {
+    if (!clinicianId || !enabled) {
+      setSlots([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data: clinician, error: clinicianError } = await supabase
+        .from('clinicians')
+        .select('id, clinician_time_zone, clinician_time_granularity, clinician_min_notice_days, clinician_max_advance_days')
+        .eq('id', clinicianId)
+        .single();
+
+      if (clinicianError) {
+        throw clinicianError;
+      }
+
+      const { data: templateRows, error: templateError } = await supabase
+        .from('appointment_templates')
+        .select('id, duration, default_type, default_status, is_default')
+        .eq('user_id', clinicianId)
+        .order('is_default', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: true })
+        .limit(1);
+
+      if (templateError) {
+        console.error('Error fetching appointment template:', templateError);
+      }
+
+      const activeTemplate: AppointmentTemplateDefaults = templateRows && templateRows.length > 0
+        ? {
+            id: templateRows[0].id,
+            duration: templateRows[0].duration || FALLBACK_APPOINTMENT_TEMPLATE.duration,
+            default_type: templateRows[0].default_type || FALLBACK_APPOINTMENT_TEMPLATE.default_type,
+            default_status: templateRows[0].default_status || FALLBACK_APPOINTMENT_TEMPLATE.default_status
+          }
+        : FALLBACK_APPOINTMENT_TEMPLATE;
+      setTemplate(activeTemplate);
+
+      const clinicianTimezone = clinician?.clinician_time_zone || 'America/New_York';
+      const now = new Date();
+      const earliestStart = addDays(now, clinician?.clinician_min_notice_days ?? 1);
+      const rangeStart = startOfDay(now);
+      const rangeEnd = addDays(rangeStart, (clinician?.clinician_max_advance_days ?? 30) + 1);
+
+      const [blocksResult, exceptionsResult, busyResult] = await Promise.all([
+        supabase
+          .from('availability_blocks')
+          .select('id, start_at, end_at, is_active, recurring_pattern')
+          .eq('clinician_id', clinicianId)
+          .eq('is_active', true)
+          .lt('start_at', rangeEnd.toISOString()),
+        supabase
+          .from('availability_exceptions')
+          .select('specific_date, start_time, end_time, is_active, is_deleted')
+          .eq('clinician_id', clinicianId)
+          .gte('specific_date', format(addDays(rangeStart, -1), 'yyyy-MM-dd'))
+          .lte('specific_date', format(rangeEnd, 'yyyy-MM-dd')),
+        supabase.rpc('get_clinician_busy_intervals', {
+          p_clinician_id: clinicianId,
+          p_start_at: rangeStart.toISOString(),
+          p_end_at: rangeEnd.toISOString(),
+          p_exclude_appointment_id: excludeAppointmentId
+        })
+      ]);
+
+      if (blocksResult.error) throw blocksResult.error;
+      if (exceptionsResult.error) {
+        console.error('Error fetching availability exceptions:', exceptionsResult.error);
+      }
+      if (busyResult.error) throw busyResult.error;
+
+      const openSlots = generateOpenSlots({
+        blocks: (blocksResult.data || []) as AvailabilityBlock[],
+        exceptions: (exceptionsResult.data || []) as AvailabilityException[],
+        busy: (busyResult.data || []) as BusyInterval[],
+        clinicianTimezone,
+        rangeStart,
+        rangeEnd,
+        durationMinutes: durationMinutes || activeTemplate.duration,
+        stepMinutes: getSlotStepMinutes(clinician?.clinician_time_granularity),
+        earliestStart
+      });
+
+      setSlots(openSlots);
+    } catch (err) {
+      console.error('Error loading clinician availability:', err);
+      setError('Unable to load available times. Please try again later.');
+      setSlots([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [clinicianId, enabled, excludeAppointmentId, durationMinutes]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  // Book a slot through the atomic booking function; the server re-checks for conflicts
+  const bookSlot = useCallback(async (slot: OpenSlot): Promise<{ success: boolean; appointmentId?: string; error?: string }> => {
+    if (!clinicianId) {
+      return { success: false, error: 'No clinician assigned' };
+    }
+
+    try {
+      const { data, error: bookingError } = await supabase.rpc('book_client_appointment', {
+        p_clinician_id: clinicianId,
+        p_start_at: slot.start_at,
+        p_template_id: template.id
+      });
+
+      if (bookingError) {
+        console.error('Error booking appointment:', bookingError);
+        if (bookingError.hint === 'authorization_expired') {
+          return { success: false, error: AUTHORIZATION_EXPIRED_MESSAGE };
+        }
+        if (bookingError.hint === 'slot_not_offered') {
+          return { success: false, error: SLOT_NOT_OFFERED_MESSAGE };
+        }
+        const slotTaken = bookingError.hint === 'slot_unavailable';
+        return {
+          success: false,
+          error: slotTaken ? 'That time was just taken. Please choose another slot.' : 'Failed to book appointment'
+        };
+      }
+
+      return { success: true, appointmentId: data as string };
+    } catch (err) {
+      console.error('Exception booking appointment:', err);
+      return { success: false, error: 'Failed to book appointment' };
+    }
+  }, [clinicianId, template.id]);
+
+  // Move an existing appointment to a new slot; duration and recurring group are kept server-side
+  const rescheduleSlot = useCallback(async (appointmentId: string, slot: OpenSlot): Promise<{ success: boolean; appointmentId?: string; error?: string }> => {
+    try {
+      const { error: rescheduleError } = await supabase.rpc('reschedule_client_appointment', {
+        p_appointment_id: appointmentId,
+        p_new_start_at: slot.start_at
+      });
+
+      if (rescheduleError) {
+        console.error('Error rescheduling appointment:', rescheduleError);
+        if (rescheduleError.hint === 'slot_unavailable') {
+          return { success: false, error: 'That time was just taken. Please choose another slot.' };
+        }
+        if (rescheduleError.hint === 'authorization_expired') {
+          return { success: false, error: AUTHORIZATION_EXPIRED_MESSAGE };
+        }
+        if (rescheduleError.hint === 'slot_not_offered') {
+          return { success: false, error: SLOT_NOT_OFFERED_MESSAGE };
+        }
+        if (rescheduleError.hint === 'late_change_window') {
+          return { success: false, error: 'This appointment is too close to reschedule online. Please contact your clinician.' };
+        }
+        return { success: false, error: 'Failed to reschedule appointment' };
+      }
+
+      return { success: true, appointmentId };
+    } catch (err) {
+      console.error('Exception rescheduling appointment:', err);
+      return { success: false, error: 'Failed to reschedule appointment' };
+    }
+  }, []);
+
+  return { slots, template, loading, error, refresh: loadSlots, bookSlot, rescheduleSlot };
+};
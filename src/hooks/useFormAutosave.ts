@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { deleteDocumentFormDraft, fetchDocumentFormDraft, saveDocumentFormDraft } from '@/integrations/supabase/client';
+import { deleteLocalFormDraft, getLocalFormDraft, putLocalFormDraft } from '@/utils/formDraftStore';
+import { AutosaveStatus, FormDraftData } from '@/types/formDrafts';
+
+export const AUTOSAVE_INTERVAL_MS = 15000;
+// Local copies are written shortly after typing stops rather than on every keystroke
+const LOCAL_SAVE_DELAY_MS = 1000;
+const DRAFT_CHANNEL_NAME = 'document-form-drafts';
+
+interface DraftChannelMessage {
+  type: 'opened' | 'present' | 'saved' | 'closed';
+  assignmentId: string;
+  sessionId: string;
+  version?: number | null;
+}
+
+export interface FormDraftConflict {
+  // Draft version now on the server, or null when the draft was cleared (form submitted)
+  version: number | null;
+  reason: 'stale_version' | 'saved_in_other_tab';
+}
+
+/**
+ * Autosaves a document form's answers per assignment: every change is kept in IndexedDB and
+ * flushed to document_form_drafts on an interval and when the page is hidden. The draft is
+ * restored when the form is opened again.
+ *
+ * Two tabs editing the same form are detected both through a BroadcastChannel and through the
+ * draft version the server checks on every save. On a conflict autosave pauses until the user
+ * either loads the other version (restoreKey changes so the form can remount) or keeps theirs.
+ */
+export const useFormAutosave = (assignmentId: string, enabled = true) => {
+  const [loading, setLoading] = useState(enabled);
+  const [initialDraft, setInitialDraft] = useState<FormDraftData | null>(null);
+  const [restoreKey, setRestoreKey] = useState(0);
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [conflict, setConflict] = useState<FormDraftConflict | null>(null);
+  const [openElsewhere, setOpenElsewhere] = useState(false);
+
+  const sessionIdRef = useRef(uuidv4());
+  const versionRef = useRef<number | null>(null);
+  const pendingRef = useRef<FormDraftData | null>(null);
+  const savingRef = useRef(false);
+  const conflictRef = useRef(false);
+  const stoppedRef = useRef(false);
+  const localTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const markConflict = useCallback((next: FormDraftConflict) => {
+    conflictRef.current = true;
+    setConflict(next);
+    setStatus('conflict');
+  }, []);
+
+  const writeLocal = useCallback(async (data: FormDraftData, synced: boolean) => {
+    await putLocalFormDraft({
+      assignmentId,
+      data,
+      savedAt: new Date().toISOString(),
+      baseVersion: versionRef.current,
+      synced
+    });
+  }, [assignmentId]);
+
+  const flushLocal = useCallback(() => {
+    if (localTimerRef.current) {
+      clearTimeout(localTimerRef.current);
+      localTimerRef.current = null;
+    }
+    if (pendingRef.current) {
+      void writeLocal(pendingRef.current, false);
+    }
+  }, [writeLocal]);
+
+  // Load the server draft, preferring unsynced local edits made on top of the same version
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const loadDraft = async () => {
+      setLoading(true);
+      const [serverResult, localDraft] = await Promise.all([
+        fetchDocumentFormDraft(assignmentId),
+        getLocalFormDraft(assignmentId)
+      ]);
+      if (cancelled) return;
+
+      let draft: FormDraftData | null = null;
+      if (serverResult.success) {
+        const serverDraft = serverResult.data;
+        versionRef.current = serverDraft?.version ?? null;
+        draft = serverDraft?.form_data ?? null;
+
+        if (localDraft && !localDraft.synced && localDraft.baseVersion === versionRef.current) {
+          draft = localDraft.data;
+          pendingRef.current = localDraft.data;
+        }
+      } else if (localDraft) {
+        // Server unreachable: continue from this device's copy and sync it later
+        console.warn('[useFormAutosave] Using local draft, server draft could not be loaded');
+        versionRef.current = localDraft.baseVersion;
+        draft = localDraft.data;
+        pendingRef.current = localDraft.synced ? null : localDraft.data;
+        setStatus('offline');
+      }
+
+      setInitialDraft(draft);
+      setLoading(false);
+    };
+
+    loadDraft();
+    return () => {
+      cancelled = true;
+    };
+  }, [assignmentId, enabled]);
+
+  const saveNow = useCallback(async () => {
+    const data = pendingRef.current;
+    if (!enabled || !data || savingRef.current || conflictRef.current || stoppedRef.current) return;
+
+    savingRef.current = true;
+    setStatus('saving');
+    try {
+      const result = await saveDocumentFormDraft(assignmentId, data, versionRef.current, sessionIdRef.current);
+
+      if (!result.success || !result.data) {
+        await writeLocal(data, false);
+        setStatus('offline');
+        return;
+      }
+
+      if (result.data.status === 'conflict') {
+        await writeLocal(data, false);
+        markConflict({ version: result.data.version, reason: 'stale_version' });
+        return;
+      }
+
+      versionRef.current = result.data.version;
+      if (pendingRef.current === data) {
+        pendingRef.current = null;
+      }
+      await writeLocal(data, true);
+      setLastSavedAt(new Date(result.data.updated_at));
+      setStatus('saved');
+      channelRef.current?.postMessage({
+        type: 'saved',
+        assignmentId,
+        sessionId: sessionIdRef.current,
+        version: result.data.version
+      } satisfies DraftChannelMessage);
+    } finally {
+      savingRef.current = false;
+    }
+  }, [assignmentId, enabled, markConflict, writeLocal]);
+
+  const updateDraft = useCallback((data: FormDraftData) => {
+    if (!enabled || stoppedRef.current) return;
+
+    pendingRef.current = data;
+    if (localTimerRef.current) {
+      clearTimeout(localTimerRef.current);
+    }
+    localTimerRef.current = setTimeout(flushLocal, LOCAL_SAVE_DELAY_MS);
+  }, [enabled, flushLocal]);
+
+  // Periodic server saves, plus a save whenever the tab is hidden or closed
+  useEffect(() => {
+    if (!enabled || loading) return;
+
+    const interval = setInterval(saveNow, AUTOSAVE_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flushLocal();
+        saveNow();
+      }
+    };
+    window.addEventListener('beforeunload', flushLocal);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', flushLocal);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flushLocal();
+      saveNow();
+    };
+  }, [enabled, loading, saveNow, flushLocal]);
+
+  // Tell other tabs this form is open and listen for their saves
+  useEffect(() => {
+    if (!enabled || typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(DRAFT_CHANNEL_NAME);
+    channelRef.current = channel;
+    const post = (type: DraftChannelMessage['type']) =>
+      channel.postMessage({ type, assignmentId, sessionId: sessionIdRef.current } satisfies DraftChannelMessage);
+
+    channel.onmessage = (event: MessageEvent<DraftChannelMessage>) => {
+      const message = event.data;
+      if (message?.assignmentId !== assignmentId || message.sessionId === sessionIdRef.current) return;
+
+      if (message.type === 'opened') {
+        setOpenElsewhere(true);
+        post('present');
+      } else if (message.type === 'present') {
+        setOpenElsewhere(true);
+      } else if (message.type === 'closed') {
+        setOpenElsewhere(false);
+      } else if (message.type === 'saved' && message.version !== versionRef.current) {
+        markConflict({ version: message.version ?? null, reason: 'saved_in_other_tab' });
+      }
+    };
+
+    post('opened');
+    return () => {
+      post('closed');
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [assignmentId, enabled, markConflict]);
+
+  const resolveConflict = useCallback(async (choice: 'keep_mine' | 'load_theirs') => {
+    const result = await fetchDocumentFormDraft(assignmentId);
+    if (!result.success) {
+      setStatus('error');
+      return;
+    }
+
+    versionRef.current = result.data?.version ?? null;
+    conflictRef.current = false;
+    setConflict(null);
+
+    if (choice === 'load_theirs') {
+      pendingRef.current = null;
+      const remote = result.data?.form_data ?? null;
+      if (remote) {
+        await writeLocal(remote, true);
+      } else {
+        await deleteLocalFormDraft(assignmentId);
+      }
+      setInitialDraft(remote);
+      setRestoreKey(key => key + 1);
+      setStatus('saved');
+      return;
+    }
+
+    await saveNow();
+  }, [assignmentId, saveNow, writeLocal]);
+
+  // Call once the form has been submitted; the draft is no longer needed anywhere
+  const clearDraft = useCallback(async () => {
+    stoppedRef.current = true;
+    pendingRef.current = null;
+    if (localTimerRef.current) {
+      clearTimeout(localTimerRef.current);
+      localTimerRef.current = null;
+    }
+    await Promise.all([deleteDocumentFormDraft(assignmentId), deleteLocalFormDraft(assignmentId)]);
+  }, [assignmentId]);
+
+  return {
+    loading,
+    initialDraft,
+    restoreKey,
+    status,
+    lastSavedAt,
+    conflict,
+    openElsewhere,
+    updateDraft,
+    saveNow,
+    resolveConflict,
+    clearDraft
+  };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DocumentAssignment, fetchAssignmentSignatures, fetchClientGuardians } from '@/integrations/supabase/client';
+import { DocumentSignature, SignerRole } from '@/types/documentSignatures';
+import { ClientGuardian } from '@/types/guardians';
+import { getMissingSignerRoles } from '@/utils/guardianSignatures';
+
+/**
+ * Signature state of an assignment that needs a guardian co-signature: the signatures recorded
+ * so far, the guardians linked to the client, and which signer roles are still missing.
+ * Does nothing for assignments without the requirement.
+ */
+export const useGuardianCosign = (assignment: DocumentAssignment) => {
+  const required = !!assignment.requires_guardian_signature;
+  const [loading, setLoading] = useState(required);
+  const [signatures, setSignatures] = useState<DocumentSignature[]>([]);
+  const [guardians, setGuardians] = useState<ClientGuardian[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!required) return;
+
+    setLoading(true);
+    const [signatureResult, guardianResult] = await Promise.all([
+      fetchAssignmentSignatures(assignment.id),
+      fetchClientGuardians(assignment.client_id)
+    ]);
+    if (signatureResult.success) setSignatures(signatureResult.data || []);
+    if (guardianResult.success) setGuardians(guardianResult.data || []);
+    setLoading(false);
+  }, [required, assignment.id, assignment.client_id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const missingRoles: SignerRole[] = getMissingSignerRoles(assignment, signatures);
+  const guardianSignature = signatures.find(signature => signature.signer_role === 'guardian') || null;
+
+  return {
+    required,
+    loading,
+    signatures,
+    guardians,
+    guardianSignature,
+    missingRoles,
+    // Only the client's own signature is left, so they may sign and submit
+    readyForClient: !required || !missingRoles.includes('guardian'),
+    refresh
+  };
+};
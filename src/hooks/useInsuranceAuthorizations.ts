@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchAuthorizationRenewalRequests, fetchInsuranceAuthorizations } from '@/integrations/supabase/client';
+import { AuthorizationRenewalRequest, InsuranceAuthorization } from '@/types/authorizations';
+
+/**
+ * A client's referrals and authorizations, latest ending first, with any renewal requests
+ */
+export const useInsuranceAuthorizations = (clientId: string | null | undefined) => {
+  const [authorizations, setAuthorizations] = useState<InsuranceAuthorization[]>([]);
+  const [renewalRequests, setRenewalRequests] = useState<AuthorizationRenewalRequest[]>([]);
+  const [loading, setLoading] = useState(!!clientId);
+
+  const refresh = useCallback(async () => {
+    if (!clientId) {
+      setAuthorizations([]);
+      setRenewalRequests([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const [authorizationResult, renewalResult] = await Promise.all([
+      fetchInsuranceAuthorizations(clientId),
+      fetchAuthorizationRenewalRequests(clientId)
+    ]);
+    if (authorizationResult.success && authorizationResult.data) {
+      setAuthorizations(authorizationResult.data);
+    }
+    if (renewalResult.success && renewalResult.data) {
+      setRenewalRequests(renewalResult.data);
+    }
+    setLoading(false);
+  }, [clientId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { authorizations, renewalRequests, loading, refresh };
+};
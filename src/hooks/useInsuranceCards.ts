@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  fetchInsuranceCardImages,
+  getInsuranceCardImageUrls,
+  uploadInsuranceCardImage
+} from '@/integrations/supabase/client';
+import { InsuranceLevel } from '@/types/eligibility';
+import { InsuranceCardImage, InsuranceCardSide } from '@/types/insuranceCards';
+import { prepareCardPhoto } from '@/utils/insuranceCards';
+
+/**
+ * A client's insurance card photos with signed links for showing them. Full-size links are
+ * fetched alongside thumbnails so a photo can be opened without another round trip.
+ */
+export const useInsuranceCards = (clientId: string | null | undefined) => {
+  const [images, setImages] = useState<InsuranceCardImage[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(!!clientId);
+
+  const refresh = useCallback(async () => {
+    if (!clientId) return;
+
+    setLoading(true);
+    const { success, data } = await fetchInsuranceCardImages(clientId);
+    if (success && data) {
+      setImages(data);
+      const paths = data.flatMap(image => (image.thumbnail_path ? [image.file_path, image.thumbnail_path] : [image.file_path]));
+      setUrls(await getInsuranceCardImageUrls(paths));
+    }
+    setLoading(false);
+  }, [clientId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Throws with a message that can be shown to the client when the photo is unusable
+  const upload = useCallback(async (level: InsuranceLevel, side: InsuranceCardSide, file: File) => {
+    if (!clientId) return;
+
+    const photo = await prepareCardPhoto(file);
+    const { success } = await uploadInsuranceCardImage(clientId, level, side, photo);
+    if (!success) {
+      throw new Error('The photo could not be uploaded. Please try again.');
+    }
+    await refresh();
+  }, [clientId, refresh]);
+
+  return { images, urls, loading, refresh, upload };
+};
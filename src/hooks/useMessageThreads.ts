@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, uploadMessageAttachments } from '@/integrations/supabase/client';
+import { MessageThread } from '@/types/messaging';
+
+/**
+ * Lists the client's message threads (newest activity first) with per-thread unread counts,
+ * kept current through Supabase Realtime
+ */
+export const useMessageThreads = (clientId?: string | null) => {
+  const [threads, setThreads] = useState<MessageThread[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchThreads = useCallback(async () => {
+    if (!clientId) {
+      setThreads([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('message_threads')
+        .select('id, client_id, clinician_id, subject, created_by, last_message_at, created_at, clinicians(clinician_professional_name, clinician_first_name, clinician_last_name)')
+        .eq('client_id', clientId)
+        .order('last_message_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching message threads:', error);
+        return;
+      }
+
+      const threadRows = (data || []) as unknown as MessageThread[];
+      const threadIds = threadRows.map(thread => thread.id);
+      const unreadByThread = new Map<string, number>();
+
+      if (threadIds.length > 0) {
+        const { data: unread, error: unreadError } = await supabase
+          .from('messages')
+          .select('thread_id')
+          .in('thread_id', threadIds)
+          .neq('sender_id', clientId)
+          .is('read_at', null);
+
+        if (unreadError) {
+          console.error('Error fetching unread messages:', unreadError);
+        } else {
+          (unread || []).forEach(row => {
+            unreadByThread.set(row.thread_id, (unreadByThread.get(row.thread_id) || 0) + 1);
+          });
+        }
+      }
+
+      setThreads(threadRows.map(thread => ({ ...thread, unread_count: unreadByThread.get(thread.id) || 0 })));
+    } catch (error) {
+      console.error('Exception fetching message threads:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  // Any new message or read receipt in one of the client's threads reorders/recounts the list
+  useEffect(() => {
+    if (!clientId) return;
+
+    const channel = supabase
+      .channel(`message-threads-${clientId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, () => {
+        fetchThreads();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [clientId, fetchThreads]);
+
+  /**
+   * Starts a thread with the client's assigned therapist and posts the first message
+   */
+  const createThread = useCallback(async (clinicianId: string, subject: string, body: string, files: File[] = []) => {
+    if (!clientId) {
+      return { success: false, error: 'Not signed in' };
+    }
+
+    try {
+      const { data: thread, error: threadError } = await supabase
+        .from('message_threads')
+        .insert({ client_id: clientId, clinician_id: clinicianId, subject: subject.trim(), created_by: clientId })
+        .select('id')
+        .single();
+
+      if (threadError || !thread) {
+        console.error('Error creating message thread:', threadError);
+        return { success: false, error: threadError?.message || 'Failed to start conversation' };
+      }
+
+      const result = await sendMessageToThread(clientId, thread.id, clientId, body, files);
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      await fetchThreads();
+      return { success: true, threadId: thread.id as string };
+    } catch (error) {
+      console.error('Exception creating message thread:', error);
+      return { success: false, error: 'Failed to start conversation' };
+    }
+  }, [clientId, fetchThreads]);
+
+  const totalUnread = threads.reduce((total, thread) => total + (thread.unread_count || 0), 0);
+
+  return { threads, loading, totalUnread, refresh: fetchThreads, createThread };
+};
+
+/**
+ * Inserts a message and its attachments. Files are uploaded first so a message never
+ * points at a missing object.
+ */
+export const sendMessageToThread = async (
+  clientId: string,
+  threadId: string,
+  senderId: string,
+  body: string,
+  files: File[] = []
+): Promise<{ success: boolean; error?: string }> => {
+  const trimmedBody = body.trim();
+  if (!trimmedBody && files.length === 0) {
+    return { success: false, error: 'Message is empty' };
+  }
+
+  const upload = files.length > 0
+    ? await uploadMessageAttachments(clientId, threadId, files)
+    : { success: true, data: [] };
+
+  if (!upload.success) {
+    return { success: false, error: typeof upload.error === 'string' ? upload.error : 'Failed to upload attachment' };
+  }
+
+  const { data: message, error: messageError } = await supabase
+    .from('messages')
+    .insert({ thread_id: threadId, sender_id: senderId, body: trimmedBody })
+    .select('id')
+    .single();
+
+  if (messageError || !message) {
+    console.error('Error sending message:', messageError);
+    return { success: false, error: messageError?.message || 'Failed to send message' };
+  }
+
+  if (upload.data && upload.data.length > 0) {
+    const { error: attachmentError } = await supabase
+      .from('message_attachments')
+      .insert(upload.data.map(attachment => ({ ...attachment, message_id: message.id })));
+
+    if (attachmentError) {
+      console.error('Error saving message attachments:', attachmentError);
+      return { success: false, error: 'Message sent but attachments could not be saved' };
+    }
+  }
+
+  return { success: true };
+};
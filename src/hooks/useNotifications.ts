@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AppNotification } from '@/types/notifications';
+
+const NOTIFICATION_LIMIT = 50;
+
+/**
+ * The signed-in user's most recent notifications and unread count, kept current through
+ * Supabase Realtime
+ */
+export const useNotifications = (userId?: string | null) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [{ data, error }, { data: count, error: countError }] = await Promise.all([
+        supabase
+          .from('real_time_notifications')
+          .select('id, user_id, type, message, entity_type, entity_id, is_read, priority, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(NOTIFICATION_LIMIT),
+        supabase.rpc('get_unread_notification_count', { p_user_id: userId })
+      ]);
+
+      if (error) {
+        console.error('Error fetching notifications:', error);
+      } else {
+        setNotifications((data || []) as AppNotification[]);
+      }
+
+      if (countError) {
+        console.error('Error fetching unread notification count:', countError);
+      } else {
+        setUnreadCount(count || 0);
+      }
+    } catch (error) {
+      console.error('Exception fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'real_time_notifications', filter: `user_id=eq.${userId}` },
+        () => {
+          fetchNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchNotifications]);
+
+  /**
+   * Marks the given notifications (or all of them when no ids are passed) as read
+   */
+  const markAsRead = useCallback(async (notificationIds?: string[]) => {
+    if (!userId) return;
+
+    const ids = notificationIds ? new Set(notificationIds) : null;
+    const wasUnread = notifications.filter(notification => !notification.is_read && (!ids || ids.has(notification.id))).length;
+    if (ids && wasUnread === 0) return;
+
+    setNotifications(current => current.map(notification =>
+      !ids || ids.has(notification.id) ? { ...notification, is_read: true } : notification
+    ));
+    setUnreadCount(current => (ids ? Math.max(0, current - wasUnread) : 0));
+
+    const { error } = await supabase.rpc('mark_notifications_as_read', {
+      p_user_id: userId,
+      ...(notificationIds ? { p_notification_ids: notificationIds } : {})
+    });
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      fetchNotifications();
+    }
+  }, [userId, notifications, fetchNotifications]);
+
+  return { notifications, unreadCount, loading, markAsRead, refresh: fetchNotifications };
+};
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { getSafeTimezone } from '@/utils/dateFormatting';
+import { groupRecurringSeries, SeriesAppointment } from '@/utils/recurringSeries';
+
+/**
+ * Loads every occurrence of the client's recurring appointments so a series can be shown
+ * (and cancelled) as a single entity, independent of the paged upcoming-appointments list
+ */
+export const useRecurringSeries = (clientId?: string | null, clientTimezone?: string | null) => {
+  const [appointments, setAppointments] = useState<SeriesAppointment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchSeries = useCallback(async () => {
+    if (!clientId) {
+      setAppointments([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('appointments')
+        .select('id, start_at, end_at, type, status, recurring_group_id, appointment_recurring')
+        .eq('client_id', clientId)
+        .not('recurring_group_id', 'is', null)
+        .order('start_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching recurring appointments:', error);
+        return;
+      }
+
+      setAppointments(data || []);
+    } catch (error) {
+      console.error('Exception fetching recurring appointments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [fetchSeries]);
+
+  const series = useMemo(
+    () => groupRecurringSeries(appointments, getSafeTimezone(clientTimezone)),
+    [appointments, clientTimezone]
+  );
+
+  /**
+   * Cancels the given occurrence and every later scheduled occurrence in its series
+   */
+  const cancelRemainingOccurrences = useCallback(async (appointmentId: string) => {
+    const occurrence = appointments.find(a => a.id === appointmentId);
+    if (!clientId || !occurrence?.recurring_group_id) {
+      return { success: false, error: 'Appointment is not part of a recurring series' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('appointments')
+        .update({ status: 'cancelled' })
+        .eq('client_id', clientId)
+        .eq('recurring_group_id', occurrence.recurring_group_id)
+        .eq('status', 'scheduled')
+        .gte('start_at', occurrence.start_at)
+        .select('id');
+
+      if (error) {
+        console.error('Error cancelling recurring series:', error);
+        return { success: false, error: error.message };
+      }
+
+      await fetchSeries();
+      return { success: true, cancelledCount: data?.length || 0 };
+    } catch (error) {
+      console.error('Exception cancelling recurring series:', error);
+      return { success: false, error: 'Failed to cancel the remaining appointments' };
+    }
+  }, [appointments, clientId, fetchSeries]);
+
+  const getSeriesForAppointment = useCallback(
+    (appointment: { recurring_group_id?: string | null }) =>
+      series.find(s => s.groupId === appointment.recurring_group_id) || null,
+    [series]
+  );
+
+  return { series, loading, refresh: fetchSeries, cancelRemainingOccurrences, getSeriesForAppointment };
+};
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ReminderPreferences {
+  email_enabled: boolean;
+  portal_enabled: boolean;
+  // Minutes before an appointment
+  appointment_lead_times: number[];
+  document_reminders_enabled: boolean;
+  document_reminder_interval_days: number;
+}
+
+export interface ClientReminder {
+  id: string;
+  reminder_type: 'appointment' | 'document';
+  channel: 'email' | 'portal';
+  lead_time_minutes: number | null;
+  status: 'pending' | 'sent' | 'failed' | 'skipped';
+  sent_at: string | null;
+  created_at: string;
+}
+
+// Mirrors the column defaults in client_reminder_preferences
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  email_enabled: true,
+  portal_enabled: true,
+  appointment_lead_times: [1440, 60],
+  document_reminders_enabled: true,
+  document_reminder_interval_days: 3
+};
+
+export const REMINDER_LEAD_TIME_OPTIONS = [
+  { minutes: 2880, label: '2 days before' },
+  { minutes: 1440, label: '24 hours before' },
+  { minutes: 120, label: '2 hours before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 15, label: '15 minutes before' }
+];
+
+/**
+ * Loads and saves the signed-in client's reminder settings plus their recent reminder history
+ */
+export const useReminderPreferences = (clientId?: string | null) => {
+  const [preferences, setPreferences] = useState<ReminderPreferences>(DEFAULT_REMINDER_PREFERENCES);
+  const [history, setHistory] = useState<ClientReminder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchPreferences = useCallback(async () => {
+    if (!clientId) return;
+
+    setLoading(true);
+    try {
+      const [{ data: preferenceRow, error: preferenceError }, { data: reminderRows, error: historyError }] = await Promise.all([
+        supabase
+          .from('client_reminder_preferences')
+          .select('email_enabled, portal_enabled, appointment_lead_times, document_reminders_enabled, document_reminder_interval_days')
+          .eq('client_id', clientId)
+          .maybeSingle(),
+        supabase
+          .from('client_reminders')
+          .select('id, reminder_type, channel, lead_time_minutes, status, sent_at, created_at')
+          .eq('client_id', clientId)
+          .in('status', ['sent', 'pending'])
+          .order('created_at', { ascending: false })
+          .limit(20)
+      ]);
+
+      if (preferenceError) {
+        console.error('Error fetching reminder preferences:', preferenceError);
+      } else if (preferenceRow) {
+        setPreferences(preferenceRow);
+      }
+
+      if (historyError) {
+        console.error('Error fetching reminder history:', historyError);
+      } else {
+        setHistory((reminderRows || []) as ClientReminder[]);
+      }
+    } catch (error) {
+      console.error('Exception fetching reminder preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const savePreferences = useCallback(async (updated: ReminderPreferences) => {
+    if (!clientId) {
+      return { success: false, error: 'Not signed in' };
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('client_reminder_preferences')
+        .upsert({ client_id: clientId, ...updated }, { onConflict: 'client_id' });
+
+      if (error) {
+        console.error('Error saving reminder preferences:', error);
+        return { success: false, error: error.message };
+      }
+
+      setPreferences(updated);
+      return { success: true };
+    } catch (error) {
+      console.error('Exception saving reminder preferences:', error);
+      return { success: false, error: 'Failed to save reminder preferences' };
+    } finally {
+      setSaving(false);
+    }
+  }, [clientId]);
+
+  return { preferences, history, loading, saving, savePreferences, refresh: fetchPreferences };
+};
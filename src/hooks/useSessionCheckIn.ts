@@ -0,0 +1,126 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  getCompletedCheckInSteps,
+  getOrCreateVideoRoom,
+  getSessionCheckInSteps,
+  recordCheckInStepCompletion
+} from '@/integrations/supabase/client';
+import { ASSESSMENT_CHECK_IN_STEPS, CheckInStep, getPendingCheckInSteps } from '@/utils/sessionCheckIn';
+
+/**
+ * Runs the configured pre-session check-in for an appointment, one step at a time, and
+ * opens the video room once every remaining step has been completed (or skipped, for
+ * optional steps). Steps already satisfied for the appointment are never shown again.
+ */
+export const useSessionCheckIn = (clientId?: string | null) => {
+  const [appointmentId, setAppointmentId] = useState<string | null>(null);
+  const [steps, setSteps] = useState<CheckInStep[]>([]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [startingAppointmentId, setStartingAppointmentId] = useState<string | null>(null);
+  const [savingStep, setSavingStep] = useState(false);
+
+  const reset = useCallback(() => {
+    setAppointmentId(null);
+    setSteps([]);
+    setStepIndex(0);
+  }, []);
+
+  const openVideoSession = useCallback(async (targetAppointmentId: string) => {
+    const { success, url } = await getOrCreateVideoRoom(targetAppointmentId);
+    if (success && url) {
+      window.open(url, '_blank');
+      toast.success('Video session opened in new tab');
+    } else {
+      toast.error('Failed to start video session');
+    }
+  }, []);
+
+  const startCheckIn = useCallback(async (targetAppointmentId: string) => {
+    setStartingAppointmentId(targetAppointmentId);
+    try {
+      const [configured, completed] = await Promise.all([
+        getSessionCheckInSteps(targetAppointmentId),
+        getCompletedCheckInSteps(targetAppointmentId)
+      ]);
+
+      if (!configured.success || !configured.data || !completed.success || !completed.data) {
+        toast.error('Failed to load your check-in. Please try again.');
+        return;
+      }
+
+      const pending = getPendingCheckInSteps(configured.data, completed.data);
+      if (pending.length === 0) {
+        await openVideoSession(targetAppointmentId);
+        return;
+      }
+
+      setAppointmentId(targetAppointmentId);
+      setSteps(pending);
+      setStepIndex(0);
+    } catch (error) {
+      console.error('Error starting session:', error);
+      toast.error('Failed to start session');
+    } finally {
+      setStartingAppointmentId(null);
+    }
+  }, [openVideoSession]);
+
+  const advance = useCallback(async () => {
+    if (!appointmentId) return;
+
+    if (stepIndex + 1 < steps.length) {
+      setStepIndex(stepIndex + 1);
+      return;
+    }
+
+    const finishedAppointmentId = appointmentId;
+    reset();
+    await openVideoSession(finishedAppointmentId);
+  }, [appointmentId, stepIndex, steps.length, reset, openVideoSession]);
+
+  /**
+   * Records the current step and moves on. Questionnaires save their own assessment,
+   * which is what marks them satisfied, so they are not recorded twice.
+   */
+  const completeCurrentStep = useCallback(async (details: Record<string, unknown> = {}) => {
+    const current = steps[stepIndex];
+    if (!appointmentId || !current) return;
+
+    if (!ASSESSMENT_CHECK_IN_STEPS.includes(current.step)) {
+      if (!clientId) return;
+
+      setSavingStep(true);
+      try {
+        const result = await recordCheckInStepCompletion(appointmentId, clientId, current.step, details);
+        if (!result.success) {
+          toast.error('Failed to save this check-in step. Please try again.');
+          return;
+        }
+      } finally {
+        setSavingStep(false);
+      }
+    }
+
+    await advance();
+  }, [appointmentId, clientId, steps, stepIndex, advance]);
+
+  const skipCurrentStep = useCallback(async () => {
+    const current = steps[stepIndex];
+    if (!current || current.required) return;
+    await advance();
+  }, [steps, stepIndex, advance]);
+
+  return {
+    appointmentId,
+    currentStep: appointmentId ? steps[stepIndex] || null : null,
+    stepNumber: stepIndex + 1,
+    totalSteps: steps.length,
+    startingAppointmentId,
+    savingStep,
+    startCheckIn,
+    completeCurrentStep,
+    skipCurrentStep,
+    cancelCheckIn: reset
+  };
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { sendMessageToThread } from '@/hooks/useMessageThreads';
+import { Message } from '@/types/messaging';
+
+/**
+ * Loads one conversation, marks incoming messages as read while it is open and
+ * receives new messages and read receipts over Supabase Realtime
+ */
+export const useThreadMessages = (
+  threadId: string | null,
+  clientId?: string | null,
+  userId?: string | null
+) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const markRead = useCallback(async () => {
+    if (!threadId) return;
+    const { error } = await supabase.rpc('mark_message_thread_read', { p_thread_id: threadId });
+    if (error) {
+      console.error('Error marking thread as read:', error);
+    }
+  }, [threadId]);
+
+  const fetchMessages = useCallback(async () => {
+    if (!threadId) {
+      setMessages([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id, thread_id, sender_id, body, read_at, created_at, message_attachments(id, message_id, file_path, file_name, content_type, size_bytes, created_at)')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching messages:', error);
+        return;
+      }
+
+      const rows = (data || []) as Message[];
+      setMessages(rows);
+
+      if (rows.some(message => message.sender_id !== userId && !message.read_at)) {
+        markRead();
+      }
+    } catch (error) {
+      console.error('Exception fetching messages:', error);
+    }
+  }, [threadId, userId, markRead]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMessages().finally(() => setLoading(false));
+  }, [fetchMessages]);
+
+  useEffect(() => {
+    if (!threadId) return;
+
+    const channel = supabase
+      .channel(`message-thread-${threadId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages', filter: `thread_id=eq.${threadId}` },
+        () => {
+          fetchMessages();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [threadId, fetchMessages]);
+
+  const sendMessage = useCallback(async (body: string, files: File[] = []) => {
+    if (!threadId || !clientId || !userId) {
+      return { success: false, error: 'Conversation is not available' };
+    }
+
+    setSending(true);
+    try {
+      const result = await sendMessageToThread(clientId, threadId, userId, body, files);
+      if (result.success) {
+        await fetchMessages();
+      }
+      return result;
+    } finally {
+      setSending(false);
+    }
+  }, [threadId, clientId, userId, fetchMessages]);
+
+  return { messages, loading, sending, sendMessage, refresh: fetchMessages };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Number of unread messages addressed to the signed-in user, updated in real time
+ */
+export const useUnreadMessageCount = (userId?: string | null) => {
+  const [count, setCount] = useState(0);
+
+  const fetchCount = useCallback(async () => {
+    if (!userId) {
+      setCount(0);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_unread_message_count');
+    if (error) {
+      console.error('Error fetching unread message count:', error);
+      return;
+    }
+    setCount(data || 0);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchCount();
+  }, [fetchCount]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`unread-messages-${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, () => {
+        fetchCount();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchCount]);
+
+  return { count, refresh: fetchCount };
+};
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface WaitlistEntry {
+  id: string;
+  clinician_id: string;
+  earliest_date: string; // yyyy-MM-dd
+  latest_date: string;
+  // Wall-clock times (HH:mm:ss) in time_zone
+  preferred_start_time: string;
+  preferred_end_time: string;
+  time_zone: string;
+  status: 'active' | 'offered' | 'fulfilled' | 'cancelled' | 'expired';
+  created_at: string;
+}
+
+export interface WaitlistOffer {
+  id: string;
+  entry_id: string;
+  clinician_id: string;
+  start_at: string;
+  end_at: string;
+  status: 'pending' | 'claimed' | 'declined' | 'expired' | 'unavailable';
+  expires_at: string;
+  created_at: string;
+}
+
+export interface WaitlistRequest {
+  earliestDate: string;
+  latestDate: string;
+  preferredStartTime: string;
+  preferredEndTime: string;
+}
+
+/**
+ * The signed-in client's open waitlist entry and any slots currently offered to them.
+ * Offers arrive over Supabase Realtime when another client's appointment is freed.
+ */
+export const useWaitlist = (clientId?: string | null) => {
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [offers, setOffers] = useState<WaitlistOffer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchWaitlist = useCallback(async () => {
+    if (!clientId) {
+      setEntry(null);
+      setOffers([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [{ data: entryRow, error: entryError }, { data: offerRows, error: offersError }] = await Promise.all([
+        supabase
+          .from('appointment_waitlist_entries')
+          .select('id, clinician_id, earliest_date, latest_date, preferred_start_time, preferred_end_time, time_zone, status, created_at')
+          .eq('client_id', clientId)
+          .in('status', ['active', 'offered'])
+          .maybeSingle(),
+        supabase
+          .from('appointment_waitlist_offers')
+          .select('id, entry_id, clinician_id, start_at, end_at, status, expires_at, created_at')
+          .eq('client_id', clientId)
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+          .order('start_at', { ascending: true })
+      ]);
+
+      if (entryError) {
+        console.error('Error fetching waitlist entry:', entryError);
+      } else {
+        setEntry(entryRow as WaitlistEntry | null);
+      }
+
+      if (offersError) {
+        console.error('Error fetching waitlist offers:', offersError);
+      } else {
+        setOffers((offerRows || []) as WaitlistOffer[]);
+      }
+    } catch (error) {
+      console.error('Exception fetching waitlist:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchWaitlist();
+  }, [fetchWaitlist]);
+
+  useEffect(() => {
+    if (!clientId) return;
+
+    const channel = supabase
+      .channel(`waitlist-offers-${clientId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'appointment_waitlist_offers', filter: `client_id=eq.${clientId}` },
+        () => {
+          fetchWaitlist();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [clientId, fetchWaitlist]);
+
+  const joinWaitlist = useCallback(async (request: WaitlistRequest) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('join_appointment_waitlist', {
+        p_earliest_date: request.earliestDate,
+        p_latest_date: request.latestDate,
+        p_preferred_start_time: request.preferredStartTime,
+        p_preferred_end_time: request.preferredEndTime
+      });
+
+      if (error) {
+        console.error('Error joining waitlist:', error);
+        return { success: false, error: error.message };
+      }
+
+      await fetchWaitlist();
+      return { success: true };
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchWaitlist]);
+
+  const leaveWaitlist = useCallback(async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('leave_appointment_waitlist');
+
+      if (error) {
+        console.error('Error leaving waitlist:', error);
+        return { success: false, error: error.message };
+      }
+
+      await fetchWaitlist();
+      return { success: true };
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchWaitlist]);
+
+  /**
+   * Books the offered slot. Resolves with appointmentId null when the slot was taken in the
+   * meantime; the client stays on the waitlist in that case.
+   */
+  const claimOffer = useCallback(async (offerId: string) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('claim_waitlist_offer', { p_offer_id: offerId });
+
+      if (error) {
+        console.error('Error claiming waitlist offer:', error);
+        return { success: false, error: error.hint === 'offer_expired' ? 'This offer has expired' : error.message };
+      }
+
+      await fetchWaitlist();
+      return { success: true, appointmentId: (data as string | null) || null };
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchWaitlist]);
+
+  const declineOffer = useCallback(async (offerId: string) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('decline_waitlist_offer', { p_offer_id: offerId });
+
+      if (error) {
+        console.error('Error declining waitlist offer:', error);
+        return { success: false, error: error.message };
+      }
+
+      await fetchWaitlist();
+      return { success: true };
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchWaitlist]);
+
+  return { entry, offers, loading, saving, joinWaitlist, leaveWaitlist, claimOffer, declineOffer, refresh: fetchWaitlist };
+};
@@ -1,5 +1,21 @@
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { CheckInStep, CheckInStepId, isCheckInStepId, normalizeCheckInSteps } from '@/utils/sessionCheckIn';
+import { ClientSafetyEvent } from '@/types/safetyEvents';
+import { DocumentSignature, SignatureInput, SignerRole } from '@/types/documentSignatures';
+import { DocumentFormDraft, FormDraftData, SaveFormDraftResult } from '@/types/formDrafts';
+import { ClientGuardian, GuardianAssignment, GuardianInvitation } from '@/types/guardians';
+import { EligibilityResult, INSURANCE_LEVELS, InsuranceLevel } from '@/types/eligibility';
+import { InsuranceCardImage, InsuranceCardSide } from '@/types/insuranceCards';
+import {
+  AuthorizationRenewalRequest,
+  InsuranceAuthorization,
+  InsuranceAuthorizationInput,
+  RenewalRequestStatus
+} from '@/types/authorizations';
+import { InstrumentId, InstrumentResponses, TriggeredCriticalItem } from '@/utils/instruments';
+import { PHQ9ItemScores, PHQ9NarrativeSource, generatePHQ9TemplateNarrative, minimizePHQ9Assessment } from '@/utils/phq9Narrative';
 
 // Get Supabase configuration from multiple sources
 const getSupabaseConfig = () => {
@@ -48,6 +64,8 @@ export type DocumentAssignment = {
   assigned_by: string;
   created_at: string;
   updated_at: string;
+  // Set for minors: the client and a parent or guardian must both sign before completion
+  requires_guardian_signature?: boolean;
 };
 
 // Constants for storage management
@@ -73,6 +91,354 @@ export const updateDocumentStatus = async (id: string, status: string): Promise<
   }
 };
 
+// Autosaved draft for a document assignment, or null when the form has not been started
+export const fetchDocumentFormDraft = async (assignmentId: string): Promise<{ success: boolean; data?: DocumentFormDraft | null; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('document_form_drafts')
+      .select('assignment_id, client_id, form_data, version, saved_by_session, updated_at')
+      .eq('assignment_id', assignmentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching document form draft:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as DocumentFormDraft | null };
+  } catch (error) {
+    console.error('Exception in fetchDocumentFormDraft:', error);
+    return { success: false, error };
+  }
+};
+
+// Saves a draft only if the server still holds expectedVersion (null for the first save);
+// otherwise the result is a conflict carrying the stored draft
+export const saveDocumentFormDraft = async (
+  assignmentId: string,
+  formData: FormDraftData,
+  expectedVersion: number | null,
+  sessionId: string
+): Promise<{ success: boolean; data?: SaveFormDraftResult; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('save_document_form_draft', {
+      p_assignment_id: assignmentId,
+      p_form_data: formData,
+      p_expected_version: expectedVersion,
+      p_session_id: sessionId
+    });
+
+    if (error) {
+      console.error('Error saving document form draft:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as SaveFormDraftResult };
+  } catch (error) {
+    console.error('Exception in saveDocumentFormDraft:', error);
+    return { success: false, error };
+  }
+};
+
+export const deleteDocumentFormDraft = async (assignmentId: string): Promise<{ success: boolean; error?: unknown }> => {
+  try {
+    const { error } = await supabase
+      .from('document_form_drafts')
+      .delete()
+      .eq('assignment_id', assignmentId);
+
+    if (error) {
+      console.error('Error deleting document form draft:', error);
+      return { success: false, error };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Exception in deleteDocumentFormDraft:', error);
+    return { success: false, error };
+  }
+};
+
+// Records an electronic signature. The server adds the signing time and the caller's IP address.
+export const recordDocumentSignature = async (params: {
+  clientId: string;
+  documentType: string;
+  documentTitle: string;
+  documentVersion?: string;
+  documentHash: string;
+  signature: SignatureInput;
+  signerRole?: SignerRole;
+  assignmentId?: string;
+}): Promise<{ success: boolean; data?: DocumentSignature; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('record_document_signature', {
+      p_client_id: params.clientId,
+      p_document_type: params.documentType,
+      p_document_title: params.documentTitle,
+      p_document_hash: params.documentHash,
+      p_signer_name: params.signature.signerName,
+      p_signature_method: params.signature.method,
+      p_signature_data: params.signature.data,
+      p_signer_role: params.signerRole || 'client',
+      p_document_version: params.documentVersion || null,
+      p_assignment_id: params.assignmentId || null,
+      p_user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null
+    });
+
+    if (error) {
+      console.error('Error recording document signature:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as DocumentSignature };
+  } catch (error) {
+    console.error('Exception in recordDocumentSignature:', error);
+    return { success: false, error };
+  }
+};
+
+// Attaches the generated PDF to a signature; allowed once per signature
+export const linkSignatureToDocument = async (signatureId: string, clinicalDocumentId: string): Promise<{ success: boolean; error?: unknown }> => {
+  try {
+    const { error } = await supabase
+      .from('document_signatures')
+      .update({ clinical_document_id: clinicalDocumentId })
+      .eq('id', signatureId);
+
+    if (error) {
+      console.error('Error linking signature to document:', error);
+      return { success: false, error };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Exception in linkSignatureToDocument:', error);
+    return { success: false, error };
+  }
+};
+
+// Signatures on a client's documents of one type, newest first
+export const fetchDocumentSignatures = async (
+  clientId: string,
+  documentType: string
+): Promise<{ success: boolean; data?: DocumentSignature[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('document_signatures')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('document_type', documentType)
+      .order('signed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching document signatures:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as DocumentSignature[] };
+  } catch (error) {
+    console.error('Exception in fetchDocumentSignatures:', error);
+    return { success: false, error };
+  }
+};
+
+// Signatures recorded against one assignment, oldest first
+export const fetchAssignmentSignatures = async (assignmentId: string): Promise<{ success: boolean; data?: DocumentSignature[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('document_signatures')
+      .select('*')
+      .eq('assignment_id', assignmentId)
+      .order('signed_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching assignment signatures:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as DocumentSignature[] };
+  } catch (error) {
+    console.error('Exception in fetchAssignmentSignatures:', error);
+    return { success: false, error };
+  }
+};
+
+// Parents or guardians linked to a minor client, excluding revoked links
+export const fetchClientGuardians = async (clientId: string): Promise<{ success: boolean; data?: ClientGuardian[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('client_guardians')
+      .select('id, client_id, guardian_user_id, guardian_email, guardian_name, relationship, status, invited_by, invited_at, accepted_at')
+      .eq('client_id', clientId)
+      .neq('status', 'revoked')
+      .order('invited_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching client guardians:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as ClientGuardian[] };
+  } catch (error) {
+    console.error('Exception in fetchClientGuardians:', error);
+    return { success: false, error };
+  }
+};
+
+// Asks for (as the minor) or approves and emails (as staff) a guardian's portal invitation
+export const inviteGuardian = async (params: {
+  clientId: string;
+  guardianEmail: string;
+  guardianName: string;
+  relationship?: string;
+}): Promise<{ success: boolean; data?: ClientGuardian; error?: string }> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('invite-guardian', {
+      body: params
+    });
+
+    if (error) {
+      // The function explains rejections (e.g. an existing account) in the response body
+      const body = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      console.error('Error inviting guardian:', body?.error || error);
+      return { success: false, error: body?.error || 'The invitation could not be sent' };
+    }
+
+    return { success: true, data: data?.guardian as ClientGuardian };
+  } catch (error) {
+    console.error('Exception in inviteGuardian:', error);
+    return { success: false, error: 'The invitation could not be sent' };
+  }
+};
+
+// Staff revoke a guardian's link; revoked links are never restored by a later invitation
+export const revokeClientGuardian = async (linkId: string): Promise<{ success: boolean; error?: unknown }> => {
+  try {
+    const { error } = await supabase
+      .from('client_guardians')
+      .update({ status: 'revoked' })
+      .eq('id', linkId);
+
+    if (error) {
+      console.error('Error revoking client guardian:', error);
+      return { success: false, error };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Exception in revokeClientGuardian:', error);
+    return { success: false, error };
+  }
+};
+
+// Invitations the signed-in guardian has not accepted yet
+export const fetchGuardianInvitations = async (): Promise<{ success: boolean; data?: GuardianInvitation[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_guardian_invitations');
+
+    if (error) {
+      console.error('Error fetching guardian invitations:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as GuardianInvitation[] };
+  } catch (error) {
+    console.error('Exception in fetchGuardianInvitations:', error);
+    return { success: false, error };
+  }
+};
+
+// The signed-in guardian accepts one invitation, which lets them sign for that minor
+export const acceptGuardianInvitation = async (linkId: string): Promise<{ success: boolean; data?: ClientGuardian; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('accept_guardian_invitation', { p_link_id: linkId });
+
+    if (error) {
+      console.error('Error accepting guardian invitation:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as ClientGuardian };
+  } catch (error) {
+    console.error('Exception in acceptGuardianInvitation:', error);
+    return { success: false, error };
+  }
+};
+
+// Assignments of every minor the signed-in guardian is linked to
+export const fetchGuardianAssignments = async (): Promise<{ success: boolean; data?: GuardianAssignment[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_guardian_assignments');
+
+    if (error) {
+      console.error('Error fetching guardian assignments:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as GuardianAssignment[] };
+  } catch (error) {
+    console.error('Exception in fetchGuardianAssignments:', error);
+    return { success: false, error };
+  }
+};
+
+// Latest eligibility result per insurance level, from the client's eligibility_* columns
+export const fetchEligibilityResults = async (clientId: string): Promise<{ success: boolean; data?: EligibilityResult[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('eligibility_last_checked_primary, eligibility_last_checked_secondary, eligibility_last_checked_tertiary, eligibility_response_details_primary_json, eligibility_response_details_secondary_json, eligibility_response_details_tertiary_json')
+      .eq('id', clientId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching eligibility results:', error);
+      return { success: false, error };
+    }
+
+    const results = INSURANCE_LEVELS.flatMap(level => {
+      const details = data?.[`eligibility_response_details_${level}_json`];
+      const checkedAt = data?.[`eligibility_last_checked_${level}`];
+      return details && checkedAt
+        ? [{ ...(details as unknown as Omit<EligibilityResult, 'insuranceLevel' | 'checkedAt'>), insuranceLevel: level, checkedAt }]
+        : [];
+    });
+
+    return { success: true, data: results };
+  } catch (error) {
+    console.error('Exception in fetchEligibilityResults:', error);
+    return { success: false, error };
+  }
+};
+
+// Checks coverage for one insurance level with Claim.MD (verify-eligibility edge function)
+export const verifyInsuranceEligibility = async (
+  clientId: string,
+  insuranceLevel: InsuranceLevel
+): Promise<{ success: boolean; data?: EligibilityResult; error?: string }> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('verify-eligibility', {
+      body: { clientId, insuranceLevel }
+    });
+
+    if (error) {
+      // The function explains what is missing (e.g. a payer ID) in the response body
+      const body = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      console.error('Error verifying eligibility:', body?.error || error);
+      return { success: false, error: body?.error || 'Your coverage could not be checked' };
+    }
+
+    return { success: true, data: data?.eligibility as EligibilityResult };
+  } catch (error) {
+    console.error('Exception in verifyInsuranceEligibility:', error);
+    return { success: false, error: 'Your coverage could not be checked' };
+  }
+};
+
 // Function to fetch document assignments for a client
 export const fetchDocumentAssignments = async (clientId: string): Promise<{ data: DocumentAssignment[] | null; error: any }> => {
   try {
@@ -170,6 +536,25 @@ export const getOrCreateVideoRoom = async (appointmentId: string): Promise<{ suc
   }
 };
 
+// Function to get the signed-in client's calendar subscription URL (served by the calendar-feed edge function)
+export const getClientCalendarFeedUrl = async (regenerate: boolean = false): Promise<{ success: boolean; url?: string; error?: unknown }> => {
+  try {
+    const { data: token, error } = await supabase.rpc('get_client_calendar_feed_token', {
+      p_regenerate: regenerate
+    });
+
+    if (error || !token) {
+      console.error('Error getting calendar feed token:', error);
+      return { success: false, error: error || 'No calendar feed token returned' };
+    }
+
+    return { success: true, url: `${supabaseUrl}/functions/v1/calendar-feed?token=${token}` };
+  } catch (error) {
+    console.error('Exception in getClientCalendarFeedUrl:', error);
+    return { success: false, error };
+  }
+};
+
 // Function to fetch clinical documents for a client
 export const fetchClinicalDocuments = async (clientId: string): Promise<any[]> => {
   try {
@@ -232,6 +617,274 @@ export const getDocumentDownloadURL = async (filePath: string): Promise<string |
   }
 };
 
+// Message attachments are stored alongside the client's documents
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export type MessageAttachmentUpload = {
+  file_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+};
+
+// Function to upload message attachments to <client_id>/messages/<thread_id>/ in the clinical documents bucket
+export const uploadMessageAttachments = async (
+  clientId: string,
+  threadId: string,
+  files: File[]
+): Promise<{ success: boolean; data?: MessageAttachmentUpload[]; error?: unknown }> => {
+  try {
+    const uploaded: MessageAttachmentUpload[] = [];
+
+    for (const file of files) {
+      if (file.size > MAX_MESSAGE_ATTACHMENT_BYTES) {
+        return { success: false, error: `${file.name} is larger than 10 MB` };
+      }
+
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const filePath = `${clientId}/messages/${threadId}/${uuidv4()}_${safeName}`;
+      const { error } = await supabase.storage
+        .from(CLINICAL_DOCUMENTS_BUCKET)
+        .upload(filePath, file, {
+          contentType: file.type || 'application/octet-stream',
+          upsert: false
+        });
+
+      if (error) {
+        console.error('Error uploading message attachment:', error);
+        return { success: false, error };
+      }
+
+      uploaded.push({
+        file_path: filePath,
+        file_name: file.name,
+        content_type: file.type || 'application/octet-stream',
+        size_bytes: file.size
+      });
+    }
+
+    return { success: true, data: uploaded };
+  } catch (error) {
+    console.error('Exception uploading message attachments:', error);
+    return { success: false, error };
+  }
+};
+
+// Insurance card photos are kept apart from clinical documents, under <client_id>/<insurance_level>/
+export const INSURANCE_CARDS_BUCKET = 'insurance_cards';
+
+// Current and replaced card photos for a client, newest first
+export const fetchInsuranceCardImages = async (clientId: string): Promise<{ success: boolean; data?: InsuranceCardImage[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('insurance_card_images')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('uploaded_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching insurance card images:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as InsuranceCardImage[] };
+  } catch (error) {
+    console.error('Exception in fetchInsuranceCardImages:', error);
+    return { success: false, error };
+  }
+};
+
+// Uploads a card photo and its thumbnail; the previous photo of that side becomes history
+export const uploadInsuranceCardImage = async (
+  clientId: string,
+  insuranceLevel: InsuranceLevel,
+  side: InsuranceCardSide,
+  photo: { image: Blob; thumbnail: Blob }
+): Promise<{ success: boolean; data?: InsuranceCardImage; error?: unknown }> => {
+  try {
+    const basePath = `${clientId}/${insuranceLevel}/${side}-${uuidv4()}`;
+    const filePath = `${basePath}.jpg`;
+    const thumbnailPath = `${basePath}_thumb.jpg`;
+
+    for (const [path, blob] of [[filePath, photo.image], [thumbnailPath, photo.thumbnail]] as const) {
+      const { error } = await supabase.storage
+        .from(INSURANCE_CARDS_BUCKET)
+        .upload(path, blob, { contentType: 'image/jpeg', upsert: false });
+
+      if (error) {
+        console.error('Error uploading insurance card image:', error);
+        return { success: false, error };
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('insurance_card_images')
+      .insert({
+        client_id: clientId,
+        insurance_level: insuranceLevel,
+        side,
+        file_path: filePath,
+        thumbnail_path: thumbnailPath,
+        content_type: 'image/jpeg',
+        size_bytes: photo.image.size
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving insurance card image:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as InsuranceCardImage };
+  } catch (error) {
+    console.error('Exception in uploadInsuranceCardImage:', error);
+    return { success: false, error };
+  }
+};
+
+// Short-lived links for displaying card photos, keyed by storage path
+export const getInsuranceCardImageUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(INSURANCE_CARDS_BUCKET)
+      .createSignedUrls(paths, 60 * 10);
+
+    if (error) {
+      console.error('Error creating insurance card image URLs:', error);
+      return {};
+    }
+
+    return Object.fromEntries(
+      (data || []).filter(item => item.path && item.signedUrl).map(item => [item.path as string, item.signedUrl])
+    );
+  } catch (error) {
+    console.error('Exception in getInsuranceCardImageUrls:', error);
+    return {};
+  }
+};
+
+// Referrals and authorizations on file for a client, latest ending first
+export const fetchInsuranceAuthorizations = async (clientId: string): Promise<{ success: boolean; data?: InsuranceAuthorization[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('insurance_authorizations')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('end_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching insurance authorizations:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as InsuranceAuthorization[] };
+  } catch (error) {
+    console.error('Exception in fetchInsuranceAuthorizations:', error);
+    return { success: false, error };
+  }
+};
+
+// Records a new authorization, or corrects an existing one when its id is given
+export const saveInsuranceAuthorization = async (
+  clientId: string,
+  authorization: InsuranceAuthorizationInput,
+  authorizationId?: string
+): Promise<{ success: boolean; data?: InsuranceAuthorization; error?: unknown }> => {
+  try {
+    const query = authorizationId
+      ? supabase.from('insurance_authorizations').update(authorization).eq('id', authorizationId)
+      : supabase.from('insurance_authorizations').insert({ ...authorization, client_id: clientId });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving insurance authorization:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as InsuranceAuthorization };
+  } catch (error) {
+    console.error('Exception in saveInsuranceAuthorization:', error);
+    return { success: false, error };
+  }
+};
+
+// Renewal requests for a client's authorizations, newest first
+export const fetchAuthorizationRenewalRequests = async (clientId: string): Promise<{ success: boolean; data?: AuthorizationRenewalRequest[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('authorization_renewal_requests')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching authorization renewal requests:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as AuthorizationRenewalRequest[] };
+  } catch (error) {
+    console.error('Exception in fetchAuthorizationRenewalRequests:', error);
+    return { success: false, error };
+  }
+};
+
+// Raised by the client; only one request per authorization can be open at a time
+export const requestAuthorizationRenewal = async (
+  clientId: string,
+  authorizationId: string,
+  reason: string | null
+): Promise<{ success: boolean; data?: AuthorizationRenewalRequest; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('authorization_renewal_requests')
+      .insert({ client_id: clientId, authorization_id: authorizationId, requested_by: clientId, reason })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error requesting authorization renewal:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as AuthorizationRenewalRequest };
+  } catch (error) {
+    console.error('Exception in requestAuthorizationRenewal:', error);
+    return { success: false, error };
+  }
+};
+
+// Staff record that a renewal was sent to the VA, or the VA's decision on it
+export const updateAuthorizationRenewalRequest = async (
+  requestId: string,
+  status: RenewalRequestStatus,
+  staffNotes: string | null
+): Promise<{ success: boolean; data?: AuthorizationRenewalRequest; error?: unknown }> => {
+  try {
+    const resolved = status === 'approved' || status === 'denied';
+    const { data, error } = await supabase
+      .from('authorization_renewal_requests')
+      .update({ status, staff_notes: staffNotes, resolved_at: resolved ? new Date().toISOString() : null })
+      .eq('id', requestId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating authorization renewal request:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as AuthorizationRenewalRequest };
+  } catch (error) {
+    console.error('Exception in updateAuthorizationRenewalRequest:', error);
+    return { success: false, error };
+  }
+};
+
 // Helper functions for date formatting
 export const formatDateForDB = (date: Date | string): string => {
   if (!date) return '';
@@ -311,42 +964,63 @@ export const savePHQ9AssessmentSync = async (assessmentData: any) => {
   }
 };
 
-// Function to generate PHQ-9 narrative asynchronously (background processing)
-export const generatePHQ9NarrativeAsync = async (assessmentId: string, assessmentData: any) => {
+// Requests the AI narrative from the edge function; null when the function cannot be reached
+// or returns nothing usable
+const requestPHQ9Narrative = async (assessmentData: PHQ9ItemScores): Promise<{ narrative: string; source: PHQ9NarrativeSource } | null> => {
   try {
-    console.log('Starting background PHQ-9 narrative generation for assessment:', assessmentId);
-    
     const { data: narrativeData, error: narrativeError } = await supabase.functions.invoke(
       'generate-phq9-narrative',
       {
-        body: { assessmentData }
+        body: { assessmentData: minimizePHQ9Assessment(assessmentData) }
       }
     );
 
     if (narrativeError) {
       console.error('Error generating PHQ-9 narrative (async):', narrativeError);
-      return { success: false, error: narrativeError };
-    } 
+      return null;
+    }
+
+    if (!narrativeData?.success || !narrativeData?.narrative) {
+      console.error('No PHQ-9 narrative returned (async):', narrativeData);
+      return null;
+    }
+
+    return {
+      narrative: narrativeData.narrative,
+      source: narrativeData.source === 'template' ? 'template' : 'ai'
+    };
+  } catch (error) {
+    console.error('Exception calling generate-phq9-narrative (async):', error);
+    return null;
+  }
+};
+
+// Function to generate PHQ-9 narrative asynchronously (background processing). When the edge
+// function is unavailable the template narrative is written instead, so the clinician always
+// gets a summary.
+export const generatePHQ9NarrativeAsync = async (assessmentId: string, assessmentData: PHQ9ItemScores) => {
+  try {
+    console.log('Starting background PHQ-9 narrative generation for assessment:', assessmentId);
     
-    if (narrativeData?.success && narrativeData?.narrative) {
-      console.log('Generated PHQ-9 narrative (async):', narrativeData.narrative);
-      
-      // Update the assessment record with the generated narrative
-      const { error: updateError } = await supabase
-        .from('phq9_assessments')
-        .update({ phq9_narrative: narrativeData.narrative })
-        .eq('id', assessmentId);
-
-      if (updateError) {
-        console.error('Error updating PHQ-9 assessment with narrative (async):', updateError);
-        return { success: false, error: updateError };
-      } else {
-        console.log('PHQ-9 assessment updated with narrative successfully (async)');
-        return { success: true, data: { narrative: narrativeData.narrative } };
-      }
+    const generated = await requestPHQ9Narrative(assessmentData) || {
+      narrative: generatePHQ9TemplateNarrative(assessmentData),
+      source: 'template' as const
+    };
+    console.log(`Generated PHQ-9 narrative (async, ${generated.source}):`, generated.narrative);
+
+    // Update the assessment record with the generated narrative
+    const { error: updateError } = await supabase
+      .from('phq9_assessments')
+      .update({ phq9_narrative: generated.narrative, phq9_narrative_source: generated.source })
+      .eq('id', assessmentId);
+
+    if (updateError) {
+      console.error('Error updating PHQ-9 assessment with narrative (async):', updateError);
+      return { success: false, error: updateError };
     }
 
-    return { success: false, error: 'No narrative generated' };
+    console.log('PHQ-9 assessment updated with narrative successfully (async)');
+    return { success: true, data: generated };
   } catch (error) {
     console.error('Exception in PHQ-9 narrative generation (async):', error);
     return { success: false, error };
@@ -407,6 +1081,305 @@ export const checkPHQ9AssessmentExists = async (appointmentId: string): Promise<
   }
 };
 
+export interface GAD7AssessmentData {
+  client_id: string;
+  clinician_id?: string | null;
+  appointment_id?: string | null;
+  assessment_date: string;
+  question_1: number;
+  question_2: number;
+  question_3: number;
+  question_4: number;
+  question_5: number;
+  question_6: number;
+  question_7: number;
+  total_score: number;
+  severity: string;
+  additional_notes?: string | null;
+}
+
+export interface PCL5AssessmentData {
+  client_id: string;
+  clinician_id?: string | null;
+  appointment_id?: string | null;
+  assessment_date: string;
+  event_description?: string | null;
+  responses: number[];
+  total_score: number;
+  intrusion_score: number;
+  avoidance_score: number;
+  negative_alterations_score: number;
+  arousal_score: number;
+  additional_notes?: string | null;
+}
+
+// AUDIT-C, C-SSRS screener, PHQ-A and other instruments without a table of their own
+export interface InstrumentAssessmentData {
+  client_id: string;
+  clinician_id?: string | null;
+  appointment_id?: string | null;
+  instrument: InstrumentId;
+  assessment_date: string;
+  responses: InstrumentResponses;
+  total_score: number;
+  severity: string;
+  subscale_scores: Record<string, number>;
+  critical_items: TriggeredCriticalItem[];
+  additional_notes?: string | null;
+}
+
+export type ScreeningAssessmentTable = 'gad7_assessments' | 'pcl5_assessments' | 'instrument_assessments';
+
+// A scored questionnaire ready to insert, tagged with the table it belongs in
+export type ScreeningAssessmentRecord =
+  | { table: 'gad7_assessments'; data: GAD7AssessmentData }
+  | { table: 'pcl5_assessments'; data: PCL5AssessmentData }
+  | { table: 'instrument_assessments'; data: InstrumentAssessmentData };
+
+export const saveInstrumentAssessment = async ({ table, data: assessmentData }: ScreeningAssessmentRecord) => {
+  try {
+    const { data, error } = await supabase
+      .from(table)
+      .insert(assessmentData)
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Error saving ${table} row:`, error);
+      return { success: false, error };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error(`Exception while saving ${table} row:`, error);
+    return { success: false, error };
+  }
+};
+
+const checkScreeningAssessmentExists = async (table: ScreeningAssessmentTable, appointmentId: string): Promise<{ exists: boolean; error: unknown }> => {
+  try {
+    if (!appointmentId) {
+      return { exists: false, error: 'No appointment ID provided' };
+    }
+
+    const { data, error } = await supabase
+      .from(table)
+      .select('id')
+      .eq('appointment_id', appointmentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error checking ${table}:`, error);
+      return { exists: false, error };
+    }
+
+    return { exists: !!data, error: null };
+  } catch (error) {
+    console.error(`Exception while checking ${table}:`, error);
+    return { exists: false, error };
+  }
+};
+
+export const checkGAD7AssessmentExists = (appointmentId: string) =>
+  checkScreeningAssessmentExists('gad7_assessments', appointmentId);
+
+export const checkPCL5AssessmentExists = (appointmentId: string) =>
+  checkScreeningAssessmentExists('pcl5_assessments', appointmentId);
+
+// Instruments from instrument_assessments already completed for an appointment
+export const getCompletedInstrumentsForAppointment = async (appointmentId: string): Promise<{ success: boolean; data?: InstrumentId[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('instrument_assessments')
+      .select('instrument')
+      .eq('appointment_id', appointmentId);
+
+    if (error) {
+      console.error('Error checking instrument assessments:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []).map(row => row.instrument as InstrumentId) };
+  } catch (error) {
+    console.error('Exception while checking instrument assessments:', error);
+    return { success: false, error };
+  }
+};
+
+// Links the PDF saved by generateAndSaveStructuredPDF back to its assessment row; clients
+// cannot update the results themselves, so this goes through attach_assessment_pdf
+export const attachAssessmentPdf = async (table: ScreeningAssessmentTable, assessmentId: string, pdfPath: string) => {
+  const { error } = await supabase.rpc('attach_assessment_pdf', {
+    p_table: table,
+    p_assessment_id: assessmentId,
+    p_pdf_path: pdfPath
+  });
+
+  if (error) {
+    console.error(`Error attaching PDF to ${table} row:`, error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+};
+
+// Safety events for a client, open ones first
+export const fetchClientSafetyEvents = async (clientId: string): Promise<{ success: boolean; data?: ClientSafetyEvent[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase
+      .from('client_safety_events')
+      .select('id, client_id, clinician_id, source, phq9_assessment_id, instrument_assessment_id, item_score, summary, previous_client_status, status, resolved_by, resolved_at, resolution_notes, created_at')
+      .eq('client_id', clientId)
+      .order('status', { ascending: true })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching client safety events:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: (data || []) as ClientSafetyEvent[] };
+  } catch (error) {
+    console.error('Exception in fetchClientSafetyEvents:', error);
+    return { success: false, error };
+  }
+};
+
+// Closes a safety event with the clinician's follow-up notes. When it was the client's last open
+// event their status is restored (or set to clientStatus if given).
+export const resolveClientSafetyEvent = async (
+  eventId: string,
+  resolutionNotes: string,
+  clientStatus?: string
+): Promise<{ success: boolean; data?: ClientSafetyEvent; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('resolve_client_safety_event', {
+      p_event_id: eventId,
+      p_resolution_notes: resolutionNotes,
+      p_client_status: clientStatus || null
+    });
+
+    if (error) {
+      console.error('Error resolving client safety event:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: data as ClientSafetyEvent };
+  } catch (error) {
+    console.error('Exception in resolveClientSafetyEvent:', error);
+    return { success: false, error };
+  }
+};
+
+// Whether the signed-in client has a safety event a clinician has not resolved yet
+export const fetchHasOpenSafetyEvent = async (): Promise<{ success: boolean; data?: boolean; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('has_open_safety_event');
+
+    if (error) {
+      console.error('Error checking for open safety events:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: !!data };
+  } catch (error) {
+    console.error('Exception in fetchHasOpenSafetyEvent:', error);
+    return { success: false, error };
+  }
+};
+
+// Pre-session check-in steps configured for this appointment's clinician and type
+export const getSessionCheckInSteps = async (appointmentId: string): Promise<{ success: boolean; data?: CheckInStep[]; error?: unknown }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_session_check_in_steps', {
+      p_appointment_id: appointmentId
+    });
+
+    if (error) {
+      console.error('Error fetching session check-in steps:', error);
+      return { success: false, error };
+    }
+
+    return { success: true, data: normalizeCheckInSteps(data) };
+  } catch (error) {
+    console.error('Exception in getSessionCheckInSteps:', error);
+    return { success: false, error };
+  }
+};
+
+// Check-in steps already satisfied for an appointment. Saved PHQ-9, GAD-7 and PCL-5
+// results count even when they were completed outside the check-in flow.
+export const getCompletedCheckInSteps = async (appointmentId: string): Promise<{ success: boolean; data?: Set<CheckInStepId>; error?: unknown }> => {
+  try {
+    const [{ data, error }, phq9, gad7, pcl5, instruments] = await Promise.all([
+      supabase
+        .from('session_check_in_completions')
+        .select('step')
+        .eq('appointment_id', appointmentId),
+      checkPHQ9AssessmentExists(appointmentId),
+      checkGAD7AssessmentExists(appointmentId),
+      checkPCL5AssessmentExists(appointmentId),
+      getCompletedInstrumentsForAppointment(appointmentId)
+    ]);
+
+    if (error) {
+      console.error('Error fetching check-in completions:', error);
+      return { success: false, error };
+    }
+
+    const completed = new Set<CheckInStepId>((data || []).map(row => row.step as CheckInStepId));
+    if (phq9.exists) {
+      completed.add('phq9');
+    }
+    if (gad7.exists) {
+      completed.add('gad7');
+    }
+    if (pcl5.exists) {
+      completed.add('pcl5');
+    }
+    (instruments.data || []).forEach(instrument => {
+      if (isCheckInStepId(instrument)) {
+        completed.add(instrument);
+      }
+      // Minors take the PHQ-A in place of the PHQ-9
+      if (instrument === 'phq_a') {
+        completed.add('phq9');
+      }
+    });
+
+    return { success: true, data: completed };
+  } catch (error) {
+    console.error('Exception in getCompletedCheckInSteps:', error);
+    return { success: false, error };
+  }
+};
+
+export const recordCheckInStepCompletion = async (
+  appointmentId: string,
+  clientId: string,
+  step: CheckInStepId,
+  details: Record<string, unknown> = {}
+): Promise<{ success: boolean; error?: unknown }> => {
+  try {
+    const { error } = await supabase
+      .from('session_check_in_completions')
+      .upsert(
+        { appointment_id: appointmentId, client_id: clientId, step, details },
+        { onConflict: 'appointment_id,step', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error recording check-in step:', error);
+      return { success: false, error };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Exception in recordCheckInStepCompletion:', error);
+    return { success: false, error };
+  }
+};
+
 // CPT Code type definition
 export type CPTCode = {
   id?: string;
@@ -187,6 +187,147 @@ export type Database = {
         }
         Relationships: []
       }
+      appointment_waitlist_entries: {
+        Row: {
+          client_id: string
+          clinician_id: string
+          created_at: string
+          earliest_date: string
+          id: string
+          latest_date: string
+          preferred_end_time: string
+          preferred_start_time: string
+          status: string
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          client_id: string
+          clinician_id: string
+          created_at?: string
+          earliest_date: string
+          id?: string
+          latest_date: string
+          preferred_end_time: string
+          preferred_start_time: string
+          status?: string
+          time_zone: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string
+          clinician_id?: string
+          created_at?: string
+          earliest_date?: string
+          id?: string
+          latest_date?: string
+          preferred_end_time?: string
+          preferred_start_time?: string
+          status?: string
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_waitlist_entries_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_waitlist_entries_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_waitlist_offers: {
+        Row: {
+          appointment_id: string | null
+          client_id: string
+          clinician_id: string
+          created_at: string
+          end_at: string
+          entry_id: string
+          expires_at: string
+          id: string
+          responded_at: string | null
+          source_appointment_id: string | null
+          start_at: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          client_id: string
+          clinician_id: string
+          created_at?: string
+          end_at: string
+          entry_id: string
+          expires_at: string
+          id?: string
+          responded_at?: string | null
+          source_appointment_id?: string | null
+          start_at: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string | null
+          client_id?: string
+          clinician_id?: string
+          created_at?: string
+          end_at?: string
+          entry_id?: string
+          expires_at?: string
+          id?: string
+          responded_at?: string | null
+          source_appointment_id?: string | null
+          start_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_waitlist_offers_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_waitlist_offers_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_waitlist_offers_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_waitlist_offers_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_waitlist_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_waitlist_offers_source_appointment_id_fkey"
+            columns: ["source_appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           appointment_recurring: string | null
@@ -302,6 +443,60 @@ export type Database = {
           },
         ]
       }
+      authorization_renewal_requests: {
+        Row: {
+          authorization_id: string
+          client_id: string
+          created_at: string
+          id: string
+          reason: string | null
+          requested_by: string
+          resolved_at: string | null
+          staff_notes: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          authorization_id: string
+          client_id: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          requested_by?: string
+          resolved_at?: string | null
+          staff_notes?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          authorization_id?: string
+          client_id?: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          requested_by?: string
+          resolved_at?: string | null
+          staff_notes?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "authorization_renewal_requests_authorization_id_fkey"
+            columns: ["authorization_id"]
+            isOneToOne: false
+            referencedRelation: "insurance_authorizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "authorization_renewal_requests_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       automated_batch_schedules: {
         Row: {
           created_at: string | null
@@ -739,6 +934,94 @@ export type Database = {
           },
         ]
       }
+      client_calendar_feeds: {
+        Row: {
+          client_id: string
+          created_at: string
+          id: string
+          last_accessed_at: string | null
+          token: string
+          updated_at: string
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_calendar_feeds_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: true
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_guardians: {
+        Row: {
+          accepted_at: string | null
+          client_id: string
+          created_at: string
+          guardian_email: string
+          guardian_name: string
+          guardian_user_id: string | null
+          id: string
+          invited_at: string
+          invited_by: string | null
+          relationship: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          client_id: string
+          created_at?: string
+          guardian_email: string
+          guardian_name: string
+          guardian_user_id?: string | null
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          relationship?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          client_id?: string
+          created_at?: string
+          guardian_email?: string
+          guardian_name?: string
+          guardian_user_id?: string | null
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          relationship?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_guardians_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       client_history: {
         Row: {
           additional_info: string | null
@@ -1092,65 +1375,302 @@ export type Database = {
           },
         ]
       }
-      clients: {
+      client_policy_violations: {
         Row: {
-          client_address: string | null
-          client_affect: string | null
-          client_age: number | null
-          client_appearance: string | null
-          client_assigned_therapist: string | null
-          client_attitude: string | null
-          client_behavior: string | null
-          client_branchOS: string | null
-          client_champva: string | null
-          client_city: string | null
-          client_currentsymptoms: string | null
-          client_date_of_birth: string | null
-          client_diagnosis: string[] | null
-          client_disabilityrating: string | null
-          client_email: string | null
-          client_first_name: string | null
-          client_functioning: string | null
-          client_gender: string | null
-          client_gender_identity: string | null
-          client_group_number_primary: string | null
-          client_group_number_secondary: string | null
-          client_group_number_tertiary: string | null
-          client_homicidalideation: string | null
-          client_insightjudgement: string | null
-          client_insurance_company_primary: string | null
-          client_insurance_company_secondary: string | null
-          client_insurance_company_tertiary: string | null
-          client_insurance_type_primary: string | null
-          client_insurance_type_secondary: string | null
-          client_insurance_type_tertiary: string | null
-          client_intervention1: string | null
-          client_intervention2: string | null
-          client_intervention3: string | null
-          client_intervention4: string | null
-          client_intervention5: string | null
-          client_intervention6: string | null
-          client_is_profile_complete: string | null
-          client_last_name: string | null
-          client_medications: string | null
-          client_memoryconcentration: string | null
-          client_middle_name: string | null
-          client_minor: string | null
-          client_mood: string | null
-          client_nexttreatmentplanupdate: string | null
-          client_orientation: string | null
-          client_perception: string | null
-          client_personsinattendance: string | null
-          client_phone: string | null
-          client_planlength: string | null
-          client_policy_number_primary: string | null
-          client_policy_number_secondary: string | null
-          client_policy_number_tertiary: string | null
-          client_preferred_name: string | null
-          client_primary_payer_id: string | null
-          client_primaryobjective: string | null
-          client_privatenote: string | null
-          client_problem: string | null
+          appointment_id: string
+          client_id: string
+          created_at: string
+          fee_amount: number
+          hours_before_start: number | null
+          id: string
+          notes: string | null
+          status: string
+          updated_at: string
+          violation_type: string
+        }
+        Insert: {
+          appointment_id: string
+          client_id: string
+          created_at?: string
+          fee_amount?: number
+          hours_before_start?: number | null
+          id?: string
+          notes?: string | null
+          status?: string
+          updated_at?: string
+          violation_type: string
+        }
+        Update: {
+          appointment_id?: string
+          client_id?: string
+          created_at?: string
+          fee_amount?: number
+          hours_before_start?: number | null
+          id?: string
+          notes?: string | null
+          status?: string
+          updated_at?: string
+          violation_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_policy_violations_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_policy_violations_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_reminder_preferences: {
+        Row: {
+          appointment_lead_times: number[]
+          client_id: string
+          created_at: string
+          document_reminder_interval_days: number
+          document_reminders_enabled: boolean
+          email_enabled: boolean
+          portal_enabled: boolean
+          updated_at: string
+        }
+        Insert: {
+          appointment_lead_times?: number[]
+          client_id: string
+          created_at?: string
+          document_reminder_interval_days?: number
+          document_reminders_enabled?: boolean
+          email_enabled?: boolean
+          portal_enabled?: boolean
+          updated_at?: string
+        }
+        Update: {
+          appointment_lead_times?: number[]
+          client_id?: string
+          created_at?: string
+          document_reminder_interval_days?: number
+          document_reminders_enabled?: boolean
+          email_enabled?: boolean
+          portal_enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_reminder_preferences_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: true
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_reminders: {
+        Row: {
+          attempts: number
+          channel: string
+          client_id: string
+          created_at: string
+          dedupe_key: string
+          entity_id: string
+          id: string
+          last_error: string | null
+          lead_time_minutes: number | null
+          reminder_type: string
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          client_id: string
+          created_at?: string
+          dedupe_key: string
+          entity_id: string
+          id?: string
+          last_error?: string | null
+          lead_time_minutes?: number | null
+          reminder_type: string
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          client_id?: string
+          created_at?: string
+          dedupe_key?: string
+          entity_id?: string
+          id?: string
+          last_error?: string | null
+          lead_time_minutes?: number | null
+          reminder_type?: string
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_reminders_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_safety_events: {
+        Row: {
+          client_id: string
+          clinician_id: string | null
+          created_at: string
+          id: string
+          instrument_assessment_id: string | null
+          item_score: number
+          phq9_assessment_id: string | null
+          previous_client_status: string | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          source: string
+          status: string
+          summary: string | null
+          updated_at: string
+        }
+        Insert: {
+          client_id: string
+          clinician_id?: string | null
+          created_at?: string
+          id?: string
+          instrument_assessment_id?: string | null
+          item_score: number
+          phq9_assessment_id?: string | null
+          previous_client_status?: string | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          source?: string
+          status?: string
+          summary?: string | null
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string
+          clinician_id?: string | null
+          created_at?: string
+          id?: string
+          instrument_assessment_id?: string | null
+          item_score?: number
+          phq9_assessment_id?: string | null
+          previous_client_status?: string | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          source?: string
+          status?: string
+          summary?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_safety_events_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_safety_events_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_safety_events_instrument_assessment_id_fkey"
+            columns: ["instrument_assessment_id"]
+            isOneToOne: false
+            referencedRelation: "instrument_assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_safety_events_phq9_assessment_id_fkey"
+            columns: ["phq9_assessment_id"]
+            isOneToOne: false
+            referencedRelation: "phq9_assessments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          client_address: string | null
+          client_affect: string | null
+          client_age: number | null
+          client_appearance: string | null
+          client_assigned_therapist: string | null
+          client_attitude: string | null
+          client_behavior: string | null
+          client_branchOS: string | null
+          client_champva: string | null
+          client_city: string | null
+          client_currentsymptoms: string | null
+          client_date_of_birth: string | null
+          client_diagnosis: string[] | null
+          client_disabilityrating: string | null
+          client_email: string | null
+          client_first_name: string | null
+          client_functioning: string | null
+          client_gender: string | null
+          client_gender_identity: string | null
+          client_group_number_primary: string | null
+          client_group_number_secondary: string | null
+          client_group_number_tertiary: string | null
+          client_homicidalideation: string | null
+          client_insightjudgement: string | null
+          client_insurance_company_primary: string | null
+          client_insurance_company_secondary: string | null
+          client_insurance_company_tertiary: string | null
+          client_insurance_type_primary: string | null
+          client_insurance_type_secondary: string | null
+          client_insurance_type_tertiary: string | null
+          client_intervention1: string | null
+          client_intervention2: string | null
+          client_intervention3: string | null
+          client_intervention4: string | null
+          client_intervention5: string | null
+          client_intervention6: string | null
+          client_is_profile_complete: string | null
+          client_last_name: string | null
+          client_medications: string | null
+          client_memoryconcentration: string | null
+          client_middle_name: string | null
+          client_minor: string | null
+          client_mood: string | null
+          client_nexttreatmentplanupdate: string | null
+          client_orientation: string | null
+          client_perception: string | null
+          client_personsinattendance: string | null
+          client_phone: string | null
+          client_planlength: string | null
+          client_policy_number_primary: string | null
+          client_policy_number_secondary: string | null
+          client_policy_number_tertiary: string | null
+          client_preferred_name: string | null
+          client_primary_payer_id: string | null
+          client_primaryobjective: string | null
+          client_privatenote: string | null
+          client_problem: string | null
           client_prognosis: string | null
           client_progress: string | null
           client_recentdischarge: string | null
@@ -2105,6 +2625,7 @@ export type Database = {
           created_at: string
           document_name: string
           id: string
+          requires_guardian_signature: boolean
           status: string | null
           updated_at: string
         }
@@ -2114,6 +2635,7 @@ export type Database = {
           created_at?: string
           document_name: string
           id?: string
+          requires_guardian_signature?: boolean
           status?: string | null
           updated_at?: string
         }
@@ -2123,63 +2645,194 @@ export type Database = {
           created_at?: string
           document_name?: string
           id?: string
+          requires_guardian_signature?: boolean
           status?: string | null
           updated_at?: string
         }
         Relationships: []
       }
-      documents: {
+      document_form_drafts: {
         Row: {
-          category: Database["public"]["Enums"]["document_category"]
+          assignment_id: string
+          client_id: string
           created_at: string
-          created_by: string | null
-          description: string | null
+          form_data: Json
           id: string
-          template: Json | null
-          title: string
+          saved_by_session: string | null
           updated_at: string
+          version: number
         }
         Insert: {
-          category: Database["public"]["Enums"]["document_category"]
+          assignment_id: string
+          client_id: string
           created_at?: string
-          created_by?: string | null
-          description?: string | null
+          form_data?: Json
           id?: string
-          template?: Json | null
-          title: string
+          saved_by_session?: string | null
           updated_at?: string
+          version?: number
         }
         Update: {
-          category?: Database["public"]["Enums"]["document_category"]
+          assignment_id?: string
+          client_id?: string
           created_at?: string
-          created_by?: string | null
-          description?: string | null
+          form_data?: Json
           id?: string
-          template?: Json | null
-          title?: string
+          saved_by_session?: string | null
           updated_at?: string
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "document_form_drafts_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: true
+            referencedRelation: "document_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_form_drafts_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      eligibility_audit: {
+      document_signatures: {
         Row: {
-          claimmd_transaction_id: string | null
+          assignment_id: string | null
           client_id: string
-          coinsurance_percent: number | null
-          copay: number | null
-          created_at: string | null
-          deductible: number | null
-          error_message: string | null
+          clinical_document_id: string | null
+          document_hash: string
+          document_title: string
+          document_type: string
+          document_version: string | null
+          hash_algorithm: string
           id: string
-          insurance_level: string
-          processing_time_ms: number | null
-          request_payload: Json | null
-          response_payload: Json | null
-          status: string
-          verification_date: string | null
+          ip_address: string | null
+          signature_data: string
+          signature_method: string
+          signed_at: string
+          signer_name: string
+          signer_role: string
+          signer_user_id: string
+          user_agent: string | null
         }
         Insert: {
-          claimmd_transaction_id?: string | null
+          assignment_id?: string | null
+          client_id: string
+          clinical_document_id?: string | null
+          document_hash: string
+          document_title: string
+          document_type: string
+          document_version?: string | null
+          hash_algorithm?: string
+          id?: string
+          ip_address?: string | null
+          signature_data: string
+          signature_method: string
+          signed_at?: string
+          signer_name: string
+          signer_role?: string
+          signer_user_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          assignment_id?: string | null
+          client_id?: string
+          clinical_document_id?: string | null
+          document_hash?: string
+          document_title?: string
+          document_type?: string
+          document_version?: string | null
+          hash_algorithm?: string
+          id?: string
+          ip_address?: string | null
+          signature_data?: string
+          signature_method?: string
+          signed_at?: string
+          signer_name?: string
+          signer_role?: string
+          signer_user_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_signatures_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "document_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_signatures_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_signatures_clinical_document_id_fkey"
+            columns: ["clinical_document_id"]
+            isOneToOne: false
+            referencedRelation: "clinical_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          category: Database["public"]["Enums"]["document_category"]
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          template: Json | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["document_category"]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          template?: Json | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["document_category"]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          template?: Json | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      eligibility_audit: {
+        Row: {
+          claimmd_transaction_id: string | null
+          client_id: string
+          coinsurance_percent: number | null
+          copay: number | null
+          created_at: string | null
+          deductible: number | null
+          error_message: string | null
+          id: string
+          insurance_level: string
+          processing_time_ms: number | null
+          request_payload: Json | null
+          response_payload: Json | null
+          status: string
+          verification_date: string | null
+        }
+        Insert: {
+          claimmd_transaction_id?: string | null
           client_id: string
           coinsurance_percent?: number | null
           copay?: number | null
@@ -2345,6 +2998,91 @@ export type Database = {
           },
         ]
       }
+      gad7_assessments: {
+        Row: {
+          additional_notes: string | null
+          appointment_id: string | null
+          assessment_date: string
+          client_id: string
+          clinician_id: string | null
+          created_at: string
+          id: string
+          pdf_path: string | null
+          question_1: number
+          question_2: number
+          question_3: number
+          question_4: number
+          question_5: number
+          question_6: number
+          question_7: number
+          severity: string | null
+          total_score: number
+          updated_at: string
+        }
+        Insert: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          assessment_date?: string
+          client_id: string
+          clinician_id?: string | null
+          created_at?: string
+          id?: string
+          pdf_path?: string | null
+          question_1: number
+          question_2: number
+          question_3: number
+          question_4: number
+          question_5: number
+          question_6: number
+          question_7: number
+          severity?: string | null
+          total_score: number
+          updated_at?: string
+        }
+        Update: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          assessment_date?: string
+          client_id?: string
+          clinician_id?: string | null
+          created_at?: string
+          id?: string
+          pdf_path?: string | null
+          question_1?: number
+          question_2?: number
+          question_3?: number
+          question_4?: number
+          question_5?: number
+          question_6?: number
+          question_7?: number
+          severity?: string | null
+          total_score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gad7_assessments_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gad7_assessments_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gad7_assessments_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       icd10: {
         Row: {
           diagnosis_name: string
@@ -2363,6 +3101,269 @@ export type Database = {
         }
         Relationships: []
       }
+      instrument_assessments: {
+        Row: {
+          additional_notes: string | null
+          appointment_id: string | null
+          assessment_date: string
+          client_id: string
+          clinician_id: string | null
+          created_at: string
+          critical_items: Json
+          id: string
+          instrument: string
+          pdf_path: string | null
+          responses: Json
+          severity: string | null
+          subscale_scores: Json
+          total_score: number
+          updated_at: string
+        }
+        Insert: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          assessment_date?: string
+          client_id: string
+          clinician_id?: string | null
+          created_at?: string
+          critical_items?: Json
+          id?: string
+          instrument: string
+          pdf_path?: string | null
+          responses: Json
+          severity?: string | null
+          subscale_scores?: Json
+          total_score: number
+          updated_at?: string
+        }
+        Update: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          assessment_date?: string
+          client_id?: string
+          clinician_id?: string | null
+          created_at?: string
+          critical_items?: Json
+          id?: string
+          instrument?: string
+          pdf_path?: string | null
+          responses?: Json
+          severity?: string | null
+          subscale_scores?: Json
+          total_score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instrument_assessments_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instrument_assessments_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instrument_assessments_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      instrument_critical_item_rules: {
+        Row: {
+          description: string
+          instrument: string
+          item_id: string
+          min_value: number
+        }
+        Insert: {
+          description: string
+          instrument: string
+          item_id: string
+          min_value: number
+        }
+        Update: {
+          description?: string
+          instrument?: string
+          item_id?: string
+          min_value?: number
+        }
+        Relationships: [
+        ]
+      }
+      insurance_authorization_visits: {
+        Row: {
+          appointment_id: string
+          authorization_id: string
+          client_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          appointment_id: string
+          authorization_id: string
+          client_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          appointment_id?: string
+          authorization_id?: string
+          client_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "insurance_authorization_visits_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "insurance_authorization_visits_authorization_id_fkey"
+            columns: ["authorization_id"]
+            isOneToOne: false
+            referencedRelation: "insurance_authorizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "insurance_authorization_visits_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      insurance_authorizations: {
+        Row: {
+          authorization_number: string
+          authorized_visits: number
+          client_id: string
+          created_at: string
+          created_by: string | null
+          end_date: string
+          id: string
+          notes: string | null
+          program: string
+          region: string | null
+          seoc_number: string | null
+          start_date: string
+          updated_at: string
+          visits_used: number
+        }
+        Insert: {
+          authorization_number: string
+          authorized_visits: number
+          client_id: string
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          id?: string
+          notes?: string | null
+          program: string
+          region?: string | null
+          seoc_number?: string | null
+          start_date: string
+          updated_at?: string
+          visits_used?: number
+        }
+        Update: {
+          authorization_number?: string
+          authorized_visits?: number
+          client_id?: string
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          id?: string
+          notes?: string | null
+          program?: string
+          region?: string | null
+          seoc_number?: string | null
+          start_date?: string
+          updated_at?: string
+          visits_used?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "insurance_authorizations_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      insurance_card_images: {
+        Row: {
+          client_id: string
+          content_type: string
+          file_path: string
+          id: string
+          insurance_level: string
+          replaced_at: string | null
+          replaced_by: string | null
+          side: string
+          size_bytes: number
+          thumbnail_path: string | null
+          uploaded_at: string
+          uploaded_by: string
+        }
+        Insert: {
+          client_id: string
+          content_type: string
+          file_path: string
+          id?: string
+          insurance_level: string
+          replaced_at?: string | null
+          replaced_by?: string | null
+          side: string
+          size_bytes: number
+          thumbnail_path?: string | null
+          uploaded_at?: string
+          uploaded_by?: string
+        }
+        Update: {
+          client_id?: string
+          content_type?: string
+          file_path?: string
+          id?: string
+          insurance_level?: string
+          replaced_at?: string | null
+          replaced_by?: string | null
+          side?: string
+          size_bytes?: number
+          thumbnail_path?: string | null
+          uploaded_at?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "insurance_card_images_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "insurance_card_images_replaced_by_fkey"
+            columns: ["replaced_by"]
+            isOneToOne: false
+            referencedRelation: "insurance_card_images"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       licenses: {
         Row: {
           clinician_id: string
@@ -2428,18 +3429,139 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
-          clinician_id?: string | null
-          created_at?: string | null
-          expiration_date?: string | null
-          id?: string | null
-          issue_date?: string | null
-          license_number?: string | null
-          license_type?: string | null
-          state?: string | null
-          status?: string | null
-          updated_at?: string | null
+          clinician_id?: string | null
+          created_at?: string | null
+          expiration_date?: string | null
+          id?: string | null
+          issue_date?: string | null
+          license_number?: string | null
+          license_type?: string | null
+          state?: string | null
+          status?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      message_attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          file_path: string
+          id: string
+          message_id: string
+          size_bytes: number | null
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          file_path: string
+          id?: string
+          message_id: string
+          size_bytes?: number | null
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          message_id?: string
+          size_bytes?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_threads: {
+        Row: {
+          client_id: string
+          clinician_id: string
+          created_at: string
+          created_by: string
+          id: string
+          last_message_at: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          client_id: string
+          clinician_id: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          last_message_at?: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string
+          clinician_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          last_message_at?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_threads_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_threads_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          read_at: string | null
+          sender_id: string
+          thread_id: string
+        }
+        Insert: {
+          body?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+          thread_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+          thread_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       migration_logs: {
         Row: {
@@ -2738,6 +3860,85 @@ export type Database = {
           },
         ]
       }
+      pcl5_assessments: {
+        Row: {
+          additional_notes: string | null
+          appointment_id: string | null
+          arousal_score: number
+          assessment_date: string
+          avoidance_score: number
+          client_id: string
+          clinician_id: string | null
+          created_at: string
+          event_description: string | null
+          id: string
+          intrusion_score: number
+          negative_alterations_score: number
+          pdf_path: string | null
+          responses: number[]
+          total_score: number
+          updated_at: string
+        }
+        Insert: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          arousal_score: number
+          assessment_date?: string
+          avoidance_score: number
+          client_id: string
+          clinician_id?: string | null
+          created_at?: string
+          event_description?: string | null
+          id?: string
+          intrusion_score: number
+          negative_alterations_score: number
+          pdf_path?: string | null
+          responses: number[]
+          total_score: number
+          updated_at?: string
+        }
+        Update: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          arousal_score?: number
+          assessment_date?: string
+          avoidance_score?: number
+          client_id?: string
+          clinician_id?: string | null
+          created_at?: string
+          event_description?: string | null
+          id?: string
+          intrusion_score?: number
+          negative_alterations_score?: number
+          pdf_path?: string | null
+          responses?: number[]
+          total_score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pcl5_assessments_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pcl5_assessments_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pcl5_assessments_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       phq9_assessments: {
         Row: {
           additional_notes: string | null
@@ -2747,6 +3948,7 @@ export type Database = {
           created_at: string
           id: string
           phq9_narrative: string | null
+          phq9_narrative_source: string | null
           question_1: number
           question_2: number
           question_3: number
@@ -2766,6 +3968,7 @@ export type Database = {
           created_at?: string
           id?: string
           phq9_narrative?: string | null
+          phq9_narrative_source?: string | null
           question_1: number
           question_2: number
           question_3: number
@@ -2785,6 +3988,7 @@ export type Database = {
           created_at?: string
           id?: string
           phq9_narrative?: string | null
+          phq9_narrative_source?: string | null
           question_1?: number
           question_2?: number
           question_3?: number
@@ -2859,6 +4063,7 @@ export type Database = {
           id: string
           is_read: boolean | null
           message: string
+          priority: string
           type: string
           updated_at: string
           user_id: string
@@ -2870,6 +4075,7 @@ export type Database = {
           id?: string
           is_read?: boolean | null
           message: string
+          priority?: string
           type: string
           updated_at?: string
           user_id: string
@@ -2881,6 +4087,7 @@ export type Database = {
           id?: string
           is_read?: boolean | null
           message?: string
+          priority?: string
           type?: string
           updated_at?: string
           user_id?: string
@@ -2935,6 +4142,83 @@ export type Database = {
         }
         Relationships: []
       }
+      session_check_in_completions: {
+        Row: {
+          appointment_id: string
+          client_id: string
+          completed_at: string
+          details: Json
+          id: string
+          step: string
+        }
+        Insert: {
+          appointment_id: string
+          client_id: string
+          completed_at?: string
+          details?: Json
+          id?: string
+          step: string
+        }
+        Update: {
+          appointment_id?: string
+          client_id?: string
+          completed_at?: string
+          details?: Json
+          id?: string
+          step?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_check_in_completions_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_check_in_completions_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_check_in_configs: {
+        Row: {
+          appointment_type: string | null
+          clinician_id: string | null
+          created_at: string
+          id: string
+          steps: Json
+          updated_at: string
+        }
+        Insert: {
+          appointment_type?: string | null
+          clinician_id?: string | null
+          created_at?: string
+          id?: string
+          steps?: Json
+          updated_at?: string
+        }
+        Update: {
+          appointment_type?: string | null
+          clinician_id?: string | null
+          created_at?: string
+          id?: string
+          steps?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_check_in_configs_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       session_notes: {
         Row: {
           affect: string | null
@@ -3512,6 +4796,27 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_guardian_invitation: {
+        Args: { p_link_id: string }
+        Returns: {
+          accepted_at: string | null
+          client_id: string
+          created_at: string
+          guardian_email: string
+          guardian_name: string
+          guardian_user_id: string | null
+          id: string
+          invited_at: string
+          invited_by: string | null
+          relationship: string
+          status: string
+          updated_at: string
+        }
+      }
+      attach_assessment_pdf: {
+        Args: { p_assessment_id: string; p_pdf_path: string; p_table: string }
+        Returns: undefined
+      }
       audit_email_sync_status: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -3524,6 +4829,22 @@ export type Database = {
           sync_status: string
         }[]
       }
+      book_client_appointment: {
+        Args: {
+          p_clinician_id: string
+          p_start_at: string
+          p_template_id?: string
+        }
+        Returns: string
+      }
+      can_access_message_attachment_path: {
+        Args: { p_object_name: string }
+        Returns: boolean
+      }
+      can_message: {
+        Args: { p_client_id: string; p_clinician_id: string }
+        Returns: boolean
+      }
       cancel_appointment_and_delete_mapping: {
         Args: {
           p_appointment_id: string
@@ -3553,6 +4874,10 @@ export type Database = {
         Args: { check_table_name: string }
         Returns: boolean
       }
+      claim_waitlist_offer: {
+        Args: { p_offer_id: string }
+        Returns: string
+      }
       convert_appointment_times_to_utc: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -3602,6 +4927,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      decline_waitlist_offer: {
+        Args: { p_offer_id: string }
+        Returns: undefined
+      }
       determine_error_severity: {
         Args: {
           error_category: Database["public"]["Enums"]["error_category"]
@@ -3617,6 +4946,23 @@ export type Database = {
         Args: { input_timestamp: string }
         Returns: string
       }
+      get_client_appointment_policy: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          at_risk_strike_threshold: number
+          late_cancellation_fee: number
+          late_change_window_hours: number
+          no_show_fee: number
+        }[]
+      }
+      get_client_calendar_feed_token: {
+        Args: { p_regenerate?: boolean }
+        Returns: string
+      }
+      get_client_late_change_window_hours: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       get_clinician_availability_instances: {
         Args: {
           p_clinician_id: string
@@ -3635,6 +4981,21 @@ export type Database = {
           utc_start_time: string
         }[]
       }
+      get_clinician_busy_intervals: {
+        Args: {
+          p_clinician_id: string
+          p_end_at: string
+          p_exclude_appointment_id?: string
+          p_start_at: string
+        }
+        Returns: {
+          buffer_after: number
+          buffer_before: number
+          end_at: string
+          source: string
+          start_at: string
+        }[]
+      }
       get_filtered_clinical_documents: {
         Args: { p_client_id: string }
         Returns: {
@@ -3648,10 +5009,50 @@ export type Database = {
           id: string
         }[]
       }
+      get_guardian_assignments: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          assignment_id: string
+          client_id: string
+          client_first_name: string
+          client_last_name: string
+          document_name: string
+          status: string
+          created_at: string
+          guardian_signed_at: string
+        }[]
+      }
+      get_guardian_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          link_id: string
+          client_id: string
+          client_first_name: string
+          client_last_name: string
+          relationship: string
+          invited_at: string
+        }[]
+      }
+      get_numeric_system_setting: {
+        Args: { p_default: number; p_key: string }
+        Returns: number
+      }
+      get_session_check_in_steps: {
+        Args: { p_appointment_id: string }
+        Returns: Json
+      }
+      get_unread_message_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       get_unread_notification_count: {
         Args: { p_user_id: string }
         Returns: number
       }
+      has_open_safety_event: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -3664,6 +5065,29 @@ export type Database = {
         Args: { user_id: string }
         Returns: boolean
       }
+      is_guardian_of: {
+        Args: {
+          p_client_id: string
+        }
+        Returns: boolean
+      }
+      is_message_thread_participant: {
+        Args: { p_thread_id: string }
+        Returns: boolean
+      }
+      join_appointment_waitlist: {
+        Args: {
+          p_earliest_date: string
+          p_latest_date: string
+          p_preferred_end_time: string
+          p_preferred_start_time: string
+        }
+        Returns: string
+      }
+      leave_appointment_waitlist: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
       log_email_update_operation: {
         Args: {
           additional_data?: Json
@@ -3676,14 +5100,113 @@ export type Database = {
         }
         Returns: undefined
       }
+      mark_message_thread_read: {
+        Args: { p_thread_id: string }
+        Returns: number
+      }
       mark_notifications_as_read: {
         Args: { p_notification_ids?: string[]; p_user_id: string }
         Returns: number
       }
+      offer_waitlist_slot: {
+        Args: {
+          p_clinician_id: string
+          p_exclude_client_id?: string
+          p_source_appointment_id?: string
+          p_start_at: string
+        }
+        Returns: string
+      }
+      open_client_safety_event: {
+        Args: {
+          p_client_id: string
+          p_instrument_assessment_id?: string
+          p_item_score: number
+          p_phq9_assessment_id?: string
+          p_source: string
+          p_summary: string
+        }
+        Returns: string
+      }
       parse_claimmd_date: {
         Args: { claimmd_date: string }
         Returns: string
       }
+      process_expired_waitlist_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      record_document_signature: {
+        Args: {
+          p_assignment_id?: string
+          p_client_id: string
+          p_document_hash: string
+          p_document_title: string
+          p_document_type: string
+          p_document_version?: string
+          p_signature_data: string
+          p_signature_method: string
+          p_signer_name: string
+          p_signer_role?: string
+          p_user_agent?: string
+        }
+        Returns: {
+          assignment_id: string | null
+          clinical_document_id: string | null
+          client_id: string
+          document_hash: string
+          document_title: string
+          document_type: string
+          document_version: string | null
+          hash_algorithm: string
+          id: string
+          ip_address: string | null
+          signature_data: string
+          signature_method: string
+          signed_at: string
+          signer_name: string
+          signer_role: string
+          signer_user_id: string
+          user_agent: string | null
+        }
+      }
+      reschedule_client_appointment: {
+        Args: { p_appointment_id: string; p_new_start_at: string }
+        Returns: string
+      }
+      resolve_client_safety_event: {
+        Args: {
+          p_client_status?: string
+          p_event_id: string
+          p_resolution_notes: string
+        }
+        Returns: {
+          client_id: string
+          clinician_id: string | null
+          created_at: string
+          id: string
+          instrument_assessment_id: string | null
+          item_score: number
+          phq9_assessment_id: string | null
+          previous_client_status: string | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          source: string
+          status: string
+          summary: string | null
+          updated_at: string
+        }
+      }
+      save_document_form_draft: {
+        Args: {
+          p_assignment_id: string
+          p_expected_version?: number
+          p_form_data: Json
+          p_session_id?: string
+        }
+        Returns: Json
+      }
       standardize_uuid: {
         Args: { input_id: string }
         Returns: string
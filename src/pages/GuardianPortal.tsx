@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CheckCircle2, ClipboardCheck, Loader2, LogOut, Mail, PenLine, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/context/NewAuthContext';
+import { acceptGuardianInvitation, fetchGuardianAssignments, fetchGuardianInvitations } from '@/integrations/supabase/client';
+import { GuardianAssignment, GuardianInvitation } from '@/types/guardians';
+import GuardianSignDialog from '@/components/guardian/GuardianSignDialog';
+
+/**
+ * Portal for parents and guardians of minor clients. The guardian first accepts each invitation
+ * the practice sent, then sees that minor's forms that need a guardian signature and co-signs them.
+ */
+const GuardianPortal: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  const [assignments, setAssignments] = useState<GuardianAssignment[]>([]);
+  const [invitations, setInvitations] = useState<GuardianInvitation[]>([]);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [signing, setSigning] = useState<GuardianAssignment | null>(null);
+
+  const guardianName = [user?.user_metadata?.first_name, user?.user_metadata?.last_name].filter(Boolean).join(' ');
+
+  const loadAssignments = useCallback(async () => {
+    setIsLoading(true);
+    const [assignmentResult, invitationResult] = await Promise.all([
+      fetchGuardianAssignments(),
+      fetchGuardianInvitations()
+    ]);
+    if (assignmentResult.success) {
+      setAssignments(assignmentResult.data || []);
+    } else {
+      toast.error('Failed to load forms');
+    }
+    if (invitationResult.success) {
+      setInvitations(invitationResult.data || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  const handleAccept = async (invitation: GuardianInvitation) => {
+    setAcceptingId(invitation.link_id);
+    const { success } = await acceptGuardianInvitation(invitation.link_id);
+    setAcceptingId(null);
+
+    if (!success) {
+      toast.error('The invitation could not be accepted');
+      return;
+    }
+
+    toast.success(`You can now sign forms for ${getClientName(invitation)}`);
+    loadAssignments();
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login');
+  };
+
+  const getClientName = (record: Pick<GuardianAssignment, 'client_first_name' | 'client_last_name'>) =>
+    [record.client_first_name, record.client_last_name].filter(Boolean).join(' ') || 'Client';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-background py-4 px-6">
+        <div className="flex items-center justify-between max-w-5xl mx-auto">
+          <div className="flex items-center">
+            <img
+              src="/lovable-uploads/add4f588-3f1f-426d-a2b4-359be55e2c73.png"
+              alt="Valorwell Logo"
+              className="h-8 w-8"
+            />
+            <h1 className="text-xl font-semibold ml-2 text-valorwell-700">Valorwell</h1>
+          </div>
+          <Button variant="ghost" onClick={handleLogout}>
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign out
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-6 flex flex-col gap-6">
+        <h1 className="text-3xl font-bold tracking-tight">Parent/Guardian Portal</h1>
+
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5 text-valorwell-600" />
+                Invitations
+              </CardTitle>
+              <CardDescription>
+                Confirm that you are the parent or guardian of each child below before signing their forms
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {invitations.map(invitation => (
+                <div key={invitation.link_id} className="flex items-center justify-between p-4 border rounded-md">
+                  <div>
+                    <h4 className="font-medium">{getClientName(invitation)}</h4>
+                    <p className="text-sm text-gray-500">
+                      {invitation.relationship} · Invited {format(new Date(invitation.invited_at), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <Button onClick={() => handleAccept(invitation)} disabled={acceptingId === invitation.link_id}>
+                    {acceptingId === invitation.link_id
+                      ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      : <CheckCircle2 className="h-4 w-4 mr-1" />}
+                    I am their parent/guardian
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5 text-valorwell-600" />
+                Forms to Sign
+              </CardTitle>
+              <CardDescription>
+                Forms assigned to your child can only be submitted after you sign them
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="icon" onClick={loadAssignments} disabled={isLoading} title="Refresh forms">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-valorwell-600" />
+              </div>
+            ) : assignments.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <ClipboardCheck className="h-12 w-12 text-gray-300 mb-4" />
+                <h3 className="text-lg font-medium">No forms to sign</h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  Forms will appear here when your child's therapist assigns them
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {assignments.map(assignment => (
+                  <div key={assignment.assignment_id} className="flex items-center justify-between p-4 border rounded-md">
+                    <div>
+                      <h4 className="font-medium">{assignment.document_name}</h4>
+                      <p className="text-sm text-gray-500">
+                        For {getClientName(assignment)} · Assigned {format(new Date(assignment.created_at), 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                    {assignment.guardian_signed_at ? (
+                      <Badge variant="outline" className="gap-1 border-green-200 text-green-700">
+                        <CheckCircle2 className="h-3 w-3" />
+                        Signed {format(new Date(assignment.guardian_signed_at), 'MMM d, yyyy')}
+                      </Badge>
+                    ) : (
+                      <Button onClick={() => setSigning(assignment)}>
+                        <PenLine className="h-4 w-4 mr-1" />
+                        Review and sign
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <GuardianSignDialog
+        assignment={signing}
+        guardianName={guardianName}
+        onClose={() => setSigning(null)}
+        onSigned={() => {
+          setSigning(null);
+          loadAssignments();
+        }}
+      />
+    </div>
+  );
+};
+
+export default GuardianPortal;
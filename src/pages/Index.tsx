@@ -7,14 +7,14 @@ import { useEffect } from 'react';
 
 const Index = () => {
   const navigate = useNavigate();
-  const { authState, isLoading } = useAuth();
+  const { authState, isLoading, userRole } = useAuth();
 
   // Auto-redirect authenticated users
   useEffect(() => {
     if (authState === AuthState.AUTHENTICATED) {
-      navigate('/patient-portal');
+      navigate(userRole === 'guardian' ? '/guardian' : '/patient-portal');
     }
-  }, [authState, navigate]);
+  }, [authState, userRole, navigate]);
 
   // Show loading state while auth is being determined
   if (isLoading || authState === AuthState.INITIALIZING) {
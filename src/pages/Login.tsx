@@ -15,6 +15,7 @@ const Login = () => {
   const {
     login,
     authState,
+    userRole,
     clientStatus,
     authInitialized,
     isLoading
@@ -86,7 +87,10 @@ const Login = () => {
     });
 
     // Handle redirection based on client status - simplified for patient-only app
-    if (clientStatus === 'New') {
+    if (userRole === 'guardian') {
+      DebugUtils.log(sessionId, "Redirecting guardian to guardian portal");
+      navigate("/guardian");
+    } else if (clientStatus === 'New') {
       DebugUtils.log(sessionId, "Redirecting client with New status to profile setup");
       navigate("/profile-setup");
     } else {
@@ -1,16 +1,11 @@
-
 import Layout from '../components/layout/Layout';
+import MessagesTab from '@/components/patient/MessagesTab';
 
 const Messages = () => {
   return (
     <Layout>
-      <div className="bg-white rounded-lg shadow-sm p-8 animate-fade-in">
-        <div className="flex flex-col items-center justify-center py-12 text-center">
-          <h2 className="text-2xl font-bold mb-4 text-gray-800">Messages Coming Soon</h2>
-          <p className="text-gray-600 max-w-md">
-            The messaging feature will be implemented in the next phase.
-          </p>
-        </div>
+      <div className="animate-fade-in max-w-5xl">
+        <MessagesTab />
       </div>
     </Layout>
   );
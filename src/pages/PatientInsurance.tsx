@@ -8,6 +8,7 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import MyInsurance from '@/components/patient/MyInsurance';
 import { ClientDetails } from '@/types/client';
+import { hasBlockingIssues, validateCoordinationOfBenefits } from '@/utils/coordinationOfBenefits';
 
 // Updated insurance type options to match the database enum values
 const insuranceTypes = ["PPO", "HMO", "EPO", "POS", "Medicare", "Medicaid", "CHIP", "TRICARE", "Other"];
@@ -47,6 +48,11 @@ const PatientInsurance = () => {
   
   // Handle saving profile data
   const handleSaveProfile = async () => {
+    if (hasBlockingIssues(validateCoordinationOfBenefits(form.getValues()))) {
+      toast.error("Please correct the insurance details shown before saving");
+      return;
+    }
+
     try {
       setIsSaving(true);
       
@@ -137,6 +143,7 @@ const PatientInsurance = () => {
             handleCancelEdit={handleCancelEdit}
             insuranceTypes={insuranceTypes}
             relationshipTypes={relationshipTypes}
+            clientId={userId}
           />
         )}
       </div>
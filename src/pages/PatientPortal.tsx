@@ -1,23 +1,54 @@
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import NewLayout from '@/components/layout/NewLayout';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { Home, User, FileText, Shield, UserCheck } from 'lucide-react';
+import { Home, User, FileText, Shield, UserCheck, MessageSquare, LineChart } from 'lucide-react';
 import DashboardTab from '@/components/patient/DashboardTab';
 import ProfileTab from '@/components/patient/ProfileTab';
 import DocumentsTab from '@/components/patient/DocumentsTab';
 import InsuranceTab from '@/components/patient/InsuranceTab';
 import TherapistSelectionTab from '@/components/patient/TherapistSelectionTab';
+import MessagesTab from '@/components/patient/MessagesTab';
+import ProgressTab from '@/components/patient/ProgressTab';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/context/NewAuthContext';
+import { useUnreadMessageCount } from '@/hooks/useUnreadMessageCount';
+
+const PORTAL_TABS = ['dashboard', 'messages', 'progress', 'profile', 'documents', 'insurance', 'therapist'];
 
 const PatientPortal: React.FC = () => {
+  const { user } = useAuth();
+  const { count: unreadMessages } = useUnreadMessageCount(user?.id);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The active tab lives in the URL so notifications can deep link into it
+  const requestedTab = searchParams.get('tab');
+  const activeTab = requestedTab && PORTAL_TABS.includes(requestedTab) ? requestedTab : 'dashboard';
+
+  const handleTabChange = (tab: string) => {
+    setSearchParams({ tab }, { replace: true });
+  };
+
   return (
     <NewLayout>
       <div className="container mx-auto px-4 sm:px-6 py-4 sm:py-8">
-        <Tabs defaultValue="dashboard" className="w-full">
-          <TabsList className="grid w-full grid-cols-5 mb-6 sm:mb-8 h-auto">
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
+          <TabsList className="grid w-full grid-cols-4 sm:grid-cols-7 mb-6 sm:mb-8 h-auto">
             <TabsTrigger value="dashboard" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-3 text-xs sm:text-sm">
               <Home className="h-4 w-4" />
               <span>Dashboard</span>
             </TabsTrigger>
+            <TabsTrigger value="messages" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-3 text-xs sm:text-sm">
+              <MessageSquare className="h-4 w-4" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <Badge variant="destructive" className="h-5 px-1.5 text-xs">{unreadMessages}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="progress" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-3 text-xs sm:text-sm">
+              <LineChart className="h-4 w-4" />
+              <span>Progress</span>
+            </TabsTrigger>
             <TabsTrigger value="profile" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-3 text-xs sm:text-sm">
               <User className="h-4 w-4" />
               <span>Profile</span>
@@ -40,6 +71,14 @@ const PatientPortal: React.FC = () => {
             <DashboardTab />
           </TabsContent>
           
+          <TabsContent value="messages" className="mt-0">
+            <MessagesTab />
+          </TabsContent>
+          
+          <TabsContent value="progress" className="mt-0">
+            <ProgressTab />
+          </TabsContent>
+          
           <TabsContent value="profile" className="mt-0">
             <ProfileTab />
           </TabsContent>
@@ -23,6 +23,7 @@ import MoreAdditionalInsurance from '@/components/signup/MoreAdditionalInsurance
 import SignupLast from '@/components/signup/SignupLast';
 import { useAuth } from '@/context/NewAuthContext';
 import { parseDateString, calculateAge, formatDateForDB } from '@/utils/dateUtils';
+import { hasBlockingIssues, validateCoordinationOfBenefits } from '@/utils/coordinationOfBenefits';
 
 // Custom timezone options - only US timezones
 const customTimezoneOptions = [
@@ -689,6 +690,10 @@ const ProfileSetup = () => {
             else navigateToStep(6);
         }
     } else if (currentStep === 4) {
+        if (hasBlockingIssues(validateCoordinationOfBenefits(values), ['primary', null])) {
+          toast({ title: "Validation Error", description: "Please correct the insurance details shown before continuing.", variant: "destructive" });
+          return;
+        }
         if (clientId) {
             try {
               // Format the subscriber DOB properly
@@ -720,6 +725,10 @@ const ProfileSetup = () => {
           else navigateToStep(6);
         }
     } else if (currentStep === 5) {
+        if (hasBlockingIssues(validateCoordinationOfBenefits(values), ['secondary', null])) {
+          toast({ title: "Validation Error", description: "Please correct the insurance details shown before continuing.", variant: "destructive" });
+          return;
+        }
         if (clientId) {
             try {
               // Format the secondary subscriber DOB properly  
@@ -760,6 +769,10 @@ const ProfileSetup = () => {
       toast({ title: "Error", description: "No client record found. Please contact support.", variant: "destructive" }); 
       return; 
     }
+    if (hasBlockingIssues(validateCoordinationOfBenefits(values))) {
+      toast({ title: "Validation Error", description: "Please go back and correct the insurance details shown before completing your profile.", variant: "destructive" });
+      return;
+    }
     
     try {
       console.log("[ProfileSetup] Starting profile completion process", { clientId });
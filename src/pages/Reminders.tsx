@@ -1,16 +1,214 @@
-
+import { useState, useEffect } from 'react';
 import Layout from '../components/layout/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Mail, FileText, Calendar } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/context/NewAuthContext';
+import {
+  useReminderPreferences,
+  ReminderPreferences,
+  REMINDER_LEAD_TIME_OPTIONS
+} from '@/hooks/useReminderPreferences';
+import { formatInClientTimezone, getSafeTimezone, DATE_FORMATS } from '@/utils/dateFormatting';
+
+const DOCUMENT_INTERVAL_OPTIONS = [1, 2, 3, 7];
+
+const getLeadTimeLabel = (minutes: number | null) => {
+  const option = REMINDER_LEAD_TIME_OPTIONS.find(o => o.minutes === minutes);
+  return option ? option.label : minutes ? `${minutes} minutes before` : '';
+};
 
 const Reminders = () => {
+  const { user } = useAuth();
+  const { preferences, history, loading, saving, savePreferences } = useReminderPreferences(user?.id);
+  const [draft, setDraft] = useState<ReminderPreferences>(preferences);
+  const timezone = getSafeTimezone();
+
+  useEffect(() => {
+    setDraft(preferences);
+  }, [preferences]);
+
+  const toggleLeadTime = (minutes: number, checked: boolean) => {
+    setDraft(current => ({
+      ...current,
+      appointment_lead_times: checked
+        ? [...current.appointment_lead_times, minutes].sort((a, b) => b - a)
+        : current.appointment_lead_times.filter(m => m !== minutes)
+    }));
+  };
+
+  const handleSave = async () => {
+    const result = await savePreferences(draft);
+    if (result.success) {
+      toast.success('Reminder settings saved');
+    } else {
+      toast.error(result.error || 'Failed to save reminder settings');
+    }
+  };
+
+  const noChannels = !draft.email_enabled && !draft.portal_enabled;
+
   return (
     <Layout>
-      <div className="bg-white rounded-lg shadow-sm p-8 animate-fade-in">
-        <div className="flex flex-col items-center justify-center py-12 text-center">
-          <h2 className="text-2xl font-bold mb-4 text-gray-800">Reminders Coming Soon</h2>
-          <p className="text-gray-600 max-w-md">
-            The reminders feature will be implemented in the next phase.
-          </p>
+      <div className="space-y-6 animate-fade-in max-w-3xl">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Reminders</h2>
+          <p className="text-gray-600">Choose when and how we remind you about sessions and paperwork.</p>
         </div>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+            <p className="mt-2 text-sm text-muted-foreground">Loading reminder settings...</p>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Delivery
+                </CardTitle>
+                <CardDescription>Where reminders are sent</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="email-enabled" className="flex items-center gap-2">
+                    <Mail className="h-4 w-4" />
+                    Email
+                  </Label>
+                  <Switch
+                    id="email-enabled"
+                    checked={draft.email_enabled}
+                    onCheckedChange={checked => setDraft(current => ({ ...current, email_enabled: checked }))}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="portal-enabled" className="flex items-center gap-2">
+                    <Bell className="h-4 w-4" />
+                    Portal notifications
+                  </Label>
+                  <Switch
+                    id="portal-enabled"
+                    checked={draft.portal_enabled}
+                    onCheckedChange={checked => setDraft(current => ({ ...current, portal_enabled: checked }))}
+                  />
+                </div>
+                {noChannels && (
+                  <p className="text-sm text-destructive">With both channels off you will not receive any reminders.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Calendar className="h-5 w-5" />
+                  Appointment Reminders
+                </CardTitle>
+                <CardDescription>Remind me before each scheduled session</CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {REMINDER_LEAD_TIME_OPTIONS.map(option => (
+                  <div key={option.minutes} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`lead-${option.minutes}`}
+                      checked={draft.appointment_lead_times.includes(option.minutes)}
+                      onCheckedChange={checked => toggleLeadTime(option.minutes, checked === true)}
+                    />
+                    <Label htmlFor={`lead-${option.minutes}`}>{option.label}</Label>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  Document Reminders
+                </CardTitle>
+                <CardDescription>Remind me about forms my care team has asked me to complete</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="document-reminders">Send document reminders</Label>
+                  <Switch
+                    id="document-reminders"
+                    checked={draft.document_reminders_enabled}
+                    onCheckedChange={checked => setDraft(current => ({ ...current, document_reminders_enabled: checked }))}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <Label>Remind me every</Label>
+                  <Select
+                    value={String(draft.document_reminder_interval_days)}
+                    onValueChange={value => setDraft(current => ({ ...current, document_reminder_interval_days: Number(value) }))}
+                    disabled={!draft.document_reminders_enabled}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DOCUMENT_INTERVAL_OPTIONS.map(days => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days === 1 ? 'day' : `${days} days`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Reminders</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No reminders have been sent yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {history.map(reminder => (
+                      <div key={reminder.id} className="flex items-center justify-between text-sm border-b last:border-0 py-2">
+                        <div>
+                          <span className="font-medium">
+                            {reminder.reminder_type === 'appointment' ? 'Appointment' : 'Document'}
+                          </span>
+                          {reminder.lead_time_minutes && (
+                            <span className="text-muted-foreground"> · {getLeadTimeLabel(reminder.lead_time_minutes)}</span>
+                          )}
+                          <span className="text-muted-foreground"> · {reminder.channel === 'email' ? 'Email' : 'Portal'}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-muted-foreground">
+                            {formatInClientTimezone(reminder.sent_at || reminder.created_at, timezone, DATE_FORMATS.SHORT_DATETIME)}
+                          </span>
+                          <Badge variant={reminder.status === 'sent' ? 'secondary' : 'outline'} className="capitalize">
+                            {reminder.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
       </div>
     </Layout>
   );
@@ -0,0 +1,51 @@
+/**
+ * A payer referral or authorization that covers a limited number of visits. Matches the
+ * insurance_authorizations table; visits_used goes up as the client's sessions are documented.
+ * VA Community Care authorizations also carry the SEOC number the VA approved.
+ */
+export type AuthorizationProgram = 'tricare' | 'va_ccn';
+
+export const TRICARE_REGIONS = ['TRICARE East', 'TRICARE West', 'TRICARE Overseas'] as const;
+
+export type TricareRegion = typeof TRICARE_REGIONS[number];
+
+export interface InsuranceAuthorization {
+  id: string;
+  client_id: string;
+  program: AuthorizationProgram;
+  authorization_number: string;
+  region: TricareRegion | null;
+  seoc_number: string | null;
+  authorized_visits: number;
+  visits_used: number;
+  start_date: string;
+  end_date: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fields staff enter when recording or correcting an authorization
+export type InsuranceAuthorizationInput = Pick<
+  InsuranceAuthorization,
+  'program' | 'authorization_number' | 'region' | 'seoc_number' | 'authorized_visits' | 'visits_used' | 'start_date' | 'end_date' | 'notes'
+>;
+
+export type AuthorizationStatus = 'upcoming' | 'active' | 'running_low' | 'expiring' | 'exhausted' | 'expired';
+
+export type RenewalRequestStatus = 'requested' | 'submitted' | 'approved' | 'denied';
+
+// A request to extend an authorization, raised by the client and followed up by staff with the VA
+export interface AuthorizationRenewalRequest {
+  id: string;
+  authorization_id: string;
+  client_id: string;
+  requested_by: string;
+  reason: string | null;
+  status: RenewalRequestStatus;
+  staff_notes: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
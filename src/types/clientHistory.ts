@@ -0,0 +1,71 @@
+/**
+ * Answers submitted from the Client History form, as built by ClientHistoryTemplate. Saved by
+ * saveClientHistoryOptimized and rendered into the client history PDF.
+ */
+export interface ClientHistoryFamilyMember {
+  relationshipType: string;
+  name: string;
+  personality: string;
+  relationshipGrowing?: string;
+  relationshipNow: string;
+}
+
+export interface ClientHistoryTreatment {
+  year: string;
+  reason: string;
+  length: string;
+  provider: string;
+}
+
+export interface ClientHistoryMedication {
+  name: string;
+  purpose: string;
+  duration: string;
+}
+
+export interface ClientHistorySpouse {
+  name: string;
+  personality: string;
+  relationship: string;
+}
+
+export interface ClientHistorySubmission {
+  client_id?: string;
+  fullName: string;
+  dateOfBirth: string;
+  age: string;
+  state: string;
+  phoneNumber: string;
+  email: string;
+  responses: {
+    currentIssues: string;
+    progressionOfIssues: string;
+    relationshipProblems: string;
+    counselingGoals: string;
+    personalStrengths: string;
+    hobbies: string;
+    educationLevel: string;
+    occupationDetails: string;
+    sleepHours: string;
+  };
+  emergency: {
+    name: string;
+    phone: string;
+    relationship: string;
+  };
+  selectedSymptoms: string[];
+  selectedChildhoodExperiences: string[];
+  selectedMedicalConditions: string[];
+  family: ClientHistoryFamilyMember[];
+  household: ClientHistoryFamilyMember[];
+  treatments: ClientHistoryTreatment[];
+  medications: ClientHistoryMedication[];
+  pastSpouses: ClientHistorySpouse[];
+  isMarried: boolean;
+  showPastSpouses: boolean;
+  showTreatments: boolean;
+  showMedications: boolean;
+  sameHousehold: boolean;
+  signature: string;
+  submissionDate: string;
+}
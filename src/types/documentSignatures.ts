@@ -0,0 +1,36 @@
+/**
+ * Electronic signature captured on a consent form. Matches the document_signatures table;
+ * rows are created through record_document_signature and never change afterwards, apart from
+ * the one-time link to the generated PDF.
+ */
+export type SignatureMethod = 'typed' | 'drawn';
+
+export type SignerRole = 'client' | 'guardian' | 'clinician';
+
+export interface DocumentSignature {
+  id: string;
+  client_id: string;
+  signer_user_id: string;
+  signer_name: string;
+  signer_role: SignerRole;
+  document_type: string;
+  document_title: string;
+  document_version: string | null;
+  document_hash: string;
+  hash_algorithm: string;
+  signature_method: SignatureMethod;
+  // The typed name, or a PNG data URL of the drawn signature
+  signature_data: string;
+  assignment_id: string | null;
+  clinical_document_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  signed_at: string;
+}
+
+// What the signer provides in the form; everything else is added when the signature is recorded
+export interface SignatureInput {
+  signerName: string;
+  method: SignatureMethod;
+  data: string;
+}
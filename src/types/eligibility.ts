@@ -0,0 +1,23 @@
+/**
+ * Result of an insurance eligibility check, as returned by the verify-eligibility edge function
+ * and kept in the client's eligibility_response_details_*_json columns.
+ */
+export type InsuranceLevel = 'primary' | 'secondary' | 'tertiary';
+
+export const INSURANCE_LEVELS: InsuranceLevel[] = ['primary', 'secondary', 'tertiary'];
+
+export type EligibilityStatus = 'active' | 'inactive' | 'error';
+
+export interface EligibilityResult {
+  insuranceLevel: InsuranceLevel;
+  status: EligibilityStatus;
+  planName: string | null;
+  copay: number | null;
+  coinsurancePercent: number | null;
+  deductible: number | null;
+  deductibleRemaining: number | null;
+  outOfPocketRemaining: number | null;
+  errorMessage: string | null;
+  transactionId: string | null;
+  checkedAt: string;
+}
@@ -0,0 +1,25 @@
+/**
+ * Autosaved answers for a document form, keyed by document_assignments.id.
+ * `fields` holds text input values by element id; `state` is whatever the form template needs
+ * to rebuild the rest of its UI (checked options, added rows, yes/no toggles).
+ */
+export interface FormDraftData {
+  fields: Record<string, string>;
+  state: Record<string, unknown>;
+}
+
+// Matches the document_form_drafts table; rows are written through save_document_form_draft
+export interface DocumentFormDraft {
+  assignment_id: string;
+  client_id: string;
+  form_data: FormDraftData;
+  version: number;
+  saved_by_session: string | null;
+  updated_at: string;
+}
+
+export type SaveFormDraftResult =
+  | { status: 'saved'; version: number; updated_at: string }
+  | { status: 'conflict'; version: number | null; form_data: FormDraftData | null; saved_by_session?: string | null; updated_at?: string };
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'conflict' | 'error';
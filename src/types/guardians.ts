@@ -0,0 +1,40 @@
+/**
+ * Parent or guardian linked to a minor client. Matches the client_guardians table; a minor's
+ * request waits for staff approval, and the link becomes active once the guardian accepts it.
+ */
+export type GuardianLinkStatus = 'pending_approval' | 'invited' | 'active' | 'revoked';
+
+export interface ClientGuardian {
+  id: string;
+  client_id: string;
+  guardian_user_id: string | null;
+  guardian_email: string;
+  guardian_name: string;
+  relationship: string;
+  status: GuardianLinkStatus;
+  invited_by: string | null;
+  invited_at: string;
+  accepted_at: string | null;
+}
+
+// A minor's assignment as the guardian sees it, from get_guardian_assignments
+export interface GuardianAssignment {
+  assignment_id: string;
+  client_id: string;
+  client_first_name: string | null;
+  client_last_name: string | null;
+  document_name: string;
+  status: string | null;
+  created_at: string;
+  guardian_signed_at: string | null;
+}
+
+// An invitation waiting for the signed-in guardian to accept, from get_guardian_invitations
+export interface GuardianInvitation {
+  link_id: string;
+  client_id: string;
+  client_first_name: string | null;
+  client_last_name: string | null;
+  relationship: string;
+  invited_at: string;
+}
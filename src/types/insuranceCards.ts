@@ -0,0 +1,24 @@
+import { InsuranceLevel } from '@/types/eligibility';
+
+/**
+ * Photo of one side of an insurance card. Matches the insurance_card_images table; rows with
+ * replaced_at set are earlier photos kept as history.
+ */
+export type InsuranceCardSide = 'front' | 'back';
+
+export const INSURANCE_CARD_SIDES: InsuranceCardSide[] = ['front', 'back'];
+
+export interface InsuranceCardImage {
+  id: string;
+  client_id: string;
+  insurance_level: InsuranceLevel;
+  side: InsuranceCardSide;
+  file_path: string;
+  thumbnail_path: string | null;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by: string;
+  uploaded_at: string;
+  replaced_at: string | null;
+  replaced_by: string | null;
+}
@@ -0,0 +1,39 @@
+/**
+ * Secure messaging between a client and their assigned therapist.
+ * These interfaces match the message_threads, messages and message_attachments tables.
+ */
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  file_path: string;
+  file_name: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  created_at: string;
+}
+
+export interface Message {
+  id: string;
+  thread_id: string;
+  sender_id: string;
+  body: string;
+  read_at: string | null; // Set when the other participant opens the thread
+  created_at: string;
+  message_attachments?: MessageAttachment[];
+}
+
+export interface MessageThread {
+  id: string;
+  client_id: string;
+  clinician_id: string;
+  subject: string;
+  created_by: string;
+  last_message_at: string;
+  created_at: string;
+  clinicians?: {
+    clinician_professional_name: string | null;
+    clinician_first_name: string | null;
+    clinician_last_name: string | null;
+  } | null;
+  unread_count?: number; // Computed client-side
+}
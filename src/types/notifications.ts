@@ -0,0 +1,15 @@
+/**
+ * In-app notifications shown in the header notification center.
+ * Matches the real_time_notifications table.
+ */
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  message: string;
+  entity_type: string | null; // e.g. 'appointment', 'document_assignment', 'safety_event'
+  entity_id: string | null;
+  is_read: boolean | null;
+  priority: 'normal' | 'high';
+  created_at: string;
+}
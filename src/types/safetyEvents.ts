@@ -0,0 +1,22 @@
+/**
+ * Safety events opened when a client reports thoughts of self-harm: PHQ-9 item 9 above zero,
+ * or a critical item on another instrument such as the C-SSRS screener.
+ * Matches the client_safety_events table; rows are created by the database and only closed
+ * through resolve_client_safety_event.
+ */
+export interface ClientSafetyEvent {
+  id: string;
+  client_id: string;
+  clinician_id: string | null;
+  source: 'phq9_item9' | 'instrument_critical_item';
+  phq9_assessment_id: string | null;
+  instrument_assessment_id: string | null;
+  item_score: number;
+  summary: string | null;
+  previous_client_status: string | null;
+  status: 'open' | 'resolved';
+  resolved_by: string | null;
+  resolved_at: string | null;
+  resolution_notes: string | null;
+  created_at: string;
+}
@@ -0,0 +1,81 @@
+import { parseISO } from 'date-fns';
+
+/**
+ * Client-facing appointment policy helpers.
+ * Policy values live in `system_settings` so the practice can change them without a deploy.
+ */
+
+export const DEFAULT_LATE_CHANGE_WINDOW_HOURS = 24;
+
+export interface AppointmentPolicy {
+  lateChangeWindowHours: number;
+  lateCancellationFee: number;
+  noShowFee: number;
+  atRiskStrikeThreshold: number;
+}
+
+export const DEFAULT_APPOINTMENT_POLICY: AppointmentPolicy = {
+  lateChangeWindowHours: DEFAULT_LATE_CHANGE_WINDOW_HOURS,
+  lateCancellationFee: 0,
+  noShowFee: 0,
+  atRiskStrikeThreshold: 3
+};
+
+export type PolicyViolationType = 'late_cancellation' | 'no_show';
+export type PolicyViolationStatus = 'open' | 'paid' | 'waived';
+
+export interface PolicyViolation {
+  id: string;
+  client_id: string;
+  appointment_id: string;
+  violation_type: PolicyViolationType;
+  fee_amount: number;
+  hours_before_start: number | null;
+  status: PolicyViolationStatus;
+  notes: string | null;
+  created_at: string;
+  appointments?: {
+    start_at: string;
+    type: string;
+  } | null;
+}
+
+/**
+ * Returns true when the appointment starts more than `windowHours` from now, i.e. the client
+ * can still cancel or reschedule it without it counting as a late change
+ */
+export const isOutsideLateChangeWindow = (
+  appointmentStart: string,
+  windowHours: number = DEFAULT_LATE_CHANGE_WINDOW_HOURS,
+  now: Date = new Date()
+): boolean => {
+  try {
+    const appointmentDate = parseISO(appointmentStart);
+    const hoursUntilAppointment = (appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+    return hoursUntilAppointment > windowHours;
+  } catch (error) {
+    console.error('Error calculating appointment time difference:', error);
+    return false;
+  }
+};
+
+/**
+ * Waived violations do not count as strikes; paid ones still do
+ */
+export const countActiveStrikes = (violations: PolicyViolation[]): number => {
+  return violations.filter(violation => violation.status !== 'waived').length;
+};
+
+export const getOutstandingFees = (violations: PolicyViolation[]): number => {
+  return violations
+    .filter(violation => violation.status === 'open')
+    .reduce((total, violation) => total + Number(violation.fee_amount || 0), 0);
+};
+
+export const getViolationLabel = (type: PolicyViolationType): string => {
+  return type === 'no_show' ? 'No-show' : 'Late cancellation';
+};
+
+export const formatFee = (amount: number): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount || 0);
+};
@@ -0,0 +1,108 @@
+/**
+ * Score history helpers for the client "My Progress" view.
+ * Severity bands mirror the interpretations used in the assessment templates and the
+ * generate-phq9-narrative function.
+ */
+
+export type AssessmentInstrument = 'phq9' | 'gad7' | 'pcl5';
+
+export interface SeverityBand {
+  label: string;
+  min: number;
+  max: number;
+  color: string;
+}
+
+export interface InstrumentDefinition {
+  label: string;
+  description: string;
+  maxScore: number;
+  bands: SeverityBand[];
+  // Smallest change in total score treated as reliable rather than measurement noise
+  reliableChange: number;
+}
+
+export interface AssessmentScore {
+  id: string;
+  assessment_date: string;
+  total_score: number;
+  created_at: string;
+}
+
+export interface ProgressPoint extends AssessmentScore {
+  severity: SeverityBand | null;
+  change: number | null; // Difference from the previous administration
+  reliableChange: 'improved' | 'worsened' | null;
+}
+
+const BAND_COLORS = {
+  minimal: 'hsl(142 71% 45%)',
+  mild: 'hsl(48 96% 53%)',
+  moderate: 'hsl(25 95% 53%)',
+  moderatelySevere: 'hsl(0 72% 60%)',
+  severe: 'hsl(0 72% 45%)'
+};
+
+export const ASSESSMENT_INSTRUMENTS: Record<AssessmentInstrument, InstrumentDefinition> = {
+  phq9: {
+    label: 'PHQ-9',
+    description: 'Depression',
+    maxScore: 27,
+    bands: [
+      { label: 'None-minimal', min: 0, max: 4, color: BAND_COLORS.minimal },
+      { label: 'Mild', min: 5, max: 9, color: BAND_COLORS.mild },
+      { label: 'Moderate', min: 10, max: 14, color: BAND_COLORS.moderate },
+      { label: 'Moderately severe', min: 15, max: 19, color: BAND_COLORS.moderatelySevere },
+      { label: 'Severe', min: 20, max: 27, color: BAND_COLORS.severe }
+    ],
+    reliableChange: 6
+  },
+  gad7: {
+    label: 'GAD-7',
+    description: 'Anxiety',
+    maxScore: 21,
+    bands: [
+      { label: 'Minimal', min: 0, max: 4, color: BAND_COLORS.minimal },
+      { label: 'Mild', min: 5, max: 9, color: BAND_COLORS.mild },
+      { label: 'Moderate', min: 10, max: 14, color: BAND_COLORS.moderate },
+      { label: 'Severe', min: 15, max: 21, color: BAND_COLORS.severe }
+    ],
+    reliableChange: 4
+  },
+  pcl5: {
+    label: 'PCL-5',
+    description: 'Post-traumatic stress',
+    maxScore: 80,
+    bands: [
+      { label: 'Below threshold', min: 0, max: 32, color: BAND_COLORS.minimal },
+      { label: 'Probable PTSD', min: 33, max: 80, color: BAND_COLORS.severe }
+    ],
+    reliableChange: 10
+  }
+};
+
+export const getSeverityBand = (instrument: AssessmentInstrument, score: number): SeverityBand | null =>
+  ASSESSMENT_INSTRUMENTS[instrument].bands.find(band => score >= band.min && score <= band.max) || null;
+
+/**
+ * Orders administrations oldest first and annotates each with its severity band and any
+ * reliable change from the one before. Lower scores are better on all three instruments.
+ */
+export const buildProgressSeries = (instrument: AssessmentInstrument, scores: AssessmentScore[]): ProgressPoint[] => {
+  const threshold = ASSESSMENT_INSTRUMENTS[instrument].reliableChange;
+  const ordered = [...scores].sort((a, b) =>
+    a.assessment_date.localeCompare(b.assessment_date) || a.created_at.localeCompare(b.created_at)
+  );
+
+  return ordered.map((score, index) => {
+    const previous = index > 0 ? ordered[index - 1] : null;
+    const change = previous ? score.total_score - previous.total_score : null;
+
+    let reliableChange: ProgressPoint['reliableChange'] = null;
+    if (change !== null && Math.abs(change) >= threshold) {
+      reliableChange = change < 0 ? 'improved' : 'worsened';
+    }
+
+    return { ...score, severity: getSeverityBand(instrument, score.total_score), change, reliableChange };
+  });
+};
@@ -0,0 +1,209 @@
+import { format, parseISO } from 'date-fns';
+import {
+  AuthorizationProgram,
+  AuthorizationRenewalRequest,
+  AuthorizationStatus,
+  InsuranceAuthorization,
+  RenewalRequestStatus
+} from '@/types/authorizations';
+import { formatInClientTimezone, getSafeTimezone } from '@/utils/dateFormatting';
+
+// Clients are warned once this few visits are left, or this many days before the end date
+export const AUTHORIZATION_LOW_VISIT_THRESHOLD = 2;
+export const AUTHORIZATION_EXPIRING_DAYS = 14;
+
+export const AUTHORIZATION_PROGRAM_LABELS: Record<AuthorizationProgram, string> = {
+  tricare: 'TRICARE referral',
+  va_ccn: 'VA Community Care authorization'
+};
+
+// What the client can do when their covered visits are running out
+const RENEWAL_ADVICE: Record<AuthorizationProgram, string> = {
+  tricare: 'Ask your primary care manager for a new or extended referral so your sessions stay covered.',
+  va_ccn: 'Request a renewal from the Insurance tab so your care team can ask the VA to extend it.'
+};
+
+export const RENEWAL_REQUEST_STATUS_LABELS: Record<RenewalRequestStatus, string> = {
+  requested: 'Renewal requested',
+  submitted: 'Sent to the VA',
+  approved: 'Renewal approved',
+  denied: 'Renewal denied'
+};
+
+export const AUTHORIZATION_STATUS_LABELS: Record<AuthorizationStatus, string> = {
+  upcoming: 'Not started',
+  active: 'Active',
+  running_low: 'Running low',
+  expiring: 'Expiring soon',
+  exhausted: 'All visits used',
+  expired: 'Expired'
+};
+
+export interface AuthorizationWarning {
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+// Authorization dates are calendar days for the client, so sessions are dated in their timezone
+export const getSessionDateKey = (startAt: string, timezone: string | null | undefined) =>
+  formatInClientTimezone(startAt, getSafeTimezone(timezone), 'yyyy-MM-dd');
+
+// Today for the client, not for whoever's browser is showing the authorization
+const getTodayKey = (timezone: string | null | undefined, now: Date) => getSessionDateKey(now.toISOString(), timezone);
+
+const daysUntil = (dateKey: string, todayKey: string) =>
+  Math.round((parseISO(dateKey).getTime() - parseISO(todayKey).getTime()) / (24 * 60 * 60 * 1000));
+
+// The VA coverage chosen at signup decides which kind of authorization a client needs
+export const getAuthorizationProgram = (vaCoverage: string | null | undefined): AuthorizationProgram | null => {
+  if (vaCoverage === 'TRICARE') return 'tricare';
+  if (vaCoverage === 'VA Community Care') return 'va_ccn';
+  return null;
+};
+
+export const formatAuthorizationDate = (dateKey: string) => format(parseISO(dateKey), 'MMM d, yyyy');
+
+export const getRemainingVisits = (authorization: InsuranceAuthorization) =>
+  Math.max(0, authorization.authorized_visits - authorization.visits_used);
+
+export const getAuthorizationStatus = (
+  authorization: InsuranceAuthorization,
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): AuthorizationStatus => {
+  const todayKey = getTodayKey(timezone, now);
+  if (authorization.start_date > todayKey) return 'upcoming';
+  if (authorization.end_date < todayKey) return 'expired';
+
+  const remaining = getRemainingVisits(authorization);
+  if (remaining === 0) return 'exhausted';
+  if (remaining <= AUTHORIZATION_LOW_VISIT_THRESHOLD) return 'running_low';
+  if (daysUntil(authorization.end_date, todayKey) <= AUTHORIZATION_EXPIRING_DAYS) return 'expiring';
+  return 'active';
+};
+
+/**
+ * The authorization that matters to the client right now: one covering today with visits left,
+ * then one that starts later, then the most recent one that ended or ran out.
+ */
+export const getCurrentAuthorization = (
+  authorizations: InsuranceAuthorization[],
+  program: AuthorizationProgram,
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): InsuranceAuthorization | undefined => {
+  const todayKey = getTodayKey(timezone, now);
+  const forProgram = authorizations.filter(authorization => authorization.program === program);
+  const byEndDate = [...forProgram].sort((a, b) => a.end_date.localeCompare(b.end_date));
+
+  return (
+    byEndDate.find(a => a.start_date <= todayKey && a.end_date >= todayKey && getRemainingVisits(a) > 0) ||
+    byEndDate.find(a => a.start_date > todayKey) ||
+    byEndDate[byEndDate.length - 1]
+  );
+};
+
+// Scheduled sessions that fall inside the authorization and will each use a visit
+export const countScheduledVisits = (
+  authorization: InsuranceAuthorization,
+  appointments: { start_at: string; status: string }[],
+  timezone: string | null | undefined
+) =>
+  appointments.filter(appointment => {
+    const dateKey = getSessionDateKey(appointment.start_at, timezone);
+    return appointment.status === 'scheduled' && dateKey >= authorization.start_date && dateKey <= authorization.end_date;
+  }).length;
+
+/**
+ * What the client should be told about their authorization before their covered sessions run
+ * out, or null when there is nothing to act on yet.
+ */
+export const getAuthorizationWarning = (
+  authorization: InsuranceAuthorization | undefined,
+  program: AuthorizationProgram,
+  timezone: string | null | undefined,
+  scheduledVisits = 0,
+  now: Date = new Date()
+): AuthorizationWarning | null => {
+  const label = AUTHORIZATION_PROGRAM_LABELS[program];
+
+  if (!authorization) {
+    return {
+      severity: 'warning',
+      message: program === 'tricare'
+        ? `We don't have a ${label} on file for you yet. Ask your primary care manager for a referral and let your care team know the referral number.`
+        : `We don't have a ${label} on file for you yet. Your care team will add it once the VA sends your referral.`
+    };
+  }
+
+  const remaining = getRemainingVisits(authorization);
+  const visits = (count: number) => `${count} visit${count === 1 ? '' : 's'}`;
+
+  switch (getAuthorizationStatus(authorization, timezone, now)) {
+    case 'expired':
+      return {
+        severity: 'error',
+        message: `Your ${label} ended on ${formatAuthorizationDate(authorization.end_date)}. ${RENEWAL_ADVICE[program]}`
+      };
+    case 'exhausted':
+      return {
+        severity: 'error',
+        message: `You have used all ${visits(authorization.authorized_visits)} on your ${label}. ${RENEWAL_ADVICE[program]}`
+      };
+    case 'running_low':
+    case 'expiring':
+    case 'active': {
+      const endsSoon = daysUntil(authorization.end_date, getTodayKey(timezone, now)) <= AUTHORIZATION_EXPIRING_DAYS;
+      if (remaining > AUTHORIZATION_LOW_VISIT_THRESHOLD && scheduledVisits < remaining && !endsSoon) {
+        return null;
+      }
+      const scheduled = scheduledVisits > 0 ? ` and ${scheduledVisits} session${scheduledVisits === 1 ? '' : 's'} scheduled` : '';
+      return {
+        severity: scheduledVisits > remaining ? 'error' : 'warning',
+        message: `You have ${visits(remaining)} left on your ${label}${scheduled}, and it ends on ${formatAuthorizationDate(authorization.end_date)}. ${RENEWAL_ADVICE[program]}`
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// Renewals can be requested once an authorization is close to running out
+export const canRequestRenewal = (
+  authorization: InsuranceAuthorization,
+  timezone: string | null | undefined,
+  now: Date = new Date()
+) => ['running_low', 'expiring', 'exhausted', 'expired'].includes(getAuthorizationStatus(authorization, timezone, now));
+
+export const getOpenRenewalRequest = (requests: AuthorizationRenewalRequest[], authorizationId: string) =>
+  requests.find(request => request.authorization_id === authorizationId && (request.status === 'requested' || request.status === 'submitted'));
+
+export interface SelfSchedulingLimit {
+  // Last date a session can be booked online, as yyyy-MM-dd
+  bookableUntil: string;
+  // Set when no new sessions can be booked at all
+  blockedReason: string | null;
+}
+
+/**
+ * How far ahead a VA Community Care client can book online. Sessions must fall inside one of
+ * their authorizations; the database enforces the same rule when the booking is saved.
+ */
+export const getSelfSchedulingLimit = (
+  authorizations: InsuranceAuthorization[],
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): SelfSchedulingLimit | null => {
+  const ccnAuthorizations = authorizations.filter(authorization => authorization.program === 'va_ccn');
+  if (ccnAuthorizations.length === 0) return null;
+
+  const bookableUntil = ccnAuthorizations.map(authorization => authorization.end_date).sort().reverse()[0];
+  const expired = bookableUntil < getTodayKey(timezone, now);
+
+  return {
+    bookableUntil,
+    blockedReason: expired
+      ? `Your ${AUTHORIZATION_PROGRAM_LABELS.va_ccn} ended on ${formatAuthorizationDate(bookableUntil)}, so new sessions can't be booked online until the VA renews it. ${RENEWAL_ADVICE.va_ccn} You can still contact your clinician to schedule.`
+      : null
+  };
+};
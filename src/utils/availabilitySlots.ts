@@ -0,0 +1,294 @@
+import { addDays, addMinutes, differenceInCalendarDays, format, getDay, parseISO } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+/**
+ * Utility functions for turning a clinician's availability into bookable slots.
+ *
+ * All inputs and outputs are UTC instants. Recurring availability and exceptions are
+ * expanded in the clinician's timezone so that weekly hours stay on the same wall-clock
+ * time across Daylight Saving Time transitions.
+ */
+
+/**
+ * Shape of `availability_blocks.recurring_pattern`.
+ * A block without a pattern is a one-off window between its `start_at` and `end_at`.
+ */
+export interface RecurringPattern {
+  frequency: 'daily' | 'weekly';
+  interval?: number;
+  days_of_week?: Array<number | string>;
+  until?: string | null;
+  count?: number | null;
+  timezone?: string | null;
+}
+
+export interface AvailabilityBlock {
+  id: string;
+  start_at: string;
+  end_at: string;
+  is_active?: boolean;
+  recurring_pattern?: RecurringPattern | null;
+}
+
+export interface AvailabilityException {
+  specific_date: string;
+  start_time: string;
+  end_time: string;
+  is_active?: boolean | null;
+  is_deleted?: boolean | null;
+}
+
+export interface BusyInterval {
+  start_at: string;
+  end_at: string;
+  buffer_before?: number | null;
+  buffer_after?: number | null;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface OpenSlot {
+  start_at: string;
+  end_at: string;
+}
+
+export interface SlotGenerationOptions {
+  blocks: AvailabilityBlock[];
+  exceptions?: AvailabilityException[];
+  busy?: BusyInterval[];
+  clinicianTimezone: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  durationMinutes: number;
+  stepMinutes?: number;
+  earliestStart?: Date;
+}
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Maps `clinicians.clinician_time_granularity` to a slot step in minutes
+ */
+export const getSlotStepMinutes = (granularity?: string | null): number => {
+  switch (granularity?.toLowerCase()) {
+    case 'quarter':
+    case 'quarter_hour':
+    case '15':
+      return 15;
+    case 'half':
+    case 'half_hour':
+    case '30':
+      return 30;
+    default:
+      return 60;
+  }
+};
+
+const toDayIndex = (day: number | string): number => {
+  if (typeof day === 'number') return day % 7;
+  const normalized = day.toLowerCase().trim();
+  const index = DAY_NAMES.findIndex(name => name.startsWith(normalized.slice(0, 3)));
+  return index;
+};
+
+const overlaps = (a: TimeInterval, b: TimeInterval): boolean => a.start < b.end && b.start < a.end;
+
+/**
+ * Merges overlapping or touching intervals into a sorted, non-overlapping list
+ */
+export const mergeIntervals = (intervals: TimeInterval[]): TimeInterval[] => {
+  const sorted = [...intervals]
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: new Date(interval.start), end: new Date(interval.end) });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Removes every `removals` interval from `intervals`, splitting where necessary
+ */
+export const subtractIntervals = (intervals: TimeInterval[], removals: TimeInterval[]): TimeInterval[] => {
+  const sortedRemovals = mergeIntervals(removals);
+  const result: TimeInterval[] = [];
+
+  for (const interval of mergeIntervals(intervals)) {
+    let cursor = interval.start;
+    for (const removal of sortedRemovals) {
+      if (removal.end <= cursor || removal.start >= interval.end) continue;
+      if (removal.start > cursor) {
+        result.push({ start: cursor, end: removal.start });
+      }
+      if (removal.end > cursor) cursor = removal.end;
+      if (cursor >= interval.end) break;
+    }
+    if (cursor < interval.end) {
+      result.push({ start: cursor, end: interval.end });
+    }
+  }
+  return result;
+};
+
+/**
+ * Expands availability blocks (one-off and recurring) into concrete UTC intervals
+ * that overlap the requested range
+ */
+export const expandAvailabilityBlocks = (
+  blocks: AvailabilityBlock[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  clinicianTimezone: string
+): TimeInterval[] => {
+  const range = { start: rangeStart, end: rangeEnd };
+  const intervals: TimeInterval[] = [];
+
+  for (const block of blocks) {
+    if (block.is_active === false) continue;
+
+    const blockStart = parseISO(block.start_at);
+    const blockEnd = parseISO(block.end_at);
+    const durationMs = blockEnd.getTime() - blockStart.getTime();
+    if (durationMs <= 0) continue;
+
+    const pattern = block.recurring_pattern;
+    if (!pattern || !pattern.frequency) {
+      const interval = { start: blockStart, end: blockEnd };
+      if (overlaps(interval, range)) intervals.push(interval);
+      continue;
+    }
+
+    const timezone = pattern.timezone || clinicianTimezone;
+    const interval = Math.max(1, pattern.interval || 1);
+    const firstDate = parseISO(formatInTimeZone(blockStart, timezone, 'yyyy-MM-dd'));
+    const localTime = formatInTimeZone(blockStart, timezone, 'HH:mm:ss');
+    const daysOfWeek = (pattern.days_of_week?.length ? pattern.days_of_week.map(toDayIndex) : [getDay(firstDate)])
+      .filter(day => day >= 0);
+
+    const untilDate = pattern.until ? parseISO(pattern.until.slice(0, 10)) : null;
+    // Start one day early so occurrences that begin before the range but run into it are kept
+    const rangeFirstDate = addDays(parseISO(formatInTimeZone(rangeStart, timezone, 'yyyy-MM-dd')), -1);
+    const rangeLastDate = parseISO(formatInTimeZone(rangeEnd, timezone, 'yyyy-MM-dd'));
+
+    let occurrenceCount = 0;
+    for (let day = firstDate; day <= rangeLastDate; day = addDays(day, 1)) {
+      if (untilDate && day > untilDate) break;
+
+      const daysSinceStart = differenceInCalendarDays(day, firstDate);
+      const matches = pattern.frequency === 'daily'
+        ? daysSinceStart % interval === 0
+        : daysOfWeek.includes(getDay(day)) && Math.floor(daysSinceStart / 7) % interval === 0;
+      if (!matches) continue;
+
+      occurrenceCount++;
+      if (pattern.count && occurrenceCount > pattern.count) break;
+      if (day < rangeFirstDate) continue;
+
+      const start = fromZonedTime(`${format(day, 'yyyy-MM-dd')}T${localTime}`, timezone);
+      const occurrence = { start, end: new Date(start.getTime() + durationMs) };
+      if (overlaps(occurrence, range)) intervals.push(occurrence);
+    }
+  }
+
+  return mergeIntervals(intervals);
+};
+
+/**
+ * Converts `availability_exceptions` rows (local date + time in the clinician's timezone)
+ * into UTC intervals that should be removed from availability
+ */
+export const exceptionsToIntervals = (
+  exceptions: AvailabilityException[],
+  clinicianTimezone: string
+): TimeInterval[] => {
+  return exceptions
+    .filter(exception => exception.is_active !== false && !exception.is_deleted)
+    .map(exception => ({
+      start: fromZonedTime(`${exception.specific_date}T${exception.start_time}`, clinicianTimezone),
+      end: fromZonedTime(`${exception.specific_date}T${exception.end_time}`, clinicianTimezone)
+    }));
+};
+
+/**
+ * Converts busy rows (appointments and blocked time) into intervals, padding each
+ * appointment with its `buffer_before`/`buffer_after` minutes
+ */
+export const busyToIntervals = (busy: BusyInterval[]): TimeInterval[] => {
+  return busy.map(item => ({
+    start: addMinutes(parseISO(item.start_at), -(item.buffer_before || 0)),
+    end: addMinutes(parseISO(item.end_at), item.buffer_after || 0)
+  }));
+};
+
+/**
+ * Rounds a time up to the next step boundary on the clinician's local clock
+ */
+const alignToStep = (time: Date, stepMinutes: number, timezone: string): Date => {
+  const aligned = new Date(time);
+  aligned.setUTCSeconds(0, 0);
+  if (aligned < time) aligned.setTime(aligned.getTime() + 60 * 1000);
+
+  const localMinutes = parseInt(formatInTimeZone(aligned, timezone, 'H'), 10) * 60 +
+    parseInt(formatInTimeZone(aligned, timezone, 'm'), 10);
+  const remainder = localMinutes % stepMinutes;
+  return remainder === 0 ? aligned : addMinutes(aligned, stepMinutes - remainder);
+};
+
+/**
+ * Generates bookable slots of `durationMinutes` from the clinician's availability,
+ * minus exceptions and busy time, starting on `stepMinutes` boundaries
+ */
+export const generateOpenSlots = ({
+  blocks,
+  exceptions = [],
+  busy = [],
+  clinicianTimezone,
+  rangeStart,
+  rangeEnd,
+  durationMinutes,
+  stepMinutes = 60,
+  earliestStart
+}: SlotGenerationOptions): OpenSlot[] => {
+  const available = expandAvailabilityBlocks(blocks, rangeStart, rangeEnd, clinicianTimezone);
+  const free = subtractIntervals(available, [
+    ...exceptionsToIntervals(exceptions, clinicianTimezone),
+    ...busyToIntervals(busy)
+  ]);
+
+  const lowerBound = earliestStart && earliestStart > rangeStart ? earliestStart : rangeStart;
+  const slots: OpenSlot[] = [];
+
+  for (const interval of free) {
+    const windowStart = interval.start > lowerBound ? interval.start : lowerBound;
+    let candidate = alignToStep(windowStart, stepMinutes, clinicianTimezone);
+
+    while (addMinutes(candidate, durationMinutes) <= interval.end && candidate < rangeEnd) {
+      const end = addMinutes(candidate, durationMinutes);
+      slots.push({ start_at: candidate.toISOString(), end_at: end.toISOString() });
+      candidate = addMinutes(candidate, stepMinutes);
+    }
+  }
+
+  return slots;
+};
+
+/**
+ * Groups slots by calendar day in the given (client) timezone, keyed by yyyy-MM-dd
+ */
+export const groupSlotsByDay = (slots: OpenSlot[], timezone: string): Record<string, OpenSlot[]> => {
+  return slots.reduce<Record<string, OpenSlot[]>>((groups, slot) => {
+    const key = formatInTimeZone(parseISO(slot.start_at), timezone, 'yyyy-MM-dd');
+    (groups[key] = groups[key] || []).push(slot);
+    return groups;
+  }, {});
+};
@@ -0,0 +1,286 @@
+import { INSURANCE_LEVELS, InsuranceLevel } from '@/types/eligibility';
+import { format, isValid } from 'date-fns';
+
+/**
+ * Coordination of benefits checks for a client's primary, secondary and tertiary policies.
+ * Errors describe coverage that cannot be billed in the order given and block saving; warnings
+ * point out details the client should double-check.
+ */
+
+export type CoordinationIssueSeverity = 'error' | 'warning';
+
+export type CoordinationIssueField =
+  | 'insurance_company'
+  | 'policy_number'
+  | 'subscriber_name'
+  | 'subscriber_relationship'
+  | 'subscriber_dob';
+
+export interface CoordinationIssue {
+  severity: CoordinationIssueSeverity;
+  // Null for problems with the client's coverage as a whole
+  level: InsuranceLevel | null;
+  field: CoordinationIssueField | null;
+  message: string;
+}
+
+type DateValue = Date | string | null;
+
+type PolicyValues = {
+  [K in `client_${'insurance_company' | 'insurance_type' | 'policy_number' | 'subscriber_name' | 'subscriber_relationship'}_${InsuranceLevel}`]?: string | null;
+} & {
+  [K in `client_subscriber_dob_${InsuranceLevel}`]?: DateValue;
+};
+
+export type CoordinationOfBenefitsValues = PolicyValues & {
+  client_first_name?: string | null;
+  client_last_name?: string | null;
+  client_date_of_birth?: DateValue;
+  client_vacoverage?: string | null;
+};
+
+// How a policy is ordered against the others: TRICARE and CHAMPVA pay after other health
+// insurance, and Medicaid pays after everything else
+type PayerCategory = 'tricare' | 'champva' | 'medicaid' | 'other';
+
+interface Policy {
+  level: InsuranceLevel;
+  label: string;
+  company: string;
+  policyNumber: string;
+  category: PayerCategory;
+  subscriberName: string;
+  relationship: string;
+  subscriberDob: string | null;
+}
+
+const LEVEL_LABELS: Record<InsuranceLevel, string> = {
+  primary: 'primary',
+  secondary: 'secondary',
+  tertiary: 'tertiary'
+};
+
+const PAYER_NAMES: Record<Exclude<PayerCategory, 'other'>, string> = {
+  tricare: 'TRICARE',
+  champva: 'CHAMPVA',
+  medicaid: 'Medicaid'
+};
+
+// Dates are compared as yyyy-MM-dd keys; form values are Date objects while saved values are strings
+const toDateKey = (value: DateValue | undefined): string | null => {
+  if (!value) return null;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const date = value instanceof Date ? value : new Date(value);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+};
+
+const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Member IDs are printed with varying spaces and dashes
+const normalizePolicyNumber = (value: string | null | undefined) => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const getPayerCategory = (type: string | null | undefined, company: string | null | undefined): PayerCategory => {
+  const description = `${normalize(type)} ${normalize(company)}`;
+  if (description.includes('tricare')) return 'tricare';
+  if (description.includes('champva')) return 'champva';
+  if (description.includes('medicaid')) return 'medicaid';
+  return 'other';
+};
+
+const describePolicy = (policy: Policy) =>
+  policy.company ? `your ${policy.label} policy with ${policy.company}` : `your ${policy.label} policy`;
+
+const getPolicies = (values: CoordinationOfBenefitsValues): Policy[] =>
+  INSURANCE_LEVELS.map(level => ({
+    level,
+    label: LEVEL_LABELS[level],
+    company: (values[`client_insurance_company_${level}`] || '').trim(),
+    policyNumber: normalizePolicyNumber(values[`client_policy_number_${level}`]),
+    category: getPayerCategory(values[`client_insurance_type_${level}`], values[`client_insurance_company_${level}`]),
+    subscriberName: normalize(values[`client_subscriber_name_${level}`]),
+    relationship: values[`client_subscriber_relationship_${level}`] || '',
+    subscriberDob: toDateKey(values[`client_subscriber_dob_${level}`])
+  }));
+
+const isEntered = (policy: Policy) => !!policy.company || !!policy.policyNumber;
+
+const checkLevelOrder = (policies: Policy[], issues: CoordinationIssue[]) => {
+  policies.forEach((policy, index) => {
+    const previous = policies[index - 1];
+    if (previous && isEntered(policy) && !isEntered(previous)) {
+      issues.push({
+        severity: 'error',
+        level: policy.level,
+        field: 'insurance_company',
+        message: `This ${policy.label} policy is listed without a ${previous.label} policy. Move it up to ${previous.label}.`
+      });
+    }
+  });
+};
+
+const checkDuplicates = (policies: Policy[], issues: CoordinationIssue[]) => {
+  policies.forEach((policy, index) => {
+    if (!policy.policyNumber) return;
+
+    const earlier = policies.slice(0, index).find(other => other.policyNumber === policy.policyNumber);
+    if (!earlier) return;
+
+    const sameCompany = !policy.company || !earlier.company || normalize(policy.company) === normalize(earlier.company);
+    issues.push(sameCompany
+      ? {
+          severity: 'error',
+          level: policy.level,
+          field: 'policy_number',
+          message: `This policy is already listed as ${describePolicy(earlier)}. Each policy should only be entered once.`
+        }
+      : {
+          severity: 'warning',
+          level: policy.level,
+          field: 'policy_number',
+          message: `This policy number is the same as ${describePolicy(earlier)}. Check the member ID on each card.`
+        });
+  });
+};
+
+const checkSubscribers = (policies: Policy[], values: CoordinationOfBenefitsValues, issues: CoordinationIssue[]) => {
+  const today = toDateKey(new Date());
+  const clientDob = toDateKey(values.client_date_of_birth);
+  const clientName = normalize(`${values.client_first_name || ''} ${values.client_last_name || ''}`);
+
+  policies.filter(isEntered).forEach((policy, index, entered) => {
+    if (policy.subscriberDob && today && policy.subscriberDob > today) {
+      issues.push({
+        severity: 'error',
+        level: policy.level,
+        field: 'subscriber_dob',
+        message: 'The subscriber date of birth is in the future.'
+      });
+    }
+
+    if (policy.relationship === 'Self') {
+      if (policy.subscriberDob && clientDob && policy.subscriberDob !== clientDob) {
+        issues.push({
+          severity: 'error',
+          level: policy.level,
+          field: 'subscriber_dob',
+          message: 'You are the subscriber on this policy, so the subscriber date of birth must match your own.'
+        });
+      }
+      if (policy.subscriberName && clientName && policy.subscriberName !== clientName) {
+        issues.push({
+          severity: 'warning',
+          level: policy.level,
+          field: 'subscriber_name',
+          message: 'You are the subscriber on this policy, but the subscriber name does not match your name. Use the name printed on the card.'
+        });
+      }
+    } else if (
+      policy.relationship &&
+      policy.subscriberName &&
+      policy.subscriberName === clientName &&
+      policy.subscriberDob &&
+      policy.subscriberDob === clientDob
+    ) {
+      issues.push({
+        severity: 'warning',
+        level: policy.level,
+        field: 'subscriber_relationship',
+        message: `The subscriber has your name and date of birth. If the policy is in your name, choose "Self" as the relationship.`
+      });
+    }
+
+    // The subscriber is the policyholder, so a child on a parent's policy is always the younger of the two
+    if (policy.relationship === 'Child' && policy.subscriberDob && clientDob && policy.subscriberDob >= clientDob) {
+      issues.push({
+        severity: 'error',
+        level: policy.level,
+        field: 'subscriber_dob',
+        message: 'You are listed as the subscriber\'s child, but the subscriber is not older than you. Check the relationship and date of birth.'
+      });
+    }
+
+    const sameSubscriber = entered
+      .slice(0, index)
+      .find(other => policy.subscriberName && other.subscriberName === policy.subscriberName);
+    if (sameSubscriber && sameSubscriber.subscriberDob && policy.subscriberDob && sameSubscriber.subscriberDob !== policy.subscriberDob) {
+      issues.push({
+        severity: 'error',
+        level: policy.level,
+        field: 'subscriber_dob',
+        message: `The same subscriber is listed with a different date of birth on ${describePolicy(sameSubscriber)}.`
+      });
+    }
+  });
+};
+
+const checkPayerOrder = (policies: Policy[], values: CoordinationOfBenefitsValues, issues: CoordinationIssue[]) => {
+  const entered = policies.filter(isEntered);
+
+  entered.forEach((policy, index) => {
+    const later = entered.slice(index + 1);
+
+    // TRICARE and CHAMPVA are secondary to any other health insurance except Medicaid
+    if (policy.category === 'tricare' || policy.category === 'champva') {
+      const otherInsurance = later.find(other => other.category === 'other');
+      if (otherInsurance) {
+        issues.push({
+          severity: 'error',
+          level: policy.level,
+          field: 'insurance_company',
+          message: `${PAYER_NAMES[policy.category]} pays after other health insurance, so ${describePolicy(otherInsurance)} must be listed before it.`
+        });
+      }
+    }
+
+    if (policy.category === 'medicaid' && later.some(other => other.category !== 'medicaid')) {
+      issues.push({
+        severity: 'error',
+        level: policy.level,
+        field: 'insurance_company',
+        message: 'Medicaid always pays last, so it must be listed after your other policies.'
+      });
+    }
+  });
+
+  // TRICARE and CHAMPVA details are collected with the VA coverage, not as another policy
+  const vaCoverage = getPayerCategory(values.client_vacoverage, null);
+  if (vaCoverage === 'tricare' || vaCoverage === 'champva') {
+    entered
+      .filter(policy => policy.category === vaCoverage)
+      .forEach(policy => issues.push({
+        severity: 'warning',
+        level: policy.level,
+        field: 'insurance_company',
+        message: `Your ${PAYER_NAMES[vaCoverage]} coverage is already on file with your VA coverage details. List only your other health insurance here.`
+      }));
+  }
+
+  // CHAMPVA is only available to people who are not eligible for TRICARE
+  const categories = new Set([...entered.map(policy => policy.category), vaCoverage]);
+  if (categories.has('tricare') && categories.has('champva')) {
+    issues.push({
+      severity: 'warning',
+      level: null,
+      field: null,
+      message: 'Both TRICARE and CHAMPVA are listed, but CHAMPVA only covers people who are not eligible for TRICARE. Check which program covers you.'
+    });
+  }
+};
+
+export const validateCoordinationOfBenefits = (values: CoordinationOfBenefitsValues): CoordinationIssue[] => {
+  const policies = getPolicies(values);
+  const issues: CoordinationIssue[] = [];
+
+  checkLevelOrder(policies, issues);
+  checkDuplicates(policies, issues);
+  checkSubscribers(policies, values, issues);
+  checkPayerOrder(policies, values, issues);
+
+  return issues;
+};
+
+export const getIssuesForLevel = (issues: CoordinationIssue[], level: InsuranceLevel | null) =>
+  issues.filter(issue => issue.level === level);
+
+export const hasBlockingIssues = (issues: CoordinationIssue[], levels: (InsuranceLevel | null)[] = [...INSURANCE_LEVELS, null]) =>
+  issues.some(issue => issue.severity === 'error' && levels.includes(issue.level));
@@ -0,0 +1,34 @@
+// Hotlines shown to clients whenever a safety concern is raised
+export interface CrisisResource {
+  name: string;
+  description: string;
+  callLabel: string;
+  callHref: string;
+  textLabel?: string;
+  textHref?: string;
+}
+
+export const CRISIS_RESOURCES: CrisisResource[] = [
+  {
+    name: '988 Suicide & Crisis Lifeline',
+    description: 'Free, confidential support 24/7 by call, text or chat.',
+    callLabel: 'Call 988',
+    callHref: 'tel:988',
+    textLabel: 'Text 988',
+    textHref: 'sms:988'
+  },
+  {
+    name: 'Veterans Crisis Line',
+    description: 'For Veterans, service members and their families. Dial 988, then press 1.',
+    callLabel: 'Call 988, press 1',
+    callHref: 'tel:988',
+    textLabel: 'Text 838255',
+    textHref: 'sms:838255'
+  },
+  {
+    name: 'Emergency services',
+    description: 'If you are in immediate danger, call 911 or go to the nearest emergency room.',
+    callLabel: 'Call 911',
+    callHref: 'tel:911'
+  }
+];
@@ -0,0 +1,40 @@
+import { format } from 'date-fns';
+import { DocumentSignature } from '@/types/documentSignatures';
+
+/**
+ * SHA-256 of a document's text, hex encoded. Line endings and trailing whitespace are
+ * normalised first so the same text always hashes the same on every browser.
+ */
+export const hashDocumentText = async (text: string): Promise<string> => {
+  const normalised = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalised));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export type SignatureVerification = 'verified' | 'document_changed';
+
+// A signature is valid for a document when the text shown now hashes to what was signed
+export const verifyDocumentSignature = async (
+  signature: Pick<DocumentSignature, 'document_hash'>,
+  documentText: string
+): Promise<SignatureVerification> =>
+  (await hashDocumentText(documentText)) === signature.document_hash ? 'verified' : 'document_changed';
+
+export const formatSignerRole = (role: DocumentSignature['signer_role']) =>
+  ({ client: 'Client', guardian: 'Parent/Guardian', clinician: 'Clinician' })[role] || role;
+
+// Audit lines printed under a signature in the PDF and the view dialog
+export const getSignatureAuditLines = (signature: DocumentSignature): string[] => [
+  `Signed by ${signature.signer_name} (${formatSignerRole(signature.signer_role)}) on ${format(new Date(signature.signed_at), "MMMM d, yyyy 'at' h:mm:ss a")}`,
+  `IP address: ${signature.ip_address || 'not recorded'}`,
+  `Device: ${signature.user_agent || 'not recorded'}`,
+  `Document ${signature.hash_algorithm}: ${signature.document_hash}`,
+  `Signature ID: ${signature.id}`
+];
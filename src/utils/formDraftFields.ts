@@ -0,0 +1,35 @@
+/**
+ * Reads and writes the free-text answers of a form by element id. Long templates such as the
+ * Client History form leave their text inputs uncontrolled, so their draft values are taken
+ * straight from the DOM rather than from React state.
+ */
+
+const TEXT_FIELD_SELECTOR = 'input[id], textarea[id]';
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'hidden', 'file', 'submit', 'button']);
+
+const getTextFields = (form: HTMLFormElement) =>
+  Array.from(form.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>(TEXT_FIELD_SELECTOR))
+    .filter(field => !field.readOnly && !(field instanceof HTMLInputElement && NON_TEXT_INPUT_TYPES.has(field.type)));
+
+export const captureFormFields = (form: HTMLFormElement | null): Record<string, string> => {
+  if (!form) return {};
+
+  const fields: Record<string, string> = {};
+  for (const field of getTextFields(form)) {
+    if (field.value) {
+      fields[field.id] = field.value;
+    }
+  }
+  return fields;
+};
+
+// Fields that are not rendered yet (for example rows that no longer exist) are skipped
+export const restoreFormFields = (form: HTMLFormElement | null, fields: Record<string, string>) => {
+  if (!form) return;
+
+  for (const field of getTextFields(form)) {
+    if (Object.prototype.hasOwnProperty.call(fields, field.id)) {
+      field.value = fields[field.id];
+    }
+  }
+};
@@ -0,0 +1,79 @@
+import { FormDraftData } from '@/types/formDrafts';
+
+/**
+ * Browser-side copy of form drafts in IndexedDB. Every autosave is written here first, so
+ * answers survive a reload even when the server save fails or the device is offline; the
+ * server draft stays the source of truth once it is newer.
+ */
+
+const DB_NAME = 'valorwell-form-drafts';
+const STORE_NAME = 'drafts';
+const DB_VERSION = 1;
+
+export interface LocalFormDraft {
+  assignmentId: string;
+  data: FormDraftData;
+  savedAt: string;
+  // Server version this draft was based on, and whether the server already has it
+  baseVersion: number | null;
+  synced: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'assignmentId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('[formDraftStore] Could not open IndexedDB:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve((request.result as T) ?? null);
+      request.onerror = () => {
+        console.error('[formDraftStore] IndexedDB request failed:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.error('[formDraftStore] IndexedDB transaction failed:', error);
+      resolve(null);
+    }
+  });
+};
+
+export const getLocalFormDraft = (assignmentId: string) =>
+  runRequest<LocalFormDraft>('readonly', store => store.get(assignmentId));
+
+export const putLocalFormDraft = async (draft: LocalFormDraft) => {
+  await runRequest('readwrite', store => store.put(draft));
+};
+
+export const deleteLocalFormDraft = async (assignmentId: string) => {
+  await runRequest('readwrite', store => store.delete(assignmentId));
+};
@@ -0,0 +1,59 @@
+import { DocumentSignature, SignerRole } from '@/types/documentSignatures';
+import {
+  TELEHEALTH_CONSENT_DOCUMENT_TYPE,
+  TELEHEALTH_CONSENT_TITLE,
+  TELEHEALTH_CONSENT_VERSION,
+  getTelehealthConsentText
+} from '@/components/templates/telehealthConsentContent';
+
+// Maps assignment document names to the document_type used for saved documents and signatures
+export const getAssignmentDocumentType = (documentName: string): string => {
+  const typeMap: Record<string, string> = {
+    'Client History Form': 'client_history',
+    'Informed Consent': TELEHEALTH_CONSENT_DOCUMENT_TYPE,
+  };
+
+  return typeMap[documentName] || documentName.toLowerCase().replace(/\s+/g, '_');
+};
+
+// Assignments for minors need the client and a parent or guardian; others have no requirement
+export const getRequiredSignerRoles = (assignment: { requires_guardian_signature?: boolean }): SignerRole[] =>
+  assignment.requires_guardian_signature ? ['client', 'guardian'] : [];
+
+export const getMissingSignerRoles = (
+  assignment: { requires_guardian_signature?: boolean },
+  signatures: Pick<DocumentSignature, 'signer_role'>[]
+): SignerRole[] =>
+  getRequiredSignerRoles(assignment).filter(role => !signatures.some(signature => signature.signer_role === role));
+
+export interface GuardianSigningDocument {
+  documentType: string;
+  documentTitle: string;
+  documentVersion?: string;
+  // The exact text the guardian is shown; its hash is what the signature covers
+  text: string;
+}
+
+/**
+ * What a guardian signs for an assignment. For the consent form they sign the same text as the
+ * client; for other forms they authorize the minor to complete it.
+ */
+export const getGuardianSigningDocument = (documentName: string, clientName: string): GuardianSigningDocument => {
+  if (documentName === 'Informed Consent') {
+    return {
+      documentType: TELEHEALTH_CONSENT_DOCUMENT_TYPE,
+      documentTitle: TELEHEALTH_CONSENT_TITLE,
+      documentVersion: TELEHEALTH_CONSENT_VERSION,
+      text: getTelehealthConsentText()
+    };
+  }
+
+  return {
+    documentType: getAssignmentDocumentType(documentName),
+    documentTitle: documentName,
+    text: [
+      `Parent/Guardian Authorization: ${documentName}`,
+      `I am the parent or legal guardian of ${clientName || 'this client'}. I authorize them to complete the ${documentName} as part of their care, and I understand the information they provide will be kept in their clinical record.`
+    ].join('\n\n')
+  };
+};
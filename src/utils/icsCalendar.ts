@@ -0,0 +1,20 @@
+/**
+ * iCalendar export for appointments. The builder lives with the edge functions so .ics
+ * downloads and the calendar-feed subscription produce identical events.
+ */
+export * from '../../supabase/functions/_shared/icsCalendar';
+
+/**
+ * Triggers a browser download of an .ics file
+ */
+export const downloadIcsFile = (filename: string, contents: string) => {
+  const blob = new Blob([contents], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,64 @@
+import { InstrumentDefinition } from './types';
+
+export const AUDIT_C: InstrumentDefinition = {
+  id: 'audit_c',
+  name: 'AUDIT-C',
+  title: 'Alcohol Use Disorders Identification Test - Consumption (AUDIT-C)',
+  category: 'Alcohol Use Screener',
+  description: 'Alcohol Use Disorders Identification Test - Consumption (3-item)',
+  instructions: 'Please answer the following questions about your use of alcohol during the past year.',
+  responseOptions: [],
+  items: [
+    {
+      id: 'q1',
+      text: 'How often did you have a drink containing alcohol in the past year?',
+      options: [
+        { value: 0, label: 'Never' },
+        { value: 1, label: 'Monthly or less' },
+        { value: 2, label: '2 to 4 times a month' },
+        { value: 3, label: '2 to 3 times a week' },
+        { value: 4, label: '4 or more times a week' }
+      ]
+    },
+    {
+      id: 'q2',
+      text: 'How many drinks containing alcohol did you have on a typical day when you were drinking in the past year?',
+      showWhen: { itemId: 'q1', minValue: 1 },
+      options: [
+        { value: 0, label: '1 or 2' },
+        { value: 1, label: '3 or 4' },
+        { value: 2, label: '5 or 6' },
+        { value: 3, label: '7 to 9' },
+        { value: 4, label: '10 or more' }
+      ]
+    },
+    {
+      id: 'q3',
+      text: 'How often did you have six or more drinks on one occasion in the past year?',
+      showWhen: { itemId: 'q1', minValue: 1 },
+      options: [
+        { value: 0, label: 'Never' },
+        { value: 1, label: 'Less than monthly' },
+        { value: 2, label: 'Monthly' },
+        { value: 3, label: 'Weekly' },
+        { value: 4, label: 'Daily or almost daily' }
+      ]
+    }
+  ],
+  scoring: {
+    method: 'sum',
+    maxScore: 12,
+    // VA cut-offs: positive at 3+ for women and 4+ for men
+    severityBands: [
+      { min: 0, max: 2, label: 'Negative screen' },
+      { min: 3, max: 3, label: 'Positive screen for women; negative for men' },
+      { min: 4, max: 7, label: 'Positive screen' },
+      { min: 8, max: 12, label: 'Positive screen, severe alcohol misuse' }
+    ]
+  },
+  interpretationNotes: [
+    'A score of 3 or more is a positive screen for women; 4 or more for men',
+    'Scores of 8 or more suggest severe alcohol misuse and warrant further assessment',
+    'When all points come from question 1, the client may be drinking below recommended limits'
+  ]
+};
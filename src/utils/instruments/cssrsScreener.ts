@@ -0,0 +1,78 @@
+import { InstrumentDefinition, ResponseOption } from './types';
+
+// Each "Yes" carries the triage risk level it implies, so the instrument's score is the highest
+// level reached: 1 low, 2 moderate, 3 high
+const yesNo = (riskLevel: number): ResponseOption[] => [
+  { value: 0, label: 'No' },
+  { value: riskLevel, label: 'Yes' }
+];
+
+export const CSSRS_SCREENER: InstrumentDefinition = {
+  id: 'cssrs_screener',
+  name: 'C-SSRS Screener',
+  title: 'Columbia-Suicide Severity Rating Scale (C-SSRS) Screener',
+  category: 'Suicide Risk Screener',
+  description: 'Columbia-Suicide Severity Rating Scale, screen version (past month)',
+  instructions: 'Please answer the following questions about the past month.',
+  responseOptions: [],
+  items: [
+    {
+      id: 'q1',
+      text: 'Have you wished you were dead or wished you could go to sleep and not wake up?',
+      options: yesNo(1)
+    },
+    {
+      id: 'q2',
+      text: 'Have you actually had any thoughts about killing yourself?',
+      options: yesNo(1)
+    },
+    {
+      id: 'q3',
+      text: 'Have you thought about how you might do this?',
+      showWhen: { itemId: 'q2', minValue: 1 },
+      options: yesNo(2)
+    },
+    {
+      id: 'q4',
+      text: 'Have you had any intention of acting on these thoughts of killing yourself, as opposed to you have the thoughts but you definitely would not act on them?',
+      showWhen: { itemId: 'q2', minValue: 1 },
+      options: yesNo(3)
+    },
+    {
+      id: 'q5',
+      text: 'Have you started to work out or worked out the details of how to kill yourself? Do you intend to carry out this plan?',
+      showWhen: { itemId: 'q2', minValue: 1 },
+      options: yesNo(3)
+    },
+    {
+      id: 'q6',
+      text: 'Have you ever done anything, started to do anything, or prepared to do anything to end your life?',
+      options: yesNo(2)
+    },
+    {
+      id: 'q7',
+      text: 'Was this within the past 3 months?',
+      showWhen: { itemId: 'q6', minValue: 1 },
+      options: yesNo(3)
+    }
+  ],
+  scoring: {
+    method: 'max',
+    maxScore: 3,
+    severityBands: [
+      { min: 0, max: 0, label: 'No risk identified' },
+      { min: 1, max: 1, label: 'Low risk' },
+      { min: 2, max: 2, label: 'Moderate risk' },
+      { min: 3, max: 3, label: 'High risk' }
+    ]
+  },
+  criticalItems: [
+    { itemId: 'q2', minValue: 1, description: 'reported active suicidal thoughts in the past month on the C-SSRS screener' },
+    { itemId: 'q6', minValue: 1, description: 'reported suicidal behavior on the C-SSRS screener' }
+  ],
+  interpretationNotes: [
+    'Low risk (yes to 1 or 2 only): behavioral health follow-up',
+    'Moderate risk (yes to 3, or lifetime behavior on 6): clinician follow-up and safety planning',
+    'High risk (yes to 4 or 5, or behavior within the past 3 months): immediate safety assessment'
+  ]
+};
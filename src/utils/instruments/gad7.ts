@@ -0,0 +1,35 @@
+import { InstrumentDefinition } from './types';
+
+export const GAD7: InstrumentDefinition = {
+  id: 'gad7',
+  name: 'GAD-7',
+  title: 'Generalized Anxiety Disorder (GAD-7)',
+  category: 'Anxiety Screener',
+  description: 'Generalized Anxiety Disorder (7-item)',
+  instructions: 'Over the last 2 weeks, how often have you been bothered by the following problems?',
+  responseOptions: [
+    { value: 0, label: 'Not at all' },
+    { value: 1, label: 'Several days' },
+    { value: 2, label: 'More than half the days' },
+    { value: 3, label: 'Nearly every day' }
+  ],
+  items: [
+    { id: 'q1', text: 'Feeling nervous, anxious, or on edge' },
+    { id: 'q2', text: 'Not being able to stop or control worrying' },
+    { id: 'q3', text: 'Worrying too much about different things' },
+    { id: 'q4', text: 'Trouble relaxing' },
+    { id: 'q5', text: "Being so restless that it's hard to sit still" },
+    { id: 'q6', text: 'Becoming easily annoyed or irritable' },
+    { id: 'q7', text: 'Feeling afraid, as if something awful might happen' }
+  ],
+  scoring: {
+    method: 'sum',
+    maxScore: 21,
+    severityBands: [
+      { min: 0, max: 4, label: 'Minimal anxiety' },
+      { min: 5, max: 9, label: 'Mild anxiety' },
+      { min: 10, max: 14, label: 'Moderate anxiety' },
+      { min: 15, max: 21, label: 'Severe anxiety' }
+    ]
+  }
+};
@@ -0,0 +1,23 @@
+import { GAD7 } from './gad7';
+import { PCL5 } from './pcl5';
+import { AUDIT_C } from './auditC';
+import { CSSRS_SCREENER } from './cssrsScreener';
+import { PHQ_A } from './phqA';
+import { InstrumentDefinition, InstrumentId } from './types';
+
+export * from './types';
+export * from './scoring';
+
+export const INSTRUMENTS: Record<InstrumentId, InstrumentDefinition> = {
+  gad7: GAD7,
+  pcl5: PCL5,
+  audit_c: AUDIT_C,
+  cssrs_screener: CSSRS_SCREENER,
+  phq_a: PHQ_A
+};
+
+export const getInstrument = (id: InstrumentId) => INSTRUMENTS[id];
+
+// client_minor is stored as the 'Yes' / 'No' chosen on the client's profile
+export const isMinorClient = (client?: { client_minor?: string | null } | null) =>
+  client?.client_minor === 'Yes';
@@ -0,0 +1,70 @@
+import { InstrumentDefinition } from './types';
+
+export const PCL5: InstrumentDefinition = {
+  id: 'pcl5',
+  name: 'PCL-5',
+  title: 'PCL-5 PTSD Checklist for DSM-5',
+  category: 'Trauma Screener',
+  description: 'PTSD Checklist for DSM-5 (20-item)',
+  instructions:
+    'Below is a list of problems that people sometimes have in response to a very stressful experience. Please read each problem carefully and then select how much you have been bothered by that problem IN THE PAST MONTH.',
+  responseOptions: [
+    { value: 0, label: 'Not at all' },
+    { value: 1, label: 'A little bit' },
+    { value: 2, label: 'Moderately' },
+    { value: 3, label: 'Quite a bit' },
+    { value: 4, label: 'Extremely' }
+  ],
+  items: [
+    { id: 'q1', text: 'Repeated, disturbing, and unwanted memories of the stressful experience?' },
+    { id: 'q2', text: 'Repeated, disturbing dreams of the stressful experience?' },
+    { id: 'q3', text: 'Suddenly feeling or acting as if the stressful experience were actually happening again (as if you were actually back there reliving it)?' },
+    { id: 'q4', text: 'Feeling very upset when something reminded you of the stressful experience?' },
+    { id: 'q5', text: 'Having strong physical reactions when something reminded you of the stressful experience (for example, heart pounding, trouble breathing, sweating)?' },
+    { id: 'q6', text: 'Avoiding memories, thoughts, or feelings related to the stressful experience?' },
+    { id: 'q7', text: 'Avoiding external reminders of the stressful experience (for example, people, places, conversations, activities, objects, or situations)?' },
+    { id: 'q8', text: 'Trouble remembering important parts of the stressful experience?' },
+    { id: 'q9', text: 'Having strong negative beliefs about yourself, other people, or the world (for example, having thoughts such as: I am bad, there is something seriously wrong with me, no one can be trusted, the world is completely dangerous)?' },
+    { id: 'q10', text: 'Blaming yourself or someone else for the stressful experience or what happened after it?' },
+    { id: 'q11', text: 'Having strong negative feelings such as fear, horror, anger, guilt, or shame?' },
+    { id: 'q12', text: 'Loss of interest in activities that you used to enjoy?' },
+    { id: 'q13', text: 'Feeling distant or cut off from other people?' },
+    { id: 'q14', text: 'Trouble experiencing positive feelings (for example, being unable to feel happiness or have loving feelings for people close to you)?' },
+    { id: 'q15', text: 'Irritable behavior, angry outbursts, or acting aggressively?' },
+    { id: 'q16', text: 'Taking too many risks or doing things that could cause you harm?' },
+    { id: 'q17', text: 'Being "superalert" or watchful or on guard?' },
+    { id: 'q18', text: 'Feeling jumpy or easily startled?' },
+    { id: 'q19', text: 'Having difficulty concentrating?' },
+    { id: 'q20', text: 'Trouble falling or staying asleep?' }
+  ],
+  scoring: {
+    method: 'sum',
+    maxScore: 80,
+    severityBands: [
+      { min: 0, max: 32, label: 'Score below provisional PTSD diagnosis threshold' },
+      { min: 33, max: 80, label: 'Score suggests PTSD diagnosis may be appropriate' }
+    ],
+    // DSM-5 symptom clusters
+    subscales: [
+      { id: 'intrusion', label: 'B. Intrusion (items 1-5)', itemIds: ['q1', 'q2', 'q3', 'q4', 'q5'] },
+      { id: 'avoidance', label: 'C. Avoidance (items 6-7)', itemIds: ['q6', 'q7'] },
+      {
+        id: 'negative_alterations',
+        label: 'D. Negative Alterations in Cognition and Mood (items 8-14)',
+        itemIds: ['q8', 'q9', 'q10', 'q11', 'q12', 'q13', 'q14']
+      },
+      {
+        id: 'arousal',
+        label: 'E. Alterations in Arousal and Reactivity (items 15-20)',
+        itemIds: ['q15', 'q16', 'q17', 'q18', 'q19', 'q20']
+      }
+    ]
+  },
+  fields: [
+    { id: 'event_description', label: 'Stressful Experience / Traumatic Event', placeholder: 'Brief description of event' }
+  ],
+  notesLabel: 'Clinical Notes',
+  interpretationNotes: [
+    'A provisional PTSD diagnosis can be made when DSM-5 symptom criteria are met (at least 1 B, 1 C, 2 D, and 2 E symptoms scored ≥2) and the total severity score is 33 or higher'
+  ]
+};
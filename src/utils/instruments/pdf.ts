@@ -0,0 +1,82 @@
+import { format, parseISO } from 'date-fns';
+import type { PdfBlock, StructuredPdfDocument } from '@/utils/structuredPdf';
+import { getItemOptions, getVisibleItems } from './scoring';
+import { InstrumentDefinition, ScoredInstrument } from './types';
+
+export interface AssessmentPdfContext {
+  patientName: string;
+  clinicianName: string;
+  assessmentDate: string;
+  fields: Record<string, string>;
+  notes?: string;
+}
+
+/**
+ * Lays out a completed instrument as a structured PDF: the header fields, each asked item with
+ * its answer, the scores and the score ranges used to interpret them.
+ */
+export const buildInstrumentPdf = (
+  definition: InstrumentDefinition,
+  scored: ScoredInstrument,
+  context: AssessmentPdfContext
+): StructuredPdfDocument => {
+  const items = getVisibleItems(definition, scored.responses);
+
+  const answerLabel = (itemId: string) => {
+    const item = items.find(candidate => candidate.id === itemId);
+    const value = scored.responses[itemId];
+    if (!item || value === undefined) return '';
+    return getItemOptions(definition, item).find(option => option.value === value)?.label ?? String(value);
+  };
+
+  const scoreFields = [
+    ...(definition.scoring.method === 'sum'
+      ? [{ label: 'Total score', value: `${scored.totalScore} out of ${definition.scoring.maxScore}` }]
+      : []),
+    { label: 'Interpretation', value: scored.severity },
+    ...(definition.scoring.subscales || []).map(subscale => ({
+      label: subscale.label,
+      value: scored.subscaleScores[subscale.id]
+    }))
+  ];
+
+  const blocks: PdfBlock[] = [
+    {
+      type: 'fields',
+      fields: [
+        { label: 'Date', value: format(parseISO(context.assessmentDate), 'MMMM d, yyyy') },
+        { label: 'Clinician', value: context.clinicianName },
+        { label: 'Patient', value: context.patientName },
+        ...(definition.fields || []).map(field => ({ label: field.label, value: context.fields[field.id] }))
+      ]
+    },
+    { type: 'paragraph', text: definition.instructions },
+    {
+      type: 'table',
+      columns: ['#', 'Question', 'Answer', 'Score'],
+      widths: [0.6, 6, 2.4, 1],
+      rows: items.map((item, index) => [index + 1, item.text, answerLabel(item.id), scored.responses[item.id]])
+    },
+    { type: 'heading', text: 'Score Interpretation' },
+    { type: 'fields', fields: scoreFields },
+    {
+      type: 'list',
+      items: definition.scoring.severityBands.map(band =>
+        `${band.min === band.max ? band.min : `${band.min}-${band.max}`}: ${band.label}`
+      )
+    }
+  ];
+
+  if (definition.interpretationNotes) {
+    blocks.push({ type: 'list', items: definition.interpretationNotes });
+  }
+
+  if (context.notes) {
+    blocks.push(
+      { type: 'heading', text: definition.notesLabel || 'Additional Notes' },
+      { type: 'paragraph', text: context.notes }
+    );
+  }
+
+  return { title: definition.title, blocks };
+};
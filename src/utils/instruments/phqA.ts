@@ -0,0 +1,83 @@
+import { InstrumentDefinition } from './types';
+
+// PHQ-9 modified for adolescents (PHQ-A), given instead of the PHQ-9 to clients under 18
+export const PHQ_A: InstrumentDefinition = {
+  id: 'phq_a',
+  name: 'PHQ-A',
+  title: 'PHQ-9 Modified for Adolescents (PHQ-A)',
+  category: 'Depression Screener',
+  description: 'Patient Health Questionnaire for adolescents (9-item plus follow-up questions)',
+  instructions:
+    'How often have you been bothered by each of the following symptoms during the past two weeks? Choose the answer that best describes how you have been feeling.',
+  responseOptions: [
+    { value: 0, label: 'Not at all' },
+    { value: 1, label: 'Several days' },
+    { value: 2, label: 'More than half the days' },
+    { value: 3, label: 'Nearly every day' }
+  ],
+  items: [
+    { id: 'q1', text: 'Feeling down, depressed, irritable, or hopeless?' },
+    { id: 'q2', text: 'Little interest or pleasure in doing things?' },
+    { id: 'q3', text: 'Trouble falling asleep, staying asleep, or sleeping too much?' },
+    { id: 'q4', text: 'Poor appetite, weight loss, or overeating?' },
+    { id: 'q5', text: 'Feeling tired, or having little energy?' },
+    { id: 'q6', text: 'Feeling bad about yourself - or feeling that you are a failure, or that you have let yourself or your family down?' },
+    { id: 'q7', text: 'Trouble concentrating on things like school work, reading, or watching TV?' },
+    { id: 'q8', text: 'Moving or speaking so slowly that other people could have noticed? Or the opposite - being so fidgety or restless that you were moving around a lot more than usual?' },
+    { id: 'q9', text: 'Thoughts that you would be better off dead, or of hurting yourself in some way?' },
+    {
+      id: 'depressed_past_year',
+      text: 'In the past year have you felt depressed or sad most days, even if you felt okay sometimes?',
+      scored: false,
+      options: [
+        { value: 0, label: 'No' },
+        { value: 1, label: 'Yes' }
+      ]
+    },
+    {
+      id: 'functional_difficulty',
+      text: 'If you are experiencing any of the problems on this form, how difficult have these problems made it for you to do your work, take care of things at home or get along with other people?',
+      scored: false,
+      options: [
+        { value: 0, label: 'Not difficult at all' },
+        { value: 1, label: 'Somewhat difficult' },
+        { value: 2, label: 'Very difficult' },
+        { value: 3, label: 'Extremely difficult' }
+      ]
+    },
+    {
+      id: 'serious_thoughts_past_month',
+      text: 'Has there been a time in the past month when you have had serious thoughts about ending your life?',
+      scored: false,
+      options: [
+        { value: 0, label: 'No' },
+        { value: 1, label: 'Yes' }
+      ]
+    },
+    {
+      id: 'lifetime_attempt',
+      text: 'Have you EVER, in your WHOLE LIFE, tried to kill yourself or made a suicide attempt?',
+      scored: false,
+      options: [
+        { value: 0, label: 'No' },
+        { value: 1, label: 'Yes' }
+      ]
+    }
+  ],
+  scoring: {
+    method: 'sum',
+    maxScore: 27,
+    severityBands: [
+      { min: 0, max: 4, label: 'None-minimal' },
+      { min: 5, max: 9, label: 'Mild' },
+      { min: 10, max: 14, label: 'Moderate' },
+      { min: 15, max: 19, label: 'Moderately severe' },
+      { min: 20, max: 27, label: 'Severe' }
+    ]
+  },
+  criticalItems: [
+    { itemId: 'q9', minValue: 1, description: 'answered PHQ-A item 9 (thoughts of self-harm) above zero' },
+    { itemId: 'serious_thoughts_past_month', minValue: 1, description: 'reported serious thoughts of ending their life in the past month on the PHQ-A' },
+    { itemId: 'lifetime_attempt', minValue: 1, description: 'reported a lifetime suicide attempt on the PHQ-A' }
+  ]
+};
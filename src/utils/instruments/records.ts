@@ -0,0 +1,74 @@
+import type { ScreeningAssessmentRecord } from '@/integrations/supabase/client';
+import { InstrumentDefinition, ScoredInstrument } from './types';
+
+export interface AssessmentRecordContext {
+  clientId: string;
+  clinicianId?: string | null;
+  appointmentId?: string | null;
+  assessmentDate: string;
+  fields: Record<string, string>;
+  notes?: string;
+}
+
+/**
+ * Maps a scored instrument onto the table it is stored in. GAD-7 and PCL-5 predate the generic
+ * format and keep their column layouts; everything else goes to instrument_assessments.
+ */
+export const buildAssessmentRecord = (
+  definition: InstrumentDefinition,
+  scored: ScoredInstrument,
+  context: AssessmentRecordContext
+): ScreeningAssessmentRecord => {
+  const answer = (itemId: string) => scored.responses[itemId] ?? 0;
+  const common = {
+    client_id: context.clientId,
+    clinician_id: context.clinicianId || null,
+    appointment_id: context.appointmentId || null,
+    assessment_date: context.assessmentDate,
+    total_score: scored.totalScore,
+    additional_notes: context.notes || null
+  };
+
+  switch (definition.id) {
+    case 'gad7':
+      return {
+        table: 'gad7_assessments',
+        data: {
+          ...common,
+          question_1: answer('q1'),
+          question_2: answer('q2'),
+          question_3: answer('q3'),
+          question_4: answer('q4'),
+          question_5: answer('q5'),
+          question_6: answer('q6'),
+          question_7: answer('q7'),
+          severity: scored.severity
+        }
+      };
+    case 'pcl5':
+      return {
+        table: 'pcl5_assessments',
+        data: {
+          ...common,
+          event_description: context.fields.event_description || null,
+          responses: definition.items.map(item => answer(item.id)),
+          intrusion_score: scored.subscaleScores.intrusion ?? 0,
+          avoidance_score: scored.subscaleScores.avoidance ?? 0,
+          negative_alterations_score: scored.subscaleScores.negative_alterations ?? 0,
+          arousal_score: scored.subscaleScores.arousal ?? 0
+        }
+      };
+    default:
+      return {
+        table: 'instrument_assessments',
+        data: {
+          ...common,
+          instrument: definition.id,
+          responses: scored.responses,
+          severity: scored.severity,
+          subscale_scores: scored.subscaleScores,
+          critical_items: scored.criticalItems
+        }
+      };
+  }
+};
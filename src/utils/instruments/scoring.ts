@@ -0,0 +1,70 @@
+import {
+  InstrumentDefinition,
+  InstrumentItem,
+  InstrumentResponses,
+  ScoredInstrument,
+  SeverityBand
+} from './types';
+
+export const getItemOptions = (definition: InstrumentDefinition, item: InstrumentItem) =>
+  item.options || definition.responseOptions;
+
+export const isItemVisible = (item: InstrumentItem, responses: InstrumentResponses) => {
+  if (!item.showWhen) return true;
+  const answer = responses[item.showWhen.itemId];
+  return answer !== undefined && answer >= item.showWhen.minValue;
+};
+
+export const getVisibleItems = (definition: InstrumentDefinition, responses: InstrumentResponses) =>
+  definition.items.filter(item => isItemVisible(item, responses));
+
+// Items still waiting for an answer; the form can only be saved once this is empty
+export const getUnansweredItems = (definition: InstrumentDefinition, responses: InstrumentResponses) =>
+  getVisibleItems(definition, responses).filter(item => responses[item.id] === undefined);
+
+export const getSeverityBand = (bands: SeverityBand[], score: number) =>
+  bands.find(band => score >= band.min && score <= band.max) || bands[bands.length - 1];
+
+const aggregate = (method: 'sum' | 'max', values: number[]) =>
+  method === 'max'
+    ? values.reduce((highest, value) => Math.max(highest, value), 0)
+    : values.reduce((total, value) => total + value, 0);
+
+/**
+ * Scores a set of answers against an instrument definition. Items that were never asked
+ * (because their showWhen condition is not met) count as zero and are left out of the
+ * stored responses.
+ */
+export const scoreInstrument = (definition: InstrumentDefinition, responses: InstrumentResponses): ScoredInstrument => {
+  const visibleItems = getVisibleItems(definition, responses);
+  const answered: InstrumentResponses = {};
+  visibleItems.forEach(item => {
+    if (responses[item.id] !== undefined) {
+      answered[item.id] = responses[item.id];
+    }
+  });
+
+  const scoredValues = (itemIds?: string[]) =>
+    visibleItems
+      .filter(item => item.scored !== false && (!itemIds || itemIds.includes(item.id)))
+      .map(item => answered[item.id] ?? 0);
+
+  const totalScore = aggregate(definition.scoring.method, scoredValues());
+
+  const subscaleScores = (definition.scoring.subscales || []).reduce<Record<string, number>>((scores, subscale) => {
+    scores[subscale.id] = aggregate(definition.scoring.method, scoredValues(subscale.itemIds));
+    return scores;
+  }, {});
+
+  const criticalItems = (definition.criticalItems || [])
+    .filter(rule => answered[rule.itemId] !== undefined && answered[rule.itemId] >= rule.minValue)
+    .map(rule => ({ item_id: rule.itemId, value: answered[rule.itemId], description: rule.description }));
+
+  return {
+    totalScore,
+    severity: getSeverityBand(definition.scoring.severityBands, totalScore).label,
+    subscaleScores,
+    criticalItems,
+    responses: answered
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * Declarative definition format for standardized questionnaires.
+ * A definition describes the items, answer choices, scoring and interpretation of an instrument;
+ * `InstrumentTemplate` renders any definition and `scoreInstrument` scores it.
+ */
+
+export type InstrumentId = 'gad7' | 'pcl5' | 'audit_c' | 'cssrs_screener' | 'phq_a';
+
+export interface ResponseOption {
+  value: number;
+  label: string;
+}
+
+export interface InstrumentItem {
+  id: string;
+  text: string;
+  // Overrides the instrument's shared response options for this item
+  options?: ResponseOption[];
+  // Only asked when another item's answer is at least minValue; hidden items are not scored
+  showWhen?: { itemId: string; minValue: number };
+  // Supplementary questions that are recorded but do not count toward the total
+  scored?: boolean;
+}
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  label: string;
+}
+
+export interface Subscale {
+  id: string;
+  label: string;
+  itemIds: string[];
+}
+
+export interface CriticalItemRule {
+  itemId: string;
+  minValue: number;
+  // Shown to the clinician in the safety alert
+  description: string;
+}
+
+export interface InstrumentScoring {
+  // 'sum' adds scored answers; 'max' takes the highest answer, for instruments whose answers are risk levels
+  method: 'sum' | 'max';
+  maxScore: number;
+  severityBands: SeverityBand[];
+  subscales?: Subscale[];
+}
+
+export interface InstrumentTextField {
+  id: string;
+  label: string;
+  placeholder?: string;
+}
+
+export interface InstrumentDefinition {
+  id: InstrumentId;
+  name: string;
+  title: string;
+  category: string;
+  description: string;
+  instructions: string;
+  responseOptions: ResponseOption[];
+  items: InstrumentItem[];
+  scoring: InstrumentScoring;
+  // Answers that need same-day clinician follow-up; they open a safety event when saved.
+  // The database decides this from instrument_critical_item_rules, which must list the same rules.
+  criticalItems?: CriticalItemRule[];
+  // Free-text fields collected alongside the items, such as the PCL-5 index event
+  fields?: InstrumentTextField[];
+  notesLabel?: string;
+  interpretationNotes?: string[];
+}
+
+export type InstrumentResponses = Record<string, number>;
+
+export interface TriggeredCriticalItem {
+  item_id: string;
+  value: number;
+  description: string;
+}
+
+export interface ScoredInstrument {
+  totalScore: number;
+  severity: string;
+  subscaleScores: Record<string, number>;
+  criticalItems: TriggeredCriticalItem[];
+  // Scored and supplementary answers for the items that were asked
+  responses: InstrumentResponses;
+}
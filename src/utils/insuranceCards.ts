@@ -0,0 +1,85 @@
+import { InsuranceLevel } from '@/types/eligibility';
+import { INSURANCE_CARD_SIDES, InsuranceCardImage, InsuranceCardSide } from '@/types/insuranceCards';
+
+// Card photos are re-encoded as JPEG: large enough to read the small print, small enough to upload
+const MAX_IMAGE_DIMENSION = 2000;
+const THUMBNAIL_DIMENSION = 320;
+const IMAGE_QUALITY = 0.85;
+export const MAX_CARD_PHOTO_BYTES = 20 * 1024 * 1024;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This photo could not be read. Please use a JPEG or PNG image.'));
+    };
+    image.src = url;
+  });
+
+const resizeImage = (image: HTMLImageElement, maxDimension: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Photos cannot be processed in this browser'));
+      return;
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The photo could not be processed'))),
+      'image/jpeg',
+      IMAGE_QUALITY
+    );
+  });
+
+/**
+ * Turns a selected or captured photo into the image and thumbnail that are uploaded.
+ * Re-encoding also drops the camera's EXIF data, such as location.
+ */
+export const prepareCardPhoto = async (file: File): Promise<{ image: Blob; thumbnail: Blob }> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose a photo of your card');
+  }
+  if (file.size > MAX_CARD_PHOTO_BYTES) {
+    throw new Error('This photo is larger than 20 MB');
+  }
+
+  const image = await loadImage(file);
+  const [resized, thumbnail] = await Promise.all([
+    resizeImage(image, MAX_IMAGE_DIMENSION),
+    resizeImage(image, THUMBNAIL_DIMENSION)
+  ]);
+  return { image: resized, thumbnail };
+};
+
+export const getCurrentCardImage = (
+  images: InsuranceCardImage[],
+  level: InsuranceLevel,
+  side: InsuranceCardSide
+) => images.find(image => image.insurance_level === level && image.side === side && !image.replaced_at);
+
+// Earlier photos of a policy, newest first
+export const getReplacedCardImages = (images: InsuranceCardImage[], level: InsuranceLevel) =>
+  images
+    .filter(image => image.insurance_level === level && image.replaced_at)
+    .sort((a, b) => b.uploaded_at.localeCompare(a.uploaded_at));
+
+export const getMissingCardSides = (images: InsuranceCardImage[], level: InsuranceLevel) =>
+  INSURANCE_CARD_SIDES.filter(side => !getCurrentCardImage(images, level, side));
+
+// A policy is only complete once its details are filled in and both sides of the card are on file.
+// Coverage checks (verify-eligibility) are refused for incomplete policies.
+export const isPolicyComplete = (
+  policy: { company?: string | null; policyNumber?: string | null },
+  images: InsuranceCardImage[],
+  level: InsuranceLevel
+) => !!policy.company && !!policy.policyNumber && getMissingCardSides(images, level).length === 0;
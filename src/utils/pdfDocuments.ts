@@ -0,0 +1,160 @@
+import { format } from 'date-fns';
+import { ClientHistorySubmission } from '@/types/clientHistory';
+import { PdfBlock, StructuredPdfDocument } from '@/utils/structuredPdf';
+import {
+  TELEHEALTH_CONSENT_SECTIONS,
+  TELEHEALTH_CONSENT_TITLE,
+  TELEHEALTH_CONSENT_VERSION
+} from '@/components/templates/telehealthConsentContent';
+
+/**
+ * Structured PDF layouts for the patient forms. Signatures are appended by
+ * generateAndSaveStructuredPDF from the recorded signature records.
+ */
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+// The consent PDF carries exactly the text that signatures are hashed over
+export const buildTelehealthConsentPdf = (clientName: string, signedOn: Date = new Date()): StructuredPdfDocument => ({
+  title: TELEHEALTH_CONSENT_TITLE,
+  subtitle: `Version ${TELEHEALTH_CONSENT_VERSION}`,
+  blocks: [
+    {
+      type: 'fields',
+      fields: [
+        { label: 'Client', value: clientName },
+        { label: 'Date', value: format(signedOn, 'MMMM d, yyyy') }
+      ]
+    },
+    ...TELEHEALTH_CONSENT_SECTIONS.flatMap((section): PdfBlock[] => [
+      { type: 'heading', text: section.title },
+      ...section.paragraphs.map((text): PdfBlock => ({ type: 'paragraph', text }))
+    ])
+  ]
+});
+
+// A heading followed by a bulleted list, or a note when nothing was selected
+const selectionSection = (title: string, items: string[], emptyText: string): PdfBlock[] => [
+  { type: 'heading', text: title },
+  items.length > 0 ? { type: 'list', items } : { type: 'paragraph', text: emptyText }
+];
+
+// A heading followed by a table, omitted when there are no rows
+const tableSection = (title: string, columns: string[], rows: string[][], widths?: number[]): PdfBlock[] =>
+  rows.length > 0 ? [{ type: 'heading', text: title }, { type: 'table', columns, rows, widths }] : [];
+
+export const buildClientHistoryPdf = (history: ClientHistorySubmission): StructuredPdfDocument => {
+  const { responses, emergency } = history;
+  const submittedOn = history.submissionDate ? new Date(history.submissionDate) : new Date();
+
+  return {
+    title: 'Client History',
+    subtitle: `Submitted ${format(submittedOn, "MMMM d, yyyy 'at' h:mm a")}`,
+    blocks: [
+      { type: 'heading', text: 'Client Information' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Name', value: history.fullName },
+          { label: 'Date of birth', value: history.dateOfBirth },
+          { label: 'Age', value: history.age },
+          { label: 'State', value: history.state },
+          { label: 'Phone', value: history.phoneNumber },
+          { label: 'Email', value: history.email }
+        ]
+      },
+      { type: 'heading', text: 'Emergency Contact' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Name', value: emergency.name },
+          { label: 'Relationship', value: emergency.relationship },
+          { label: 'Phone', value: emergency.phone }
+        ]
+      },
+      { type: 'heading', text: 'Current Status' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Current issues', value: responses.currentIssues },
+          { label: 'Progression of issues', value: responses.progressionOfIssues },
+          { label: 'Goals for counseling', value: responses.counselingGoals }
+        ]
+      },
+      ...selectionSection('Symptoms', history.selectedSymptoms, 'No symptoms selected'),
+      ...tableSection(
+        'Family of Origin',
+        ['Relationship', 'Name', 'Personality', 'Relationship growing up', 'Relationship now'],
+        history.family.map(member => [
+          member.relationshipType, member.name, member.personality, member.relationshipGrowing || '', member.relationshipNow
+        ])
+      ),
+      ...selectionSection('Childhood Experiences', history.selectedChildhoodExperiences, 'None selected'),
+      { type: 'heading', text: 'Current Information' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Household same as family of origin', value: yesNo(history.sameHousehold) },
+          { label: 'Occupation', value: responses.occupationDetails },
+          { label: 'Highest education completed', value: responses.educationLevel }
+        ]
+      },
+      ...tableSection(
+        'Current Household',
+        ['Relationship', 'Name', 'Personality', 'Relationship now'],
+        history.household.map(member => [member.relationshipType, member.name, member.personality, member.relationshipNow])
+      ),
+      { type: 'heading', text: 'Relationship History' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Currently married', value: yesNo(history.isMarried) },
+          { label: 'Previous marriages', value: yesNo(history.showPastSpouses) },
+          { label: 'Typical relationship problems', value: responses.relationshipProblems }
+        ]
+      },
+      ...tableSection(
+        'Past Spouses',
+        ['Name', 'Personality', 'Relationship'],
+        history.pastSpouses.map(spouse => [spouse.name, spouse.personality, spouse.relationship])
+      ),
+      { type: 'heading', text: 'Medical and Mental Health History' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Average hours of sleep', value: responses.sleepHours },
+          { label: 'Previous mental health treatment', value: yesNo(history.showTreatments) },
+          { label: 'Currently taking medications', value: yesNo(history.showMedications) }
+        ]
+      },
+      ...selectionSection('Medical Conditions', history.selectedMedicalConditions, 'None selected'),
+      ...tableSection(
+        'Previous Treatment',
+        ['Year', 'Reason', 'Length', 'Provider'],
+        history.treatments.map(treatment => [treatment.year, treatment.reason, treatment.length, treatment.provider]),
+        [1, 3, 1.5, 2]
+      ),
+      ...tableSection(
+        'Medications',
+        ['Medication', 'Purpose', 'Duration'],
+        history.medications.map(medication => [medication.name, medication.purpose, medication.duration])
+      ),
+      { type: 'heading', text: 'Additional Information' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Personal strengths and accomplishments', value: responses.personalStrengths },
+          { label: 'Hobbies and activities', value: responses.hobbies }
+        ]
+      },
+      { type: 'heading', text: 'Signature' },
+      {
+        type: 'fields',
+        fields: [
+          { label: 'Signed by', value: history.signature },
+          { label: 'Date', value: format(submittedOn, 'MMMM d, yyyy') }
+        ]
+      }
+    ]
+  };
+};
@@ -1,7 +1,9 @@
 
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import { supabase } from '@/integrations/supabase/client';
+import { supabase, linkSignatureToDocument, fetchPracticeInfo } from '@/integrations/supabase/client';
+import { DocumentSignature } from '@/types/documentSignatures';
+import { StructuredPdfDocument, drawSignatureBlock, renderStructuredPDF } from '@/utils/structuredPdf';
 
 interface DocumentInfo {
   clientId: string;
@@ -11,19 +13,56 @@ interface DocumentInfo {
   createdBy?: string;
 }
 
+interface PDFOptions {
+  // Recorded signature to stamp after the content; the saved document is linked back to it
+  signature?: DocumentSignature;
+  // Further signatures stamped below it, e.g. a guardian's; these are not linked to the PDF
+  coSignatures?: DocumentSignature[];
+}
+
+const getDocumentDateString = (documentDate: string | Date) =>
+  typeof documentDate === 'string' ? documentDate : documentDate.toISOString().split('T')[0];
+
+/**
+ * Builds a text PDF from structured form data and saves it to Supabase storage. Preferred over
+ * generateAndSavePDF for forms whose answers are available as data.
+ */
+export const generateAndSaveStructuredPDF = async (
+  structuredDocument: StructuredPdfDocument,
+  documentInfo: DocumentInfo,
+  options: PDFOptions = {}
+): Promise<string | null> => {
+  try {
+    // A missing practice record only leaves the page header without practice details
+    const { data: practice } = await fetchPracticeInfo();
+
+    const signatures = [options.signature, ...(options.coSignatures || [])].filter(
+      (signature): signature is DocumentSignature => !!signature
+    );
+    const pdf = renderStructuredPDF(
+      {
+        ...structuredDocument,
+        blocks: [...structuredDocument.blocks, ...signatures.map(signature => ({ type: 'signature' as const, signature }))]
+      },
+      practice
+    );
+
+    return await savePDFDocument(pdf, documentInfo, options);
+  } catch (error) {
+    console.error('Error generating or saving structured PDF:', error);
+    return null;
+  }
+};
+
 /**
  * Generates PDF from an HTML element and saves it to Supabase storage
  */
 export const generateAndSavePDF = async (
   elementId: string,
-  documentInfo: DocumentInfo
+  documentInfo: DocumentInfo,
+  options: PDFOptions = {}
 ): Promise<string | null> => {
   try {
-    // Format date for file naming
-    const formattedDate = typeof documentInfo.documentDate === 'string' 
-      ? documentInfo.documentDate 
-      : documentInfo.documentDate.toISOString().split('T')[0];
-    
     // Step 1: Generate PDF from HTML element
     const element = document.getElementById(elementId);
     if (!element) {
@@ -107,58 +146,85 @@ export const generateAndSavePDF = async (
       heightLeft -= pageHeight;
     }
     
+    if (options.signature) {
+      // Content on the last page ends where the remaining image height runs out
+      const pageCount = Math.max(1, Math.ceil(imgHeight / pageHeight));
+      const contentBottom = margin + imgHeight - (pageCount - 1) * pageHeight;
+      const bounds = { left: margin, width: contentWidth, top: margin, bottom: pdfHeight - margin };
+      let signatureBottom = drawSignatureBlock(pdf, options.signature, contentBottom, bounds);
+      (options.coSignatures || []).forEach(coSignature => {
+        signatureBottom = drawSignatureBlock(pdf, coSignature, signatureBottom, bounds);
+      });
+    }
+    
     // Clean up the clone
     document.body.removeChild(clone);
     
     // Remove PDF generation class from original element
     element.classList.remove('generating-pdf');
     
-    // Convert PDF to blob
-    const pdfBlob = pdf.output('blob');
-    
-    // Step 2: Upload PDF to Supabase storage
-    const filePath = `${documentInfo.clientId}/${documentInfo.documentType}/${formattedDate}.pdf`;
-    const { error: uploadError } = await supabase.storage
-      .from('clinical_documents')
-      .upload(filePath, pdfBlob, {
-        contentType: 'application/pdf',
-        upsert: true
-      });
-    
-    if (uploadError) {
-      console.error('Error uploading PDF:', uploadError);
-      return null;
-    }
-    
-    // Step 3: Get the URL of the uploaded file
-    const { data: urlData } = supabase.storage
-      .from('clinical_documents')
-      .getPublicUrl(filePath);
-    
-    // Step 4: Save document metadata to clinical_documents table
-    const { error: dbError } = await supabase
-      .from('clinical_documents')
-      .insert({
-        client_id: documentInfo.clientId,
-        document_type: documentInfo.documentType,
-        document_date: formattedDate,
-        document_title: documentInfo.documentTitle,
-        file_path: filePath,
-        created_by: documentInfo.createdBy
-      });
-    
-    if (dbError) {
-      console.error('Error saving document metadata:', dbError);
-      return null;
-    }
-    
-    return filePath;
+    return await savePDFDocument(pdf, documentInfo, options);
   } catch (error) {
     console.error('Error generating or saving PDF:', error);
     return null;
   }
 };
 
+/**
+ * Uploads a generated PDF, records it in clinical_documents and links the signature to it
+ */
+const savePDFDocument = async (pdf: jsPDF, documentInfo: DocumentInfo, options: PDFOptions): Promise<string | null> => {
+  const formattedDate = getDocumentDateString(documentInfo.documentDate);
+  
+  // Convert PDF to blob
+  const pdfBlob = pdf.output('blob');
+  
+  // Upload PDF to Supabase storage. A signed PDF gets its own file named after the signature and
+  // is never overwritten, since the signature record points at it.
+  const filePath = options.signature
+    ? `${documentInfo.clientId}/${documentInfo.documentType}/${formattedDate}_${options.signature.id}.pdf`
+    : `${documentInfo.clientId}/${documentInfo.documentType}/${formattedDate}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from('clinical_documents')
+    .upload(filePath, pdfBlob, {
+      contentType: 'application/pdf',
+      upsert: !options.signature
+    });
+  
+  if (uploadError) {
+    console.error('Error uploading PDF:', uploadError);
+    return null;
+  }
+  
+  // Save document metadata to clinical_documents table
+  const { data: documentRecord, error: dbError } = await supabase
+    .from('clinical_documents')
+    .insert({
+      client_id: documentInfo.clientId,
+      document_type: documentInfo.documentType,
+      document_date: formattedDate,
+      document_title: documentInfo.documentTitle,
+      file_path: filePath,
+      created_by: documentInfo.createdBy
+    })
+    .select('id')
+    .single();
+  
+  if (dbError) {
+    console.error('Error saving document metadata:', dbError);
+    return null;
+  }
+  
+  if (options.signature && documentRecord) {
+    const { success: linked } = await linkSignatureToDocument(options.signature.id, documentRecord.id);
+    if (!linked) {
+      console.warn('Signed PDF saved but could not be linked to its signature record');
+    }
+  }
+  
+  return filePath;
+};
+
 /**
  * Process form elements to ensure their values are properly displayed in the PDF
  */
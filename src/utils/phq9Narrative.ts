@@ -0,0 +1,5 @@
+/**
+ * Template PHQ-9 narrative used when the AI narrative is unavailable or the practice prefers it.
+ * The implementation lives with the edge functions so both sides produce identical text.
+ */
+export * from '../../supabase/functions/_shared/phq9Narrative';
@@ -0,0 +1,169 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { formatInClientTimezone, convertToClientZone, DATE_FORMATS } from '@/utils/dateFormatting';
+
+/**
+ * Groups recurring appointment rows (shared `recurring_group_id`) into series and
+ * describes them for clients. Everything is derived from the existing appointment
+ * columns; there is no separate series table.
+ */
+
+export interface SeriesAppointment {
+  id: string;
+  start_at: string;
+  end_at: string;
+  status: string;
+  type?: string;
+  recurring_group_id: string | null;
+  appointment_recurring?: string | null;
+}
+
+export interface AppointmentSeries {
+  groupId: string;
+  // Days between occurrences, taken from appointment_recurring or inferred from the dates
+  intervalDays: number | null;
+  occurrences: SeriesAppointment[];
+  upcoming: SeriesAppointment[];
+  remainingCount: number;
+  nextOccurrence: SeriesAppointment | null;
+  lastOccurrence: SeriesAppointment | null;
+}
+
+const RECURRENCE_INTERVAL_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  'bi-weekly': 14,
+  every_2_weeks: 14,
+  every_other_week: 14,
+  every_3_weeks: 21,
+  every_4_weeks: 28,
+  monthly: 30
+};
+
+const isActive = (appointment: SeriesAppointment) => appointment.status !== 'cancelled';
+
+const byStartAt = (a: SeriesAppointment, b: SeriesAppointment) =>
+  parseISO(a.start_at).getTime() - parseISO(b.start_at).getTime();
+
+/**
+ * Resolves the spacing of a series. The free-text appointment_recurring value wins when it
+ * is recognised; otherwise the most common gap between occurrences is used.
+ */
+export const getSeriesIntervalDays = (
+  occurrences: SeriesAppointment[],
+  timezone: string
+): number | null => {
+  const recurrence = occurrences.find(o => o.appointment_recurring)?.appointment_recurring;
+  const normalized = recurrence?.trim().toLowerCase().replace(/\s+/g, '_');
+  if (normalized && RECURRENCE_INTERVAL_DAYS[normalized]) {
+    return RECURRENCE_INTERVAL_DAYS[normalized];
+  }
+
+  const sorted = [...occurrences].sort(byStartAt);
+  const gapCounts = new Map<number, number>();
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = differenceInCalendarDays(
+      convertToClientZone(sorted[i].start_at, timezone),
+      convertToClientZone(sorted[i - 1].start_at, timezone)
+    );
+    if (gap > 0) {
+      gapCounts.set(gap, (gapCounts.get(gap) || 0) + 1);
+    }
+  }
+
+  let intervalDays: number | null = null;
+  let bestCount = 0;
+  for (const [gap, count] of gapCounts) {
+    // Prefer the most frequent gap; a skipped week shouldn't turn weekly into biweekly
+    if (count > bestCount || (count === bestCount && intervalDays !== null && gap < intervalDays)) {
+      intervalDays = gap;
+      bestCount = count;
+    }
+  }
+  return intervalDays;
+};
+
+/**
+ * Builds one series per recurring_group_id. Appointments without a group are ignored.
+ */
+export const groupRecurringSeries = (
+  appointments: SeriesAppointment[],
+  timezone: string,
+  now: Date = new Date()
+): AppointmentSeries[] => {
+  const groups = new Map<string, SeriesAppointment[]>();
+  appointments.forEach(appointment => {
+    if (!appointment.recurring_group_id) return;
+    const group = groups.get(appointment.recurring_group_id) || [];
+    group.push(appointment);
+    groups.set(appointment.recurring_group_id, group);
+  });
+
+  const series: AppointmentSeries[] = [];
+  groups.forEach((occurrences, groupId) => {
+    const sorted = [...occurrences].sort(byStartAt);
+    const active = sorted.filter(isActive);
+    const upcoming = sorted.filter(
+      o => o.status === 'scheduled' && parseISO(o.start_at).getTime() > now.getTime()
+    );
+
+    series.push({
+      groupId,
+      // Cancelled occurrences still mark the cadence, so they are included here
+      intervalDays: getSeriesIntervalDays(sorted, timezone),
+      occurrences: sorted,
+      upcoming,
+      remainingCount: upcoming.length,
+      nextOccurrence: upcoming[0] || null,
+      lastOccurrence: active[active.length - 1] || null
+    });
+  });
+
+  return series.sort((a, b) => {
+    if (!a.nextOccurrence) return 1;
+    if (!b.nextOccurrence) return -1;
+    return byStartAt(a.nextOccurrence, b.nextOccurrence);
+  });
+};
+
+/**
+ * Human-readable cadence, e.g. "Every Tuesday at 3:00 PM" or "Every other Tuesday at 3:00 PM"
+ */
+export const describeSeriesCadence = (series: AppointmentSeries, timezone: string): string => {
+  const anchor = series.nextOccurrence || series.lastOccurrence || series.occurrences[0];
+  if (!anchor) return 'Recurring';
+
+  const weekday = formatInClientTimezone(anchor.start_at, timezone, 'EEEE');
+  const time = formatInClientTimezone(anchor.start_at, timezone, DATE_FORMATS.TIME_ONLY);
+
+  switch (series.intervalDays) {
+    case 1:
+      return `Every day at ${time}`;
+    case 7:
+      return `Every ${weekday} at ${time}`;
+    case 14:
+      return `Every other ${weekday} at ${time}`;
+    case null:
+      return `Recurring on ${weekday}s at ${time}`;
+    default:
+      if (series.intervalDays % 7 === 0) {
+        return `Every ${series.intervalDays / 7} weeks on ${weekday} at ${time}`;
+      }
+      if (series.intervalDays >= 28 && series.intervalDays <= 31) {
+        return `Monthly on ${formatInClientTimezone(anchor.start_at, timezone, 'do')} at ${time}`;
+      }
+      return `Every ${series.intervalDays} days at ${time}`;
+  }
+};
+
+/**
+ * Summary line such as "Every Tuesday at 3:00 PM · 8 remaining · ends Dec 15, 2026"
+ */
+export const describeSeries = (series: AppointmentSeries, timezone: string): string => {
+  const parts = [describeSeriesCadence(series, timezone)];
+  parts.push(series.remainingCount === 1 ? '1 remaining' : `${series.remainingCount} remaining`);
+  if (series.lastOccurrence) {
+    parts.push(`ends ${formatInClientTimezone(series.lastOccurrence.start_at, timezone, 'MMM d, yyyy')}`);
+  }
+  return parts.join(' · ');
+};
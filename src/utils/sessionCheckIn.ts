@@ -0,0 +1,66 @@
+/**
+ * Pre-session check-in pipeline definitions.
+ * Step lists are configured per clinician and/or appointment type in `session_check_in_configs`.
+ */
+
+export type CheckInStepId =
+  | 'phq9'
+  | 'gad7'
+  | 'pcl5'
+  | 'audit_c'
+  | 'cssrs_screener'
+  | 'phq_a'
+  | 'insurance_confirmation'
+  | 'consent_reacknowledgement';
+
+export interface CheckInStep {
+  step: CheckInStepId;
+  required: boolean;
+}
+
+export const CHECK_IN_STEP_LABELS: Record<CheckInStepId, string> = {
+  phq9: 'PHQ-9 questionnaire',
+  gad7: 'GAD-7 questionnaire',
+  pcl5: 'PCL-5 questionnaire',
+  audit_c: 'AUDIT-C questionnaire',
+  cssrs_screener: 'C-SSRS screener',
+  phq_a: 'PHQ-A questionnaire',
+  insurance_confirmation: 'Confirm insurance',
+  consent_reacknowledgement: 'Review consent'
+};
+
+// Questionnaire steps save their own results, and those results are what mark them satisfied
+export const ASSESSMENT_CHECK_IN_STEPS: CheckInStepId[] = ['phq9', 'gad7', 'pcl5', 'audit_c', 'cssrs_screener', 'phq_a'];
+
+// Mirrors the practice default seeded in session_check_in_configs
+export const DEFAULT_CHECK_IN_STEPS: CheckInStep[] = [{ step: 'phq9', required: true }];
+
+export const isCheckInStepId = (value: unknown): value is CheckInStepId =>
+  typeof value === 'string' && value in CHECK_IN_STEP_LABELS;
+
+/**
+ * Validates a configured step list. Unknown or repeated steps are dropped so a bad config
+ * cannot block a client from joining their session.
+ */
+export const normalizeCheckInSteps = (raw: unknown): CheckInStep[] => {
+  if (!Array.isArray(raw)) return DEFAULT_CHECK_IN_STEPS;
+
+  const seen = new Set<CheckInStepId>();
+  return raw.reduce<CheckInStep[]>((steps, item) => {
+    const step = typeof item === 'string' ? item : (item as { step?: unknown } | null)?.step;
+    if (!isCheckInStepId(step) || seen.has(step)) return steps;
+
+    seen.add(step);
+    const required = typeof item === 'object' && item !== null && 'required' in item
+      ? (item as { required?: unknown }).required !== false
+      : true;
+    steps.push({ step, required });
+    return steps;
+  }, []);
+};
+
+/**
+ * Steps still to be shown, in configured order
+ */
+export const getPendingCheckInSteps = (steps: CheckInStep[], completed: Set<CheckInStepId>): CheckInStep[] =>
+  steps.filter(step => !completed.has(step.step));
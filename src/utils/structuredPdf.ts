@@ -0,0 +1,347 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import type { PracticeInfo } from '@/integrations/supabase/client';
+import { DocumentSignature } from '@/types/documentSignatures';
+import { getSignatureAuditLines } from '@/utils/documentSignatures';
+
+/**
+ * Text-based PDF renderer. Documents are described as a list of blocks built from form data
+ * and laid out with real text, so the result is searchable, selectable and small, and page
+ * breaks always fall between lines instead of through them.
+ */
+
+export interface PdfField {
+  label: string;
+  value?: string | number | null;
+}
+
+export type PdfBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  // Two-column label/value table
+  | { type: 'fields'; fields: PdfField[] }
+  // Column widths are relative; columns are equal when omitted
+  | { type: 'table'; columns: string[]; rows: (string | number | null | undefined)[][]; widths?: number[] }
+  | { type: 'signature'; signature: DocumentSignature };
+
+export interface StructuredPdfDocument {
+  title: string;
+  subtitle?: string;
+  blocks: PdfBlock[];
+}
+
+// Layout in millimetres on A4, font sizes in points
+const MARGIN = 15;
+const HEADER_HEIGHT = 20;
+const FOOTER_HEIGHT = 12;
+const BODY_FONT_SIZE = 10;
+const HEADING_FONT_SIZE = 12;
+const TITLE_FONT_SIZE = 16;
+const LINE_HEIGHT_FACTOR = 1.3;
+const CELL_PADDING = 1.5;
+const LABEL_COLUMN_WIDTH = 60;
+const SIGNATURE_BLOCK_HEIGHT = 62;
+const EMPTY_VALUE = '—';
+
+const lineHeight = (fontSize: number) => (fontSize * LINE_HEIGHT_FACTOR * 25.4) / 72;
+
+interface Layout {
+  pdf: jsPDF;
+  y: number;
+  top: number;
+  bottom: number;
+  left: number;
+  width: number;
+}
+
+const newPage = (layout: Layout) => {
+  layout.pdf.addPage();
+  layout.y = layout.top;
+};
+
+const ensureSpace = (layout: Layout, height: number) => {
+  if (layout.y + height > layout.bottom) {
+    newPage(layout);
+  }
+};
+
+const setFont = (pdf: jsPDF, size: number, style: 'normal' | 'bold' | 'italic' = 'normal', color = 0) => {
+  pdf.setFont('helvetica', style);
+  pdf.setFontSize(size);
+  pdf.setTextColor(color);
+};
+
+const formatValue = (value: string | number | null | undefined) =>
+  value === null || value === undefined || String(value).trim() === '' ? EMPTY_VALUE : String(value);
+
+// Writes wrapped lines one at a time so a long paragraph continues on the next page
+const writeLines = (layout: Layout, lines: string[], fontSize: number, indent = 0) => {
+  const height = lineHeight(fontSize);
+  lines.forEach(line => {
+    ensureSpace(layout, height);
+    layout.pdf.text(line, layout.left + indent, layout.y, { baseline: 'top' });
+    layout.y += height;
+  });
+};
+
+interface RowCell {
+  text: string;
+  width: number;
+  bold?: boolean;
+  color?: number;
+}
+
+/**
+ * Draws one table row. Rows that fit on a page are kept together; a row taller than a whole
+ * page is continued on the next one. onPageBreak redraws e.g. a table header on the new page.
+ */
+const drawRow = (layout: Layout, cells: RowCell[], options: { fill?: number; onPageBreak?: () => void } = {}) => {
+  const { pdf } = layout;
+  const height = lineHeight(BODY_FONT_SIZE);
+  const wrapped = cells.map(cell => {
+    setFont(pdf, BODY_FONT_SIZE, cell.bold ? 'bold' : 'normal');
+    return pdf.splitTextToSize(cell.text, cell.width - CELL_PADDING * 2) as string[];
+  });
+  const totalLines = Math.max(1, ...wrapped.map(lines => lines.length));
+  const linesPerPage = Math.floor((layout.bottom - layout.top - CELL_PADDING * 2) / height);
+
+  let offset = 0;
+  while (offset < totalLines) {
+    const available = Math.floor((layout.bottom - layout.y - CELL_PADDING * 2) / height);
+    const remaining = totalLines - offset;
+    if (available < 1 || (offset === 0 && remaining <= linesPerPage && remaining > available)) {
+      newPage(layout);
+      options.onPageBreak?.();
+      continue;
+    }
+
+    const count = Math.min(available, remaining);
+    const rowHeight = count * height + CELL_PADDING * 2;
+    if (options.fill !== undefined) {
+      pdf.setFillColor(options.fill, options.fill, options.fill);
+      pdf.rect(layout.left, layout.y, layout.width, rowHeight, 'F');
+    }
+
+    let x = layout.left;
+    cells.forEach((cell, index) => {
+      const lines = wrapped[index].slice(offset, offset + count);
+      if (lines.length > 0) {
+        setFont(pdf, BODY_FONT_SIZE, cell.bold ? 'bold' : 'normal', cell.color ?? 0);
+        pdf.text(lines, x + CELL_PADDING, layout.y + CELL_PADDING, { baseline: 'top', lineHeightFactor: LINE_HEIGHT_FACTOR });
+      }
+      x += cell.width;
+    });
+
+    pdf.setDrawColor(220);
+    pdf.line(layout.left, layout.y + rowHeight, layout.left + layout.width, layout.y + rowHeight);
+    layout.y += rowHeight;
+    offset += count;
+  }
+  pdf.setTextColor(0);
+};
+
+const drawFields = (layout: Layout, fields: PdfField[]) => {
+  fields.forEach(field => {
+    drawRow(layout, [
+      { text: field.label, width: LABEL_COLUMN_WIDTH, bold: true, color: 70 },
+      { text: formatValue(field.value), width: layout.width - LABEL_COLUMN_WIDTH }
+    ]);
+  });
+};
+
+const drawTable = (layout: Layout, block: Extract<PdfBlock, { type: 'table' }>) => {
+  const weights = block.widths || block.columns.map(() => 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map(weight => (weight / totalWeight) * layout.width);
+
+  const drawHeader = () => drawRow(
+    layout,
+    block.columns.map((column, index) => ({ text: column, width: widths[index], bold: true })),
+    { fill: 240 }
+  );
+
+  // Keep the header with at least the first row
+  ensureSpace(layout, lineHeight(BODY_FONT_SIZE) * 2 + CELL_PADDING * 4);
+  drawHeader();
+  block.rows.forEach(row => {
+    drawRow(
+      layout,
+      widths.map((width, index) => ({ text: formatValue(row[index]), width })),
+      { onPageBreak: drawHeader }
+    );
+  });
+};
+
+/**
+ * Draws an electronic signature and its audit trail at y, starting a new page within bounds if
+ * it doesn't fit. Returns where the block ends.
+ */
+export const drawSignatureBlock = (
+  pdf: jsPDF,
+  signature: DocumentSignature,
+  y: number,
+  bounds: { left: number; width: number; top: number; bottom: number }
+): number => {
+  const { left, width } = bounds;
+
+  y += 6;
+  if (y + SIGNATURE_BLOCK_HEIGHT > bounds.bottom) {
+    pdf.addPage();
+    y = bounds.top;
+  }
+
+  pdf.setDrawColor(200);
+  pdf.line(left, y, left + width, y);
+  y += 6;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(11);
+  pdf.setTextColor(0);
+  pdf.text('Electronic Signature', left, y);
+  y += 4;
+
+  if (signature.signature_method === 'drawn') {
+    pdf.addImage(signature.signature_data, 'PNG', left, y, 70, 22);
+    y += 24;
+  } else {
+    pdf.setFont('times', 'italic');
+    pdf.setFontSize(22);
+    pdf.text(signature.signature_data, left, y + 12);
+    y += 18;
+  }
+
+  pdf.setDrawColor(120);
+  pdf.line(left, y, left + 80, y);
+  y += 5;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor(80);
+  getSignatureAuditLines(signature).forEach(line => {
+    const wrapped = pdf.splitTextToSize(line, width) as string[];
+    pdf.text(wrapped, left, y);
+    y += wrapped.length * 3.5;
+  });
+  pdf.setTextColor(0);
+  return y;
+};
+
+const getPracticeAddress = (practice: PracticeInfo) => {
+  const cityLine = [practice.practice_city, [practice.practice_state, practice.practice_zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [practice.practice_address1, practice.practice_address2, cityLine].filter(Boolean).join(', ');
+};
+
+// Header and footer go on every page once the content is laid out and the page count is known
+const decoratePages = (pdf: jsPDF, document: StructuredPdfDocument, practice: PracticeInfo | null) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - MARGIN;
+  const pageCount = pdf.getNumberOfPages();
+  const generatedAt = format(new Date(), "MMMM d, yyyy 'at' h:mm a");
+
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+
+    if (practice?.practice_name) {
+      setFont(pdf, 11, 'bold');
+      pdf.text(practice.practice_name, MARGIN, MARGIN, { baseline: 'top' });
+    }
+    const practiceDetails = practice
+      ? [getPracticeAddress(practice), practice.practice_npi ? `NPI ${practice.practice_npi}` : ''].filter(Boolean)
+      : [];
+    setFont(pdf, 8, 'normal', 90);
+    practiceDetails.forEach((line, index) => {
+      pdf.text(line, MARGIN, MARGIN + 5 + index * 3.5, { baseline: 'top', maxWidth: pageWidth / 2 - MARGIN });
+    });
+
+    setFont(pdf, 9, 'bold', 60);
+    pdf.text(document.title, right, MARGIN, { baseline: 'top', align: 'right', maxWidth: pageWidth / 2 - MARGIN });
+
+    pdf.setDrawColor(200);
+    pdf.line(MARGIN, MARGIN + HEADER_HEIGHT - 4, right, MARGIN + HEADER_HEIGHT - 4);
+
+    const footerY = pageHeight - MARGIN;
+    pdf.line(MARGIN, footerY - 5, right, footerY - 5);
+    setFont(pdf, 8, 'normal', 110);
+    pdf.text(`Generated ${generatedAt}`, MARGIN, footerY - 3, { baseline: 'top' });
+    pdf.text(`Page ${page} of ${pageCount}`, right, footerY - 3, { baseline: 'top', align: 'right' });
+  }
+  pdf.setTextColor(0);
+};
+
+/**
+ * Lays out a structured document as a text PDF with the practice's details in the page header
+ */
+export const renderStructuredPDF = (document: StructuredPdfDocument, practice: PracticeInfo | null = null): jsPDF => {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  pdf.setProperties({
+    title: document.title,
+    subject: document.subtitle || document.title,
+    creator: practice?.practice_name || 'Valorwell'
+  });
+  pdf.setLanguage('en-US');
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const layout: Layout = {
+    pdf,
+    y: MARGIN + HEADER_HEIGHT,
+    top: MARGIN + HEADER_HEIGHT,
+    bottom: pageHeight - MARGIN - FOOTER_HEIGHT,
+    left: MARGIN,
+    width: pageWidth - MARGIN * 2
+  };
+
+  setFont(pdf, TITLE_FONT_SIZE, 'bold');
+  writeLines(layout, pdf.splitTextToSize(document.title, layout.width) as string[], TITLE_FONT_SIZE);
+  if (document.subtitle) {
+    setFont(pdf, BODY_FONT_SIZE, 'normal', 90);
+    writeLines(layout, pdf.splitTextToSize(document.subtitle, layout.width) as string[], BODY_FONT_SIZE);
+  }
+  layout.y += 4;
+
+  document.blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        layout.y += 4;
+        // Keep a heading with the start of what follows it
+        ensureSpace(layout, lineHeight(HEADING_FONT_SIZE) + lineHeight(BODY_FONT_SIZE) * 3);
+        setFont(pdf, HEADING_FONT_SIZE, 'bold');
+        writeLines(layout, pdf.splitTextToSize(block.text, layout.width) as string[], HEADING_FONT_SIZE);
+        layout.y += 1;
+        break;
+      case 'paragraph':
+        setFont(pdf, BODY_FONT_SIZE);
+        writeLines(layout, pdf.splitTextToSize(block.text, layout.width) as string[], BODY_FONT_SIZE);
+        layout.y += 2;
+        break;
+      case 'list':
+        setFont(pdf, BODY_FONT_SIZE);
+        block.items.forEach(item => {
+          const lines = pdf.splitTextToSize(item, layout.width - 5) as string[];
+          ensureSpace(layout, lineHeight(BODY_FONT_SIZE));
+          pdf.text('•', layout.left + 1, layout.y, { baseline: 'top' });
+          writeLines(layout, lines, BODY_FONT_SIZE, 5);
+        });
+        layout.y += 2;
+        break;
+      case 'fields':
+        drawFields(layout, block.fields);
+        layout.y += 3;
+        break;
+      case 'table':
+        drawTable(layout, block);
+        layout.y += 3;
+        break;
+      case 'signature':
+        layout.y = drawSignatureBlock(pdf, block.signature, layout.y, layout);
+        break;
+    }
+  });
+
+  decoratePages(pdf, document, practice);
+  return pdf;
+};
@@ -0,0 +1,57 @@
+/**
+ * Stand-in for the Claim.MD eligibility API during local development.
+ *
+ *   deno run --allow-net supabase/dev/claimmd-mock-server.ts [port]
+ *
+ * then serve the functions with CLAIMMD_ELIGIBILITY_URL=http://host.docker.internal:8787/services/eligdata/
+ * and any CLAIMMD_ACCOUNT_KEY. The response depends on the end of the policy number:
+ *   ...0      coverage inactive
+ *   ...9      payer rejects the member
+ *   ...8      no answer until the function times out
+ *   anything  active coverage with a copay, coinsurance and a partly met deductible
+ */
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+const port = Number(Deno.args[0]) || 8787;
+
+const activeBenefits = [
+  { benefit_coverage_code: '1', benefit_coverage_description: 'Active Coverage', service_type_code: '30', insurance_plan: 'Mock PPO Gold' },
+  { benefit_coverage_code: 'B', service_type_code: 'MH', inplan_network: 'Y', benefit_level_code: 'IND', benefit_amount: '30' },
+  { benefit_coverage_code: 'B', service_type_code: 'MH', inplan_network: 'N', benefit_level_code: 'IND', benefit_amount: '60' },
+  { benefit_coverage_code: 'A', service_type_code: 'MH', inplan_network: 'Y', benefit_level_code: 'IND', benefit_percent: '0.2' },
+  { benefit_coverage_code: 'C', service_type_code: '30', inplan_network: 'Y', benefit_level_code: 'IND', benefit_period_code: '23', benefit_amount: '1500' },
+  { benefit_coverage_code: 'C', service_type_code: '30', inplan_network: 'Y', benefit_level_code: 'IND', benefit_period_code: '29', benefit_amount: '600' },
+  { benefit_coverage_code: 'G', service_type_code: '30', inplan_network: 'Y', benefit_level_code: 'IND', benefit_period_code: '29', benefit_amount: '3200' },
+];
+
+const respond = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return respond({ error: 'POST only' }, 405);
+  }
+
+  const form = new URLSearchParams(await req.text());
+  if (!form.get('AccountKey')) {
+    return respond({ error: [{ error_mesg: 'Invalid AccountKey' }] }, 401);
+  }
+
+  const memberId = form.get('ins_number') || '';
+  const eligid = `MOCK${Date.now()}`;
+  console.log(`eligibility request for payer ${form.get('payerid')} member ${memberId}`);
+
+  if (memberId.endsWith('8')) {
+    await new Promise(resolve => setTimeout(resolve, 120000));
+  }
+
+  if (memberId.endsWith('9')) {
+    return respond({ elig: { eligid, error: [{ error_mesg: 'Subscriber/Insured Not Found' }] } });
+  }
+
+  if (memberId.endsWith('0')) {
+    return respond({ elig: { eligid, benefit: [{ benefit_coverage_code: '6', benefit_coverage_description: 'Inactive' }] } });
+  }
+
+  return respond({ elig: { eligid, ins_plan: 'Mock PPO Gold', benefit: activeBenefits } });
+}, { port });
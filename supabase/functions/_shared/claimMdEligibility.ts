@@ -0,0 +1,228 @@
+/**
+ * Client for the Claim.MD real-time eligibility API (services/eligdata).
+ * Configured through environment variables:
+ *   CLAIMMD_ACCOUNT_KEY       Claim.MD account key (required)
+ *   CLAIMMD_ELIGIBILITY_URL   endpoint; point it at supabase/dev/claimmd-mock-server.ts locally
+ *   CLAIMMD_TIMEOUT_MS        request timeout
+ * Requests are sent as form fields and the JSON response is reduced to the benefits a client
+ * cares about: whether coverage is active, the office visit copay, coinsurance and deductible.
+ */
+
+export interface ClaimMdConfig {
+  accountKey: string;
+  url: string;
+  timeoutMs: number;
+}
+
+export interface EligibilityRequest {
+  payerId: string;
+  memberId: string;
+  subscriberFirstName: string;
+  subscriberLastName: string;
+  // yyyymmdd, as produced by format_date_for_claimmd
+  subscriberDob: string;
+  // X12 individual relationship code of the patient to the subscriber
+  patientRelationship: string;
+  patientFirstName?: string;
+  patientLastName?: string;
+  patientDob?: string;
+  dateOfService: string;
+  providerNpi: string;
+  providerTaxId?: string;
+}
+
+export type EligibilityStatus = 'active' | 'inactive' | 'error';
+
+export interface EligibilitySummary {
+  status: EligibilityStatus;
+  planName: string | null;
+  copay: number | null;
+  coinsurancePercent: number | null;
+  deductible: number | null;
+  deductibleRemaining: number | null;
+  outOfPocketRemaining: number | null;
+  errorMessage: string | null;
+  transactionId: string | null;
+}
+
+export interface EligibilityResult {
+  summary: EligibilitySummary;
+  responsePayload: unknown;
+  processingTimeMs: number;
+}
+
+export class ClaimMdError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ClaimMdError';
+  }
+}
+
+const DEFAULT_ELIGIBILITY_URL = 'https://svc.claim.md/services/eligdata/';
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Service type 30 is general health plan coverage; MH is mental health
+const SERVICE_TYPE_CODE = 'MH';
+
+// X12 relationship codes for the relationship choices offered in the portal
+const RELATIONSHIP_CODES: Record<string, string> = {
+  self: '18',
+  spouse: '01',
+  child: '19',
+  other: 'G8'
+};
+
+export const getPatientRelationshipCode = (relationship: string | null | undefined) =>
+  RELATIONSHIP_CODES[(relationship || 'self').trim().toLowerCase()] || RELATIONSHIP_CODES.other;
+
+export function getClaimMdConfig(env: { get(key: string): string | undefined } = Deno.env): ClaimMdConfig | null {
+  const accountKey = env.get('CLAIMMD_ACCOUNT_KEY');
+  if (!accountKey) return null;
+
+  const timeoutMs = Number(env.get('CLAIMMD_TIMEOUT_MS'));
+  return {
+    accountKey,
+    url: env.get('CLAIMMD_ELIGIBILITY_URL') || DEFAULT_ELIGIBILITY_URL,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs >= 1000 ? timeoutMs : DEFAULT_TIMEOUT_MS
+  };
+}
+
+interface ClaimMdBenefit {
+  benefit_coverage_code?: string;
+  benefit_coverage_description?: string;
+  benefit_level_code?: string;
+  benefit_period_code?: string;
+  benefit_amount?: string;
+  benefit_percent?: string;
+  inplan_network?: string;
+  insurance_plan?: string;
+  service_type_code?: string;
+}
+
+interface ClaimMdEligibility {
+  eligid?: string;
+  ins_plan?: string;
+  benefit?: ClaimMdBenefit[] | ClaimMdBenefit;
+  error?: { error_mesg?: string }[] | { error_mesg?: string };
+}
+
+// Benefit codes from the X12 271 EB01 element
+const COVERAGE_ACTIVE = '1';
+const COVERAGE_INACTIVE = '6';
+const COINSURANCE = 'A';
+const COPAY = 'B';
+const DEDUCTIBLE = 'C';
+const OUT_OF_POCKET = 'G';
+// Time period qualifiers from EB06
+const PERIOD_REMAINING = '29';
+
+const asArray = <T>(value: T[] | T | undefined): T[] => (Array.isArray(value) ? value : value ? [value] : []);
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// In-network, individual, mental health benefits are preferred over more general ones
+const pickBenefit = (benefits: ClaimMdBenefit[], code: string, remaining?: boolean) => {
+  const matches = benefits.filter(benefit =>
+    benefit.benefit_coverage_code === code &&
+    (remaining === undefined || (benefit.benefit_period_code === PERIOD_REMAINING) === remaining)
+  );
+  const rank = (benefit: ClaimMdBenefit) =>
+    (benefit.inplan_network === 'N' ? 0 : 4) +
+    (benefit.service_type_code === SERVICE_TYPE_CODE ? 2 : 0) +
+    (benefit.benefit_level_code === 'FAM' ? 0 : 1);
+  return matches.sort((a, b) => rank(b) - rank(a))[0];
+};
+
+export const summarizeEligibilityResponse = (response: unknown): EligibilitySummary => {
+  const elig = ((response as { elig?: ClaimMdEligibility } | null)?.elig || {}) as ClaimMdEligibility;
+  const errors = asArray(elig.error).map(error => error.error_mesg).filter(Boolean);
+  const benefits = asArray(elig.benefit);
+
+  const active = benefits.some(benefit => benefit.benefit_coverage_code === COVERAGE_ACTIVE);
+  const inactive = benefits.some(benefit => benefit.benefit_coverage_code === COVERAGE_INACTIVE);
+  const copay = pickBenefit(benefits, COPAY);
+  const coinsurance = pickBenefit(benefits, COINSURANCE);
+  const percent = toNumber(coinsurance?.benefit_percent);
+
+  return {
+    status: errors.length > 0 && !active ? 'error' : active ? 'active' : inactive ? 'inactive' : 'error',
+    planName: elig.ins_plan || benefits.find(benefit => benefit.insurance_plan)?.insurance_plan || null,
+    copay: toNumber(copay?.benefit_amount),
+    // Claim.MD reports coinsurance as a fraction (0.2 for 20%)
+    coinsurancePercent: percent === null ? null : percent <= 1 ? Math.round(percent * 100) : percent,
+    deductible: toNumber(pickBenefit(benefits, DEDUCTIBLE, false)?.benefit_amount),
+    deductibleRemaining: toNumber(pickBenefit(benefits, DEDUCTIBLE, true)?.benefit_amount),
+    outOfPocketRemaining: toNumber(pickBenefit(benefits, OUT_OF_POCKET, true)?.benefit_amount),
+    errorMessage: errors.length > 0
+      ? errors.join('; ')
+      : !active && !inactive ? 'The insurance company did not report coverage for this member' : null,
+    transactionId: elig.eligid || null
+  };
+};
+
+// Form fields for an eligibility request, without the account key so they can be stored
+export const buildEligibilityPayload = (request: EligibilityRequest): Record<string, string> => {
+  const requestPayload: Record<string, string> = {
+    payerid: request.payerId,
+    ins_number: request.memberId,
+    ins_name_f: request.subscriberFirstName,
+    ins_name_l: request.subscriberLastName,
+    ins_dob: request.subscriberDob,
+    pat_rel: request.patientRelationship,
+    fdos: request.dateOfService,
+    prov_npi: request.providerNpi,
+    service_code: SERVICE_TYPE_CODE
+  };
+  if (request.patientRelationship !== RELATIONSHIP_CODES.self) {
+    requestPayload.pat_name_f = request.patientFirstName || '';
+    requestPayload.pat_name_l = request.patientLastName || '';
+    requestPayload.pat_dob = request.patientDob || '';
+  }
+  if (request.providerTaxId) {
+    requestPayload.prov_taxid = request.providerTaxId;
+  }
+  return requestPayload;
+};
+
+/**
+ * Sends one eligibility request. Throws ClaimMdError when the API cannot be reached or rejects
+ * the request outright; payer-level rejections come back as a summary with status 'error'.
+ */
+export async function checkEligibility(config: ClaimMdConfig, requestPayload: Record<string, string>): Promise<EligibilityResult> {
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ AccountKey: config.accountKey, ...requestPayload }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      await response.text();
+      throw new ClaimMdError(`Claim.MD responded with HTTP ${response.status}`, response.status);
+    }
+
+    const responsePayload = await response.json();
+    return {
+      summary: summarizeEligibilityResponse(responsePayload),
+      responsePayload,
+      processingTimeMs: Date.now() - started
+    };
+  } catch (error) {
+    if (error instanceof ClaimMdError) throw error;
+    const timedOut = error instanceof DOMException && error.name === 'AbortError';
+    throw new ClaimMdError(
+      timedOut ? `Claim.MD request timed out after ${config.timeoutMs}ms` : `Network error: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
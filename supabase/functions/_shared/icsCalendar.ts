@@ -0,0 +1,267 @@
+/**
+ * iCalendar (RFC 5545) generation for appointment exports.
+ * Shared by the calendar-feed edge function (Deno) and the web app's .ics downloads, so it
+ * must stay free of imports. Events are written in the client's timezone with a matching
+ * VTIMEZONE so calendar apps show the same wall-clock time as the portal.
+ */
+
+export const ICS_PRODID = '-//ValorWell//Client Portal//EN';
+
+export interface CalendarEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: string;
+}
+
+export interface AppointmentCalendarDetails {
+  id: string;
+  start_at: string;
+  end_at: string;
+  type?: string | null;
+  status?: string | null;
+  video_room_url?: string | null;
+  updated_at?: string | null;
+}
+
+export interface IcsCalendarOptions {
+  calendarName?: string;
+  now?: Date;
+  // Suggested polling interval for subscribed calendars, as an RFC 5545 duration (e.g. PT1H)
+  refreshInterval?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Escapes TEXT values per RFC 5545 section 3.3.11
+ */
+export const escapeIcsText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Folds a content line to 75 octets, continuing with CRLF + space (RFC 5545 section 3.1)
+ */
+export const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Whether the runtime knows the IANA zone; callers fall back to UTC otherwise
+ */
+export const isValidIcsTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatUtcStamp = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const formatOffset = (offsetMinutes: number): string => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const minutes = String(absolute % 60).padStart(2, '0');
+  return `${sign}${hours}${minutes}`;
+};
+
+// Wall-clock time of an instant in the zone, as a Date whose UTC fields hold that wall clock
+const toWallClock = (date: Date, timezone: string): Date => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')));
+};
+
+// Offset of the zone at an instant, from the wall-clock time it shows at that instant
+const getOffsetMinutes = (timezone: string, date: Date): number => {
+  return Math.round((toWallClock(date, timezone).getTime() - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+const formatLocal = (date: Date, timezone: string): string => {
+  return formatUtcStamp(toWallClock(date, timezone)).replace('Z', '');
+};
+
+/**
+ * Builds a VTIMEZONE covering [rangeStart, rangeEnd]. Offset transitions are found by
+ * scanning day by day and narrowing to the minute, so any IANA zone works without a
+ * bundled tz database.
+ */
+export const buildVTimezone = (timezone: string, rangeStart: Date, rangeEnd: Date): string[] => {
+  const initialOffset = getOffsetMinutes(timezone, rangeStart);
+  const transitions: { at: Date; from: number; to: number }[] = [];
+
+  let previousTime = rangeStart.getTime();
+  let previousOffset = initialOffset;
+  for (let time = previousTime + DAY_MS; time <= rangeEnd.getTime() + DAY_MS; time += DAY_MS) {
+    const offset = getOffsetMinutes(timezone, new Date(time));
+    if (offset !== previousOffset) {
+      let low = previousTime;
+      let high = time;
+      while (high - low > 60000) {
+        const middle = Math.floor((low + high) / 2 / 60000) * 60000;
+        if (getOffsetMinutes(timezone, new Date(middle)) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), from: previousOffset, to: offset });
+      previousOffset = offset;
+    }
+    previousTime = time;
+  }
+
+  const standardOffset = Math.min(initialOffset, ...transitions.map(t => t.to));
+  const observance = (from: number, to: number, localStart: string) => {
+    const kind = to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    ];
+  };
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+  lines.push(...observance(initialOffset, initialOffset, '19700101T000000'));
+  transitions.forEach(transition => {
+    // DTSTART of an observance is the wall-clock time under the offset being left
+    const localStart = formatUtcStamp(new Date(transition.at.getTime() + transition.from * 60000)).replace('Z', '');
+    lines.push(...observance(transition.from, transition.to, localStart));
+  });
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+const buildVEvent = (event: CalendarEvent, timezone: string, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${timezone}:${formatLocal(new Date(event.start), timezone)}`,
+    `DTEND;TZID=${timezone}:${formatLocal(new Date(event.end), timezone)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtcStamp(new Date(event.lastModified))}`);
+  lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serializes events into a complete VCALENDAR document with CRLF line endings
+ */
+export const buildIcsCalendar = (
+  events: CalendarEvent[],
+  timezone: string,
+  options: IcsCalendarOptions = {}
+): string => {
+  const stamp = formatUtcStamp(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(options.calendarName)}`);
+  }
+  lines.push(`X-WR-TIMEZONE:${timezone}`);
+
+  if (options.refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`);
+    lines.push(`X-PUBLISHED-TTL:${options.refreshInterval}`);
+  }
+
+  if (events.length > 0) {
+    const starts = events.map(e => new Date(e.start).getTime());
+    const ends = events.map(e => new Date(e.end).getTime());
+    lines.push(...buildVTimezone(timezone, new Date(Math.min(...starts) - DAY_MS), new Date(Math.max(...ends) + DAY_MS)));
+  }
+
+  events.forEach(event => lines.push(...buildVEvent(event, timezone, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+const getTypeDisplay = (type?: string | null) => {
+  return type?.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()) || 'Appointment';
+};
+
+/**
+ * Maps an appointment row to a calendar event; the video link goes in LOCATION, URL and
+ * the description because calendar apps surface different fields
+ */
+export const appointmentToCalendarEvent = (
+  appointment: AppointmentCalendarDetails,
+  clinicianName?: string | null
+): CalendarEvent => {
+  const summary = clinicianName
+    ? `${getTypeDisplay(appointment.type)} with ${clinicianName}`
+    : getTypeDisplay(appointment.type);
+  const description = appointment.video_room_url
+    ? `Join your video session: ${appointment.video_room_url}`
+    : 'Your video link will be available in the client portal when the session starts.';
+
+  return {
+    uid: `${appointment.id}@valorwell`,
+    start: appointment.start_at,
+    end: appointment.end_at,
+    summary,
+    description,
+    location: appointment.video_room_url || 'Telehealth',
+    url: appointment.video_room_url || undefined,
+    status: appointment.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: appointment.updated_at || undefined
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * Provider abstraction for chat-completion LLM calls made by edge functions.
+ * Configured through environment variables:
+ *   NARRATIVE_LLM_PROVIDER     'openai_compatible' | 'local' | 'disabled'
+ *   NARRATIVE_LLM_BASE_URL     base URL of the /chat/completions API (required for 'local')
+ *   NARRATIVE_LLM_API_KEY      bearer token (optional for 'local')
+ *   NARRATIVE_LLM_MODEL        model name
+ *   NARRATIVE_LLM_TIMEOUT_MS   per-attempt timeout
+ *   NARRATIVE_LLM_MAX_RETRIES  retries after the first attempt
+ * With no NARRATIVE_LLM_PROVIDER set, an existing DEEPSEEK_API_KEY keeps the original DeepSeek
+ * setup working; otherwise the provider is disabled.
+ */
+
+export type LLMProviderKind = 'openai_compatible' | 'local' | 'disabled';
+
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  attempts: number;
+  latencyMs: number;
+}
+
+// Matches the error_category enum used by api_logs
+export type LLMErrorCategory = 'api_authentication' | 'network_error' | 'rate_limiting' | 'data_validation' | 'system_error';
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly category: LLMErrorCategory,
+    public readonly attempts: number,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+const DEEPSEEK_BASE_URL = 'https://api.deepseek.com/v1';
+const DEFAULT_MODEL = 'deepseek-chat';
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+const readNumber = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= min ? Math.floor(parsed) : fallback;
+};
+
+export function getLLMProviderConfig(env: { get(key: string): string | undefined } = Deno.env): LLMProviderConfig {
+  const configured = env.get('NARRATIVE_LLM_PROVIDER')?.trim().toLowerCase();
+  const legacyKey = env.get('DEEPSEEK_API_KEY');
+  const apiKey = env.get('NARRATIVE_LLM_API_KEY') || legacyKey || undefined;
+
+  let kind: LLMProviderKind;
+  if (configured === 'openai_compatible' || configured === 'local' || configured === 'disabled') {
+    kind = configured;
+  } else {
+    if (configured) {
+      console.warn(JSON.stringify({ event: 'llm_provider_config', message: `Unknown NARRATIVE_LLM_PROVIDER "${configured}", provider disabled` }));
+    }
+    kind = !configured && legacyKey ? 'openai_compatible' : 'disabled';
+  }
+
+  const baseUrl = (env.get('NARRATIVE_LLM_BASE_URL') || (kind === 'openai_compatible' ? DEEPSEEK_BASE_URL : '')).replace(/\/+$/, '');
+
+  // A remote provider without a key, or a local one without a URL, cannot be called
+  if ((kind === 'openai_compatible' && !apiKey) || (kind === 'local' && !baseUrl)) {
+    console.warn(JSON.stringify({ event: 'llm_provider_config', message: `Provider "${kind}" is missing its ${kind === 'local' ? 'base URL' : 'API key'}, provider disabled` }));
+    kind = 'disabled';
+  }
+
+  return {
+    kind,
+    baseUrl,
+    apiKey,
+    model: env.get('NARRATIVE_LLM_MODEL') || DEFAULT_MODEL,
+    timeoutMs: readNumber(env.get('NARRATIVE_LLM_TIMEOUT_MS'), DEFAULT_TIMEOUT_MS, 1000),
+    maxRetries: readNumber(env.get('NARRATIVE_LLM_MAX_RETRIES'), DEFAULT_MAX_RETRIES, 0)
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter, or the server's Retry-After when it sends one
+const getBackoffMs = (attempt: number, retryAfter: string | null) => {
+  const retryAfterSeconds = Number(retryAfter);
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  }
+  const exponential = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+  return Math.min(exponential + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+};
+
+const categorizeStatus = (status: number): LLMErrorCategory => {
+  if (status === 401 || status === 403) return 'api_authentication';
+  if (status === 429) return 'rate_limiting';
+  if (status === 400 || status === 422) return 'data_validation';
+  return 'system_error';
+};
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Sends a chat completion request, retrying timeouts, network failures, rate limits and
+ * server errors. Throws LLMProviderError once attempts are exhausted or on a non-retryable
+ * response.
+ */
+export async function createChatCompletion(
+  config: LLMProviderConfig,
+  messages: ChatMessage[],
+  options: { temperature?: number; maxTokens?: number } = {}
+): Promise<ChatCompletionResult> {
+  if (config.kind === 'disabled') {
+    throw new LLMProviderError('LLM provider is disabled', 'system_error', 0);
+  }
+
+  const started = Date.now();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+  const body = JSON.stringify({
+    model: config.model,
+    messages,
+    temperature: options.temperature ?? 0.3,
+    max_tokens: options.maxTokens ?? 300
+  });
+
+  let lastError: LLMProviderError | null = null;
+
+  for (let attempt = 1; attempt <= config.maxRetries + 1; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const content = data?.choices?.[0]?.message?.content?.trim();
+        if (!content) {
+          throw new LLMProviderError('Provider returned an empty completion', 'system_error', attempt, response.status);
+        }
+        return { content, attempts: attempt, latencyMs: Date.now() - started };
+      }
+
+      // The body is drained but never logged: it can echo the prompt back
+      await response.text();
+      lastError = new LLMProviderError(
+        `Provider responded with HTTP ${response.status}`,
+        categorizeStatus(response.status),
+        attempt,
+        response.status
+      );
+      if (!isRetryableStatus(response.status)) break;
+      retryAfter = response.headers.get('Retry-After');
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        lastError = error;
+        break;
+      }
+      const timedOut = error instanceof DOMException && error.name === 'AbortError';
+      lastError = new LLMProviderError(
+        timedOut ? `Provider request timed out after ${config.timeoutMs}ms` : `Network error: ${error instanceof Error ? error.message : String(error)}`,
+        'network_error',
+        attempt
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt <= config.maxRetries) {
+      const backoffMs = getBackoffMs(attempt, retryAfter);
+      console.warn(JSON.stringify({
+        event: 'llm_request_retry',
+        provider: config.kind,
+        attempt,
+        backoff_ms: Math.round(backoffMs),
+        error: lastError.message
+      }));
+      await sleep(backoffMs);
+    }
+  }
+
+  throw lastError || new LLMProviderError('LLM request failed', 'system_error', config.maxRetries + 1);
+}
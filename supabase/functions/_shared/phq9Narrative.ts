@@ -0,0 +1,122 @@
+/**
+ * Deterministic, template-based PHQ-9 narrative.
+ * Shared by the generate-phq9-narrative edge function (Deno) and the web app, so it must stay
+ * free of imports. The same item scores always produce the same wording.
+ */
+
+export type PHQ9NarrativeSource = 'template' | 'ai';
+
+export const PHQ9_NARRATIVE_SOURCES: PHQ9NarrativeSource[] = ['template', 'ai'];
+
+export interface PHQ9ItemScores {
+  question_1: number;
+  question_2: number;
+  question_3: number;
+  question_4: number;
+  question_5: number;
+  question_6: number;
+  question_7: number;
+  question_8: number;
+  question_9: number;
+}
+
+// Clinical shorthand for items 1-8; item 9 is always reported on its own
+const SYMPTOM_LABELS = [
+  'anhedonia',
+  'depressed mood',
+  'sleep disturbance',
+  'fatigue or low energy',
+  'appetite disturbance',
+  'feelings of worthlessness or guilt',
+  'impaired concentration',
+  'psychomotor changes'
+];
+
+const FREQUENCY_LABELS = ['not at all', 'on several days', 'on more than half the days', 'nearly every day'];
+
+const SEVERITY_BANDS = [
+  { max: 4, label: 'none-minimal', consideration: 'No treatment is indicated on the basis of this score alone.' },
+  { max: 9, label: 'mild', consideration: 'Watchful waiting with a repeat PHQ-9 at follow-up is suggested.' },
+  { max: 14, label: 'moderate', consideration: 'A treatment plan including counseling and follow-up should be considered.' },
+  { max: 19, label: 'moderately severe', consideration: 'Active treatment with psychotherapy and/or pharmacotherapy is indicated.' },
+  { max: 27, label: 'severe', consideration: 'Prompt initiation of treatment is indicated, with expedited referral if functional impairment is significant or response is poor.' }
+];
+
+const clampScore = (value: unknown) => {
+  const score = Number(value);
+  if (!Number.isFinite(score)) return 0;
+  return Math.min(3, Math.max(0, Math.round(score)));
+};
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+/**
+ * Reduces an assessment to its nine item scores and the derived total. Only this is sent to the
+ * narrative edge function and on to the LLM provider, so client identifiers, dates and free-text
+ * notes never leave the database.
+ */
+export const minimizePHQ9Assessment = (assessment: PHQ9ItemScores): PHQ9ItemScores & { total_score: number } => {
+  const items = {
+    question_1: clampScore(assessment.question_1),
+    question_2: clampScore(assessment.question_2),
+    question_3: clampScore(assessment.question_3),
+    question_4: clampScore(assessment.question_4),
+    question_5: clampScore(assessment.question_5),
+    question_6: clampScore(assessment.question_6),
+    question_7: clampScore(assessment.question_7),
+    question_8: clampScore(assessment.question_8),
+    question_9: clampScore(assessment.question_9)
+  };
+  return { ...items, total_score: Object.values(items).reduce((sum, score) => sum + score, 0) };
+};
+
+export const getPHQ9Severity = (totalScore: number) =>
+  (SEVERITY_BANDS.find(band => totalScore <= band.max) || SEVERITY_BANDS[SEVERITY_BANDS.length - 1]).label;
+
+export const generatePHQ9TemplateNarrative = (assessment: PHQ9ItemScores): string => {
+  const scores = [
+    assessment.question_1, assessment.question_2, assessment.question_3,
+    assessment.question_4, assessment.question_5, assessment.question_6,
+    assessment.question_7, assessment.question_8, assessment.question_9
+  ].map(clampScore);
+  const totalScore = scores.reduce((sum, score) => sum + score, 0);
+  const band = SEVERITY_BANDS.find(b => totalScore <= b.max) || SEVERITY_BANDS[SEVERITY_BANDS.length - 1];
+
+  const sentences = [
+    `Client completed the PHQ-9 with a total score of ${totalScore} out of 27, consistent with ${band.label} depressive symptoms over the past two weeks.`
+  ];
+
+  const symptomsAt = (score: number) =>
+    SYMPTOM_LABELS.filter((_, index) => scores[index] === score);
+  const nearlyEveryDay = symptomsAt(3);
+  const moreThanHalf = symptomsAt(2);
+  const severalDays = symptomsAt(1);
+
+  if (nearlyEveryDay.length > 0 || moreThanHalf.length > 0) {
+    const parts = [];
+    if (nearlyEveryDay.length > 0) parts.push(`${joinList(nearlyEveryDay)} nearly every day`);
+    if (moreThanHalf.length > 0) parts.push(`${joinList(moreThanHalf)} on more than half the days`);
+    sentences.push(`Most prominent symptoms endorsed were ${parts.join(', and ')}.`);
+  } else if (severalDays.length > 0) {
+    sentences.push(`Symptoms were endorsed at low frequency only, with ${joinList(severalDays)} reported on several days.`);
+  } else if (scores[8] === 0) {
+    sentences.push('Client denied all depressive symptoms assessed.');
+  }
+
+  if (scores[0] >= 2 || scores[1] >= 2) {
+    sentences.push('At least one cardinal symptom of depression (depressed mood or anhedonia) was present on more than half the days.');
+  }
+
+  if (scores[8] > 0) {
+    sentences.push(
+      `Client endorsed thoughts of being better off dead or of self-harm ${FREQUENCY_LABELS[scores[8]]} (item 9), which warrants a prompt suicide risk assessment and safety planning.`
+    );
+  } else {
+    sentences.push('Client denied thoughts of death or self-harm (item 9).');
+  }
+
+  sentences.push(band.consideration);
+
+  return sentences.join(' ');
+};
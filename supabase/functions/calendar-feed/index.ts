@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7"
+import { appointmentToCalendarEvent, buildIcsCalendar, isValidIcsTimezone } from "../_shared/icsCalendar.ts"
+
+// Serves a client's upcoming appointments as an iCalendar subscription feed.
+// Calendar apps poll this URL, so reschedules and cancellations show up on the next refresh.
+// Authentication is the per-client token from client_calendar_feeds (verify_jwt = false).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keep recent sessions in the feed so they don't vanish from the calendar the moment they end
+const PAST_DAYS = 30;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token')?.replace(/\.ics$/, '');
+
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: 'Feed token is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase URL or service role key not set');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed, error: feedError } = await supabase
+      .from('client_calendar_feeds')
+      .select('id, client_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+
+    if (!feed) {
+      return new Response(
+        JSON.stringify({ error: 'Calendar feed not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: client, error: clientError } = await supabase
+      .from('clients')
+      .select('client_time_zone')
+      .eq('id', feed.client_id)
+      .single();
+
+    if (clientError) throw clientError;
+
+    const { data: appointments, error: appointmentsError } = await supabase
+      .from('appointments')
+      .select('id, start_at, end_at, type, status, clinician_name, video_room_url, updated_at')
+      .eq('client_id', feed.client_id)
+      .eq('status', 'scheduled')
+      .gte('start_at', new Date(Date.now() - PAST_DAYS * DAY_MS).toISOString())
+      .order('start_at', { ascending: true });
+
+    if (appointmentsError) throw appointmentsError;
+
+    const timezone = client?.client_time_zone && isValidIcsTimezone(client.client_time_zone)
+      ? client.client_time_zone
+      : 'UTC';
+
+    await supabase
+      .from('client_calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    const events = (appointments || []).map(appointment =>
+      appointmentToCalendarEvent(appointment, appointment.clinician_name)
+    );
+    // Ask calendar apps to poll hourly so reschedules/cancellations propagate quickly
+    const calendar = buildIcsCalendar(events, timezone, {
+      calendarName: 'ValorWell Appointments',
+      refreshInterval: 'PT1H',
+    });
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="valorwell-appointments.ics"',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error);
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to build calendar feed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+})
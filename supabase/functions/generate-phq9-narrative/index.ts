@@ -1,9 +1,20 @@
-
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import {
+  PHQ9ItemScores,
+  PHQ9NarrativeSource,
+  generatePHQ9TemplateNarrative,
+  minimizePHQ9Assessment,
+} from "../_shared/phq9Narrative.ts";
+import {
+  LLMProviderConfig,
+  LLMProviderError,
+  createChatCompletion,
+  getLLMProviderConfig,
+} from "../_shared/llmProvider.ts";
 
-const DEEPSEEK_API_KEY = Deno.env.get("DEEPSEEK_API_KEY");
-const DEEPSEEK_API_URL = "https://api.deepseek.com/v1/chat/completions";
+const FUNCTION_NAME = 'generate-phq9-narrative';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,90 +35,57 @@ serve(async (req) => {
       throw new Error("Assessment data is required");
     }
 
-    // Extract relevant information from the assessment data
-    const {
-      question_1, question_2, question_3, question_4, question_5,
-      question_6, question_7, question_8, question_9, total_score
-    } = assessmentData;
+    // Anything other than the item scores (client ids, dates, notes) is dropped before use
+    const scores = minimizePHQ9Assessment(assessmentData);
 
     // Get interpretation based on total score
-    const interpretation = getScoreInterpretation(total_score);
-
-    // Create a prompt for the AI to generate a narrative
-    const prompt = `
-    Generate a concise clinical narrative for a PHQ-9 depression assessment based on the following scores (0-3 scale where 0 is "Not at all" and 3 is "Nearly every day"):
-
-    1. Little interest or pleasure in doing things: ${question_1}
-    2. Feeling down, depressed, or hopeless: ${question_2}
-    3. Trouble falling or staying asleep, or sleeping too much: ${question_3}
-    4. Feeling tired or having little energy: ${question_4}
-    5. Poor appetite or overeating: ${question_5}
-    6. Feeling bad about yourself or that you are a failure: ${question_6}
-    7. Trouble concentrating: ${question_7}
-    8. Moving or speaking slowly or being fidgety/restless: ${question_8}
-    9. Thoughts of being better off dead or hurting yourself: ${question_9}
-
-    Total Score: ${total_score} (${interpretation})
-
-    The narrative should be in the third person, professionally written for a clinician's notes, and include:
-    1. A brief summary of the most significant symptoms
-    2. An analysis of the depression severity based on the total score
-    3. Any particular areas of concern (especially note if Question 9 > 0)
-    4. Use clinical language appropriate for a medical record
-    
-    Keep the narrative between 3-5 sentences and maintain a professional tone.
-    `;
-
-    // Call the DeepSeek API to generate the narrative
-    console.log("Calling DeepSeek API to generate PHQ-9 narrative");
-    const response = await fetch(DEEPSEEK_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${DEEPSEEK_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          {
-            role: "system",
-            content: "You are a clinical assistant that helps mental health professionals analyze PHQ-9 depression assessments."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.3, // Lower temperature for more consistent, clinical responses
-        max_tokens: 300
-      }),
-    });
+    const interpretation = getScoreInterpretation(scores.total_score);
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error("DeepSeek API error:", errorData);
-      throw new Error(`DeepSeek API error: ${response.status}`);
+    // The template narrative is always available, so the clinician gets a summary even when
+    // the AI call is skipped or fails
+    const respond = (narrative: string, source: PHQ9NarrativeSource, fallbackReason?: string) =>
+      new Response(
+        JSON.stringify({
+          success: true,
+          narrative,
+          source,
+          interpretation,
+          ...(fallbackReason ? { fallbackReason } : {})
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+
+    const supabase = getServiceClient();
+    const defaultSource = await getDefaultNarrativeSource(supabase);
+    if (defaultSource === 'template') {
+      return respond(generatePHQ9TemplateNarrative(scores), 'template');
     }
 
-    const data = await response.json();
-    console.log("DeepSeek API response received");
-    
-    // Extract the generated narrative from the API response
-    const rawNarrative = data.choices[0]?.message?.content?.trim() || 
-      `Patient scored ${total_score} on the PHQ-9 assessment, indicating ${interpretation}.`;
-    
-    // Clean the narrative to remove unwanted formatting
-    const narrative = cleanNarrative(rawNarrative);
+    const provider = getLLMProviderConfig();
+    if (provider.kind === 'disabled') {
+      console.warn("LLM provider is disabled, using template PHQ-9 narrative");
+      return respond(generatePHQ9TemplateNarrative(scores), 'template', 'AI provider not configured');
+    }
 
-    // Return the generated narrative
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        narrative,
-        interpretation
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    const started = Date.now();
+    try {
+      const { narrative, attempts } = await generateAINarrative(provider, scores, interpretation);
+      await logProviderCall(supabase, provider, { status: 'success', durationMs: Date.now() - started, attempts });
+      return respond(narrative, 'ai');
+    } catch (aiError) {
+      console.error("AI narrative generation failed, using template:", aiError);
+      await logProviderCall(supabase, provider, {
+        status: 'fallback',
+        durationMs: Date.now() - started,
+        attempts: aiError instanceof LLMProviderError ? aiError.attempts : 1,
+        error: aiError
+      });
+      return respond(
+        generatePHQ9TemplateNarrative(scores),
+        'template',
+        aiError instanceof Error ? aiError.message : 'AI narrative generation failed'
+      );
+    }
   } catch (error) {
     console.error("Error in generate-phq9-narrative function:", error);
     
@@ -125,6 +103,116 @@ serve(async (req) => {
   }
 });
 
+function getServiceClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !supabaseServiceKey) return null;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+// Practice-wide choice between the AI narrative (with template fallback) and the template only.
+// Defaults to 'ai' when the setting is missing or cannot be read.
+async function getDefaultNarrativeSource(supabase: SupabaseClient | null): Promise<PHQ9NarrativeSource> {
+  if (!supabase) return 'ai';
+
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('key', 'phq9_narrative_default_source')
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error reading PHQ-9 narrative setting:", error);
+    return 'ai';
+  }
+
+  return data?.value === 'template' ? 'template' : 'ai';
+}
+
+// Records one provider call in api_logs. Only provider metadata and timings are stored: never
+// the prompt, the completion or anything identifying the client.
+async function logProviderCall(
+  supabase: SupabaseClient | null,
+  provider: LLMProviderConfig,
+  result: { status: 'success' | 'fallback'; durationMs: number; attempts: number; error?: unknown }
+) {
+  const category = result.error instanceof LLMProviderError ? result.error.category : result.error ? 'system_error' : null;
+  const entry = {
+    endpoint: FUNCTION_NAME,
+    status: result.status,
+    correlation_id: crypto.randomUUID(),
+    request_payload: { provider: provider.kind, model: provider.model, timeout_ms: provider.timeoutMs },
+    response_data: result.error instanceof LLMProviderError && result.error.status ? { http_status: result.error.status } : null,
+    response_time_ms: result.durationMs,
+    processing_time_ms: result.durationMs,
+    retry_count: Math.max(0, result.attempts - 1),
+    error_message: result.error ? (result.error instanceof Error ? result.error.message : String(result.error)) : null,
+    error_category: category,
+    // The template narrative still reaches the clinician, so a failed call is never critical
+    error_severity: category === 'api_authentication' ? 'high' : category ? 'medium' : null
+  };
+
+  console.log(JSON.stringify({ event: 'llm_request', ...entry }));
+
+  if (!supabase) return;
+  const { error } = await supabase.from('api_logs').insert(entry);
+  if (error) {
+    console.error("Error writing narrative provider log:", error);
+  }
+}
+
+async function generateAINarrative(
+  provider: LLMProviderConfig,
+  assessmentData: PHQ9ItemScores & { total_score: number },
+  interpretation: string
+): Promise<{ narrative: string; attempts: number }> {
+  // Extract relevant information from the assessment data
+  const {
+    question_1, question_2, question_3, question_4, question_5,
+    question_6, question_7, question_8, question_9, total_score
+  } = assessmentData;
+
+  // Create a prompt for the AI to generate a narrative. It carries item scores only.
+  const prompt = `
+  Generate a concise clinical narrative for a PHQ-9 depression assessment based on the following scores (0-3 scale where 0 is "Not at all" and 3 is "Nearly every day"):
+
+  1. Little interest or pleasure in doing things: ${question_1}
+  2. Feeling down, depressed, or hopeless: ${question_2}
+  3. Trouble falling or staying asleep, or sleeping too much: ${question_3}
+  4. Feeling tired or having little energy: ${question_4}
+  5. Poor appetite or overeating: ${question_5}
+  6. Feeling bad about yourself or that you are a failure: ${question_6}
+  7. Trouble concentrating: ${question_7}
+  8. Moving or speaking slowly or being fidgety/restless: ${question_8}
+  9. Thoughts of being better off dead or hurting yourself: ${question_9}
+
+  Total Score: ${total_score} (${interpretation})
+
+  The narrative should be in the third person, professionally written for a clinician's notes, and include:
+  1. A brief summary of the most significant symptoms
+  2. An analysis of the depression severity based on the total score
+  3. Any particular areas of concern (especially note if Question 9 > 0)
+  4. Use clinical language appropriate for a medical record
+  
+  Keep the narrative between 3-5 sentences and maintain a professional tone.
+  `;
+
+  console.log(`Calling ${provider.kind} LLM provider to generate PHQ-9 narrative`);
+  const result = await createChatCompletion(provider, [
+    {
+      role: "system",
+      content: "You are a clinical assistant that helps mental health professionals analyze PHQ-9 depression assessments."
+    },
+    {
+      role: "user",
+      content: prompt
+    }
+  ], { temperature: 0.3, maxTokens: 300 }); // Lower temperature for more consistent, clinical responses
+
+  // Clean the narrative to remove unwanted formatting
+  return { narrative: cleanNarrative(result.content), attempts: result.attempts };
+}
+
 // Helper function to clean AI-generated narrative text
 function cleanNarrative(text: string): string {
   if (!text) return text;
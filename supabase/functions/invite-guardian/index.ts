@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Invites a parent or guardian of a minor client to the portal and links their account to the
+ * minor's clients row. When the minor asks, the link is only recorded for staff to approve; a
+ * clinician or admin sending the same invitation approves it and emails the guardian, who then
+ * accepts it from their portal. A guardian already linked to another minor (e.g. a sibling) keeps
+ * their account; any other existing account for the email is refused with 409 so staff can
+ * resolve it.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { clientId, guardianEmail, guardianName, relationship } = await req.json();
+    // Stored lower-cased (the table enforces it), so lookups compare exactly
+    const email = String(guardianEmail || '').trim().toLowerCase();
+    const name = String(guardianName || '').trim();
+
+    if (!clientId || !email || !name) {
+      return jsonResponse({ error: 'Client ID, guardian email and guardian name are required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase URL or service role key not set');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user: callingUser }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !callingUser) {
+      return jsonResponse({ error: 'Unauthorized', details: userError?.message }, 401);
+    }
+
+    // The minor may ask for their own guardian; only staff can approve and send the invitation
+    const [{ data: admin }, { data: clinician }] = await Promise.all([
+      supabase.from('admins').select('id').eq('id', callingUser.id).maybeSingle(),
+      supabase.from('clinicians').select('id').eq('id', callingUser.id).maybeSingle(),
+    ]);
+    const isStaff = !!admin || !!clinician;
+
+    if (!isStaff && callingUser.id !== clientId) {
+      return jsonResponse({ error: 'Not allowed to invite a guardian for this client' }, 403);
+    }
+
+    const { data: client, error: clientError } = await supabase
+      .from('clients')
+      .select('id, client_email, client_minor')
+      .eq('id', clientId)
+      .maybeSingle();
+
+    if (clientError || !client) {
+      return jsonResponse({ error: 'Client not found' }, 404);
+    }
+
+    if (client.client_minor !== 'Yes') {
+      return jsonResponse({ error: 'Guardians can only be invited for minor clients' }, 400);
+    }
+
+    if (client.client_email && client.client_email.toLowerCase() === email) {
+      return jsonResponse({ error: "The guardian must use a different email address than the client's" }, 400);
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('client_guardians')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('guardian_email', email)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new Error(existingError.message);
+    }
+
+    // Revoked links stay revoked; re-inviting must not restore a guardian staff removed
+    if (existing?.status === 'revoked') {
+      return jsonResponse(
+        { error: "This parent or guardian's access was removed by the practice. Please contact the practice." },
+        409
+      );
+    }
+
+    if (existing?.status === 'active' || (existing && !isStaff)) {
+      return jsonResponse({ success: true, guardian: existing, invitationSent: false }, 200);
+    }
+
+    if (!isStaff) {
+      const { data: request, error: requestError } = await supabase
+        .from('client_guardians')
+        .insert({
+          client_id: clientId,
+          guardian_email: email,
+          guardian_name: name,
+          relationship: relationship || 'Parent/Guardian',
+          status: 'pending_approval',
+          invited_by: callingUser.id,
+        })
+        .select()
+        .single();
+
+      if (requestError) {
+        throw new Error(requestError.message);
+      }
+
+      return jsonResponse({ success: true, guardian: request, invitationSent: false }, 200);
+    }
+
+    // Reuse the account of a guardian invited before, e.g. for a sibling
+    const { data: knownGuardian } = await supabase
+      .from('client_guardians')
+      .select('guardian_user_id')
+      .eq('guardian_email', email)
+      .not('guardian_user_id', 'is', null)
+      .limit(1)
+      .maybeSingle();
+
+    let guardianUserId = (existing?.guardian_user_id || knownGuardian?.guardian_user_id) as string | undefined;
+    let invitationSent = false;
+
+    if (!guardianUserId) {
+      const [firstName, ...rest] = name.split(/\s+/);
+      const origin = req.headers.get('origin') || Deno.env.get('SITE_URL') || '';
+
+      const { data: invited, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(email, {
+        data: { role: 'guardian', first_name: firstName, last_name: rest.join(' ') },
+        redirectTo: origin ? `${origin}/update-password` : undefined,
+      });
+
+      if (inviteError || !invited?.user) {
+        console.error('Error inviting guardian:', inviteError);
+        const alreadyRegistered = inviteError?.message?.toLowerCase().includes('already been registered');
+        return jsonResponse(
+          {
+            error: alreadyRegistered
+              ? 'An account already exists for this email. Please contact the practice to link it.'
+              : inviteError?.message || 'Failed to send the invitation',
+          },
+          alreadyRegistered ? 409 : 400
+        );
+      }
+
+      guardianUserId = invited.user.id;
+      invitationSent = true;
+    }
+
+    const approved = {
+      client_id: clientId,
+      guardian_user_id: guardianUserId,
+      guardian_email: email,
+      guardian_name: existing?.guardian_name || name,
+      relationship: existing?.relationship || relationship || 'Parent/Guardian',
+      status: 'invited',
+      invited_by: callingUser.id,
+      invited_at: new Date().toISOString(),
+    };
+
+    const { data: link, error: linkError } = existing
+      ? await supabase.from('client_guardians').update(approved).eq('id', existing.id).select().single()
+      : await supabase.from('client_guardians').insert(approved).select().single();
+
+    if (linkError) {
+      throw new Error(linkError.message);
+    }
+
+    return jsonResponse({ success: true, guardian: link, invitationSent }, 200);
+  } catch (error) {
+    console.error('Error in invite-guardian function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+})
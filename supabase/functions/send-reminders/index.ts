@@ -0,0 +1,348 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7"
+import { Resend } from "npm:resend@2.0.0";
+
+// Scheduled reminder job. Each run:
+//   1. enqueues appointment and outstanding-document reminders into client_reminders
+//      (dedupe_key is unique, so re-running never creates duplicates)
+//   2. delivers pending reminders by email (Resend) or as real_time_notifications
+//   3. expires unclaimed waitlist offers so each slot moves on to the next client in line
+// Called every 15 minutes with the service role key by the pg_cron job in
+// 20261019040000_schedule_send_reminders.sql.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DEFAULT_PREFERENCES = {
+  email_enabled: true,
+  portal_enabled: true,
+  appointment_lead_times: [1440, 60],
+  document_reminders_enabled: true,
+  document_reminder_interval_days: 3,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const MAX_DOCUMENT_REMINDERS = 5;
+const DISPATCH_BATCH_SIZE = 100;
+const OUTSTANDING_DOCUMENT_STATUSES = ['not_started', 'in_progress'];
+
+// Client names and document names are user-entered, so they are escaped before going into email HTML
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+interface ReminderPreferences {
+  email_enabled: boolean;
+  portal_enabled: boolean;
+  appointment_lead_times: number[];
+  document_reminders_enabled: boolean;
+  document_reminder_interval_days: number;
+}
+
+interface QueuedReminder {
+  client_id: string;
+  reminder_type: 'appointment' | 'document';
+  entity_id: string;
+  channel: 'email' | 'portal';
+  lead_time_minutes: number | null;
+  dedupe_key: string;
+}
+
+const getChannels = (preferences: ReminderPreferences) => {
+  const channels: ('email' | 'portal')[] = [];
+  if (preferences.email_enabled) channels.push('email');
+  if (preferences.portal_enabled) channels.push('portal');
+  return channels;
+};
+
+const formatLeadTime = (minutes: number) => {
+  if (minutes % 1440 === 0) return minutes === 1440 ? '24 hours' : `${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? '1 hour' : `${minutes / 60} hours`;
+  return `${minutes} minutes`;
+};
+
+const formatInZone = (timestamp: string, timezone: string | null) => {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short',
+  };
+  try {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: timezone || 'UTC' }).format(new Date(timestamp));
+  } catch {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(new Date(timestamp));
+  }
+};
+
+/**
+ * Only the most recently crossed lead time is enqueued, so an appointment booked
+ * 30 minutes out gets a single reminder instead of a burst of stale ones.
+ */
+const getDueLeadTime = (startAt: string, leadTimes: number[], now: number) => {
+  const minutesUntilStart = (new Date(startAt).getTime() - now) / 60000;
+  const crossed = leadTimes.filter(lead => minutesUntilStart <= lead);
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase URL or service role key not set');
+    }
+
+    // This job reads every client's schedule, so only the service role may run it
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader?.replace('Bearer ', '') !== supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = Date.now();
+
+    // Step 1: load preferences (clients without a row get the defaults)
+    const { data: preferenceRows, error: preferencesError } = await supabase
+      .from('client_reminder_preferences')
+      .select('*');
+
+    if (preferencesError) throw preferencesError;
+
+    const preferencesByClient = new Map<string, ReminderPreferences>(
+      (preferenceRows || []).map(row => [row.client_id, row])
+    );
+    const getPreferences = (clientId: string) => preferencesByClient.get(clientId) || DEFAULT_PREFERENCES;
+
+    const maxLeadTime = Math.max(
+      ...DEFAULT_PREFERENCES.appointment_lead_times,
+      ...(preferenceRows || []).flatMap(row => row.appointment_lead_times || [])
+    );
+
+    // Step 2: enqueue appointment reminders
+    const queue: QueuedReminder[] = [];
+
+    const { data: appointments, error: appointmentsError } = await supabase
+      .from('appointments')
+      .select('id, client_id, start_at')
+      .eq('status', 'scheduled')
+      .gt('start_at', new Date(now).toISOString())
+      .lte('start_at', new Date(now + maxLeadTime * 60000).toISOString());
+
+    if (appointmentsError) throw appointmentsError;
+
+    for (const appointment of appointments || []) {
+      const preferences = getPreferences(appointment.client_id);
+      const leadTime = getDueLeadTime(appointment.start_at, preferences.appointment_lead_times || [], now);
+      if (leadTime === null) continue;
+
+      const startEpoch = Math.floor(new Date(appointment.start_at).getTime() / 1000);
+      for (const channel of getChannels(preferences)) {
+        queue.push({
+          client_id: appointment.client_id,
+          reminder_type: 'appointment',
+          entity_id: appointment.id,
+          channel,
+          lead_time_minutes: leadTime,
+          dedupe_key: `appointment:${appointment.id}:${startEpoch}:${leadTime}:${channel}`,
+        });
+      }
+    }
+
+    // Step 3: enqueue outstanding document reminders, one per interval since assignment
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('document_assignments')
+      .select('id, client_id, created_at')
+      .in('status', OUTSTANDING_DOCUMENT_STATUSES);
+
+    if (assignmentsError) throw assignmentsError;
+
+    for (const assignment of assignments || []) {
+      const preferences = getPreferences(assignment.client_id);
+      if (!preferences.document_reminders_enabled) continue;
+
+      const intervalMs = preferences.document_reminder_interval_days * DAY_MS;
+      const bucket = Math.floor((now - new Date(assignment.created_at).getTime()) / intervalMs);
+      if (bucket < 1 || bucket > MAX_DOCUMENT_REMINDERS) continue;
+
+      for (const channel of getChannels(preferences)) {
+        queue.push({
+          client_id: assignment.client_id,
+          reminder_type: 'document',
+          entity_id: assignment.id,
+          channel,
+          lead_time_minutes: null,
+          dedupe_key: `document:${assignment.id}:${bucket}:${channel}`,
+        });
+      }
+    }
+
+    let enqueued = 0;
+    if (queue.length > 0) {
+      const { data: inserted, error: enqueueError } = await supabase
+        .from('client_reminders')
+        .upsert(queue, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+        .select('id');
+
+      if (enqueueError) throw enqueueError;
+      enqueued = inserted?.length || 0;
+    }
+
+    // Step 4: deliver pending reminders
+    const { data: pending, error: pendingError } = await supabase
+      .from('client_reminders')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('scheduled_for', new Date(now).toISOString())
+      .lt('attempts', MAX_ATTEMPTS)
+      .order('scheduled_for', { ascending: true })
+      .limit(DISPATCH_BATCH_SIZE);
+
+    if (pendingError) throw pendingError;
+
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    const resend = resendApiKey ? new Resend(resendApiKey) : null;
+    const results = { sent: 0, failed: 0, skipped: 0 };
+
+    for (const reminder of pending || []) {
+      const markReminder = async (status: string, lastError: string | null = null) => {
+        await supabase
+          .from('client_reminders')
+          .update({
+            status,
+            attempts: reminder.attempts + 1,
+            last_error: lastError,
+            sent_at: status === 'sent' ? new Date().toISOString() : null,
+          })
+          .eq('id', reminder.id);
+      };
+
+      try {
+        const { data: client } = await supabase
+          .from('clients')
+          .select('client_email, client_first_name, client_preferred_name, client_time_zone')
+          .eq('id', reminder.client_id)
+          .single();
+
+        let subject: string;
+        let message: string;
+        let entityType: string;
+
+        if (reminder.reminder_type === 'appointment') {
+          const { data: appointment } = await supabase
+            .from('appointments')
+            .select('id, start_at, status, clinician_name')
+            .eq('id', reminder.entity_id)
+            .single();
+
+          // The appointment was cancelled or moved after the reminder was queued
+          if (!appointment || appointment.status !== 'scheduled' || new Date(appointment.start_at).getTime() <= now) {
+            await markReminder('skipped');
+            results.skipped++;
+            continue;
+          }
+
+          const when = formatInZone(appointment.start_at, client?.client_time_zone);
+          const withWhom = appointment.clinician_name ? ` with ${appointment.clinician_name}` : '';
+          subject = `Reminder: your appointment in ${formatLeadTime(reminder.lead_time_minutes)}`;
+          message = `Reminder: you have an appointment${withWhom} on ${when}.`;
+          entityType = 'appointment';
+        } else {
+          const { data: assignment } = await supabase
+            .from('document_assignments')
+            .select('id, document_name, status')
+            .eq('id', reminder.entity_id)
+            .single();
+
+          if (!assignment || !OUTSTANDING_DOCUMENT_STATUSES.includes(assignment.status)) {
+            await markReminder('skipped');
+            results.skipped++;
+            continue;
+          }
+
+          subject = `Reminder: please complete ${assignment.document_name}`;
+          message = `Reminder: "${assignment.document_name}" is waiting for you in the client portal.`;
+          entityType = 'document_assignment';
+        }
+
+        if (reminder.channel === 'portal') {
+          const { error: notificationError } = await supabase
+            .from('real_time_notifications')
+            .insert({
+              user_id: reminder.client_id,
+              type: `${reminder.reminder_type}_reminder`,
+              message,
+              entity_type: entityType,
+              entity_id: reminder.entity_id,
+            });
+
+          if (notificationError) throw notificationError;
+        } else {
+          if (!resend) throw new Error('RESEND_API_KEY environment variable is not set');
+          if (!client?.client_email) {
+            await markReminder('skipped', 'Client has no email address');
+            results.skipped++;
+            continue;
+          }
+
+          const name = client.client_preferred_name || client.client_first_name || 'there';
+          const emailResponse = await resend.emails.send({
+            from: "Valorwell EHR <noreply@valorwell.com>",
+            to: [client.client_email],
+            subject,
+            html: `
+              <p>Hi ${escapeHtml(name)},</p>
+              <p>${escapeHtml(message)}</p>
+              <p>You can manage your appointments, documents and reminder settings in the Valorwell client portal.</p>
+            `,
+          });
+
+          if (!emailResponse || !emailResponse.id) {
+            throw new Error('Failed to send email: No response ID received');
+          }
+        }
+
+        await markReminder('sent');
+        results.sent++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[send-reminders] Failed to deliver reminder ${reminder.id}:`, errorMessage);
+        // Leave it pending for another attempt until MAX_ATTEMPTS is reached
+        await markReminder(reminder.attempts + 1 >= MAX_ATTEMPTS ? 'failed' : 'pending', errorMessage);
+        results.failed++;
+      }
+    }
+
+    // Step 5: expire unclaimed waitlist offers. A failure here must not fail the reminder run.
+    const { data: waitlistOffersExpired, error: waitlistError } = await supabase.rpc('process_expired_waitlist_offers');
+    if (waitlistError) {
+      console.error('[send-reminders] Failed to process expired waitlist offers:', waitlistError);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, enqueued, ...results, waitlistOffersExpired: waitlistOffersExpired || 0 }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in send-reminders function:', error);
+
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Failed to process reminders' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+})
@@ -0,0 +1,255 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7"
+import {
+  ClaimMdError,
+  EligibilitySummary,
+  buildEligibilityPayload,
+  checkEligibility,
+  getClaimMdConfig,
+  getPatientRelationshipCode,
+} from "../_shared/claimMdEligibility.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const INSURANCE_LEVELS = ['primary', 'secondary', 'tertiary'] as const;
+type InsuranceLevel = typeof INSURANCE_LEVELS[number];
+
+// Repeated clicks reuse the last answer instead of sending another billable request
+const MIN_SECONDS_BETWEEN_CHECKS = 60;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const splitName = (name: string) => {
+  const parts = name.trim().split(/\s+/);
+  return { first: parts[0] || '', last: parts.slice(1).join(' ') };
+};
+
+const formatDateForClaimMd = async (supabase: SupabaseClient, date: string) => {
+  const { data, error } = await supabase.rpc('format_date_for_claimmd', { input_date: date });
+  if (error || !data) {
+    throw new Error(`Could not format date for Claim.MD: ${error?.message || date}`);
+  }
+  return data as string;
+};
+
+/**
+ * Checks a client's coverage for one insurance level with Claim.MD. Every attempt is written to
+ * eligibility_audit, and the latest result is copied onto the client's eligibility_* columns.
+ * Clients may check their own policies; clinicians and admins may check any client's. Only complete
+ * policies (company, policy number and both card photos) are checked.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { clientId, insuranceLevel } = await req.json();
+    const level = insuranceLevel as InsuranceLevel;
+
+    if (!clientId || !INSURANCE_LEVELS.includes(level)) {
+      return jsonResponse({ error: 'Client ID and a primary, secondary or tertiary insurance level are required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase URL or service role key not set');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user: callingUser }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !callingUser) {
+      return jsonResponse({ error: 'Unauthorized', details: userError?.message }, 401);
+    }
+
+    if (callingUser.id !== clientId) {
+      const [{ data: admin }, { data: clinician }] = await Promise.all([
+        supabase.from('admins').select('id').eq('id', callingUser.id).maybeSingle(),
+        supabase.from('clinicians').select('id').eq('id', callingUser.id).maybeSingle(),
+      ]);
+
+      if (!admin && !clinician) {
+        return jsonResponse({ error: "Not allowed to check this client's coverage" }, 403);
+      }
+    }
+
+    const { data: client, error: clientError } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('id', clientId)
+      .maybeSingle();
+
+    if (clientError || !client) {
+      return jsonResponse({ error: 'Client not found' }, 404);
+    }
+
+    const insuranceCompany = client[`client_insurance_company_${level}`] as string | null;
+    const memberId = client[`client_policy_number_${level}`] as string | null;
+    const payerId = client[`client_${level}_payer_id`] as string | null;
+
+    if (!insuranceCompany || !memberId) {
+      return jsonResponse({ error: `Please add your ${level} insurance company and policy number first` }, 400);
+    }
+    // A policy is complete, and can be checked, once both sides of the card are on file
+    const { data: cardImages, error: cardImagesError } = await supabase
+      .from('insurance_card_images')
+      .select('side')
+      .eq('client_id', clientId)
+      .eq('insurance_level', level)
+      .is('replaced_at', null);
+
+    if (cardImagesError) {
+      throw new Error(cardImagesError.message);
+    }
+    const cardSides = new Set((cardImages || []).map(image => image.side));
+    if (!cardSides.has('front') || !cardSides.has('back')) {
+      return jsonResponse({ error: `Please add photos of the front and back of your ${level} insurance card first` }, 400);
+    }
+
+    if (!payerId) {
+      return jsonResponse({ error: `Your ${level} insurance has not been set up for online checks yet. Please contact the practice.` }, 400);
+    }
+
+    const lastChecked = client[`eligibility_last_checked_${level}`] as string | null;
+    const lastSummary = client[`eligibility_response_details_${level}_json`] as EligibilitySummary | null;
+    if (lastChecked && lastSummary && Date.now() - new Date(lastChecked).getTime() < MIN_SECONDS_BETWEEN_CHECKS * 1000) {
+      return jsonResponse({ success: true, eligibility: { ...lastSummary, insuranceLevel: level, checkedAt: lastChecked }, cached: true }, 200);
+    }
+
+    const config = getClaimMdConfig();
+    if (!config) {
+      console.error('CLAIMMD_ACCOUNT_KEY is not set, eligibility checks are unavailable');
+      return jsonResponse({ error: 'Coverage checks are not available right now. Please try again later.' }, 503);
+    }
+
+    const { data: practice } = await supabase
+      .from('practiceinfo')
+      .select('practice_npi, practice_taxid')
+      .limit(1)
+      .maybeSingle();
+
+    if (!practice?.practice_npi) {
+      throw new Error('Practice NPI is not configured in practiceinfo');
+    }
+
+    // Policies held in the client's own name use the client's details as the subscriber's
+    const relationship = client[`client_subscriber_relationship_${level}`] as string | null;
+    const relationshipCode = getPatientRelationshipCode(relationship);
+    const isSelf = relationshipCode === getPatientRelationshipCode('Self');
+    const subscriber = isSelf
+      ? { first: client.client_first_name || '', last: client.client_last_name || '' }
+      : splitName(client[`client_subscriber_name_${level}`] || '');
+    const subscriberDob = isSelf ? client.client_date_of_birth : client[`client_subscriber_dob_${level}`];
+
+    if (!subscriber.first || !subscriber.last || !subscriberDob) {
+      return jsonResponse({ error: `Please add the ${level} policy holder's full name and date of birth first` }, 400);
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const requestPayload = buildEligibilityPayload({
+      payerId,
+      memberId,
+      subscriberFirstName: subscriber.first,
+      subscriberLastName: subscriber.last,
+      subscriberDob: await formatDateForClaimMd(supabase, subscriberDob),
+      patientRelationship: relationshipCode,
+      patientFirstName: client.client_first_name || undefined,
+      patientLastName: client.client_last_name || undefined,
+      patientDob: client.client_date_of_birth ? await formatDateForClaimMd(supabase, client.client_date_of_birth) : undefined,
+      dateOfService: await formatDateForClaimMd(supabase, today),
+      providerNpi: practice.practice_npi,
+      providerTaxId: practice.practice_taxid || undefined,
+    });
+
+    const started = Date.now();
+    let summary: EligibilitySummary;
+    let responsePayload: unknown = null;
+    let processingTimeMs: number;
+
+    try {
+      const result = await checkEligibility(config, requestPayload);
+      summary = result.summary;
+      responsePayload = result.responsePayload;
+      processingTimeMs = result.processingTimeMs;
+    } catch (error) {
+      if (!(error instanceof ClaimMdError)) throw error;
+      console.error('Claim.MD eligibility request failed:', error.message);
+      processingTimeMs = Date.now() - started;
+      summary = {
+        status: 'error',
+        planName: null,
+        copay: null,
+        coinsurancePercent: null,
+        deductible: null,
+        deductibleRemaining: null,
+        outOfPocketRemaining: null,
+        errorMessage: error.message,
+        transactionId: null,
+      };
+    }
+
+    const checkedAt = new Date().toISOString();
+
+    const { error: auditError } = await supabase.from('eligibility_audit').insert({
+      client_id: clientId,
+      insurance_level: level,
+      status: summary.status,
+      copay: summary.copay,
+      deductible: summary.deductible,
+      coinsurance_percent: summary.coinsurancePercent,
+      claimmd_transaction_id: summary.transactionId,
+      error_message: summary.errorMessage,
+      request_payload: requestPayload,
+      response_payload: responsePayload,
+      processing_time_ms: processingTimeMs,
+      verification_date: checkedAt,
+    });
+    if (auditError) {
+      console.error('Error writing eligibility audit:', auditError);
+    }
+
+    const { error: updateError } = await supabase
+      .from('clients')
+      .update({
+        [`eligibility_status_${level}`]: summary.status,
+        [`eligibility_last_checked_${level}`]: checkedAt,
+        [`eligibility_copay_${level}`]: summary.copay,
+        [`eligibility_deductible_${level}`]: summary.deductible,
+        [`eligibility_coinsurance_${level}_percent`]: summary.coinsurancePercent,
+        [`eligibility_claimmd_id_${level}`]: summary.transactionId,
+        [`eligibility_response_details_${level}_json`]: summary,
+      })
+      .eq('id', clientId);
+    if (updateError) {
+      console.error('Error saving eligibility on client:', updateError);
+    }
+
+    if (summary.status === 'error' && !responsePayload) {
+      return jsonResponse({ error: 'We could not reach your insurance company. Please try again in a few minutes.' }, 502);
+    }
+
+    return jsonResponse({ success: true, eligibility: { ...summary, insuranceLevel: level, checkedAt } }, 200);
+  } catch (error) {
+    console.error('Error in verify-eligibility function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+})
@@ -0,0 +1,323 @@
+-- Client self-scheduling
+-- Clients cannot read other clients' appointments, so busy time for a clinician is exposed
+-- through a SECURITY DEFINER function that returns only time ranges (no client details).
+-- Bookings go through book_client_appointment so the conflict check and insert happen
+-- under a per-clinician lock and two clients cannot claim the same slot. The requested time is
+-- checked against the same rules the portal uses to offer slots (src/utils/availabilitySlots.ts):
+-- availability blocks minus exceptions, the slot step, and the notice and advance-booking limits.
+
+CREATE OR REPLACE FUNCTION public.get_clinician_busy_intervals(
+  p_clinician_id UUID,
+  p_start_at TIMESTAMPTZ,
+  p_end_at TIMESTAMPTZ
+)
+RETURNS TABLE (
+  start_at TIMESTAMPTZ,
+  end_at TIMESTAMPTZ,
+  buffer_before INTEGER,
+  buffer_after INTEGER,
+  source TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.start_at, a.end_at, COALESCE(a.buffer_before, 0), COALESCE(a.buffer_after, 0), 'appointment'::text
+  FROM appointments a
+  WHERE a.clinician_id = p_clinician_id
+    AND a.status <> 'cancelled'
+    AND a.start_at - make_interval(mins => COALESCE(a.buffer_before, 0)) < p_end_at
+    AND a.end_at + make_interval(mins => COALESCE(a.buffer_after, 0)) > p_start_at
+  UNION ALL
+  SELECT b.start_at, b.end_at, 0, 0, 'blocked_time'::text
+  FROM blocked_time b
+  WHERE b.clinician_id = p_clinician_id
+    AND b.start_at < p_end_at
+    AND b.end_at > p_start_at;
+END;
+$$;
+
+-- The clinician's availability between two instants: active blocks, with recurring ones expanded
+-- on the wall clock of their timezone, minus availability exceptions
+CREATE OR REPLACE FUNCTION public.get_clinician_available_time(
+  p_clinician_id UUID,
+  p_start_at TIMESTAMPTZ,
+  p_end_at TIMESTAMPTZ
+)
+RETURNS tstzmultirange
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_timezone TEXT;
+  v_block RECORD;
+  v_pattern JSONB;
+  v_block_timezone TEXT;
+  v_first_date DATE;
+  v_last_date DATE;
+  v_until DATE;
+  v_local_time TIME;
+  v_duration INTERVAL;
+  v_interval INTEGER;
+  v_max_count INTEGER;
+  v_days INTEGER[];
+  v_day DATE;
+  v_count INTEGER;
+  v_occurrence_start TIMESTAMPTZ;
+  v_ranges tstzrange[] := ARRAY[]::tstzrange[];
+  v_available tstzmultirange;
+  v_excluded tstzmultirange;
+BEGIN
+  SELECT COALESCE(NULLIF(clinician_time_zone::text, ''), 'America/New_York')
+  INTO v_timezone
+  FROM clinicians
+  WHERE id = p_clinician_id;
+
+  v_timezone := COALESCE(v_timezone, 'America/New_York');
+
+  FOR v_block IN
+    SELECT b.start_at, b.end_at, b.recurring_pattern
+    FROM availability_blocks b
+    WHERE b.clinician_id = p_clinician_id
+      AND b.is_active
+      AND b.start_at < p_end_at
+      AND b.end_at > b.start_at
+  LOOP
+    v_pattern := v_block.recurring_pattern;
+
+    IF v_pattern IS NULL OR COALESCE(v_pattern->>'frequency', '') = '' THEN
+      v_ranges := v_ranges || tstzrange(v_block.start_at, v_block.end_at);
+      CONTINUE;
+    END IF;
+
+    v_block_timezone := COALESCE(NULLIF(v_pattern->>'timezone', ''), v_timezone);
+    v_first_date := (v_block.start_at AT TIME ZONE v_block_timezone)::date;
+    v_local_time := (v_block.start_at AT TIME ZONE v_block_timezone)::time;
+    v_duration := v_block.end_at - v_block.start_at;
+    v_interval := GREATEST(1, COALESCE((v_pattern->>'interval')::integer, 1));
+    v_max_count := NULLIF((v_pattern->>'count')::integer, 0);
+    v_until := NULLIF(left(v_pattern->>'until', 10), '')::date;
+    v_last_date := (p_end_at AT TIME ZONE v_block_timezone)::date;
+
+    -- Days are 0 (Sunday) to 6, given as numbers or day names
+    SELECT array_agg(
+      CASE
+        WHEN jsonb_typeof(d) = 'number' THEN (d #>> '{}')::integer % 7
+        ELSE array_position(ARRAY['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'], left(lower(btrim(d #>> '{}')), 3)) - 1
+      END
+    )
+    INTO v_days
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(v_pattern->'days_of_week') = 'array' THEN v_pattern->'days_of_week' ELSE '[]'::jsonb END
+    ) AS d;
+
+    IF v_days IS NULL THEN
+      v_days := ARRAY[extract(dow FROM v_first_date)::integer];
+    END IF;
+
+    -- Occurrences are counted from the first one so that 'count' limits match the portal
+    v_count := 0;
+    v_day := v_first_date;
+    WHILE v_day <= v_last_date LOOP
+      EXIT WHEN v_until IS NOT NULL AND v_day > v_until;
+
+      IF (v_pattern->>'frequency' = 'daily' AND (v_day - v_first_date) % v_interval = 0)
+        OR (v_pattern->>'frequency' <> 'daily'
+          AND extract(dow FROM v_day)::integer = ANY (v_days)
+          AND ((v_day - v_first_date) / 7) % v_interval = 0) THEN
+        v_count := v_count + 1;
+        EXIT WHEN v_max_count IS NOT NULL AND v_count > v_max_count;
+
+        v_occurrence_start := (v_day + v_local_time) AT TIME ZONE v_block_timezone;
+        IF v_occurrence_start < p_end_at AND v_occurrence_start + v_duration > p_start_at THEN
+          v_ranges := v_ranges || tstzrange(v_occurrence_start, v_occurrence_start + v_duration);
+        END IF;
+      END IF;
+
+      v_day := v_day + 1;
+    END LOOP;
+  END LOOP;
+
+  SELECT range_agg(r) INTO v_available FROM unnest(v_ranges) AS r;
+
+  SELECT range_agg(tstzrange(
+    (e.specific_date::date + e.start_time::time) AT TIME ZONE v_timezone,
+    (e.specific_date::date + e.end_time::time) AT TIME ZONE v_timezone
+  ))
+  INTO v_excluded
+  FROM availability_exceptions e
+  WHERE e.clinician_id = p_clinician_id
+    AND e.is_active IS DISTINCT FROM false
+    AND NOT COALESCE(e.is_deleted, false)
+    AND e.end_time::time > e.start_time::time
+    AND e.specific_date::date BETWEEN (p_start_at AT TIME ZONE v_timezone)::date - 1
+                                  AND (p_end_at AT TIME ZONE v_timezone)::date + 1;
+
+  RETURN COALESCE(v_available, '{}'::tstzmultirange) - COALESCE(v_excluded, '{}'::tstzmultirange);
+END;
+$$;
+
+-- Whether a client may book this time with the clinician: inside their availability, on a slot
+-- boundary of their time granularity, and within their minimum notice and maximum advance.
+-- Busy time is checked separately by the callers, under the booking lock.
+CREATE OR REPLACE FUNCTION public.is_client_bookable_slot(
+  p_clinician_id UUID,
+  p_start_at TIMESTAMPTZ,
+  p_end_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_clinician clinicians%ROWTYPE;
+  v_timezone TEXT;
+  v_step_minutes INTEGER;
+  v_local_start TIMESTAMP;
+BEGIN
+  SELECT * INTO v_clinician FROM clinicians WHERE id = p_clinician_id;
+  IF NOT FOUND OR p_end_at <= p_start_at THEN
+    RETURN false;
+  END IF;
+
+  v_timezone := COALESCE(NULLIF(v_clinician.clinician_time_zone::text, ''), 'America/New_York');
+  v_local_start := p_start_at AT TIME ZONE v_timezone;
+
+  IF p_start_at < now() + make_interval(days => COALESCE(v_clinician.clinician_min_notice_days, 1)) THEN
+    RETURN false;
+  END IF;
+
+  IF v_local_start >= date_trunc('day', now() AT TIME ZONE v_timezone)
+    + make_interval(days => COALESCE(v_clinician.clinician_max_advance_days, 30) + 1) THEN
+    RETURN false;
+  END IF;
+
+  v_step_minutes := CASE lower(COALESCE(v_clinician.clinician_time_granularity::text, ''))
+    WHEN 'quarter' THEN 15
+    WHEN 'quarter_hour' THEN 15
+    WHEN '15' THEN 15
+    WHEN 'half' THEN 30
+    WHEN 'half_hour' THEN 30
+    WHEN '30' THEN 30
+    ELSE 60
+  END;
+
+  IF extract(second FROM v_local_start) <> 0
+    OR (extract(hour FROM v_local_start)::integer * 60 + extract(minute FROM v_local_start)::integer) % v_step_minutes <> 0 THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.get_clinician_available_time(p_clinician_id, p_start_at, p_end_at) @> tstzrange(p_start_at, p_end_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_client_appointment(
+  p_clinician_id UUID,
+  p_start_at TIMESTAMPTZ,
+  p_template_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_clinician clinicians%ROWTYPE;
+  v_template appointment_templates%ROWTYPE;
+  v_end_at TIMESTAMPTZ;
+  v_appointment_id UUID;
+BEGIN
+  SELECT * INTO v_client FROM clients WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only clients can book appointments';
+  END IF;
+
+  IF v_client.client_assigned_therapist IS NULL
+     OR v_client.client_assigned_therapist <> p_clinician_id::text THEN
+    RAISE EXCEPTION 'Appointments can only be booked with your assigned clinician';
+  END IF;
+
+  IF p_start_at <= now() THEN
+    RAISE EXCEPTION 'Invalid appointment time';
+  END IF;
+
+  -- Duration and type always come from the clinician's template, never from the caller
+  SELECT * INTO v_template
+  FROM appointment_templates t
+  WHERE t.user_id = p_clinician_id
+    AND (p_template_id IS NULL OR t.id = p_template_id)
+  ORDER BY t.is_default DESC NULLS LAST, t.created_at
+  LIMIT 1;
+
+  v_end_at := p_start_at + make_interval(mins => COALESCE(v_template.duration, 60));
+
+  SELECT * INTO v_clinician FROM clinicians WHERE id = p_clinician_id;
+
+  IF NOT public.is_client_bookable_slot(p_clinician_id, p_start_at, v_end_at) THEN
+    RAISE EXCEPTION 'The selected time is not one of the clinician''s open times'
+      USING ERRCODE = 'P0001', HINT = 'slot_not_offered';
+  END IF;
+
+  -- Serialize bookings per clinician so the conflict check below cannot race
+  PERFORM pg_advisory_xact_lock(hashtext(p_clinician_id::text));
+
+  IF EXISTS (SELECT 1 FROM public.get_clinician_busy_intervals(p_clinician_id, p_start_at, v_end_at)) THEN
+    RAISE EXCEPTION 'The selected time is no longer available' USING ERRCODE = 'P0001', HINT = 'slot_unavailable';
+  END IF;
+
+  INSERT INTO appointments (
+    client_id,
+    clinician_id,
+    start_at,
+    end_at,
+    type,
+    status,
+    template_id,
+    notes,
+    client_name,
+    client_email,
+    client_timezone,
+    clinician_name,
+    clinician_email
+  )
+  VALUES (
+    v_client.id,
+    p_clinician_id,
+    p_start_at,
+    v_end_at,
+    COALESCE(v_template.default_type, 'therapy_session'),
+    COALESCE(v_template.default_status, 'scheduled'),
+    v_template.id,
+    v_template.default_notes,
+    TRIM(CONCAT(COALESCE(v_client.client_preferred_name, v_client.client_first_name, ''), ' ', COALESCE(v_client.client_last_name, ''))),
+    v_client.client_email,
+    CASE
+      WHEN v_client.client_time_zone = ANY (enum_range(NULL::time_zones)::text[])
+        THEN v_client.client_time_zone::time_zones
+    END,
+    COALESCE(v_clinician.clinician_professional_name, TRIM(CONCAT(COALESCE(v_clinician.clinician_first_name, ''), ' ', COALESCE(v_clinician.clinician_last_name, '')))),
+    v_clinician.clinician_email
+  )
+  RETURNING id INTO v_appointment_id;
+
+  RETURN v_appointment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_clinician_busy_intervals(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.book_client_appointment(UUID, TIMESTAMPTZ, UUID) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018090000_client_self_scheduling',
+  'Added busy-interval lookup, slot validation and atomic booking functions for client self-scheduling',
+  jsonb_build_object('functions', jsonb_build_array('get_clinician_busy_intervals', 'get_clinician_available_time', 'is_client_bookable_slot', 'book_client_appointment'))
+);
@@ -0,0 +1,147 @@
+-- Client-initiated rescheduling
+-- The late-change window (hours before a session when clients can no longer cancel or
+-- reschedule themselves) moves from a hard-coded 24 hours in the portal to system_settings.
+
+INSERT INTO public.system_settings (key, value, description)
+VALUES (
+  'client_late_change_window_hours',
+  '24',
+  'Hours before an appointment after which clients can no longer cancel or reschedule it from the portal'
+)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.get_client_late_change_window_hours()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT NULLIF(value, '')::integer FROM system_settings WHERE key = 'client_late_change_window_hours'),
+    24
+  );
+$$;
+
+-- Busy intervals can now skip the appointment being rescheduled so a client can move
+-- a session to an overlapping time (e.g. 30 minutes later)
+DROP FUNCTION IF EXISTS public.get_clinician_busy_intervals(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.get_clinician_busy_intervals(
+  p_clinician_id UUID,
+  p_start_at TIMESTAMPTZ,
+  p_end_at TIMESTAMPTZ,
+  p_exclude_appointment_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  start_at TIMESTAMPTZ,
+  end_at TIMESTAMPTZ,
+  buffer_before INTEGER,
+  buffer_after INTEGER,
+  source TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.start_at, a.end_at, COALESCE(a.buffer_before, 0), COALESCE(a.buffer_after, 0), 'appointment'::text
+  FROM appointments a
+  WHERE a.clinician_id = p_clinician_id
+    AND a.status <> 'cancelled'
+    AND (p_exclude_appointment_id IS NULL OR a.id <> p_exclude_appointment_id)
+    AND a.start_at - make_interval(mins => COALESCE(a.buffer_before, 0)) < p_end_at
+    AND a.end_at + make_interval(mins => COALESCE(a.buffer_after, 0)) > p_start_at
+  UNION ALL
+  SELECT b.start_at, b.end_at, 0, 0, 'blocked_time'::text
+  FROM blocked_time b
+  WHERE b.clinician_id = p_clinician_id
+    AND b.start_at < p_end_at
+    AND b.end_at > p_start_at;
+END;
+$$;
+
+-- Moves a client's own appointment to a new start time in a single transaction.
+-- The duration, clinician and recurring_group_id are preserved, and the new time must pass the
+-- same is_client_bookable_slot check as a new booking.
+CREATE OR REPLACE FUNCTION public.reschedule_client_appointment(
+  p_appointment_id UUID,
+  p_new_start_at TIMESTAMPTZ
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_appointment appointments%ROWTYPE;
+  v_window_hours INTEGER;
+  v_new_end_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_appointment
+  FROM appointments
+  WHERE id = p_appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_appointment.client_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF v_appointment.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Only scheduled appointments can be rescheduled';
+  END IF;
+
+  v_window_hours := public.get_client_late_change_window_hours();
+
+  IF v_appointment.start_at <= now() + make_interval(hours => v_window_hours) THEN
+    RAISE EXCEPTION 'Appointments within % hours cannot be rescheduled online', v_window_hours
+      USING ERRCODE = 'P0001', HINT = 'late_change_window';
+  END IF;
+
+  IF p_new_start_at <= now() THEN
+    RAISE EXCEPTION 'Invalid appointment time';
+  END IF;
+
+  v_new_end_at := p_new_start_at + (v_appointment.end_at - v_appointment.start_at);
+
+  IF NOT public.is_client_bookable_slot(v_appointment.clinician_id, p_new_start_at, v_new_end_at) THEN
+    RAISE EXCEPTION 'The selected time is not one of the clinician''s open times'
+      USING ERRCODE = 'P0001', HINT = 'slot_not_offered';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_appointment.clinician_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.get_clinician_busy_intervals(
+      v_appointment.clinician_id, p_new_start_at, v_new_end_at, v_appointment.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'The selected time is no longer available' USING ERRCODE = 'P0001', HINT = 'slot_unavailable';
+  END IF;
+
+  UPDATE appointments
+  SET start_at = p_new_start_at,
+      end_at = v_new_end_at,
+      updated_at = now()
+  WHERE id = v_appointment.id;
+
+  RETURN v_appointment.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_client_late_change_window_hours() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_clinician_busy_intervals(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reschedule_client_appointment(UUID, TIMESTAMPTZ) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018100000_client_rescheduling_policy',
+  'Added configurable late-change window and atomic client rescheduling',
+  jsonb_build_object(
+    'settings', jsonb_build_array('client_late_change_window_hours'),
+    'functions', jsonb_build_array('get_client_late_change_window_hours', 'reschedule_client_appointment')
+  )
+);
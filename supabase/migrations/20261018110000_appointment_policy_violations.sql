@@ -0,0 +1,147 @@
+-- Late-cancellation and no-show policy engine
+-- A trigger on appointments records a violation (fee + strike) when a client cancels inside
+-- the late-change window or an appointment is marked 'no show', and flips the client to
+-- 'At Risk' once the configured number of strikes is reached. Running it in the database
+-- means no-shows marked from the clinician side are captured as well.
+
+INSERT INTO public.system_settings (key, value, description)
+VALUES
+  ('late_cancellation_fee', '50.00', 'Fee charged when a client cancels inside the late-change window'),
+  ('no_show_fee', '75.00', 'Fee charged when a client does not attend a scheduled appointment'),
+  ('client_at_risk_strike_threshold', '3', 'Number of unwaived late cancellations/no-shows before a client is marked At Risk')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.client_policy_violations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  violation_type TEXT NOT NULL CHECK (violation_type IN ('late_cancellation', 'no_show')),
+  fee_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  hours_before_start NUMERIC(10, 2),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'waived')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, violation_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_policy_violations_client_id
+  ON public.client_policy_violations (client_id, created_at DESC);
+
+CREATE TRIGGER update_client_policy_violations_updated_at
+  BEFORE UPDATE ON public.client_policy_violations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.client_policy_violations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own policy violations"
+  ON public.client_policy_violations FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clinicians and admins can manage policy violations"
+  ON public.client_policy_violations FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+-- Numeric setting lookup with a default, shared by the policy functions
+CREATE OR REPLACE FUNCTION public.get_numeric_system_setting(p_key TEXT, p_default NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT NULLIF(value, '')::numeric FROM system_settings WHERE key = p_key),
+    p_default
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_client_appointment_policy()
+RETURNS TABLE (
+  late_change_window_hours INTEGER,
+  late_cancellation_fee NUMERIC,
+  no_show_fee NUMERIC,
+  at_risk_strike_threshold INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    public.get_client_late_change_window_hours(),
+    public.get_numeric_system_setting('late_cancellation_fee', 0),
+    public.get_numeric_system_setting('no_show_fee', 0),
+    public.get_numeric_system_setting('client_at_risk_strike_threshold', 3)::integer;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_appointment_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_hours_before NUMERIC;
+  v_violation_type TEXT;
+  v_fee NUMERIC;
+  v_strikes INTEGER;
+  v_threshold INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_hours_before := ROUND((EXTRACT(EPOCH FROM (NEW.start_at - now())) / 3600)::numeric, 2);
+
+  IF NEW.status = 'no show' THEN
+    v_violation_type := 'no_show';
+    v_fee := public.get_numeric_system_setting('no_show_fee', 0);
+  ELSIF NEW.status = 'cancelled'
+    -- Only client-initiated cancellations count; clinician cancellations never incur a fee
+    AND auth.uid() = NEW.client_id
+    AND v_hours_before <= public.get_client_late_change_window_hours() THEN
+    v_violation_type := 'late_cancellation';
+    v_fee := public.get_numeric_system_setting('late_cancellation_fee', 0);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO client_policy_violations (client_id, appointment_id, violation_type, fee_amount, hours_before_start)
+  VALUES (NEW.client_id, NEW.id, v_violation_type, v_fee, v_hours_before)
+  ON CONFLICT (appointment_id, violation_type) DO NOTHING;
+
+  SELECT COUNT(*) INTO v_strikes
+  FROM client_policy_violations
+  WHERE client_id = NEW.client_id
+    AND status <> 'waived';
+
+  v_threshold := public.get_numeric_system_setting('client_at_risk_strike_threshold', 3)::integer;
+
+  IF v_threshold > 0 AND v_strikes >= v_threshold THEN
+    UPDATE clients
+    SET client_status = 'At Risk'
+    WHERE id = NEW.client_id
+      AND client_status IS DISTINCT FROM 'At Risk'
+      AND COALESCE(client_status, '') NOT IN ('Discharged', 'Blacklist', 'Do Not Contact');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_appointment_policy_on_status_change ON public.appointments;
+CREATE TRIGGER apply_appointment_policy_on_status_change
+  AFTER UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.apply_appointment_policy();
+
+GRANT EXECUTE ON FUNCTION public.get_client_appointment_policy() TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018110000_appointment_policy_violations',
+  'Added late-cancellation/no-show policy violations and At Risk escalation',
+  jsonb_build_object(
+    'tables', jsonb_build_array('client_policy_violations'),
+    'settings', jsonb_build_array('late_cancellation_fee', 'no_show_fee', 'client_at_risk_strike_threshold'),
+    'triggers', jsonb_build_array('apply_appointment_policy_on_status_change')
+  )
+);
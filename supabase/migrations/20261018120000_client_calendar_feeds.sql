@@ -0,0 +1,67 @@
+-- Per-client calendar subscription feeds
+-- Each client gets an unguessable token that the calendar-feed edge function accepts in place
+-- of a session, since calendar apps cannot sign in. Regenerating the token revokes old links.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.client_calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL UNIQUE REFERENCES public.clients(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_client_calendar_feeds_updated_at
+  BEFORE UPDATE ON public.client_calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.client_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own calendar feed"
+  ON public.client_calendar_feeds FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Admins can manage calendar feeds"
+  ON public.client_calendar_feeds FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Returns the caller's feed token, creating it on first use.
+-- Passing p_regenerate = true issues a new token and invalidates existing subscriptions.
+CREATE OR REPLACE FUNCTION public.get_client_calendar_feed_token(p_regenerate BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_client_id UUID := auth.uid();
+  v_token TEXT;
+BEGIN
+  IF v_client_id IS NULL OR NOT public.is_client(v_client_id) THEN
+    RAISE EXCEPTION 'Only clients can subscribe to an appointment calendar';
+  END IF;
+
+  INSERT INTO client_calendar_feeds (client_id)
+  VALUES (v_client_id)
+  ON CONFLICT (client_id) DO UPDATE
+    SET token = CASE WHEN p_regenerate THEN encode(gen_random_bytes(24), 'hex') ELSE client_calendar_feeds.token END
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_client_calendar_feed_token(BOOLEAN) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018120000_client_calendar_feeds',
+  'Added tokenized per-client ICS calendar feeds',
+  jsonb_build_object(
+    'tables', jsonb_build_array('client_calendar_feeds'),
+    'functions', jsonb_build_array('get_client_calendar_feed_token'),
+    'edge_functions', jsonb_build_array('calendar-feed')
+  )
+);
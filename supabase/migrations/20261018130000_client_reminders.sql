@@ -0,0 +1,91 @@
+-- Client reminders
+-- Clients choose lead times and channels in client_reminder_preferences. The send-reminders
+-- edge function runs on a schedule, enqueues due reminders into client_reminders (the
+-- dedupe_key makes enqueueing idempotent) and then delivers pending ones by email or as
+-- real_time_notifications.
+
+CREATE TABLE IF NOT EXISTS public.client_reminder_preferences (
+  client_id UUID PRIMARY KEY REFERENCES public.clients(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  portal_enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Minutes before an appointment to send a reminder, e.g. {1440, 60} = 24 hours and 1 hour
+  appointment_lead_times INTEGER[] NOT NULL DEFAULT '{1440,60}',
+  document_reminders_enabled BOOLEAN NOT NULL DEFAULT true,
+  document_reminder_interval_days INTEGER NOT NULL DEFAULT 3 CHECK (document_reminder_interval_days BETWEEN 1 AND 30),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_client_reminder_preferences_updated_at
+  BEFORE UPDATE ON public.client_reminder_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.client_reminder_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own reminder preferences"
+  ON public.client_reminder_preferences FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can create their own reminder preferences"
+  ON public.client_reminder_preferences FOR INSERT
+  WITH CHECK (auth.uid() = client_id);
+
+CREATE POLICY "Clients can update their own reminder preferences"
+  ON public.client_reminder_preferences FOR UPDATE
+  USING (auth.uid() = client_id)
+  WITH CHECK (auth.uid() = client_id);
+
+CREATE POLICY "Admins can manage reminder preferences"
+  ON public.client_reminder_preferences FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE TABLE IF NOT EXISTS public.client_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  reminder_type TEXT NOT NULL CHECK (reminder_type IN ('appointment', 'document')),
+  entity_id UUID NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'portal')),
+  lead_time_minutes INTEGER,
+  -- e.g. appointment:<id>:<start epoch>:<lead>:<channel>; a reschedule yields new keys
+  dedupe_key TEXT NOT NULL UNIQUE,
+  scheduled_for TIMESTAMPTZ NOT NULL DEFAULT now(),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_reminders_pending
+  ON public.client_reminders (scheduled_for)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_client_reminders_client_id
+  ON public.client_reminders (client_id, created_at DESC);
+
+CREATE TRIGGER update_client_reminders_updated_at
+  BEFORE UPDATE ON public.client_reminders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.client_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own reminders"
+  ON public.client_reminders FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Admins can manage reminders"
+  ON public.client_reminders FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018130000_client_reminders',
+  'Added client reminder preferences and idempotent reminder queue',
+  jsonb_build_object(
+    'tables', jsonb_build_array('client_reminder_preferences', 'client_reminders'),
+    'edge_functions', jsonb_build_array('send-reminders')
+  )
+);
@@ -0,0 +1,250 @@
+-- Secure client-clinician messaging
+-- Threads are always between one client and their assigned therapist. Messages are
+-- immutable once sent (no update/delete policies); the only change allowed is the
+-- recipient's read receipt, set through mark_message_thread_read. Attachments live in the
+-- clinical_documents bucket under <client_id>/messages/<thread_id>/.
+-- Notifications never include message content.
+
+CREATE TABLE IF NOT EXISTS public.message_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID NOT NULL REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL CHECK (length(trim(subject)) > 0),
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  last_message_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_client_id
+  ON public.message_threads (client_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_clinician_id
+  ON public.message_threads (clinician_id, last_message_at DESC);
+
+CREATE TRIGGER update_message_threads_updated_at
+  BEFORE UPDATE ON public.message_threads
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL DEFAULT auth.uid(),
+  body TEXT NOT NULL DEFAULT '',
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_thread_id
+  ON public.messages (thread_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+  ON public.messages (thread_id)
+  WHERE read_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message_id
+  ON public.message_attachments (message_id);
+
+-- A client may only message their assigned therapist; a clinician only their own clients
+CREATE OR REPLACE FUNCTION public.can_message(p_client_id UUID, p_clinician_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM clients c
+    WHERE c.id = p_client_id
+      AND c.client_assigned_therapist = p_clinician_id::text
+      AND auth.uid() IN (p_client_id, p_clinician_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_message_thread_participant(p_thread_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM message_threads t
+    WHERE t.id = p_thread_id
+      AND auth.uid() IN (t.client_id, t.clinician_id)
+  );
+$$;
+
+ALTER TABLE public.message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their message threads"
+  ON public.message_threads FOR SELECT
+  USING (auth.uid() IN (client_id, clinician_id) OR public.is_admin());
+
+CREATE POLICY "Clients and their therapist can start message threads"
+  ON public.message_threads FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND public.can_message(client_id, clinician_id));
+
+CREATE POLICY "Participants can view messages"
+  ON public.messages FOR SELECT
+  USING (public.is_message_thread_participant(thread_id) OR public.is_admin());
+
+CREATE POLICY "Participants can send messages"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND read_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.message_threads t
+      WHERE t.id = thread_id AND public.can_message(t.client_id, t.clinician_id)
+    )
+  );
+
+CREATE POLICY "Participants can view message attachments"
+  ON public.message_attachments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+      AND (public.is_message_thread_participant(m.thread_id) OR public.is_admin())
+  ));
+
+CREATE POLICY "Senders can attach files to their messages"
+  ON public.message_attachments FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id AND m.sender_id = auth.uid()
+  ));
+
+-- Storage paths are <client_id>/messages/<thread_id>/<file>. The thread id is only cast
+-- once the path has that shape, and the client folder must be the thread's own client so
+-- a participant cannot file attachments under another client's documents.
+CREATE OR REPLACE FUNCTION public.can_access_message_attachment_path(p_object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_folders TEXT[] := storage.foldername(p_object_name);
+BEGIN
+  IF array_length(v_folders, 1) IS DISTINCT FROM 3
+     OR v_folders[2] <> 'messages'
+     OR v_folders[3] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM message_threads t
+    WHERE t.id = v_folders[3]::uuid
+      AND t.client_id::text = v_folders[1]
+      AND auth.uid() IN (t.client_id, t.clinician_id)
+  );
+END;
+$$;
+
+CREATE POLICY "Thread participants can read message attachments"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'clinical_documents'
+    AND public.can_access_message_attachment_path(name)
+  );
+
+CREATE POLICY "Thread participants can upload message attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'clinical_documents'
+    AND public.can_access_message_attachment_path(name)
+  );
+
+-- Keeps the thread ordering current and tells the recipient (without the content) that
+-- a new message is waiting
+CREATE OR REPLACE FUNCTION public.handle_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_thread message_threads%ROWTYPE;
+  v_recipient UUID;
+BEGIN
+  UPDATE message_threads
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.thread_id
+  RETURNING * INTO v_thread;
+
+  v_recipient := CASE WHEN NEW.sender_id = v_thread.client_id THEN v_thread.clinician_id ELSE v_thread.client_id END;
+
+  INSERT INTO real_time_notifications (user_id, type, message, entity_type, entity_id)
+  VALUES (v_recipient, 'new_message', 'You have a new secure message', 'message_thread', NEW.thread_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_created
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_message();
+
+-- Read receipts: marks everything the other participant sent in the thread as read
+CREATE OR REPLACE FUNCTION public.mark_message_thread_read(p_thread_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT public.is_message_thread_participant(p_thread_id) THEN
+    RAISE EXCEPTION 'Thread not found';
+  END IF;
+
+  UPDATE messages
+  SET read_at = now()
+  WHERE thread_id = p_thread_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_message_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer
+  FROM messages m
+  JOIN message_threads t ON t.id = m.thread_id
+  WHERE auth.uid() IN (t.client_id, t.clinician_id)
+    AND m.sender_id <> auth.uid()
+    AND m.read_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_message_thread_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unread_message_count() TO authenticated;
+
+-- Realtime delivery (RLS still applies to subscribers)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018140000_client_messaging',
+  'Added secure client-clinician messaging with read receipts and attachments',
+  jsonb_build_object(
+    'tables', jsonb_build_array('message_threads', 'messages', 'message_attachments'),
+    'functions', jsonb_build_array('can_message', 'is_message_thread_participant', 'can_access_message_attachment_path', 'mark_message_thread_read', 'get_unread_message_count')
+  )
+);
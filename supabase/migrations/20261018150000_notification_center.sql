@@ -0,0 +1,41 @@
+-- Notification center
+-- The portal header lists real_time_notifications for the signed-in user and updates live.
+-- Users may only see and mark their own notifications; rows are created server-side
+-- (triggers and the send-reminders function).
+
+ALTER TABLE public.real_time_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON public.real_time_notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON public.real_time_notifications FOR SELECT
+  USING (user_id = auth.uid() OR is_admin());
+
+DROP POLICY IF EXISTS "Users can mark their own notifications read" ON public.real_time_notifications;
+CREATE POLICY "Users can mark their own notifications read"
+  ON public.real_time_notifications FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_real_time_notifications_user_created
+  ON public.real_time_notifications (user_id, created_at DESC);
+
+-- Realtime delivery (RLS still applies to subscribers)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'real_time_notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.real_time_notifications;
+  END IF;
+END $$;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018150000_notification_center',
+  'Enabled the in-app notification center over real_time_notifications',
+  jsonb_build_object(
+    'tables', jsonb_build_array('real_time_notifications'),
+    'realtime', true
+  )
+);
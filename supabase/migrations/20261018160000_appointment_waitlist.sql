@@ -0,0 +1,538 @@
+-- Client waitlist for earlier appointment slots
+-- A client registers a date range and preferred hours (wall-clock times in their own time
+-- zone, captured when they join). When a scheduled appointment is cancelled, deleted or
+-- rescheduled away from its slot, the freed slot is offered to the oldest matching entry
+-- for that clinician (first come, first served). Only one offer per slot is pending at a
+-- time; the client has waitlist_claim_window_minutes to claim it through
+-- claim_waitlist_offer before it expires and moves on to the next matching entry.
+-- Expiry is processed by process_expired_waitlist_offers, run from the send-reminders job.
+
+INSERT INTO public.system_settings (key, value, description)
+VALUES
+  ('waitlist_claim_window_minutes', '120', 'Minutes a waitlisted client has to claim an offered appointment slot'),
+  ('waitlist_min_notice_minutes', '60', 'Freed slots starting sooner than this are not offered to the waitlist')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.appointment_waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID NOT NULL REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  earliest_date DATE NOT NULL,
+  latest_date DATE NOT NULL,
+  preferred_start_time TIME NOT NULL,
+  preferred_end_time TIME NOT NULL,
+  time_zone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'offered', 'fulfilled', 'cancelled', 'expired')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (latest_date >= earliest_date),
+  CHECK (preferred_end_time > preferred_start_time)
+);
+
+-- One open waitlist entry per client
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointment_waitlist_entries_open_client
+  ON public.appointment_waitlist_entries (client_id)
+  WHERE status IN ('active', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_entries_clinician
+  ON public.appointment_waitlist_entries (clinician_id, status, created_at);
+
+CREATE TABLE IF NOT EXISTS public.appointment_waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES public.appointment_waitlist_entries(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID NOT NULL REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  source_appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  start_at TIMESTAMPTZ NOT NULL,
+  end_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'declined', 'expired', 'unavailable')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_offers_client
+  ON public.appointment_waitlist_offers (client_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_offers_slot
+  ON public.appointment_waitlist_offers (clinician_id, start_at);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_offers_pending_expiry
+  ON public.appointment_waitlist_offers (expires_at)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_appointment_waitlist_entries_updated_at
+  BEFORE UPDATE ON public.appointment_waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_appointment_waitlist_offers_updated_at
+  BEFORE UPDATE ON public.appointment_waitlist_offers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Clients read their own rows; every change goes through the functions below
+ALTER TABLE public.appointment_waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.appointment_waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own waitlist entries"
+  ON public.appointment_waitlist_entries FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clinicians and admins can manage waitlist entries"
+  ON public.appointment_waitlist_entries FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+CREATE POLICY "Clients can view their own waitlist offers"
+  ON public.appointment_waitlist_offers FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clinicians and admins can view waitlist offers"
+  ON public.appointment_waitlist_offers FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+-- A pending offer holds its slot for the claim window: it is busy time for everyone except
+-- the offered client, so book_client_appointment and reschedule_client_appointment cannot
+-- hand it to someone else while claim_waitlist_offer can still book it
+CREATE OR REPLACE FUNCTION public.get_clinician_busy_intervals(
+  p_clinician_id UUID,
+  p_start_at TIMESTAMPTZ,
+  p_end_at TIMESTAMPTZ,
+  p_exclude_appointment_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  start_at TIMESTAMPTZ,
+  end_at TIMESTAMPTZ,
+  buffer_before INTEGER,
+  buffer_after INTEGER,
+  source TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.start_at, a.end_at, COALESCE(a.buffer_before, 0), COALESCE(a.buffer_after, 0), 'appointment'::text
+  FROM appointments a
+  WHERE a.clinician_id = p_clinician_id
+    AND a.status <> 'cancelled'
+    AND (p_exclude_appointment_id IS NULL OR a.id <> p_exclude_appointment_id)
+    AND a.start_at - make_interval(mins => COALESCE(a.buffer_before, 0)) < p_end_at
+    AND a.end_at + make_interval(mins => COALESCE(a.buffer_after, 0)) > p_start_at
+  UNION ALL
+  SELECT b.start_at, b.end_at, 0, 0, 'blocked_time'::text
+  FROM blocked_time b
+  WHERE b.clinician_id = p_clinician_id
+    AND b.start_at < p_end_at
+    AND b.end_at > p_start_at
+  UNION ALL
+  SELECT o.start_at, o.end_at, 0, 0, 'waitlist_offer'::text
+  FROM appointment_waitlist_offers o
+  WHERE o.clinician_id = p_clinician_id
+    AND o.status = 'pending'
+    AND o.expires_at > now()
+    AND o.client_id <> auth.uid()
+    AND o.start_at < p_end_at
+    AND o.end_at > p_start_at;
+END;
+$$;
+
+-- Offers a freed slot to the oldest matching waitlist entry. Entries that were already
+-- offered this slot, and the client who gave it up, are skipped. Returns the offer id, or
+-- NULL when nobody matches.
+-- The offer is exactly what claim_waitlist_offer will book: the clinician's default session
+-- length from p_start_at, and only when is_client_bookable_slot accepts it (minimum notice,
+-- availability and slot boundaries), so a held offer can always be claimed unless the time
+-- is taken by someone else in the meantime.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(
+  p_clinician_id UUID,
+  p_start_at TIMESTAMPTZ,
+  p_source_appointment_id UUID DEFAULT NULL,
+  p_exclude_client_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_entry appointment_waitlist_entries%ROWTYPE;
+  v_end_at TIMESTAMPTZ;
+  v_expires_at TIMESTAMPTZ;
+  v_min_notice INTEGER;
+  v_offer_id UUID;
+BEGIN
+  v_min_notice := public.get_numeric_system_setting('waitlist_min_notice_minutes', 60)::integer;
+
+  IF p_start_at <= now() + make_interval(mins => v_min_notice) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Same template lookup as book_client_appointment
+  SELECT p_start_at + make_interval(mins => COALESCE(t.duration, 60)) INTO v_end_at
+  FROM appointment_templates t
+  WHERE t.user_id = p_clinician_id
+  ORDER BY t.is_default DESC NULLS LAST, t.created_at
+  LIMIT 1;
+  v_end_at := COALESCE(v_end_at, p_start_at + interval '60 minutes');
+
+  IF NOT public.is_client_bookable_slot(p_clinician_id, p_start_at, v_end_at) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Someone else already has this slot (or it is already on offer)
+  IF EXISTS (
+    SELECT 1 FROM appointments a
+    WHERE a.clinician_id = p_clinician_id
+      AND a.status <> 'cancelled'
+      AND a.start_at < v_end_at
+      AND a.end_at > p_start_at
+  ) OR EXISTS (
+    SELECT 1 FROM appointment_waitlist_offers o
+    WHERE o.clinician_id = p_clinician_id
+      AND o.status = 'pending'
+      AND o.start_at < v_end_at
+      AND o.end_at > p_start_at
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT e.* INTO v_entry
+  FROM appointment_waitlist_entries e
+  WHERE e.clinician_id = p_clinician_id
+    AND e.status = 'active'
+    AND e.client_id IS DISTINCT FROM p_exclude_client_id
+    AND (p_start_at AT TIME ZONE e.time_zone)::date BETWEEN e.earliest_date AND e.latest_date
+    AND (p_start_at AT TIME ZONE e.time_zone)::time >= e.preferred_start_time
+    AND (v_end_at AT TIME ZONE e.time_zone)::time <= e.preferred_end_time
+    AND NOT EXISTS (
+      SELECT 1 FROM appointment_waitlist_offers o
+      WHERE o.entry_id = e.id AND o.start_at = p_start_at
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.client_id = e.client_id
+        AND a.status <> 'cancelled'
+        AND a.start_at < v_end_at
+        AND a.end_at > p_start_at
+    )
+  ORDER BY e.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- The claim must still fall outside the clinician's minimum notice when it is made
+  v_expires_at := LEAST(
+    now() + make_interval(mins => public.get_numeric_system_setting('waitlist_claim_window_minutes', 120)::integer),
+    p_start_at - make_interval(mins => v_min_notice),
+    p_start_at - make_interval(days => COALESCE(
+      (SELECT c.clinician_min_notice_days FROM clinicians c WHERE c.id = p_clinician_id), 1
+    ))
+  );
+
+  INSERT INTO appointment_waitlist_offers (
+    entry_id, client_id, clinician_id, source_appointment_id, start_at, end_at, expires_at
+  )
+  VALUES (
+    v_entry.id, v_entry.client_id, p_clinician_id, p_source_appointment_id, p_start_at, v_end_at, v_expires_at
+  )
+  RETURNING id INTO v_offer_id;
+
+  UPDATE appointment_waitlist_entries SET status = 'offered' WHERE id = v_entry.id;
+
+  INSERT INTO real_time_notifications (user_id, type, message, entity_type, entity_id)
+  VALUES (
+    v_entry.client_id,
+    'waitlist_offer',
+    'An earlier appointment is available. Claim it before the offer expires.',
+    'waitlist_offer',
+    v_offer_id
+  );
+
+  RETURN v_offer_id;
+END;
+$$;
+
+-- Cancelling, deleting or moving a future scheduled appointment frees its original slot
+CREATE OR REPLACE FUNCTION public.offer_freed_appointment_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'scheduled' OR OLD.start_at <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status <> 'cancelled' AND NEW.start_at = OLD.start_at THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.offer_waitlist_slot(
+    OLD.clinician_id,
+    OLD.start_at,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE OLD.id END,
+    OLD.client_id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS offer_freed_appointment_slot_on_change ON public.appointments;
+CREATE TRIGGER offer_freed_appointment_slot_on_change
+  AFTER UPDATE OF status, start_at, end_at ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.offer_freed_appointment_slot();
+
+DROP TRIGGER IF EXISTS offer_freed_appointment_slot_on_delete ON public.appointments;
+CREATE TRIGGER offer_freed_appointment_slot_on_delete
+  AFTER DELETE ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.offer_freed_appointment_slot();
+
+CREATE OR REPLACE FUNCTION public.join_appointment_waitlist(
+  p_earliest_date DATE,
+  p_latest_date DATE,
+  p_preferred_start_time TIME,
+  p_preferred_end_time TIME
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_time_zone TEXT;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_client FROM clients WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only clients can join the waitlist';
+  END IF;
+
+  IF v_client.client_assigned_therapist IS NULL THEN
+    RAISE EXCEPTION 'You need an assigned clinician to join the waitlist';
+  END IF;
+
+  IF p_earliest_date IS NULL OR p_latest_date IS NULL OR p_latest_date < p_earliest_date THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_preferred_end_time <= p_preferred_start_time THEN
+    RAISE EXCEPTION 'Preferred end time must be after the start time';
+  END IF;
+
+  -- Matching converts slot times into this zone inside the appointments trigger, so it
+  -- must be a zone Postgres knows
+  SELECT name INTO v_time_zone FROM pg_timezone_names WHERE name = v_client.client_time_zone;
+  v_time_zone := COALESCE(v_time_zone, 'UTC');
+
+  -- Replaces any open entry so a client always has at most one
+  UPDATE appointment_waitlist_entries
+  SET status = 'cancelled'
+  WHERE client_id = v_client.id
+    AND status IN ('active', 'offered');
+
+  UPDATE appointment_waitlist_offers
+  SET status = 'declined', responded_at = now()
+  WHERE client_id = v_client.id
+    AND status = 'pending';
+
+  INSERT INTO appointment_waitlist_entries (
+    client_id, clinician_id, earliest_date, latest_date, preferred_start_time, preferred_end_time, time_zone
+  )
+  VALUES (
+    v_client.id,
+    v_client.client_assigned_therapist::uuid,
+    p_earliest_date,
+    p_latest_date,
+    p_preferred_start_time,
+    p_preferred_end_time,
+    v_time_zone
+  )
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_appointment_waitlist()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_offer appointment_waitlist_offers%ROWTYPE;
+BEGIN
+  UPDATE appointment_waitlist_entries
+  SET status = 'cancelled'
+  WHERE client_id = auth.uid()
+    AND status IN ('active', 'offered');
+
+  -- Pass any slot the client was holding to the next person in line
+  FOR v_offer IN
+    UPDATE appointment_waitlist_offers
+    SET status = 'declined', responded_at = now()
+    WHERE client_id = auth.uid()
+      AND status = 'pending'
+    RETURNING *
+  LOOP
+    PERFORM public.offer_waitlist_slot(v_offer.clinician_id, v_offer.start_at, v_offer.source_appointment_id, v_offer.client_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_waitlist_offer(p_offer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_offer appointment_waitlist_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_offer
+  FROM appointment_waitlist_offers
+  WHERE id = p_offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_offer.client_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  UPDATE appointment_waitlist_offers
+  SET status = 'declined', responded_at = now()
+  WHERE id = v_offer.id;
+
+  -- Declining one slot keeps the client on the waitlist for others
+  UPDATE appointment_waitlist_entries
+  SET status = 'active'
+  WHERE id = v_offer.entry_id
+    AND status = 'offered';
+
+  PERFORM public.offer_waitlist_slot(v_offer.clinician_id, v_offer.start_at, v_offer.source_appointment_id, v_offer.client_id);
+END;
+$$;
+
+-- Books the offered slot through book_client_appointment, which re-checks availability
+-- under the clinician lock
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(p_offer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_offer appointment_waitlist_offers%ROWTYPE;
+  v_appointment_id UUID;
+BEGIN
+  SELECT * INTO v_offer
+  FROM appointment_waitlist_offers
+  WHERE id = p_offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_offer.client_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status <> 'pending' OR v_offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired' USING ERRCODE = 'P0001', HINT = 'offer_expired';
+  END IF;
+
+  BEGIN
+    v_appointment_id := public.book_client_appointment(v_offer.clinician_id, v_offer.start_at);
+  EXCEPTION WHEN raise_exception THEN
+    UPDATE appointment_waitlist_offers
+    SET status = 'unavailable', responded_at = now()
+    WHERE id = v_offer.id;
+
+    UPDATE appointment_waitlist_entries
+    SET status = 'active'
+    WHERE id = v_offer.entry_id
+      AND status = 'offered';
+
+    -- Passes the slot on; this finds nobody when the time really was taken
+    PERFORM public.offer_waitlist_slot(v_offer.clinician_id, v_offer.start_at, v_offer.source_appointment_id, v_offer.client_id);
+
+    RETURN NULL;
+  END;
+
+  UPDATE appointment_waitlist_offers
+  SET status = 'claimed', appointment_id = v_appointment_id, responded_at = now()
+  WHERE id = v_offer.id;
+
+  UPDATE appointment_waitlist_entries
+  SET status = 'fulfilled'
+  WHERE id = v_offer.entry_id;
+
+  RETURN v_appointment_id;
+END;
+$$;
+
+-- Expires unclaimed offers (moving each slot on to the next matching entry) and closes
+-- entries whose date range has passed. Returns the number of offers expired.
+CREATE OR REPLACE FUNCTION public.process_expired_waitlist_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_offer appointment_waitlist_offers%ROWTYPE;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_offer IN
+    UPDATE appointment_waitlist_offers
+    SET status = 'expired'
+    WHERE status = 'pending'
+      AND expires_at <= now()
+    RETURNING *
+  LOOP
+    UPDATE appointment_waitlist_entries
+    SET status = 'active'
+    WHERE id = v_offer.entry_id
+      AND status = 'offered';
+
+    PERFORM public.offer_waitlist_slot(v_offer.clinician_id, v_offer.start_at, v_offer.source_appointment_id, v_offer.client_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE appointment_waitlist_entries
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND latest_date < (now() AT TIME ZONE time_zone)::date;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_slot(UUID, TIMESTAMPTZ, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_expired_waitlist_offers() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.process_expired_waitlist_offers() TO service_role;
+GRANT EXECUTE ON FUNCTION public.join_appointment_waitlist(DATE, DATE, TIME, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_appointment_waitlist() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_waitlist_offer(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer(UUID) TO authenticated;
+
+-- Realtime delivery (RLS still applies to subscribers)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.appointment_waitlist_offers;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018160000_appointment_waitlist',
+  'Added a first-come-first-served waitlist that offers freed appointment slots with a time-limited claim',
+  jsonb_build_object(
+    'tables', jsonb_build_array('appointment_waitlist_entries', 'appointment_waitlist_offers'),
+    'functions', jsonb_build_array('get_clinician_busy_intervals', 'offer_waitlist_slot', 'join_appointment_waitlist', 'leave_appointment_waitlist', 'decline_waitlist_offer', 'claim_waitlist_offer', 'process_expired_waitlist_offers'),
+    'triggers', jsonb_build_array('offer_freed_appointment_slot_on_change', 'offer_freed_appointment_slot_on_delete'),
+    'settings', jsonb_build_array('waitlist_claim_window_minutes', 'waitlist_min_notice_minutes')
+  )
+);
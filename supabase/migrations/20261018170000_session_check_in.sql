@@ -0,0 +1,122 @@
+-- Configurable pre-session check-in
+-- Before a client joins a video session they complete an ordered list of check-in steps.
+-- The list comes from session_check_in_configs, most specific match first:
+--   clinician + appointment type, clinician, appointment type, practice default.
+-- A step is skipped when it is already satisfied for the appointment; completions that
+-- have no record of their own (insurance confirmation, consent re-acknowledgement, and
+-- questionnaires without a results table) are kept in session_check_in_completions.
+
+CREATE TABLE IF NOT EXISTS public.session_check_in_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinician_id UUID REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  appointment_type TEXT,
+  -- Ordered list of { "step": <step id>, "required": <boolean> }
+  steps JSONB NOT NULL DEFAULT '[{"step": "phq9", "required": true}]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (jsonb_typeof(steps) = 'array')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_session_check_in_configs_scope
+  ON public.session_check_in_configs (
+    COALESCE(clinician_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(appointment_type, '')
+  );
+
+CREATE TRIGGER update_session_check_in_configs_updated_at
+  BEFORE UPDATE ON public.session_check_in_configs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Practice default keeps the existing behaviour: PHQ-9 before every session
+INSERT INTO public.session_check_in_configs (clinician_id, appointment_type, steps)
+SELECT NULL, NULL, '[{"step": "phq9", "required": true}]'::jsonb
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.session_check_in_configs WHERE clinician_id IS NULL AND appointment_type IS NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.session_check_in_completions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  step TEXT NOT NULL CHECK (step IN ('phq9', 'gad7', 'pcl5', 'insurance_confirmation', 'consent_reacknowledgement')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, step)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_check_in_completions_client
+  ON public.session_check_in_completions (client_id, completed_at DESC);
+
+ALTER TABLE public.session_check_in_configs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.session_check_in_completions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view check-in configs"
+  ON public.session_check_in_configs FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Clinicians can manage their own check-in configs"
+  ON public.session_check_in_configs FOR ALL
+  USING (public.is_admin() OR (clinician_id = auth.uid() AND public.is_clinician(auth.uid())))
+  WITH CHECK (public.is_admin() OR (clinician_id = auth.uid() AND public.is_clinician(auth.uid())));
+
+CREATE POLICY "Clients can view their own check-in completions"
+  ON public.session_check_in_completions FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can record check-in steps for their own appointments"
+  ON public.session_check_in_completions FOR INSERT
+  WITH CHECK (
+    auth.uid() = client_id
+    AND EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.id = appointment_id AND a.client_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Clinicians and admins can view check-in completions"
+  ON public.session_check_in_completions FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+-- Resolves the check-in steps for an appointment, most specific configuration first
+CREATE OR REPLACE FUNCTION public.get_session_check_in_steps(p_appointment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_appointment appointments%ROWTYPE;
+  v_steps JSONB;
+BEGIN
+  SELECT * INTO v_appointment FROM appointments WHERE id = p_appointment_id;
+
+  IF NOT FOUND OR NOT (
+    v_appointment.client_id = auth.uid()
+    OR v_appointment.clinician_id = auth.uid()
+    OR public.is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  SELECT c.steps INTO v_steps
+  FROM session_check_in_configs c
+  WHERE (c.clinician_id IS NULL OR c.clinician_id = v_appointment.clinician_id)
+    AND (c.appointment_type IS NULL OR c.appointment_type = v_appointment.type)
+  ORDER BY (c.clinician_id IS NOT NULL) DESC, (c.appointment_type IS NOT NULL) DESC
+  LIMIT 1;
+
+  RETURN COALESCE(v_steps, '[{"step": "phq9", "required": true}]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_session_check_in_steps(UUID) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018170000_session_check_in',
+  'Added configurable pre-session check-in steps per clinician and appointment type',
+  jsonb_build_object(
+    'tables', jsonb_build_array('session_check_in_configs', 'session_check_in_completions'),
+    'functions', jsonb_build_array('get_session_check_in_steps')
+  )
+);
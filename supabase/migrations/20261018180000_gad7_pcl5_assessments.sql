@@ -0,0 +1,165 @@
+-- GAD-7 and PCL-5 results
+-- Stored the same way as phq9_assessments: one row per administration, tied to the client,
+-- the clinician and (when taken as part of a session check-in) the appointment. The PDF
+-- copy saved to clinical_documents is referenced by pdf_path. Clients cannot update their
+-- results once submitted; attach_assessment_pdf only lets them fill in pdf_path.
+
+CREATE TABLE IF NOT EXISTS public.gad7_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID REFERENCES public.clinicians(id) ON DELETE SET NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  assessment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  question_1 SMALLINT NOT NULL CHECK (question_1 BETWEEN 0 AND 3),
+  question_2 SMALLINT NOT NULL CHECK (question_2 BETWEEN 0 AND 3),
+  question_3 SMALLINT NOT NULL CHECK (question_3 BETWEEN 0 AND 3),
+  question_4 SMALLINT NOT NULL CHECK (question_4 BETWEEN 0 AND 3),
+  question_5 SMALLINT NOT NULL CHECK (question_5 BETWEEN 0 AND 3),
+  question_6 SMALLINT NOT NULL CHECK (question_6 BETWEEN 0 AND 3),
+  question_7 SMALLINT NOT NULL CHECK (question_7 BETWEEN 0 AND 3),
+  total_score SMALLINT NOT NULL CHECK (total_score BETWEEN 0 AND 21),
+  severity TEXT,
+  additional_notes TEXT,
+  pdf_path TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.pcl5_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID REFERENCES public.clinicians(id) ON DELETE SET NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  assessment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  event_description TEXT,
+  -- Item responses 1-20, each 0 (not at all) to 4 (extremely)
+  responses SMALLINT[] NOT NULL CHECK (
+    array_length(responses, 1) = 20
+    AND 0 <= ALL (responses)
+    AND 4 >= ALL (responses)
+  ),
+  total_score SMALLINT NOT NULL CHECK (total_score BETWEEN 0 AND 80),
+  intrusion_score SMALLINT NOT NULL,
+  avoidance_score SMALLINT NOT NULL,
+  negative_alterations_score SMALLINT NOT NULL,
+  arousal_score SMALLINT NOT NULL,
+  additional_notes TEXT,
+  pdf_path TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one of each per appointment, which is what the check-in's exists checks rely on
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gad7_assessments_appointment
+  ON public.gad7_assessments (appointment_id)
+  WHERE appointment_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pcl5_assessments_appointment
+  ON public.pcl5_assessments (appointment_id)
+  WHERE appointment_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_gad7_assessments_client
+  ON public.gad7_assessments (client_id, assessment_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_pcl5_assessments_client
+  ON public.pcl5_assessments (client_id, assessment_date DESC);
+
+CREATE TRIGGER update_gad7_assessments_updated_at
+  BEFORE UPDATE ON public.gad7_assessments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_pcl5_assessments_updated_at
+  BEFORE UPDATE ON public.pcl5_assessments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.gad7_assessments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pcl5_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own GAD-7 assessments"
+  ON public.gad7_assessments FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can submit their own GAD-7 assessments"
+  ON public.gad7_assessments FOR INSERT
+  WITH CHECK (
+    auth.uid() = client_id
+    AND (
+      gad7_assessments.appointment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.id = gad7_assessments.appointment_id AND a.client_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Clinicians and admins can manage GAD-7 assessments"
+  ON public.gad7_assessments FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+CREATE POLICY "Clients can view their own PCL-5 assessments"
+  ON public.pcl5_assessments FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can submit their own PCL-5 assessments"
+  ON public.pcl5_assessments FOR INSERT
+  WITH CHECK (
+    auth.uid() = client_id
+    AND (
+      pcl5_assessments.appointment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.id = pcl5_assessments.appointment_id AND a.client_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Clinicians and admins can manage PCL-5 assessments"
+  ON public.pcl5_assessments FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+-- Links the saved PDF to an assessment. Clients can do this once for their own submission;
+-- every other column stays as submitted.
+CREATE OR REPLACE FUNCTION public.attach_assessment_pdf(
+  p_table TEXT,
+  p_assessment_id UUID,
+  p_pdf_path TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF p_table NOT IN ('gad7_assessments', 'pcl5_assessments') THEN
+    RAISE EXCEPTION 'Unsupported assessment table %', p_table;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE public.%I SET pdf_path = $1
+     WHERE id = $2
+       AND ((client_id = auth.uid() AND pdf_path IS NULL) OR public.is_admin() OR public.is_clinician(auth.uid()))',
+    p_table
+  )
+  USING p_pdf_path, p_assessment_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.attach_assessment_pdf(TEXT, UUID, TEXT) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018180000_gad7_pcl5_assessments',
+  'Added persistent storage for GAD-7 and PCL-5 results',
+  jsonb_build_object(
+    'tables', jsonb_build_array('gad7_assessments', 'pcl5_assessments'),
+    'functions', jsonb_build_array('attach_assessment_pdf')
+  )
+);
@@ -0,0 +1,237 @@
+-- Safety escalation for positive PHQ-9 item 9 responses
+-- Any answer above zero to item 9 ("thoughts that you would be better off dead, or of hurting
+-- yourself") opens a safety event, alerts the assigned clinician with a high-priority
+-- notification and marks the client 'At Risk'. This runs as a trigger so it happens no matter
+-- which screen saved the assessment. The status stays 'At Risk' until a clinician resolves
+-- every open event for the client. The client's crisis resources follow the open events, not the
+-- status, since 'At Risk' is also set for late-cancellation/no-show strikes.
+
+ALTER TABLE public.real_time_notifications
+  ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'normal'
+  CHECK (priority IN ('normal', 'high'));
+
+CREATE TABLE IF NOT EXISTS public.client_safety_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID REFERENCES public.clinicians(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'phq9_item9' CHECK (source IN ('phq9_item9')),
+  phq9_assessment_id UUID REFERENCES public.phq9_assessments(id) ON DELETE SET NULL,
+  item_score SMALLINT NOT NULL,
+  -- Status the client had before escalation, restored when the last open event is resolved
+  previous_client_status TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  resolution_notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (status = 'open' OR (resolved_at IS NOT NULL AND resolved_by IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_safety_events_client
+  ON public.client_safety_events (client_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_client_safety_events_open
+  ON public.client_safety_events (clinician_id)
+  WHERE status = 'open';
+
+CREATE TRIGGER update_client_safety_events_updated_at
+  BEFORE UPDATE ON public.client_safety_events
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Events are an audit trail: rows are only written by the trigger and the resolve RPC, and
+-- nobody can delete them
+ALTER TABLE public.client_safety_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinicians and admins can view safety events"
+  ON public.client_safety_events FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.escalate_phq9_safety_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client RECORD;
+  v_clinician_id UUID;
+  v_event_id UUID;
+  v_previous_status TEXT;
+BEGIN
+  IF COALESCE(NEW.question_9, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, client_first_name, client_preferred_name, client_last_name,
+         client_assigned_therapist, client_status
+  INTO v_client
+  FROM clients
+  WHERE id = NEW.client_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_clinician_id := NULLIF(v_client.client_assigned_therapist, '')::uuid;
+
+  -- If the client is already escalated keep the status recorded by the first open event
+  SELECT previous_client_status INTO v_previous_status
+  FROM client_safety_events
+  WHERE client_id = NEW.client_id AND status = 'open'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    v_previous_status := v_client.client_status;
+  END IF;
+
+  INSERT INTO client_safety_events (
+    client_id, clinician_id, source, phq9_assessment_id, item_score, previous_client_status
+  )
+  VALUES (
+    NEW.client_id, v_clinician_id, 'phq9_item9', NEW.id, NEW.question_9, v_previous_status
+  )
+  RETURNING id INTO v_event_id;
+
+  UPDATE clients
+  SET client_status = 'At Risk'
+  WHERE id = NEW.client_id;
+
+  IF v_clinician_id IS NOT NULL THEN
+    INSERT INTO real_time_notifications (user_id, type, message, entity_type, entity_id, priority)
+    VALUES (
+      v_clinician_id,
+      'safety_alert',
+      format(
+        'Safety alert: %s %s answered PHQ-9 item 9 with a score of %s. Please follow up.',
+        COALESCE(NULLIF(v_client.client_preferred_name, ''), v_client.client_first_name),
+        v_client.client_last_name,
+        NEW.question_9
+      ),
+      'safety_event',
+      v_event_id,
+      'high'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_phq9_assessment_safety_check
+  AFTER INSERT ON public.phq9_assessments
+  FOR EACH ROW EXECUTE FUNCTION public.escalate_phq9_safety_response();
+
+-- Lets the signed-in client know whether they have an open safety event, without exposing the
+-- events themselves
+CREATE OR REPLACE FUNCTION public.has_open_safety_event()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM client_safety_events
+    WHERE client_id = auth.uid() AND status = 'open'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_open_safety_event() TO authenticated;
+
+-- Closes a safety event. Once the client has no open events their status goes back to what it
+-- was before escalation, unless the clinician chooses a new one. A status someone changed in the
+-- meantime is left alone, and clients who reached the strike limit stay 'At Risk'.
+CREATE OR REPLACE FUNCTION public.resolve_client_safety_event(
+  p_event_id UUID,
+  p_resolution_notes TEXT,
+  p_client_status TEXT DEFAULT NULL
+)
+RETURNS public.client_safety_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event client_safety_events;
+  v_restore_status TEXT;
+  v_strikes INTEGER;
+  v_threshold INTEGER;
+BEGIN
+  IF NOT (public.is_admin() OR public.is_clinician(auth.uid())) THEN
+    RAISE EXCEPTION 'Only clinicians can resolve safety events';
+  END IF;
+
+  IF COALESCE(btrim(p_resolution_notes), '') = '' THEN
+    RAISE EXCEPTION 'Resolution notes are required';
+  END IF;
+
+  SELECT * INTO v_event
+  FROM client_safety_events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Safety event not found';
+  END IF;
+
+  IF v_event.status <> 'open' THEN
+    RAISE EXCEPTION 'This safety event has already been resolved';
+  END IF;
+
+  UPDATE client_safety_events
+  SET status = 'resolved',
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      resolution_notes = btrim(p_resolution_notes)
+  WHERE id = p_event_id
+  RETURNING * INTO v_event;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM client_safety_events
+    WHERE client_id = v_event.client_id AND status = 'open'
+  ) THEN
+    IF NULLIF(p_client_status, '') IS NOT NULL THEN
+      UPDATE clients
+      SET client_status = p_client_status
+      WHERE id = v_event.client_id;
+    ELSE
+      v_restore_status := COALESCE(v_event.previous_client_status, 'Established');
+
+      SELECT COUNT(*) INTO v_strikes
+      FROM client_policy_violations
+      WHERE client_id = v_event.client_id
+        AND status <> 'waived';
+
+      v_threshold := public.get_numeric_system_setting('client_at_risk_strike_threshold', 3)::integer;
+
+      IF v_threshold > 0 AND v_strikes >= v_threshold
+        AND v_restore_status NOT IN ('Discharged', 'Blacklist', 'Do Not Contact') THEN
+        v_restore_status := 'At Risk';
+      END IF;
+
+      UPDATE clients
+      SET client_status = v_restore_status
+      WHERE id = v_event.client_id
+        AND client_status = 'At Risk';
+    END IF;
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_client_safety_event(UUID, TEXT, TEXT) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018190000_phq9_safety_escalation',
+  'Added safety escalation for positive PHQ-9 item 9 responses',
+  jsonb_build_object(
+    'tables', jsonb_build_array('client_safety_events'),
+    'columns', jsonb_build_array('real_time_notifications.priority'),
+    'triggers', jsonb_build_array('on_phq9_assessment_safety_check'),
+    'functions', jsonb_build_array('escalate_phq9_safety_response', 'has_open_safety_event', 'resolve_client_safety_event')
+  )
+);
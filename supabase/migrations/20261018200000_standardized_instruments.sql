@@ -0,0 +1,333 @@
+-- Additional standardized instruments: AUDIT-C, C-SSRS screener and PHQ-A
+-- Questionnaires are now described declaratively in the app and rendered by one generic form.
+-- GAD-7 and PCL-5 keep their own tables; newer instruments share instrument_assessments, with
+-- answers keyed by item id. Answers to critical items (self-harm and suicide risk questions)
+-- open a safety event the same way PHQ-9 item 9 does. Which items are critical is decided here
+-- from the saved answers, never from what the client sends.
+
+CREATE TABLE IF NOT EXISTS public.instrument_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID REFERENCES public.clinicians(id) ON DELETE SET NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  instrument TEXT NOT NULL CHECK (instrument IN ('audit_c', 'cssrs_screener', 'phq_a')),
+  assessment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- { "<item id>": <answer value> } for every item that was asked
+  responses JSONB NOT NULL CHECK (jsonb_typeof(responses) = 'object'),
+  total_score SMALLINT NOT NULL CHECK (total_score >= 0),
+  severity TEXT,
+  subscale_scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- [{ "item_id": ..., "value": ..., "description": ... }] for critical items that were triggered,
+  -- filled in from responses by set_instrument_critical_items
+  critical_items JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(critical_items) = 'array'),
+  additional_notes TEXT,
+  pdf_path TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_instrument_assessments_appointment
+  ON public.instrument_assessments (appointment_id, instrument)
+  WHERE appointment_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_instrument_assessments_client
+  ON public.instrument_assessments (client_id, instrument, assessment_date DESC);
+
+CREATE TRIGGER update_instrument_assessments_updated_at
+  BEFORE UPDATE ON public.instrument_assessments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.instrument_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own instrument assessments"
+  ON public.instrument_assessments FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can submit their own instrument assessments"
+  ON public.instrument_assessments FOR INSERT
+  WITH CHECK (
+    auth.uid() = client_id
+    AND (
+      instrument_assessments.appointment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.id = instrument_assessments.appointment_id AND a.client_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Clinicians and admins can manage instrument assessments"
+  ON public.instrument_assessments FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+-- The new instruments can be configured as check-in steps
+ALTER TABLE public.session_check_in_completions
+  DROP CONSTRAINT IF EXISTS session_check_in_completions_step_check;
+
+ALTER TABLE public.session_check_in_completions
+  ADD CONSTRAINT session_check_in_completions_step_check
+  CHECK (step IN (
+    'phq9', 'gad7', 'pcl5', 'audit_c', 'cssrs_screener', 'phq_a',
+    'insurance_confirmation', 'consent_reacknowledgement'
+  ));
+
+-- Safety events can now come from any instrument's critical items
+ALTER TABLE public.client_safety_events
+  DROP CONSTRAINT IF EXISTS client_safety_events_source_check;
+
+ALTER TABLE public.client_safety_events
+  ADD CONSTRAINT client_safety_events_source_check
+  CHECK (source IN ('phq9_item9', 'instrument_critical_item'));
+
+ALTER TABLE public.client_safety_events
+  ADD COLUMN IF NOT EXISTS instrument_assessment_id UUID
+    REFERENCES public.instrument_assessments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS summary TEXT;
+
+UPDATE public.client_safety_events
+SET summary = format('Answered PHQ-9 item 9 with a score of %s', item_score)
+WHERE source = 'phq9_item9' AND summary IS NULL;
+
+-- Opens a safety event, marks the client 'At Risk' and alerts the assigned clinician.
+-- p_summary completes the sentence "<client name> ..." in the clinician's notification.
+CREATE OR REPLACE FUNCTION public.open_client_safety_event(
+  p_client_id UUID,
+  p_source TEXT,
+  p_item_score SMALLINT,
+  p_summary TEXT,
+  p_phq9_assessment_id UUID DEFAULT NULL,
+  p_instrument_assessment_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client RECORD;
+  v_clinician_id UUID;
+  v_event_id UUID;
+  v_previous_status TEXT;
+BEGIN
+  SELECT id, client_first_name, client_preferred_name, client_last_name,
+         client_assigned_therapist, client_status
+  INTO v_client
+  FROM clients
+  WHERE id = p_client_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_clinician_id := NULLIF(v_client.client_assigned_therapist, '')::uuid;
+
+  -- If the client is already escalated keep the status recorded by the first open event
+  SELECT previous_client_status INTO v_previous_status
+  FROM client_safety_events
+  WHERE client_id = p_client_id AND status = 'open'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    v_previous_status := v_client.client_status;
+  END IF;
+
+  INSERT INTO client_safety_events (
+    client_id, clinician_id, source, phq9_assessment_id, instrument_assessment_id,
+    item_score, summary, previous_client_status
+  )
+  VALUES (
+    p_client_id, v_clinician_id, p_source, p_phq9_assessment_id, p_instrument_assessment_id,
+    p_item_score, upper(left(p_summary, 1)) || substr(p_summary, 2), v_previous_status
+  )
+  RETURNING id INTO v_event_id;
+
+  UPDATE clients
+  SET client_status = 'At Risk'
+  WHERE id = p_client_id;
+
+  IF v_clinician_id IS NOT NULL THEN
+    INSERT INTO real_time_notifications (user_id, type, message, entity_type, entity_id, priority)
+    VALUES (
+      v_clinician_id,
+      'safety_alert',
+      format(
+        'Safety alert: %s %s %s. Please follow up.',
+        COALESCE(NULLIF(v_client.client_preferred_name, ''), v_client.client_first_name),
+        v_client.client_last_name,
+        p_summary
+      ),
+      'safety_event',
+      v_event_id,
+      'high'
+    );
+  END IF;
+
+  RETURN v_event_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.escalate_phq9_safety_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.question_9, 0) > 0 THEN
+    PERFORM public.open_client_safety_event(
+      NEW.client_id,
+      'phq9_item9',
+      NEW.question_9::smallint,
+      format('answered PHQ-9 item 9 with a score of %s', NEW.question_9),
+      NEW.id,
+      NULL
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Mirrors criticalItems in src/utils/instruments; an answer at or above min_value is critical
+CREATE TABLE IF NOT EXISTS public.instrument_critical_item_rules (
+  instrument TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  min_value SMALLINT NOT NULL,
+  description TEXT NOT NULL,
+  PRIMARY KEY (instrument, item_id)
+);
+
+ALTER TABLE public.instrument_critical_item_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinicians and admins can view critical item rules"
+  ON public.instrument_critical_item_rules FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+INSERT INTO public.instrument_critical_item_rules (instrument, item_id, min_value, description)
+VALUES
+  ('cssrs_screener', 'q2', 1, 'reported active suicidal thoughts in the past month on the C-SSRS screener'),
+  ('cssrs_screener', 'q6', 1, 'reported suicidal behavior on the C-SSRS screener'),
+  ('phq_a', 'q9', 1, 'answered PHQ-A item 9 (thoughts of self-harm) above zero'),
+  ('phq_a', 'serious_thoughts_past_month', 1, 'reported serious thoughts of ending their life in the past month on the PHQ-A'),
+  ('phq_a', 'lifetime_attempt', 1, 'reported a lifetime suicide attempt on the PHQ-A')
+ON CONFLICT (instrument, item_id) DO UPDATE
+SET min_value = EXCLUDED.min_value, description = EXCLUDED.description;
+
+-- Replaces whatever critical_items the client sent with the items their answers actually trigger
+CREATE OR REPLACE FUNCTION public.set_instrument_critical_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'item_id', rule.item_id,
+        'value', (NEW.responses->>rule.item_id)::numeric,
+        'description', rule.description
+      )
+      ORDER BY rule.item_id
+    ),
+    '[]'::jsonb
+  )
+  INTO NEW.critical_items
+  FROM instrument_critical_item_rules rule
+  WHERE rule.instrument = NEW.instrument
+    AND jsonb_typeof(NEW.responses->rule.item_id) = 'number'
+    AND (NEW.responses->>rule.item_id)::numeric >= rule.min_value;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_instrument_assessment_critical_items
+  BEFORE INSERT OR UPDATE OF responses, critical_items ON public.instrument_assessments
+  FOR EACH ROW EXECUTE FUNCTION public.set_instrument_critical_items();
+
+-- One event per saved assessment, listing every critical item that was triggered
+CREATE OR REPLACE FUNCTION public.escalate_instrument_critical_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_summary TEXT;
+  v_item_score SMALLINT;
+BEGIN
+  IF jsonb_array_length(NEW.critical_items) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT string_agg(item->>'description', '; '),
+         max((item->>'value')::smallint)
+  INTO v_summary, v_item_score
+  FROM jsonb_array_elements(NEW.critical_items) AS item;
+
+  PERFORM public.open_client_safety_event(
+    NEW.client_id,
+    'instrument_critical_item',
+    COALESCE(v_item_score, 1::smallint),
+    COALESCE(v_summary, 'flagged a critical item'),
+    NULL,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_instrument_assessment_safety_check
+  AFTER INSERT ON public.instrument_assessments
+  FOR EACH ROW EXECUTE FUNCTION public.escalate_instrument_critical_items();
+
+-- Same as before, now also for instrument_assessments, whose results clients cannot update either
+CREATE OR REPLACE FUNCTION public.attach_assessment_pdf(
+  p_table TEXT,
+  p_assessment_id UUID,
+  p_pdf_path TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF p_table NOT IN ('gad7_assessments', 'pcl5_assessments', 'instrument_assessments') THEN
+    RAISE EXCEPTION 'Unsupported assessment table %', p_table;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE public.%I SET pdf_path = $1
+     WHERE id = $2
+       AND ((client_id = auth.uid() AND pdf_path IS NULL) OR public.is_admin() OR public.is_clinician(auth.uid()))',
+    p_table
+  )
+  USING p_pdf_path, p_assessment_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+END;
+$$;
+
+-- Only the triggers above may open safety events
+REVOKE EXECUTE ON FUNCTION public.open_client_safety_event(UUID, TEXT, SMALLINT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018200000_standardized_instruments',
+  'Added AUDIT-C, C-SSRS screener and PHQ-A results with critical item escalation',
+  jsonb_build_object(
+    'tables', jsonb_build_array('instrument_assessments', 'instrument_critical_item_rules'),
+    'columns', jsonb_build_array('client_safety_events.instrument_assessment_id', 'client_safety_events.summary'),
+    'triggers', jsonb_build_array('set_instrument_assessment_critical_items', 'on_instrument_assessment_safety_check'),
+    'functions', jsonb_build_array('open_client_safety_event', 'escalate_phq9_safety_response', 'set_instrument_critical_items', 'escalate_instrument_critical_items', 'attach_assessment_pdf')
+  )
+);
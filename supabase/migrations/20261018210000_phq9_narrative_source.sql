@@ -0,0 +1,32 @@
+-- Template fallback for PHQ-9 narratives
+-- Narratives come either from the AI model or from the deterministic template shared by the
+-- generate-phq9-narrative function and the app. The template is used whenever the AI call
+-- fails, and always when phq9_narrative_default_source is 'template'. Which one produced a
+-- narrative is recorded next to it.
+
+INSERT INTO public.system_settings (key, value, description)
+VALUES (
+  'phq9_narrative_default_source',
+  'ai',
+  'How PHQ-9 narratives are written: ''ai'' (template used as fallback) or ''template'' (template only)'
+)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.phq9_assessments
+  ADD COLUMN IF NOT EXISTS phq9_narrative_source TEXT
+  CHECK (phq9_narrative_source IN ('template', 'ai'));
+
+-- Every narrative written before the template existed came from the AI model
+UPDATE public.phq9_assessments
+SET phq9_narrative_source = 'ai'
+WHERE phq9_narrative IS NOT NULL AND phq9_narrative_source IS NULL;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018210000_phq9_narrative_source',
+  'Added template PHQ-9 narratives and recorded the narrative source',
+  jsonb_build_object(
+    'columns', jsonb_build_array('phq9_assessments.phq9_narrative_source'),
+    'settings', jsonb_build_array('phq9_narrative_default_source')
+  )
+);
@@ -0,0 +1,121 @@
+-- Autosaved drafts for long document forms
+-- One draft per document assignment holds the in-progress answers so a client can leave a form
+-- and continue later. The version counter is bumped on every save; a save that names a stale
+-- version is rejected so two tabs editing the same form cannot silently overwrite each other.
+-- Drafts are removed once the form is submitted.
+
+CREATE TABLE IF NOT EXISTS public.document_form_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID NOT NULL UNIQUE REFERENCES public.document_assignments(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  form_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  version INTEGER NOT NULL DEFAULT 1,
+  saved_by_session TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_form_drafts_client
+  ON public.document_form_drafts (client_id);
+
+CREATE TRIGGER update_document_form_drafts_updated_at
+  BEFORE UPDATE ON public.document_form_drafts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.document_form_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through save_document_form_draft so the version check cannot be bypassed
+CREATE POLICY "Clients can view their own form drafts"
+  ON public.document_form_drafts FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can delete their own form drafts"
+  ON public.document_form_drafts FOR DELETE
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Admins can manage form drafts"
+  ON public.document_form_drafts FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Saves a draft when p_expected_version matches the stored version (NULL when no draft exists
+-- yet). On a mismatch nothing is written and the stored draft is returned so the caller can
+-- resolve the conflict.
+CREATE OR REPLACE FUNCTION public.save_document_form_draft(
+  p_assignment_id UUID,
+  p_form_data JSONB,
+  p_expected_version INTEGER DEFAULT NULL,
+  p_session_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id UUID;
+  v_draft public.document_form_drafts%ROWTYPE;
+BEGIN
+  SELECT client_id INTO v_client_id
+  FROM public.document_assignments
+  WHERE id = p_assignment_id;
+
+  IF v_client_id IS NULL THEN
+    RAISE EXCEPTION 'Document assignment % not found', p_assignment_id;
+  END IF;
+
+  IF v_client_id <> auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Not allowed to save a draft for this document';
+  END IF;
+
+  SELECT * INTO v_draft
+  FROM public.document_form_drafts
+  WHERE assignment_id = p_assignment_id
+  FOR UPDATE;
+
+  IF FOUND AND v_draft.version IS DISTINCT FROM p_expected_version THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict',
+      'version', v_draft.version,
+      'form_data', v_draft.form_data,
+      'saved_by_session', v_draft.saved_by_session,
+      'updated_at', v_draft.updated_at
+    );
+  END IF;
+
+  IF NOT FOUND AND p_expected_version IS NOT NULL THEN
+    -- The draft was cleared elsewhere (usually because the form was submitted)
+    RETURN jsonb_build_object('status', 'conflict', 'version', NULL, 'form_data', NULL);
+  END IF;
+
+  INSERT INTO public.document_form_drafts (assignment_id, client_id, form_data, version, saved_by_session)
+  VALUES (p_assignment_id, v_client_id, p_form_data, 1, p_session_id)
+  ON CONFLICT (assignment_id) DO UPDATE
+    SET form_data = EXCLUDED.form_data,
+        version = public.document_form_drafts.version + 1,
+        saved_by_session = EXCLUDED.saved_by_session
+  RETURNING * INTO v_draft;
+
+  UPDATE public.document_assignments
+  SET status = 'in_progress', updated_at = now()
+  WHERE id = p_assignment_id AND (status IS NULL OR status = 'not_started');
+
+  RETURN jsonb_build_object(
+    'status', 'saved',
+    'version', v_draft.version,
+    'updated_at', v_draft.updated_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_document_form_draft(UUID, JSONB, INTEGER, TEXT) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018220000_document_form_drafts',
+  'Added versioned autosave drafts for document forms',
+  jsonb_build_object(
+    'tables', jsonb_build_array('document_form_drafts'),
+    'functions', jsonb_build_array('save_document_form_draft')
+  )
+);
@@ -0,0 +1,171 @@
+-- Electronic signatures for consent forms
+-- Each signature is an append-only record of who signed which document and how: the signer's
+-- name and role, the typed name or drawn image, a SHA-256 hash of the document text they saw,
+-- the server time of signing, and the IP address and user agent of the request. Rows cannot be
+-- changed or removed; the only permitted update attaches the generated PDF once, after signing.
+
+CREATE TABLE IF NOT EXISTS public.document_signatures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE RESTRICT,
+  signer_user_id UUID NOT NULL,
+  signer_name TEXT NOT NULL CHECK (length(trim(signer_name)) > 0),
+  signer_role TEXT NOT NULL DEFAULT 'client' CHECK (signer_role IN ('client', 'guardian', 'clinician')),
+  document_type TEXT NOT NULL,
+  document_title TEXT NOT NULL,
+  document_version TEXT,
+  document_hash TEXT NOT NULL CHECK (document_hash ~ '^[0-9a-f]{64}$'),
+  hash_algorithm TEXT NOT NULL DEFAULT 'SHA-256',
+  signature_method TEXT NOT NULL CHECK (signature_method IN ('typed', 'drawn')),
+  signature_data TEXT NOT NULL,
+  assignment_id UUID REFERENCES public.document_assignments(id) ON DELETE SET NULL,
+  clinical_document_id UUID REFERENCES public.clinical_documents(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_signatures_client_type
+  ON public.document_signatures (client_id, document_type, signed_at DESC);
+
+ALTER TABLE public.document_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Inserts go through record_document_signature so the timestamp and IP come from the server
+CREATE POLICY "Clients can view their own signatures"
+  ON public.document_signatures FOR SELECT
+  USING (auth.uid() = client_id OR auth.uid() = signer_user_id);
+
+CREATE POLICY "Clinicians and admins can view signatures"
+  ON public.document_signatures FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+CREATE POLICY "Signers can attach the signed PDF"
+  ON public.document_signatures FOR UPDATE
+  USING (auth.uid() = signer_user_id AND clinical_document_id IS NULL)
+  WITH CHECK (auth.uid() = signer_user_id);
+
+-- Enforced for every role, including the service role: the record itself never changes.
+-- The attached PDF must be the client's own document of the same type, so a signature can't be
+-- pointed at an unrelated file. Runs as definer so the lookup isn't hidden by the signer's RLS.
+CREATE OR REPLACE FUNCTION public.prevent_document_signature_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Document signatures cannot be deleted';
+  END IF;
+
+  IF OLD.clinical_document_id IS NULL
+     AND NEW.clinical_document_id IS NOT NULL
+     AND (to_jsonb(NEW) - 'clinical_document_id') = (to_jsonb(OLD) - 'clinical_document_id') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM clinical_documents d
+      WHERE d.id = NEW.clinical_document_id
+        AND d.client_id = NEW.client_id
+        AND d.document_type = NEW.document_type
+    ) THEN
+      RAISE EXCEPTION 'The signed PDF must be a % document for the same client', NEW.document_type;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- The linked PDF may disappear through its own ON DELETE SET NULL
+  IF OLD.clinical_document_id IS NOT NULL
+     AND NEW.clinical_document_id IS NULL
+     AND NOT EXISTS (SELECT 1 FROM public.clinical_documents WHERE id = OLD.clinical_document_id)
+     AND (to_jsonb(NEW) - 'clinical_document_id') = (to_jsonb(OLD) - 'clinical_document_id') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Likewise the assignment, e.g. when staff remove it or a client's records are cleaned up
+  IF OLD.assignment_id IS NOT NULL
+     AND NEW.assignment_id IS NULL
+     AND NOT EXISTS (SELECT 1 FROM public.document_assignments WHERE id = OLD.assignment_id)
+     AND (to_jsonb(NEW) - 'assignment_id') = (to_jsonb(OLD) - 'assignment_id') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Document signatures are immutable';
+END;
+$$;
+
+CREATE TRIGGER document_signatures_immutable
+  BEFORE UPDATE OR DELETE ON public.document_signatures
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_document_signature_changes();
+
+-- Records a signature for the calling user. Clients sign their own documents; a guardian signs
+-- from the client's portal account (or is entered by a clinician), and only clinicians or
+-- admins sign as clinician.
+CREATE OR REPLACE FUNCTION public.record_document_signature(
+  p_client_id UUID,
+  p_document_type TEXT,
+  p_document_title TEXT,
+  p_document_hash TEXT,
+  p_signer_name TEXT,
+  p_signature_method TEXT,
+  p_signature_data TEXT,
+  p_signer_role TEXT DEFAULT 'client',
+  p_document_version TEXT DEFAULT NULL,
+  p_assignment_id UUID DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS public.document_signatures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSON;
+  v_ip TEXT;
+  v_signature public.document_signatures;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Signing requires an authenticated user';
+  END IF;
+
+  IF p_signer_role = 'client' AND auth.uid() <> p_client_id THEN
+    RAISE EXCEPTION 'Clients can only sign their own documents';
+  END IF;
+
+  IF p_signer_role = 'clinician' AND NOT (public.is_admin() OR public.is_clinician(auth.uid())) THEN
+    RAISE EXCEPTION 'Only clinicians can sign as clinician';
+  END IF;
+
+  IF p_signer_role = 'guardian' AND auth.uid() <> p_client_id
+     AND NOT (public.is_admin() OR public.is_clinician(auth.uid())) THEN
+    RAISE EXCEPTION 'Not allowed to sign for this client';
+  END IF;
+
+  -- PostgREST exposes the request headers; the first forwarded address is the caller
+  v_headers := nullif(current_setting('request.headers', true), '')::json;
+  v_ip := trim(split_part(coalesce(v_headers->>'x-forwarded-for', v_headers->>'x-real-ip', ''), ',', 1));
+
+  INSERT INTO public.document_signatures (
+    client_id, signer_user_id, signer_name, signer_role, document_type, document_title,
+    document_version, document_hash, signature_method, signature_data, assignment_id,
+    ip_address, user_agent
+  )
+  VALUES (
+    p_client_id, auth.uid(), trim(p_signer_name), p_signer_role, p_document_type, p_document_title,
+    p_document_version, lower(p_document_hash), p_signature_method, p_signature_data, p_assignment_id,
+    nullif(v_ip, ''), left(p_user_agent, 512)
+  )
+  RETURNING * INTO v_signature;
+
+  RETURN v_signature;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_document_signature(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT) TO authenticated;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018230000_document_signatures',
+  'Added immutable electronic signature records for consent forms',
+  jsonb_build_object(
+    'tables', jsonb_build_array('document_signatures'),
+    'functions', jsonb_build_array('record_document_signature')
+  )
+);
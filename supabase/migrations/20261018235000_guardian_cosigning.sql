@@ -0,0 +1,578 @@
+-- Guardian co-signing for minor clients
+-- A parent or guardian gets their own portal account (role 'guardian', invited by email) and is
+-- linked to the minor's clients row in client_guardians. A minor can only ask for a guardian to be
+-- linked; the invitation goes out once a clinician or admin approves it, and the link becomes
+-- active when the guardian accepts it from their portal. Assignments for minors are flagged as
+-- requiring a guardian signature, and an assignment cannot be marked completed until both the
+-- client and a linked guardian have signed it.
+
+CREATE TABLE IF NOT EXISTS public.client_guardians (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  -- Set when staff approve the link and the guardian's account is invited
+  guardian_user_id UUID,
+  -- Stored lower-cased so lookups can compare it exactly
+  guardian_email TEXT NOT NULL CHECK (guardian_email = lower(trim(guardian_email))),
+  guardian_name TEXT NOT NULL CHECK (length(trim(guardian_name)) > 0),
+  relationship TEXT NOT NULL DEFAULT 'Parent/Guardian',
+  status TEXT NOT NULL DEFAULT 'pending_approval' CHECK (status IN ('pending_approval', 'invited', 'active', 'revoked')),
+  invited_by UUID,
+  invited_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (client_id, guardian_user_id),
+  CONSTRAINT client_guardians_user_when_invited CHECK (status = 'pending_approval' OR guardian_user_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_client_guardians_client_email
+  ON public.client_guardians (client_id, guardian_email);
+
+CREATE INDEX IF NOT EXISTS idx_client_guardians_email
+  ON public.client_guardians (guardian_email);
+
+CREATE INDEX IF NOT EXISTS idx_client_guardians_guardian
+  ON public.client_guardians (guardian_user_id);
+
+ALTER TABLE public.client_guardians ENABLE ROW LEVEL SECURITY;
+
+-- Links are created by the invite-guardian edge function with the service role
+CREATE POLICY "Clients can view their guardians"
+  ON public.client_guardians FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Guardians can view their own links"
+  ON public.client_guardians FOR SELECT
+  USING (auth.uid() = guardian_user_id);
+
+CREATE POLICY "Clinicians and admins can manage guardians"
+  ON public.client_guardians FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+CREATE TRIGGER update_client_guardians_updated_at
+  BEFORE UPDATE ON public.client_guardians
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.is_guardian_of(p_client_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.client_guardians
+    WHERE client_id = p_client_id
+      AND guardian_user_id = auth.uid()
+      AND status = 'active'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_guardian_of(UUID) TO authenticated;
+
+-- Invitations waiting for the signed-in guardian to accept, with the minor they are for
+CREATE OR REPLACE FUNCTION public.get_guardian_invitations()
+RETURNS TABLE (
+  link_id UUID,
+  client_id UUID,
+  client_first_name TEXT,
+  client_last_name TEXT,
+  relationship TEXT,
+  invited_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.id, g.client_id, c.client_first_name, c.client_last_name, g.relationship, g.invited_at
+  FROM public.client_guardians g
+  JOIN public.clients c ON c.id = g.client_id
+  WHERE g.guardian_user_id = auth.uid()
+    AND g.status = 'invited'
+  ORDER BY g.invited_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_guardian_invitations() TO authenticated;
+
+-- The guardian confirms one invitation; only then can they sign for the minor
+CREATE OR REPLACE FUNCTION public.accept_guardian_invitation(p_link_id UUID)
+RETURNS public.client_guardians
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.client_guardians;
+BEGIN
+  UPDATE public.client_guardians
+  SET status = 'active', accepted_at = now()
+  WHERE id = p_link_id
+    AND guardian_user_id = auth.uid()
+    AND status = 'invited'
+  RETURNING * INTO v_link;
+
+  IF v_link.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation % is not pending for this user', p_link_id;
+  END IF;
+
+  RETURN v_link;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_guardian_invitation(UUID) TO authenticated;
+
+-- Assignments created for a minor need a guardian signature as well as the client's
+ALTER TABLE public.document_assignments
+  ADD COLUMN IF NOT EXISTS requires_guardian_signature BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.set_assignment_guardian_requirement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.clients WHERE id = NEW.client_id AND client_minor = 'Yes') THEN
+    NEW.requires_guardian_signature := true;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER document_assignments_guardian_requirement
+  BEFORE INSERT ON public.document_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.set_assignment_guardian_requirement();
+
+UPDATE public.document_assignments a
+SET requires_guardian_signature = true
+FROM public.clients c
+WHERE c.id = a.client_id
+  AND c.client_minor = 'Yes'
+  AND a.status IS DISTINCT FROM 'completed';
+
+-- Roles that still have to sign an assignment before it can be completed
+CREATE OR REPLACE FUNCTION public.missing_assignment_signatures(p_assignment_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(required.role), ARRAY[]::TEXT[])
+  FROM public.document_assignments a
+  CROSS JOIN LATERAL unnest(
+    CASE WHEN a.requires_guardian_signature THEN ARRAY['client', 'guardian'] ELSE ARRAY[]::TEXT[] END
+  ) AS required(role)
+  WHERE a.id = p_assignment_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.document_signatures s
+      WHERE s.assignment_id = a.id AND s.signer_role = required.role
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_assignment_signatures()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_missing TEXT[];
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' AND NEW.requires_guardian_signature THEN
+    v_missing := public.missing_assignment_signatures(NEW.id);
+    IF array_length(v_missing, 1) > 0 THEN
+      RAISE EXCEPTION 'Assignment % is missing required signatures: %', NEW.id, array_to_string(v_missing, ', ');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER document_assignments_require_signatures
+  BEFORE UPDATE OF status ON public.document_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_assignment_signatures();
+
+-- Guardians see the assignments of the minors they are linked to, with their own signature state
+CREATE OR REPLACE FUNCTION public.get_guardian_assignments()
+RETURNS TABLE (
+  assignment_id UUID,
+  client_id UUID,
+  client_first_name TEXT,
+  client_last_name TEXT,
+  document_name TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  guardian_signed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.client_id,
+    c.client_first_name,
+    c.client_last_name,
+    a.document_name,
+    a.status,
+    a.created_at,
+    (
+      SELECT max(s.signed_at) FROM public.document_signatures s
+      WHERE s.assignment_id = a.id AND s.signer_role = 'guardian'
+    )
+  FROM public.document_assignments a
+  JOIN public.clients c ON c.id = a.client_id
+  WHERE a.requires_guardian_signature
+    AND public.is_guardian_of(a.client_id)
+  ORDER BY a.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_guardian_assignments() TO authenticated;
+
+-- Same as before, except a guardian must now be linked to the client through client_guardians
+CREATE OR REPLACE FUNCTION public.record_document_signature(
+  p_client_id UUID,
+  p_document_type TEXT,
+  p_document_title TEXT,
+  p_document_hash TEXT,
+  p_signer_name TEXT,
+  p_signature_method TEXT,
+  p_signature_data TEXT,
+  p_signer_role TEXT DEFAULT 'client',
+  p_document_version TEXT DEFAULT NULL,
+  p_assignment_id UUID DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS public.document_signatures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSON;
+  v_ip TEXT;
+  v_signature public.document_signatures;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Signing requires an authenticated user';
+  END IF;
+
+  IF p_signer_role = 'client' AND auth.uid() <> p_client_id THEN
+    RAISE EXCEPTION 'Clients can only sign their own documents';
+  END IF;
+
+  IF p_signer_role = 'clinician' AND NOT (public.is_admin() OR public.is_clinician(auth.uid())) THEN
+    RAISE EXCEPTION 'Only clinicians can sign as clinician';
+  END IF;
+
+  IF p_signer_role = 'guardian' AND NOT public.is_guardian_of(p_client_id) THEN
+    RAISE EXCEPTION 'Only a linked parent or guardian can sign for this client';
+  END IF;
+
+  IF p_assignment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.document_assignments WHERE id = p_assignment_id AND client_id = p_client_id
+  ) THEN
+    RAISE EXCEPTION 'Assignment % does not belong to this client', p_assignment_id;
+  END IF;
+
+  -- PostgREST exposes the request headers; the first forwarded address is the caller
+  v_headers := nullif(current_setting('request.headers', true), '')::json;
+  v_ip := trim(split_part(coalesce(v_headers->>'x-forwarded-for', v_headers->>'x-real-ip', ''), ',', 1));
+
+  INSERT INTO public.document_signatures (
+    client_id, signer_user_id, signer_name, signer_role, document_type, document_title,
+    document_version, document_hash, signature_method, signature_data, assignment_id,
+    ip_address, user_agent
+  )
+  VALUES (
+    p_client_id, auth.uid(), trim(p_signer_name), p_signer_role, p_document_type, p_document_title,
+    p_document_version, lower(p_document_hash), p_signature_method, p_signature_data, p_assignment_id,
+    nullif(v_ip, ''), left(p_user_agent, 512)
+  )
+  RETURNING * INTO v_signature;
+
+  RETURN v_signature;
+END;
+$$;
+
+-- Accept the 'guardian' role at sign-up instead of coercing it to 'client'
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_role text;
+  v_first_name text;
+  v_last_name text;
+  v_phone text;
+  v_state text;
+  v_temp_password text;
+  v_preferred_name text;
+  v_client_status text;
+  v_metadata jsonb;
+  v_step text;
+BEGIN
+  -- Log the start of the trigger
+  INSERT INTO public.migration_logs (
+    migration_name,
+    description,
+    details
+  ) VALUES (
+    'handle_new_user_trigger',
+    'Starting user creation process',
+    jsonb_build_object(
+      'user_id', NEW.id,
+      'email', NEW.email,
+      'raw_metadata', NEW.raw_user_meta_data
+    )
+  );
+  
+  -- Step 1: Extract metadata
+  v_step := 'extracting_metadata';
+  v_metadata := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  
+  -- Extract fields with detailed logging
+  v_role := COALESCE(v_metadata->>'role', 'client');
+  v_first_name := v_metadata->>'first_name';
+  v_last_name := v_metadata->>'last_name';
+  v_preferred_name := v_metadata->>'preferred_name';
+  v_phone := v_metadata->>'phone';
+  v_state := v_metadata->>'state';
+  v_temp_password := v_metadata->>'temp_password';
+  v_client_status := COALESCE(v_metadata->>'client_status', 'New');
+  
+  -- Log extracted values
+  INSERT INTO public.migration_logs (
+    migration_name,
+    description,
+    details
+  ) VALUES (
+    'handle_new_user_trigger',
+    'Extracted user metadata',
+    jsonb_build_object(
+      'user_id', NEW.id,
+      'extracted_role', v_role,
+      'extracted_first_name', v_first_name,
+      'extracted_last_name', v_last_name,
+      'extracted_preferred_name', v_preferred_name,
+      'extracted_phone', v_phone,
+      'extracted_state', v_state,
+      'extracted_client_status', v_client_status
+    )
+  );
+  
+  -- Step 2: Validate and set role
+  v_step := 'validating_role';
+  IF v_role IS NULL OR v_role NOT IN ('admin', 'clinician', 'client', 'guardian') THEN
+    v_role := 'client';
+    
+    -- Update user metadata to include the corrected role
+    UPDATE auth.users
+    SET raw_user_meta_data = v_metadata || jsonb_build_object('role', 'client')
+    WHERE id = NEW.id;
+    
+    INSERT INTO public.migration_logs (
+      migration_name,
+      description,
+      details
+    ) VALUES (
+      'handle_new_user_trigger',
+      'Corrected invalid role to client',
+      jsonb_build_object('user_id', NEW.id, 'original_role', v_metadata->>'role')
+    );
+  END IF;
+  
+  -- Step 3: Create role-specific records
+  v_step := 'creating_role_record';
+  
+  IF v_role = 'admin' THEN
+    INSERT INTO public.admins (
+      id,
+      admin_email,
+      admin_first_name,
+      admin_last_name,
+      admin_phone,
+      admin_status
+    )
+    VALUES (
+      NEW.id,
+      NEW.email,
+      v_first_name,
+      v_last_name,
+      v_phone,
+      'Active'
+    );
+    
+    INSERT INTO public.migration_logs (
+      migration_name,
+      description,
+      details
+    ) VALUES (
+      'handle_new_user_trigger',
+      'Admin record created successfully',
+      jsonb_build_object(
+        'user_id', NEW.id,
+        'admin_email', NEW.email,
+        'admin_first_name', v_first_name,
+        'admin_last_name', v_last_name
+      )
+    );
+    
+  ELSIF v_role = 'clinician' THEN
+    INSERT INTO public.clinicians (
+      id,
+      clinician_email,
+      clinician_first_name,
+      clinician_last_name,
+      clinician_phone,
+      clinician_status
+    )
+    VALUES (
+      NEW.id,
+      NEW.email,
+      v_first_name,
+      v_last_name,
+      v_phone,
+      'New'::clinician_status_enum
+    );
+    
+    INSERT INTO public.migration_logs (
+      migration_name,
+      description,
+      details
+    ) VALUES (
+      'handle_new_user_trigger',
+      'Clinician record created successfully',
+      jsonb_build_object(
+        'user_id', NEW.id,
+        'clinician_email', NEW.email,
+        'clinician_first_name', v_first_name,
+        'clinician_last_name', v_last_name
+      )
+    );
+    
+  ELSIF v_role = 'client' THEN
+    -- Insert into clients table with explicit type casting
+    INSERT INTO public.clients (
+      id,
+      client_email,
+      client_first_name,
+      client_last_name,
+      client_preferred_name,
+      client_phone,
+      role,
+      client_state,
+      client_status,
+      client_temppassword
+    )
+    VALUES (
+      NEW.id,
+      NEW.email,
+      v_first_name,
+      v_last_name,
+      v_preferred_name,
+      v_phone,
+      'client'::public.app_role,
+      v_state,
+      v_client_status,
+      v_temp_password
+    );
+    
+    INSERT INTO public.migration_logs (
+      migration_name,
+      description,
+      details
+    ) VALUES (
+      'handle_new_user_trigger',
+      'Client record created successfully',
+      jsonb_build_object(
+        'user_id', NEW.id,
+        'client_email', NEW.email,
+        'client_first_name', v_first_name,
+        'client_last_name', v_last_name,
+        'client_preferred_name', v_preferred_name,
+        'client_phone', v_phone,
+        'client_state', v_state,
+        'client_status', v_client_status
+      )
+    );
+
+  ELSIF v_role = 'guardian' THEN
+    -- Guardians have no profile of their own; staff-approved invitations link them to the minor's record
+    INSERT INTO public.migration_logs (
+      migration_name,
+      description,
+      details
+    ) VALUES (
+      'handle_new_user_trigger',
+      'Guardian account created',
+      jsonb_build_object(
+        'user_id', NEW.id,
+        'guardian_email', NEW.email
+      )
+    );
+  END IF;
+  
+  -- Final success log
+  INSERT INTO public.migration_logs (
+    migration_name,
+    description,
+    details
+  ) VALUES (
+    'handle_new_user_trigger',
+    'User creation completed successfully',
+    jsonb_build_object(
+      'user_id', NEW.id,
+      'email', NEW.email,
+      'role', v_role,
+      'step_completed', 'all_steps'
+    )
+  );
+  
+  RETURN NEW;
+  
+EXCEPTION WHEN OTHERS THEN
+  -- Log the error with full context
+  INSERT INTO public.migration_logs (
+    migration_name,
+    description,
+    details
+  ) VALUES (
+    'handle_new_user_trigger',
+    'ERROR in user creation process',
+    jsonb_build_object(
+      'user_id', NEW.id,
+      'email', NEW.email,
+      'error_step', v_step,
+      'error_message', SQLERRM,
+      'error_detail', SQLSTATE,
+      'extracted_data', jsonb_build_object(
+        'role', v_role,
+        'first_name', v_first_name,
+        'last_name', v_last_name,
+        'phone', v_phone,
+        'state', v_state
+      )
+    )
+  );
+  
+  -- Re-raise the error so signup fails if there's a problem
+  RAISE;
+END;
+$$;
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261018235000_guardian_cosigning',
+  'Added guardian accounts and required guardian co-signatures for minor clients',
+  jsonb_build_object(
+    'tables', jsonb_build_array('client_guardians'),
+    'columns', jsonb_build_array('document_assignments.requires_guardian_signature'),
+    'functions', jsonb_build_array('is_guardian_of', 'get_guardian_invitations', 'accept_guardian_invitation', 'missing_assignment_signatures', 'get_guardian_assignments', 'record_document_signature', 'handle_new_user')
+  )
+);
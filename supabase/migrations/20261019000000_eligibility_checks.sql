@@ -0,0 +1,29 @@
+-- Client-initiated insurance eligibility checks
+-- The verify-eligibility edge function runs Claim.MD eligibility requests and records every
+-- attempt in eligibility_audit with the service role. Clients can read the audit rows for their
+-- own policies so the Insurance tab can show their last result; staff can read all of them.
+
+CREATE INDEX IF NOT EXISTS idx_eligibility_audit_client_level
+  ON public.eligibility_audit (client_id, insurance_level, created_at DESC);
+
+ALTER TABLE public.eligibility_audit ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clients can view their own eligibility checks" ON public.eligibility_audit;
+CREATE POLICY "Clients can view their own eligibility checks"
+  ON public.eligibility_audit FOR SELECT
+  USING (auth.uid() = client_id);
+
+DROP POLICY IF EXISTS "Clinicians and admins can view eligibility checks" ON public.eligibility_audit;
+CREATE POLICY "Clinicians and admins can view eligibility checks"
+  ON public.eligibility_audit FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261019000000_eligibility_checks',
+  'Let clients read their own eligibility checks run from the Insurance tab',
+  jsonb_build_object(
+    'tables', jsonb_build_array('eligibility_audit'),
+    'policies', jsonb_build_array('Clients can view their own eligibility checks', 'Clinicians and admins can view eligibility checks')
+  )
+);
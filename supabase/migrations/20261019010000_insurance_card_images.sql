@@ -0,0 +1,109 @@
+-- Photos of the front and back of clients' insurance cards
+-- Images live in the private insurance_cards bucket under <client_id>/<insurance_level>/, each
+-- with a small thumbnail. Uploading a new photo for a side keeps the old row as history: it is
+-- stamped with replaced_at and the id of the photo that replaced it. A policy counts as complete
+-- once both sides have a current photo.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('insurance_cards', 'insurance_cards', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.insurance_card_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  insurance_level TEXT NOT NULL CHECK (insurance_level IN ('primary', 'secondary', 'tertiary')),
+  side TEXT NOT NULL CHECK (side IN ('front', 'back')),
+  file_path TEXT NOT NULL,
+  thumbnail_path TEXT,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  uploaded_by UUID NOT NULL DEFAULT auth.uid(),
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  replaced_at TIMESTAMPTZ,
+  replaced_by UUID REFERENCES public.insurance_card_images(id) DEFERRABLE INITIALLY DEFERRED
+);
+
+-- One current photo per side of each policy
+CREATE UNIQUE INDEX IF NOT EXISTS idx_insurance_card_images_current
+  ON public.insurance_card_images (client_id, insurance_level, side)
+  WHERE replaced_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_insurance_card_images_client
+  ON public.insurance_card_images (client_id, uploaded_at DESC);
+
+ALTER TABLE public.insurance_card_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own insurance cards"
+  ON public.insurance_card_images FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can upload their own insurance cards"
+  ON public.insurance_card_images FOR INSERT
+  WITH CHECK (
+    auth.uid() = client_id
+    AND uploaded_by = auth.uid()
+    AND replaced_at IS NULL
+    AND split_part(file_path, '/', 1) = client_id::text
+    AND split_part(file_path, '/', 2) = insurance_level
+  );
+
+CREATE POLICY "Clinicians and admins can view insurance cards"
+  ON public.insurance_card_images FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+-- A new photo retires the current one for the same side instead of overwriting it
+CREATE OR REPLACE FUNCTION public.retire_replaced_insurance_card()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE insurance_card_images
+  SET replaced_at = NEW.uploaded_at,
+      replaced_by = NEW.id
+  WHERE client_id = NEW.client_id
+    AND insurance_level = NEW.insurance_level
+    AND side = NEW.side
+    AND replaced_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS retire_replaced_insurance_card ON public.insurance_card_images;
+CREATE TRIGGER retire_replaced_insurance_card
+  BEFORE INSERT ON public.insurance_card_images
+  FOR EACH ROW EXECUTE FUNCTION public.retire_replaced_insurance_card();
+
+-- Storage: clients read and upload under <client_id>/; staff can read every client's cards
+CREATE POLICY "Clients can read their insurance card images"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'insurance_cards'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Clients can upload their insurance card images"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'insurance_cards'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Clinicians and admins can read insurance card images"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'insurance_cards'
+    AND (public.is_admin() OR public.is_clinician(auth.uid()))
+  );
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261019010000_insurance_card_images',
+  'Added insurance card photo uploads with replacement history',
+  jsonb_build_object(
+    'tables', jsonb_build_array('insurance_card_images'),
+    'buckets', jsonb_build_array('insurance_cards'),
+    'functions', jsonb_build_array('retire_replaced_insurance_card')
+  )
+);
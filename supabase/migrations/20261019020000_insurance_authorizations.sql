@@ -0,0 +1,138 @@
+-- Referrals and authorizations that limit how many visits a payer covers
+-- Staff record each TRICARE referral with its authorized visit count, date range and region.
+-- A trigger on appointments counts a visit against the client's covering authorization when a
+-- session is marked 'documented' and gives it back if the status is changed again, so the
+-- remaining count stays right whether the note is written from the clinician or admin side.
+-- insurance_authorization_visits records which appointment used which authorization.
+
+CREATE TABLE IF NOT EXISTS public.insurance_authorizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  program TEXT NOT NULL CHECK (program IN ('tricare')),
+  authorization_number TEXT NOT NULL,
+  region TEXT CHECK (region IN ('TRICARE East', 'TRICARE West', 'TRICARE Overseas')),
+  authorized_visits INTEGER NOT NULL CHECK (authorized_visits > 0),
+  -- Starts above zero when part of the referral was used before the client came to the practice
+  visits_used INTEGER NOT NULL DEFAULT 0 CHECK (visits_used >= 0),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  UNIQUE (client_id, program, authorization_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_insurance_authorizations_client
+  ON public.insurance_authorizations (client_id, end_date DESC);
+
+CREATE TRIGGER update_insurance_authorizations_updated_at
+  BEFORE UPDATE ON public.insurance_authorizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.insurance_authorization_visits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  authorization_id UUID NOT NULL REFERENCES public.insurance_authorizations(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL UNIQUE REFERENCES public.appointments(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_insurance_authorization_visits_authorization
+  ON public.insurance_authorization_visits (authorization_id);
+
+ALTER TABLE public.insurance_authorizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.insurance_authorization_visits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own authorizations"
+  ON public.insurance_authorizations FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clinicians and admins can manage authorizations"
+  ON public.insurance_authorizations FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+CREATE POLICY "Clients can view their own authorization visits"
+  ON public.insurance_authorization_visits FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clinicians and admins can view authorization visits"
+  ON public.insurance_authorization_visits FOR SELECT
+  USING (public.is_admin() OR public.is_clinician(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.apply_authorization_visit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_authorization_id UUID;
+  v_time_zone TEXT;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'documented' THEN
+    -- Authorization dates are calendar days for the client, so the session is dated in their zone
+    SELECT tz.name INTO v_time_zone
+    FROM clients c
+    JOIN pg_timezone_names tz ON tz.name = c.client_time_zone
+    WHERE c.id = NEW.client_id;
+
+    -- The authorization covering the session date that runs out first
+    SELECT id INTO v_authorization_id
+    FROM insurance_authorizations
+    WHERE client_id = NEW.client_id
+      AND (NEW.start_at AT TIME ZONE COALESCE(v_time_zone, 'UTC'))::date BETWEEN start_date AND end_date
+      AND visits_used < authorized_visits
+    ORDER BY end_date, start_date
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_authorization_id IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO insurance_authorization_visits (authorization_id, appointment_id, client_id)
+    VALUES (v_authorization_id, NEW.id, NEW.client_id)
+    ON CONFLICT (appointment_id) DO NOTHING;
+
+    IF FOUND THEN
+      UPDATE insurance_authorizations
+      SET visits_used = visits_used + 1
+      WHERE id = v_authorization_id;
+    END IF;
+  ELSIF OLD.status = 'documented' THEN
+    DELETE FROM insurance_authorization_visits
+    WHERE appointment_id = NEW.id
+    RETURNING authorization_id INTO v_authorization_id;
+
+    IF v_authorization_id IS NOT NULL THEN
+      UPDATE insurance_authorizations
+      SET visits_used = GREATEST(visits_used - 1, 0)
+      WHERE id = v_authorization_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_authorization_visit_on_status_change ON public.appointments;
+CREATE TRIGGER apply_authorization_visit_on_status_change
+  AFTER UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.apply_authorization_visit();
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261019020000_insurance_authorizations',
+  'Added TRICARE referral tracking with visits counted as sessions are documented',
+  jsonb_build_object(
+    'tables', jsonb_build_array('insurance_authorizations', 'insurance_authorization_visits'),
+    'functions', jsonb_build_array('apply_authorization_visit'),
+    'triggers', jsonb_build_array('apply_authorization_visit_on_status_change')
+  )
+);
@@ -0,0 +1,140 @@
+-- VA Community Care (CCN) authorizations and renewal requests
+-- CCN referrals are tracked as insurance_authorizations with program 'va_ccn' and the SEOC
+-- (standardized episode of care) number the VA approved. Clients can ask for a renewal as the
+-- authorization runs low; staff mark the request as sent to the VA and record the decision.
+-- A trigger on appointments stops clients from booking or moving a session past the end of
+-- their CCN authorization. Staff scheduling is not affected.
+
+ALTER TABLE public.insurance_authorizations
+  DROP CONSTRAINT IF EXISTS insurance_authorizations_program_check;
+
+ALTER TABLE public.insurance_authorizations
+  ADD CONSTRAINT insurance_authorizations_program_check CHECK (program IN ('tricare', 'va_ccn'));
+
+ALTER TABLE public.insurance_authorizations
+  ADD COLUMN IF NOT EXISTS seoc_number TEXT;
+
+ALTER TABLE public.insurance_authorizations
+  ADD CONSTRAINT insurance_authorizations_seoc_required CHECK (program <> 'va_ccn' OR seoc_number IS NOT NULL);
+
+CREATE TABLE IF NOT EXISTS public.authorization_renewal_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  authorization_id UUID NOT NULL REFERENCES public.insurance_authorizations(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL DEFAULT auth.uid(),
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'submitted', 'approved', 'denied')),
+  staff_notes TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One renewal in progress per authorization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_authorization_renewal_requests_open
+  ON public.authorization_renewal_requests (authorization_id)
+  WHERE status IN ('requested', 'submitted');
+
+CREATE INDEX IF NOT EXISTS idx_authorization_renewal_requests_client
+  ON public.authorization_renewal_requests (client_id, created_at DESC);
+
+CREATE TRIGGER update_authorization_renewal_requests_updated_at
+  BEFORE UPDATE ON public.authorization_renewal_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.authorization_renewal_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own renewal requests"
+  ON public.authorization_renewal_requests FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can request renewals of their own authorizations"
+  ON public.authorization_renewal_requests FOR INSERT
+  WITH CHECK (
+    auth.uid() = client_id
+    AND requested_by = auth.uid()
+    AND status = 'requested'
+    AND staff_notes IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.insurance_authorizations a
+      WHERE a.id = authorization_id AND a.client_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Clinicians and admins can manage renewal requests"
+  ON public.authorization_renewal_requests FOR ALL
+  USING (public.is_admin() OR public.is_clinician(auth.uid()))
+  WITH CHECK (public.is_admin() OR public.is_clinician(auth.uid()));
+
+-- Clients with CCN authorizations on file can only self-schedule inside one of them. Clients
+-- without any are left alone until staff have recorded their referral.
+CREATE OR REPLACE FUNCTION public.enforce_ccn_authorization_for_self_scheduling()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_client_time_zone TEXT;
+  v_time_zone TEXT;
+  v_session_date DATE;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM NEW.client_id OR NEW.status <> 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.start_at IS NOT DISTINCT FROM OLD.start_at THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT client_time_zone INTO v_client_time_zone
+  FROM clients
+  WHERE id = NEW.client_id
+    AND client_vacoverage = 'VA Community Care';
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM insurance_authorizations
+    WHERE client_id = NEW.client_id
+      AND program = 'va_ccn'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Authorization dates are calendar days for the client, so the session is dated in their
+  -- zone (an evening session must not count as the next UTC day)
+  SELECT name INTO v_time_zone FROM pg_timezone_names WHERE name = v_client_time_zone;
+  v_session_date := (NEW.start_at AT TIME ZONE COALESCE(v_time_zone, 'UTC'))::date;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM insurance_authorizations
+    WHERE client_id = NEW.client_id
+      AND program = 'va_ccn'
+      AND v_session_date BETWEEN start_date AND end_date
+  ) THEN
+    RAISE EXCEPTION 'Your VA Community Care authorization does not cover this date'
+      USING ERRCODE = 'P0001', HINT = 'authorization_expired';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_ccn_authorization_on_self_scheduling ON public.appointments;
+CREATE TRIGGER enforce_ccn_authorization_on_self_scheduling
+  BEFORE INSERT OR UPDATE OF start_at ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_ccn_authorization_for_self_scheduling();
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261019030000_va_ccn_authorizations',
+  'Added VA Community Care authorizations with renewal requests and self-scheduling limits',
+  jsonb_build_object(
+    'tables', jsonb_build_array('insurance_authorizations', 'authorization_renewal_requests'),
+    'columns', jsonb_build_array('insurance_authorizations.seoc_number'),
+    'functions', jsonb_build_array('enforce_ccn_authorization_for_self_scheduling'),
+    'triggers', jsonb_build_array('enforce_ccn_authorization_on_self_scheduling')
+  )
+);
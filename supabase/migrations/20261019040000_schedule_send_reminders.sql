@@ -0,0 +1,55 @@
+-- Runs the send-reminders edge function every 15 minutes
+-- The function only accepts the service role key, which is read from Vault (secret name
+-- 'service_role_key') when the job runs so it never appears in cron.job. The project URL
+-- comes from app.settings.supabase_url, as in trigger_send_welcome_email.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.invoke_send_reminders()
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_supabase_url TEXT;
+  v_service_key TEXT;
+BEGIN
+  v_supabase_url := COALESCE(
+    NULLIF(current_setting('app.settings.supabase_url', true), ''),
+    'https://gqlkritspnhjxfejvgfg.supabase.co'
+  );
+
+  SELECT decrypted_secret INTO v_service_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF v_service_key IS NULL THEN
+    RAISE EXCEPTION 'Vault secret service_role_key is not set';
+  END IF;
+
+  RETURN net.http_post(
+    url := v_supabase_url || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_send_reminders() FROM PUBLIC, anon, authenticated;
+
+-- cron.schedule replaces an existing job with the same name, so re-running is safe
+SELECT cron.schedule('send-reminders', '*/15 * * * *', 'SELECT public.invoke_send_reminders()');
+
+INSERT INTO public.migration_logs (migration_name, description, details)
+VALUES (
+  '20261019040000_schedule_send_reminders',
+  'Scheduled the send-reminders edge function every 15 minutes with pg_cron',
+  jsonb_build_object(
+    'functions', jsonb_build_array('invoke_send_reminders'),
+    'cron_jobs', jsonb_build_array('send-reminders')
+  )
+);